@@ -4,6 +4,7 @@ import DashboardApp, { type InnerView } from './DashboardApp'
 type ViewState =
   | { type: 'dashboard' }
   | { type: 'clientDashboard' }
+  | { type: 'analytics' }
   | { type: 'addClient' }
   | { type: 'playbookIndex' }
   | { type: 'playbookDetail'; slug: string }
@@ -19,6 +20,7 @@ function parseHash(hash: string | undefined | null): ViewState {
   const segments = normalized.split('/').filter(Boolean)
   if (segments.length === 0) return { type: 'dashboard' }
   if (segments[0] === 'client-dashboard') return { type: 'clientDashboard' }
+  if (segments[0] === 'analytics') return { type: 'analytics' }
   if (segments[0] === 'add-client') return { type: 'addClient' }
   if (segments[0] === 'assign-legs') return { type: 'assignLegs' }
   if (segments[0] === 'map-csv') return { type: 'mapCSV' }
@@ -64,6 +66,7 @@ export default function App() {
   const goOptionsChain = React.useCallback(() => navigate('#/options-chain'), [navigate])
   const goStructureDetail = React.useCallback((id: string) => navigate(`#/structure/${encodeURIComponent(id)}`), [navigate])
   const goClientDashboard = React.useCallback(() => navigate('#/client-dashboard'), [navigate])
+  const goAnalytics = React.useCallback(() => navigate('#/analytics'), [navigate])
   const goAddClient = React.useCallback(() => navigate('#/add-client'), [navigate])
   const goDashboard = React.useCallback(() => { window.location.hash = '' }, [])
 
@@ -74,6 +77,7 @@ export default function App() {
     view.type === 'optionsChain' ? 'optionsChain' :
     view.type === 'playbookIndex' ? 'playbookIndex' :
     view.type === 'clientDashboard' ? 'clientDashboard' :
+    view.type === 'analytics' ? 'analytics' :
     view.type === 'addClient' ? 'addClient' :
     view.type === 'playbookDetail' ? { type: 'playbookDetail', slug: view.slug } :
     view.type === 'structureDetail' ? { type: 'structureDetail', id: view.id } :
@@ -90,6 +94,7 @@ export default function App() {
       onOpenOptionsChain={goOptionsChain}
       onOpenStructureDetail={goStructureDetail}
       onNavigateClientDashboard={goClientDashboard}
+      onNavigateAnalytics={goAnalytics}
       onNavigateAddClient={goAddClient}
       onNavigateDashboard={goDashboard}
     />
@@ -10,18 +10,23 @@ import { SupabaseLogin } from './features/auth/SupabaseLogin'
 import { useAuth } from './features/auth/useAuth'
 import { tryGetSupabaseClient } from './lib/supabase'
 import {
-  Position, TxnRow, Lot, Leg, MarksMap,
+  Position, TxnRow, Lot, Leg, MarksMap, PricingContext,
   useLocalStorage, devQuickTests,
   parseActionSide, toNumber, parseInstrumentByExchange, normalizeSecond,
   daysTo, daysSince, fifoMatchAndRealize, classifyStatus, calculatePnlPct,
-  Exchange, getLegMarkRef, fmtGreek, legGreekExposure, toDeribitInstrument,
+  Exchange, getLegMarkRef, LegMarkRef, markMultiplier, fmtGreek, legGreekExposure, legGreeks, toDeribitInstrument,
   positionGreeks, positionUnrealizedPnL, formatInstrumentLabel, legUnrealizedPnL, fmtPremium
 } from './utils'
 import { PositionRow } from './components/PositionRow'
 import { PlaybookDrawer } from './components/PlaybookDrawer'
-import { dbGetTicker, dbGetInstruments, dbGetInstrumentsByExpiry, type ChainInstrument, type DeribitTickerResult } from './lib/venues/deribit'
+import { DERIBIT_OPTION_CURRENCIES, dbGetTicker, dbGetInstruments, dbGetInstrumentsByExpiry, deribitOptionBook, type ChainInstrument, type DeribitTickerResult } from './lib/venues/deribit'
 import { OptionsChain } from './components/OptionsChain'
-import { fetchDeribitMarks } from './lib/venues/fetchLiveMarks'
+import { VolSurfacePanel } from './features/volSurface/VolSurfacePanel'
+import { surfaceVolAt, type VolSurface } from './lib/volSurface'
+import { fetchLiveMarks } from './lib/venues/fetchLiveMarks'
+import { saveMarkSnapshots, type MarkSnapshotSource } from './lib/marks'
+import { useDeribitMarkStream } from './lib/venues/useDeribitMarkStream'
+import type { MarkStreamStatus } from './lib/venues/deribitStream'
 import { DashboardHeader } from './components/DashboardHeader'
 import { ExpiryDatePicker } from './components/ExpiryDatePicker'
 import { ViewSelector, type ActiveView } from './components/ViewSelector'
@@ -31,8 +36,8 @@ import { Spinner } from './components/Spinner'
 import { ColumnPicker } from './components/ColumnPicker'
 import { PositionTableHead } from './components/PositionTableHead'
 import { SortHeader } from './components/SortHeader'
-import { RefreshCw, TrendingUp, Upload, GanttChart, Inbox, HardDrive } from 'lucide-react'
-import { Button } from './components/ui'
+import { RefreshCw, TrendingUp, Upload, GanttChart, Inbox, HardDrive, Radio } from 'lucide-react'
+import { Button, SegmentedControl } from './components/ui'
 import {
   archiveStructure,
   fetchSavedStructures,
@@ -44,11 +49,25 @@ import {
   buildStructureChipSummary,
   buildStructureSummaryLines,
   fetchProgramPlaybooks,
+  saveProgramPlaybookRules,
+  evaluatePlaybookRules,
+  statusWithSignals,
+  classifyLiveStatus,
+  rollStructure,
+  rollChain,
+  fetchDeliveryPrices,
+  planExpirySettlement,
+  settleExpiredStructures,
+  PNL_CURRENCIES,
+  isPnlCurrency,
   filterDuplicateRows,
   fetchUnprocessedImports,
   fetchPrograms,
   type ProgramPlaybook,
   type ProgramOption,
+  type PlaybookRule,
+  type RuleSignal,
+  type PnlCurrency,
 } from './lib/positions'
 import { StructureDetailsOverlay, type StructureSummary, type StructureMetadata, type StrategyOption } from './components/StructureDetailsOverlay'
 import { resolveClientAccess } from './features/auth/access'
@@ -65,6 +84,10 @@ import { StructureDetailPage } from './features/structureDetail/StructureDetailP
 import { ClientDashboardPage } from './features/clientDashboard/ClientDashboardPage'
 import { ReconcilePage } from './features/reconcile/ReconcilePage'
 import ClientManagementPage from './features/clients/ClientManagementPage'
+import { AnalyticsPage } from './features/analytics/AnalyticsPage'
+import { usePortfolioDataHub } from './features/clientPortal/usePortfolioDataHub'
+import { overviewMargin } from './features/clientPortal/dashboard/marginModel'
+import { candidateLegsFromRows } from './lib/margin'
 
 export type InnerView =
   | 'mapCSV'
@@ -73,6 +96,7 @@ export type InnerView =
   | 'optionsChain'
   | 'playbookIndex'
   | 'clientDashboard'
+  | 'analytics'
   | 'addClient'
   | { type: 'playbookDetail'; slug: string }
   | { type: 'structureDetail'; id: string }
@@ -83,6 +107,18 @@ const RAW_ROWS_STORAGE_KEY = 'deribit_raw_rows_by_client_v1'
 const POSITIONS_STORAGE_KEY = 'deribit_positions_by_client_v1'
 const EXCHANGE_POSITIONS_STORAGE_KEY = 'tm_exchange_positions_by_client_v1'
 const DEFAULT_CLIENT_NAME = 'General'
+const STREAM_MARKS_STORAGE_KEY = 'tm_stream_marks_v1'
+// Marks are refreshed and snapshotted to mark_snapshots on this interval while signed in.
+const MARK_SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000
+
+const STREAM_STATUS_LABEL: Record<MarkStreamStatus, string> = {
+  idle: 'Streaming',
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  fallback: 'Polling (REST)',
+  closed: 'Stream Marks',
+}
 
 const GREEK_SUMMARY_FIELDS = [
   { key: 'delta', label: 'Delta', symbol: 'Δ' },
@@ -140,12 +176,13 @@ type DashboardAppProps = {
   onOpenOptionsChain?: () => void
   onOpenStructureDetail?: (id: string) => void
   onNavigateClientDashboard?: () => void
+  onNavigateAnalytics?: () => void
   onNavigateAddClient?: () => void
   onNavigateDashboard?: () => void
   innerView?: InnerView
 }
 
-export default function DashboardApp({ onOpenPlaybookIndex, onOpenPlaybook, onOpenAssignLegs, onOpenMapCSV, onOpenReconcile, onOpenOptionsChain, onOpenStructureDetail, onNavigateClientDashboard, onNavigateAddClient, onNavigateDashboard, innerView }: DashboardAppProps = {}) {
+export default function DashboardApp({ onOpenPlaybookIndex, onOpenPlaybook, onOpenAssignLegs, onOpenMapCSV, onOpenReconcile, onOpenOptionsChain, onOpenStructureDetail, onNavigateClientDashboard, onNavigateAnalytics, onNavigateAddClient, onNavigateDashboard, innerView }: DashboardAppProps = {}) {
   React.useEffect(() => { devQuickTests(); }, []);
 
   // Tracks which sub-step of the mapCSV flow is active (upload zone vs column mapping)
@@ -155,6 +192,8 @@ export default function DashboardApp({ onOpenPlaybookIndex, onOpenPlaybook, onOp
   }, [innerView]);
 
   // ── Options Chain state ──
+  const [chainCurrency, setChainCurrency] = React.useState<string>('BTC');
+  const [chainBookExpiries, setChainBookExpiries] = React.useState<string[]>([]);
   const [chainExpiry, setChainExpiry] = React.useState<string | null>(null);
   const [chainInstruments, setChainInstruments] = React.useState<ChainInstrument[]>([]);
   const [chainTickers, setChainTickers] = React.useState<Map<string, DeribitTickerResult>>(new Map());
@@ -164,7 +203,7 @@ export default function DashboardApp({ onOpenPlaybookIndex, onOpenPlaybook, onOp
   const loadChainExpiry = React.useCallback(async (expiry: string) => {
     setChainLoading(true);
     try {
-      const instruments = await dbGetInstrumentsByExpiry(expiry);
+      const instruments = await dbGetInstrumentsByExpiry(expiry, chainCurrency);
       setChainInstruments(instruments);
       const entries = await Promise.all(
         instruments.map(async (inst) => {
@@ -179,7 +218,31 @@ export default function DashboardApp({ onOpenPlaybookIndex, onOpenPlaybook, onOp
     } finally {
       setChainLoading(false);
     }
+  }, [chainCurrency]);
+
+  // Switching books clears the chain; BTC expiries come from `allExpiries`, other books list their own.
+  React.useEffect(() => {
+    setChainExpiry(null);
+    setChainInstruments([]);
+    setChainTickers(new Map());
+    setChainBookExpiries([]);
+    if (chainCurrency === 'BTC') return;
+    let cancelled = false;
+    void dbGetInstruments(chainCurrency).then((expiries) => {
+      if (!cancelled) setChainBookExpiries(expiries);
+    });
+    return () => { cancelled = true; };
+  }, [chainCurrency]);
+
+  const [chainView, setChainView] = React.useState<'chain' | 'surface'>('chain');
+  const [volSurfaces, setVolSurfaces] = React.useState<Record<string, VolSurface>>({});
+  const handleVolSurface = React.useCallback((surface: VolSurface) => {
+    setVolSurfaces((prev) => ({ ...prev, [surface.underlying]: surface }));
   }, []);
+  const volAt = React.useMemo(
+    () => (Object.keys(volSurfaces).length ? surfaceVolAt(volSurfaces) : undefined),
+    [volSurfaces],
+  );
 
   const handleSelectChainExpiry = React.useCallback((expiry: string) => {
     setChainExpiry(expiry);
@@ -298,6 +361,12 @@ export default function DashboardApp({ onOpenPlaybookIndex, onOpenPlaybook, onOp
   const [pendingProgramsLoading, setPendingProgramsLoading] = React.useState(false);
   const [pendingStrategyOptions, setPendingStrategyOptions] = React.useState<StrategyOption[]>([]);
   const [pendingStrategiesLoading, setPendingStrategiesLoading] = React.useState(false);
+  // Hub margin for the import's margin what-if; admins have no single Hub account to read.
+  const { state: importHubState } = usePortfolioDataHub({ enabled: Boolean(pendingImport) && !isAdmin });
+  const importMargin = React.useMemo(
+    () => (importHubState.status === 'ready' ? overviewMargin(importHubState.overview) : null),
+    [importHubState],
+  );
 const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
   const [importedRows, setImportedRows] = React.useState<
     Array<{
@@ -341,11 +410,15 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
   const [visibleCols, setVisibleCols] = useLocalStorage<string[]>("visible_cols_v2", [
     "status","dte","strategy","pnl","pnlpct","delta","gamma","theta","vega","rho","playbook"
   ]);
+  const [pnlCurrency, setPnlCurrency] = useLocalStorage<PnlCurrency>("pnl_currency_v1", 'coin');
   const [selectedExchange, setSelectedExchange] = React.useState<Exchange>('deribit');
   const [btcSpot, setBtcSpot] = React.useState<number | null>(null);
   const [btcSpotUpdatedAt, setBtcSpotUpdatedAt] = React.useState<Date | null>(null);
+  // Model inputs for the client dashboard's greeks on legs whose marks carry none.
+  const clientPricing = React.useMemo<PricingContext>(() => ({ spot: btcSpot, volAt }), [btcSpot, volAt]);
   // price per unique leg "exchange:symbol"
   const [legMarks, setLegMarks] = React.useState<MarksMap>({});
+  const [streamMarks, setStreamMarks] = useLocalStorage<boolean>(STREAM_MARKS_STORAGE_KEY, false);
   const [markFetch, setMarkFetch] = React.useState({
     inProgress: false,
     total: 0,
@@ -559,6 +632,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
             amount: mapping.amount ? toNumber(r[mapping.amount]) : 0,
             price: mapping.price ? toNumber(r[mapping.price]) : 0,
             fee: mapping.fee ? toNumber(r[mapping.fee]) : 0,
+            indexPrice: mapping.index_price ? toNumber(r[mapping.index_price]) || undefined : undefined,
             timestamp: mapping.timestamp ? String(r[mapping.timestamp]) : undefined,
             trade_id: mappedTradeId ?? undefined,
             order_id: mappedOrderId ?? undefined,
@@ -1332,6 +1406,30 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
     [supabase, user, savedStructures, refreshSavedStructures, activeClientName, isAdmin],
   );
 
+  const handleRollStructure = React.useCallback(
+    async (position: Position, rows: { closeRows: TxnRow[]; openRows: TxnRow[] }): Promise<string | null> => {
+      if (!supabase) return 'Supabase is not configured. Configure environment variables to roll structures.';
+      if (!user) return 'Sign in to Supabase to roll structures.';
+
+      try {
+        const result = await rollStructure(supabase, {
+          position,
+          ...rows,
+          clientScope: { clientName: position.clientName ?? activeClientName, isAdmin },
+          createdBy: user.id,
+        });
+        // Refresh even on failure: a half-booked roll has already closed the old structure.
+        refreshSavedStructures();
+        if (!result.ok) return result.error;
+        onOpenStructureDetail?.(result.positionId);
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : 'Failed to roll structure.';
+      }
+    },
+    [supabase, user, refreshSavedStructures, activeClientName, isAdmin, onOpenStructureDetail],
+  );
+
   React.useEffect(() => {
     if (!supabase || !user) {
       setSavedStructures([]);
@@ -1369,6 +1467,38 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
     };
   }, [supabase, user, savedStructuresVersion, selectedClient, isAdmin, activeClientName]);
 
+  // Settle structures whose legs have all expired at the venue's delivery prices. Each
+  // structure is attempted once per session; a missing delivery price is retried on reload.
+  // Only admins can write positions and deliveries, and each settlement is booked under the
+  // expired structure's own client.
+  const settlementAttemptsRef = React.useRef(new Set<string>());
+  React.useEffect(() => {
+    if (!supabase || !user || !isAdmin || savedStructures.length === 0) return;
+    const candidates = savedStructures.filter(
+      (p) => !settlementAttemptsRef.current.has(p.id) && !p.closedAt && !p.archived && p.dte <= 0,
+    );
+    if (candidates.length === 0) return;
+
+    let ignore = false;
+    void (async () => {
+      const deliveryPrices = await fetchDeliveryPrices(candidates);
+      if (ignore) return;
+      const settleable = candidates.filter((p) => planExpirySettlement(p, deliveryPrices));
+      settleable.forEach((p) => settlementAttemptsRef.current.add(p.id));
+      if (settleable.length === 0) return;
+      const result = await settleExpiredStructures(supabase, settleable, deliveryPrices, {
+        isAdmin,
+        createdBy: user.id,
+      });
+      if (result.errors.length > 0) console.warn('[DashboardApp] Expiry settlement failed:', result.errors);
+      if (result.settled.length > 0) refreshSavedStructures();
+    })();
+
+    return () => {
+      ignore = true;
+    };
+  }, [supabase, user, savedStructures, isAdmin, refreshSavedStructures]);
+
   // Fetch strategies once when authenticated (shared by AssignLegsPage + StructureDetailsOverlay)
   React.useEffect(() => {
     if (!supabase || !user) {
@@ -1503,6 +1633,21 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
     setActivePlaybookPosition(null);
   }, []);
 
+  const handleSavePlaybookRules = React.useCallback(
+    async (playbook: ProgramPlaybook, rules: PlaybookRule[]): Promise<string | null> => {
+      if (!supabase) return 'Supabase is not configured.';
+      const result = await saveProgramPlaybookRules(supabase, playbook.id, rules);
+      if (!result.ok) return result.error;
+      setProgramPlaybooks((prev) => {
+        const next = new Map(prev);
+        next.set(playbook.programId, { ...playbook, rules });
+        return next;
+      });
+      return null;
+    },
+    [supabase],
+  );
+
   const buildPositionsFromTransactions = React.useCallback((rows: TxnRow[]): Position[] => {
     const byPos = new Map<string, TxnRow[]>();
     for (const r of rows) {
@@ -1587,6 +1732,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
       const netPremium = Math.abs(netPremiumSigned);
       const pnlPct = calculatePnlPct(realizedPnl, legs, netPremium);
       const dte = primaryExpiry ? daysTo(primaryExpiry) : 0;
+      // Provisional; the table reclassifies at the live marks with the program's thresholds.
       const status = classifyStatus(dte, pnlPct, realizedPnl);
 
       const openSinceDays = earliestTimestamp ? daysSince(earliestTimestamp) : null;
@@ -1713,14 +1859,47 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
     [selectedExpiry],
   );
 
+  // Status at the live PnL % under each structure's program playbook and strategy code thresholds.
+  const withLiveStatus = React.useCallback(
+    (p: Position): Position => {
+      const config = p.programId ? programPlaybooks.get(p.programId)?.statusThresholds : undefined;
+      const status = classifyLiveStatus(p, legMarks, config);
+      return status === p.status ? p : { ...p, status };
+    },
+    [legMarks, programPlaybooks],
+  );
+
   const filteredLive = React.useMemo(
-    () => positions.filter(matchesClientSelection).filter(matchesFilter).filter(matchesExpiry),
-    [matchesClientSelection, matchesFilter, matchesExpiry, positions],
+    () => positions.map(withLiveStatus).filter(matchesClientSelection).filter(matchesFilter).filter(matchesExpiry),
+    [matchesClientSelection, matchesFilter, matchesExpiry, positions, withLiveStatus],
+  );
+
+  // Playbook rule signals of each open structure at the live marks, by position id.
+  const ruleSignals = React.useMemo(() => {
+    const out = new Map<string, RuleSignal[]>();
+    for (const p of savedStructures) {
+      const rules = p.programId ? programPlaybooks.get(p.programId)?.rules : undefined;
+      if (!rules?.length) continue;
+      const signals = evaluatePlaybookRules(p, rules, legMarks, { volAt });
+      if (signals.length > 0) out.set(p.id, signals);
+    }
+    return out;
+  }, [savedStructures, programPlaybooks, legMarks, volAt]);
+
+  // Saved structures at their live status, raised further by rule signals.
+  const signalledSaved = React.useMemo(
+    () =>
+      savedStructures.map((p) => {
+        const live = withLiveStatus(p);
+        const status = statusWithSignals(live.status, ruleSignals.get(p.id));
+        return status === live.status ? live : { ...live, status };
+      }),
+    [ruleSignals, savedStructures, withLiveStatus],
   );
 
   const filteredSaved = React.useMemo(
-    () => savedStructures.filter(matchesClientSelection).filter(matchesFilter).filter(matchesExpiry),
-    [matchesClientSelection, matchesFilter, matchesExpiry, savedStructures],
+    () => signalledSaved.filter(matchesClientSelection).filter(matchesFilter).filter(matchesExpiry),
+    [matchesClientSelection, matchesFilter, matchesExpiry, signalledSaved],
   );
 
   // Derived expiry dates from existing data (from saved structure legs + exchange positions)
@@ -1744,6 +1923,11 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
     return [...seen].filter((d) => d >= today).sort();
   }, [apiExpiries, derivedExpiries]);
 
+  const chainPositions = React.useMemo(() => {
+    const prefix = deribitOptionBook(chainCurrency).prefix;
+    return savedStructures.filter((p) => deribitOptionBook(p.underlying).prefix === prefix);
+  }, [savedStructures, chainCurrency]);
+
   const openInstrumentRows = React.useMemo(() => {
     const instrumentMap = new Map<
       string,
@@ -1769,14 +1953,15 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
         const ref = getLegMarkRef(position, leg);
         if (ref) {
           const mark = legMarks[ref.key];
-          const multiplier = ref.exchange === 'coincall' ? mark?.multiplier : ref.defaultMultiplier;
+          const multiplier = markMultiplier(ref, mark);
           if (mark?.price != null) {
             current.absPnl += Math.abs(legUnrealizedPnL(leg, mark.price, multiplier));
             current.hasMarks = true;
           }
-          if (mark?.greeks) {
+          const greeks = mark ? legGreeks(position, leg, mark) : null;
+          if (greeks) {
             for (const field of GREEK_SUMMARY_FIELDS) {
-              current.greeks[field.key] += legGreekExposure(leg, mark.greeks[field.key] ?? undefined, multiplier);
+              current.greeks[field.key] += legGreekExposure(leg, greeks[field.key] ?? undefined, multiplier);
             }
             current.hasGreeks = true;
           }
@@ -2009,8 +2194,8 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
         const mark = legMarks[ref.key];
         if (!mark) continue;
 
-        const greeks = mark.greeks || {};
-        const multiplier = ref.exchange === 'coincall' ? mark.multiplier : ref.defaultMultiplier;
+        const greeks = legGreeks(position, leg, mark) || {};
+        const multiplier = markMultiplier(ref, mark);
 
         for (const field of GREEK_SUMMARY_FIELDS) {
           const perContract = greeks[field.key];
@@ -2035,6 +2220,26 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
 
   const positionsForLinking = positionsForMarks;
 
+  const streamInstruments = React.useMemo(() => {
+    const out: string[] = [];
+    for (const position of positionsForMarks) {
+      for (const leg of position.legs) {
+        const ref = getLegMarkRef(position, leg);
+        if (ref?.exchange === 'deribit') out.push(ref.symbol);
+      }
+    }
+    return out;
+  }, [positionsForMarks]);
+
+  const mergeStreamedMarks = React.useCallback((marks: MarksMap) => {
+    setLegMarks(prev => ({ ...prev, ...marks }));
+  }, []);
+
+  const markStreamStatus = useDeribitMarkStream(streamInstruments, {
+    enabled: streamMarks,
+    onMarks: mergeStreamedMarks,
+  });
+
   const livePositionGroups = React.useMemo(() => {
     const groups: { label: string; positions: Position[] }[] = [];
     for (const position of filteredLive) {
@@ -2102,42 +2307,65 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
   }, [setPositions]);
 
 
-  const fetchAllMarksForPositions = React.useCallback(async (ps: Position[]) => {
+  const fetchAllMarksForPositions = React.useCallback(async (
+    ps: Position[],
+    { source = 'refresh' }: { source?: MarkSnapshotSource } = {},
+  ) => {
     setMarkFetch({ inProgress: true, total: 0, done: 0, errors: 0 });
     await fetchBtcSpot();
 
-    // Collect unique Deribit instrument symbols
+    // Collect unique leg mark refs across venues
     const seen = new Set<string>();
-    const instruments: string[] = [];
+    const refs: LegMarkRef[] = [];
 
     for (const position of ps) {
       for (const leg of position.legs) {
         const ref = getLegMarkRef(position, leg);
-        if (!ref || ref.exchange !== 'deribit') continue; // TODO: add CoinCall later
-        if (seen.has(ref.symbol)) continue;
-        seen.add(ref.symbol);
-        instruments.push(ref.symbol);
+        if (!ref || seen.has(ref.key)) continue;
+        seen.add(ref.key);
+        refs.push(ref);
       }
     }
 
-    if (instruments.length === 0) {
-      console.warn('[marks] no Deribit instruments to fetch');
+    if (refs.length === 0) {
+      console.warn('[marks] no instruments to fetch');
       setMarkFetch({ inProgress: false, total: 0, done: 0, errors: 0 });
       return;
     }
 
-    setMarkFetch(prev => ({ ...prev, total: instruments.length }));
+    setMarkFetch(prev => ({ ...prev, total: refs.length }));
 
-    const results = await fetchDeribitMarks(instruments, (done, total, errors) => {
+    const results = await fetchLiveMarks(refs, (done, total, errors) => {
       setMarkFetch({ inProgress: true, total, done, errors });
     });
 
     if (Object.keys(results).length) {
       setLegMarks(prev => ({ ...prev, ...results }));
+      // Keep every refresh in mark_snapshots so PnL / greeks history survives a reload.
+      // Only the desk (admins) may append marks; every account is valued from them.
+      if (supabase && user && isAdmin) {
+        saveMarkSnapshots(supabase, results, { source })
+          .then((r) => { if (!r.ok) console.error('[marks] snapshot save failed', r.error); })
+          .catch((e) => console.error('[marks] snapshot save failed', e));
+      }
     }
 
     setMarkFetch(prev => ({ ...prev, inProgress: false }));
-  }, [fetchBtcSpot, setLegMarks, setMarkFetch]);
+  }, [fetchBtcSpot, isAdmin, setLegMarks, setMarkFetch, supabase, user]);
+
+  // Scheduled snapshots: refresh marks for open positions on an interval while signed in,
+  // so history accrues between manual refreshes.
+  const scheduledMarksRef = React.useRef({ fetchAllMarksForPositions, positionsForMarks });
+  scheduledMarksRef.current = { fetchAllMarksForPositions, positionsForMarks };
+  React.useEffect(() => {
+    if (!supabase || !user) return;
+    const id = window.setInterval(() => {
+      const { fetchAllMarksForPositions: refresh, positionsForMarks: ps } = scheduledMarksRef.current;
+      const open = ps.filter((p) => p.status !== 'CLOSED');
+      if (open.length > 0) void refresh(open, { source: 'schedule' });
+    }, MARK_SNAPSHOT_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [supabase, user]);
 
 
   const handleSignOut = React.useCallback(() => {
@@ -2259,9 +2487,10 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
       <Sidebar
         collapsed={sidebarCollapsed}
         onToggle={() => setSidebarCollapsed((c) => !c)}
-        activeNav={innerView === 'mapCSV' ? 'mapCSV' : innerView === 'assignLegs' ? 'assignLegs' : innerView === 'optionsChain' ? 'optionsChain' : innerView === 'clientDashboard' ? 'clientDashboard' : (innerView === 'playbookIndex' || (typeof innerView === 'object' && innerView?.type === 'playbookDetail')) ? 'playbooks' : 'dashboard'}
+        activeNav={innerView === 'mapCSV' ? 'mapCSV' : innerView === 'assignLegs' ? 'assignLegs' : innerView === 'optionsChain' ? 'optionsChain' : innerView === 'clientDashboard' ? 'clientDashboard' : innerView === 'analytics' ? 'analytics' : (innerView === 'playbookIndex' || (typeof innerView === 'object' && innerView?.type === 'playbookDetail')) ? 'playbooks' : 'dashboard'}
         onNavigateDashboard={onNavigateDashboard}
         onNavigateClientDashboard={onNavigateClientDashboard}
+        onNavigateAnalytics={onNavigateAnalytics}
         onNavigatePlaybooks={onOpenPlaybookIndex}
         onNavigateAssignLegs={onOpenAssignLegs}
         onNavigateMapCSV={onOpenMapCSV}
@@ -2297,6 +2526,8 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
               ? 'Playbooks'
               : innerView === 'clientDashboard'
               ? 'Client Dashboard'
+              : innerView === 'analytics'
+              ? 'Analytics'
               : innerView === 'addClient'
               ? 'Add Client'
               : typeof innerView === 'object' && innerView?.type === 'playbookDetail'
@@ -2338,18 +2569,38 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
         )}
         {innerView === 'optionsChain' && (
           <div className="flex flex-col flex-1 min-h-0 bg-surface-page">
-            <OptionsChain
-              expiries={allExpiries}
-              selectedExpiry={chainExpiry}
-              onSelectExpiry={handleSelectChainExpiry}
-              instruments={chainInstruments}
-              tickers={chainTickers}
-              positions={savedStructures}
-              loading={chainLoading}
-              lastUpdated={chainLastUpdated}
-              onRefresh={handleRefreshChain}
-              btcSpot={btcSpot}
-            />
+            <div className="px-4 pt-3 flex items-center gap-2">
+              <SegmentedControl
+                items={[{ value: 'chain', label: 'Chain' }, { value: 'surface', label: 'Vol surface' }]}
+                value={chainView}
+                onChange={(v) => setChainView(v as 'chain' | 'surface')}
+                size="sm"
+              />
+              {chainView === 'chain' && (
+                <SegmentedControl
+                  items={DERIBIT_OPTION_CURRENCIES.map((c) => ({ value: c, label: c.replace('_', ' ') }))}
+                  value={chainCurrency}
+                  onChange={setChainCurrency}
+                  size="sm"
+                />
+              )}
+            </div>
+            {chainView === 'chain' ? (
+              <OptionsChain
+                expiries={chainCurrency === 'BTC' ? allExpiries : chainBookExpiries}
+                selectedExpiry={chainExpiry}
+                onSelectExpiry={handleSelectChainExpiry}
+                instruments={chainInstruments}
+                tickers={chainTickers}
+                positions={chainPositions}
+                loading={chainLoading}
+                lastUpdated={chainLastUpdated}
+                onRefresh={handleRefreshChain}
+                btcSpot={chainCurrency === 'BTC' ? btcSpot : null}
+              />
+            ) : (
+              <VolSurfacePanel onSurface={handleVolSurface} />
+            )}
           </div>
         )}
 
@@ -2378,6 +2629,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
               clientName={activeClientName}
               positions={clientPositions}
               marks={legMarks}
+              pricing={clientPricing}
               markLoading={markFetch.inProgress}
               onRefreshMarks={() => fetchAllMarksForPositions(clientPositions)}
               strategyRunning={false}
@@ -2386,6 +2638,13 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
             />
           )
         })()}
+        {innerView === 'analytics' && (
+          <AnalyticsPage
+            clientName={activeClientName}
+            positions={savedStructures.filter((s) => s.clientName === activeClientName && !s.archived)}
+            marks={legMarks}
+          />
+        )}
         {typeof innerView === 'object' && innerView?.type === 'structureDetail' && (() => {
           const pos = savedStructures.find((s) => s.id === innerView.id)
           if (!pos) return <div className="flex-1 flex items-center justify-center text-text-secondary type-subhead">Structure not found.</div>
@@ -2399,6 +2658,10 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
               onArchive={handleArchiveStructure}
               archiving={Boolean(archiving[pos.id])}
               onRefreshMarks={() => fetchAllMarksForPositions([pos])}
+              volAt={volAt}
+              onRoll={(rows) => handleRollStructure(pos, rows)}
+              rollChain={rollChain(savedStructures, pos.id)}
+              onOpenStructure={onOpenStructureDetail}
             />
           )
         })()}
@@ -2443,6 +2706,18 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
               {markFetch.inProgress ? `${markFetch.done}/${markFetch.total}` : 'Get Live Marks'}
             </Button>
 
+            {/* Stream marks */}
+            <Button
+              variant={streamMarks ? 'primary' : 'secondary'}
+              size="sm"
+              leftIcon={<Radio className="h-3.5 w-3.5" />}
+              onClick={() => setStreamMarks(!streamMarks)}
+              aria-pressed={streamMarks}
+              title="Stream Deribit marks over WebSocket, polling REST while the socket is down"
+            >
+              {streamMarks ? STREAM_STATUS_LABEL[markStreamStatus] : 'Stream Marks'}
+            </Button>
+
             {/* Import */}
             <Button
               variant="secondary"
@@ -2526,6 +2801,12 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
                     <span className="type-subhead font-semibold text-text-secondary">Saved Structures</span>
                     <div className="flex items-center gap-2">
                       {savedStructuresLoading && <span className="type-caption text-text-tertiary">Refreshing…</span>}
+                      <SegmentedControl
+                        items={PNL_CURRENCIES.map((c) => ({ value: c.value, label: c.label }))}
+                        value={pnlCurrency}
+                        onChange={(v) => { if (isPnlCurrency(v)) setPnlCurrency(v); }}
+                        size="sm"
+                      />
                       <ColumnPicker visibleCols={visibleCols} onVisibleColsChange={setVisibleCols} />
                     </div>
                   </div>
@@ -2554,6 +2835,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
                               p={p}
                               onUpdate={noopUpdate}
                               visibleCols={visibleCols}
+                              pnlCurrency={pnlCurrency}
                               marks={legMarks}
                               markLoading={markFetch.inProgress}
                               allPositions={positionsForLinking}
@@ -2582,6 +2864,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
                               p={p}
                               onUpdate={noopUpdate}
                               visibleCols={visibleCols}
+                              pnlCurrency={pnlCurrency}
                               marks={legMarks}
                               markLoading={markFetch.inProgress}
                               allPositions={positionsForLinking}
@@ -2771,6 +3054,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
                                   p={p}
                                   onUpdate={updatePosition}
                                   visibleCols={visibleCols}
+                                  pnlCurrency={pnlCurrency}
                                   marks={legMarks}
                                   markLoading={markFetch.inProgress}
                                   allPositions={positionsForLinking}
@@ -2791,7 +3075,7 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
 
             {/* ─── KANBAN VIEW ────────────────────────────────────────────── */}
             {activeView === 'kanban' && (
-              <KanbanBoard positions={filteredSaved} marks={legMarks} onCardClick={onOpenStructureDetail ? (p) => onOpenStructureDetail(p.id) : undefined} />
+              <KanbanBoard positions={filteredSaved} marks={legMarks} signals={ruleSignals} onCardClick={onOpenStructureDetail ? (p) => onOpenStructureDetail(p.id) : undefined} />
             )}
 
             {/* ─── GANTT VIEW ─────────────────────────────────────────────── */}
@@ -2817,6 +3101,8 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
         playbook={activeProgramPlaybook}
         loading={programPlaybooksLoading}
         error={programPlaybooksError}
+        ruleSignals={activePlaybookPosition ? ruleSignals.get(activePlaybookPosition.id) : undefined}
+        onSaveRules={isAdmin ? handleSavePlaybookRules : undefined}
       />
 
       <ImportedTransactionsOverlay
@@ -2845,7 +3131,15 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
             const underlying = rows[0]?.underlying ?? 'Unknown';
             const expiries = [...new Set(rows.map((r) => r.expiry).filter(Boolean))];
             const expirySketch = expiries.length > 0 ? expiries.join(', ') : 'No expiry';
-            return { key, underlying, expirySketch, legCount: rows.length } satisfies StructureSummary;
+            return {
+              key,
+              underlying,
+              expirySketch,
+              legCount: rows.length,
+              exchange: rows[0]?.exchange ?? null,
+              spot: underlying.toUpperCase() === 'BTC' ? btcSpot : null,
+              legs: candidateLegsFromRows(rows),
+            } satisfies StructureSummary;
           })}
           programs={pendingProgramOptions}
           programsLoading={pendingProgramsLoading}
@@ -2862,6 +3156,9 @@ const [showImportedOverlay, setShowImportedOverlay] = React.useState(false);
           onConfirm={handleStructureDetailsConfirm}
           onBack={() => setPendingImport(null)}
           onCreateProgram={handleCreateProgram}
+          positions={savedStructures}
+          marks={legMarks}
+          margin={importMargin}
         />
       )}
     </div>
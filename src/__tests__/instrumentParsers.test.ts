@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseCmeInstrument,
+  parseCoincallInstrument,
+  parseInstrumentByExchange,
+  toCmeSymbol,
+  toCoincallSymbol,
+} from '../utils'
+
+describe('parseCoincallInstrument', () => {
+  it('strips the USD index suffix from the underlying', () => {
+    expect(parseCoincallInstrument('BTCUSD-27DEC25-50000-C')).toEqual({
+      underlying: 'BTC', expiryISO: '2025-12-27', strike: 50000, optionType: 'C',
+    })
+    expect(parseCoincallInstrument('ETHUSD-7NOV25-2250.5-P')).toMatchObject({
+      underlying: 'ETH', expiryISO: '2025-11-07', strike: 2250.5, optionType: 'P',
+    })
+  })
+
+  it('round-trips with toCoincallSymbol', () => {
+    for (const [u, expiry, strike, type] of [
+      ['BTC', '2025-12-27', 50000, 'C'],
+      ['ETH', '2026-01-09', 3100, 'P'],
+      ['SOL', '2025-11-28', 182.5, 'C'],
+    ] as const) {
+      const symbol = toCoincallSymbol(u, expiry, strike, type)
+      expect(parseCoincallInstrument(symbol)).toEqual({ underlying: u, expiryISO: expiry, strike, optionType: type })
+    }
+  })
+
+  it('rejects non-option symbols', () => {
+    expect(parseCoincallInstrument('BTCUSD-PERP')).toBeNull()
+    expect(parseCoincallInstrument('BTCUSD-27XYZ25-50000-C')).toBeNull()
+  })
+})
+
+describe('parseCmeInstrument', () => {
+  it('expires monthlies on the last Friday of the contract month', () => {
+    expect(parseCmeInstrument('BTCZ5 C50000')).toEqual({
+      underlying: 'BTC', expiryISO: '2025-12-26', strike: 50000, optionType: 'C',
+    })
+    expect(parseCmeInstrument('MBTH6 P80000')).toMatchObject({ underlying: 'BTC', expiryISO: '2026-03-27' })
+  })
+
+  it('expires Friday and Wednesday weeklies on the numbered weekday', () => {
+    expect(parseCmeInstrument('BV2Z5 P95000')).toMatchObject({ expiryISO: '2025-12-12', optionType: 'P' })
+    expect(parseCmeInstrument('BW1F6 C100000')).toMatchObject({ expiryISO: '2026-01-07' })
+    expect(parseCmeInstrument('WM3F26 C90000')).toMatchObject({ expiryISO: '2026-01-16' })
+  })
+
+  it('scales ether strikes from cents', () => {
+    expect(parseCmeInstrument('ETHZ5 C325000')).toMatchObject({ underlying: 'ETH', strike: 3250 })
+    expect(parseCmeInstrument('VE1F6P250050')).toMatchObject({ expiryISO: '2026-01-02', strike: 2500.5 })
+  })
+
+  it('rejects unknown roots, missing weeks and weeks that do not exist', () => {
+    expect(parseCmeInstrument('XYZZ5 C100')).toBeNull()
+    expect(parseCmeInstrument('BVZ5 C50000')).toBeNull()
+    expect(parseCmeInstrument('BTC2Z5 C50000')).toBeNull()
+    // February 2026 has only four Fridays.
+    expect(parseCmeInstrument('BV5G6 C50000')).toBeNull()
+  })
+
+  it('round-trips with toCmeSymbol', () => {
+    for (const [u, expiry, strike, type, micro] of [
+      ['BTC', '2025-12-26', 50000, 'C', false],
+      ['BTC', '2025-12-12', 95000, 'P', false],
+      ['BTC', '2026-01-07', 100000, 'C', true],
+      ['ETH', '2026-01-30', 3250, 'P', false],
+      ['ETH', '2026-01-14', 2500.5, 'C', true],
+    ] as const) {
+      const symbol = toCmeSymbol(u, expiry, strike, type, { micro })
+      expect(symbol).not.toBeNull()
+      expect(parseCmeInstrument(symbol!)).toEqual({ underlying: u, expiryISO: expiry, strike, optionType: type })
+    }
+  })
+
+  it('has no symbol for expiries CME does not list', () => {
+    expect(toCmeSymbol('BTC', '2025-12-15', 50000, 'C')).toBeNull()
+    expect(toCmeSymbol('SOL', '2025-12-26', 200, 'C')).toBeNull()
+  })
+})
+
+describe('parseInstrumentByExchange', () => {
+  it('dispatches on the venue', () => {
+    expect(parseInstrumentByExchange('coincall', 'BTCUSD-27DEC25-50000-C')?.underlying).toBe('BTC')
+    expect(parseInstrumentByExchange('cme', 'BTCZ5 C50000')?.expiryISO).toBe('2025-12-26')
+    expect(parseInstrumentByExchange('deribit', 'BTC-27DEC25-50000-C')?.underlying).toBe('BTC')
+    expect(parseInstrumentByExchange('cme', 'BTC-27DEC25-50000-C')).toBeNull()
+  })
+})
@@ -1,9 +1,11 @@
 import React from 'react'
-import { EXPECTED_FIELDS } from '../utils'
+import { EXPECTED_FIELDS, type Exchange } from '../utils'
+import { VENUE_ADAPTERS, venueAdapter } from '../lib/venues/registry'
+import { applyCsvPreset } from '../lib/venues/csvPreset'
 
 export type ColumnMapping = {
-  [key: string]: string | boolean | 'deribit' | 'coincall' | 'cme';
-  __exchange: 'deribit' | 'coincall' | 'cme';
+  [key: string]: string | boolean | Exchange;
+  __exchange: Exchange;
   __importHistorical: boolean;
   __allowAllocations: boolean;
 };
@@ -15,7 +17,7 @@ export function ColumnMapper({ headers, onConfirm, onCancel, mode = 'import' }:
   mode?: 'import' | 'backfill';
 }) {
   const [mapping, setMapping] = React.useState<Record<string, string>>({});
-  const [exchange, setExchange] = React.useState<'deribit' | 'coincall' | 'cme'>('deribit');
+  const [exchange, setExchange] = React.useState<Exchange>('deribit');
   const [importHistoricalRows, setImportHistoricalRows] = React.useState(false);
   const [allowAllocations, setAllowAllocations] = React.useState(false);
 
@@ -40,8 +42,8 @@ export function ColumnMapper({ headers, onConfirm, onCancel, mode = 'import' }:
       order_id: exact('order id') || exact('order_id') || guess(['order id', 'order_id', 'orderid']),
       info: exact('info') || guess(['info', 'note', 'comment']),
     };
-    setMapping(initial);
-  }, [headers]);
+    setMapping(applyCsvPreset(headers, venueAdapter(exchange).csvPreset, initial));
+  }, [headers, exchange]);
 
   return (
     <div className="fixed inset-0 bg-bg-overlay flex items-center justify-center z-modal p-4">
@@ -57,12 +59,12 @@ export function ColumnMapper({ headers, onConfirm, onCancel, mode = 'import' }:
           <label className="type-subhead block text-subtle mb-1">Exchange</label>
           <select
             value={exchange}
-            onChange={(e) => setExchange(e.target.value as 'deribit' | 'coincall' | 'cme')}
+            onChange={(e) => setExchange(e.target.value as Exchange)}
             className="w-full border rounded-xl p-2 focus:outline-none focus:shadow-[var(--glow-accent-sm)]"
           >
-            <option value="deribit">Deribit</option>
-            <option value="coincall">Coincall</option>
-            <option value="cme">CME</option>
+            {VENUE_ADAPTERS.map((v) => (
+              <option key={v.id} value={v.id}>{v.label}</option>
+            ))}
           </select>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
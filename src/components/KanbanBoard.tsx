@@ -1,5 +1,6 @@
 import React from 'react'
-import { type Position, type MarksMap, positionUnrealizedPnL, daysTo } from '../utils'
+import { type Position, type MarksMap, positionUnrealizedPnL, daysTo, DEFAULT_STATUS_THRESHOLDS } from '../utils'
+import type { RuleSignal } from '../lib/positions'
 import { Badge } from './ui'
 import { StructureCard } from './StructureCard'
 
@@ -47,13 +48,22 @@ const LANES: {
   },
 ]
 
+const SIGNAL_LANES: Record<RuleSignal['lane'], LaneId> = {
+  profit: 'nearProfit',
+  loss: 'nearLoss',
+  time: 'nearDTE',
+}
+
+function classifyPosition(p: Position, marks: MarksMap, signals?: RuleSignal[]): LaneId {
+  // Playbook rule signals (most severe first) take priority over the default heuristic
+  if (signals && signals.length > 0) return SIGNAL_LANES[signals[0].lane]
 
-function classifyPosition(p: Position, marks: MarksMap): LaneId {
-  // Near DTE takes priority
+  // Near DTE (the structure's alert DTE threshold) takes priority
+  const alertDte = (p.statusThresholds ?? DEFAULT_STATUS_THRESHOLDS).alertDte
   const hasNearDTE = p.legs.some((leg) => {
     if (!leg.expiry) return false
     const dte = daysTo(leg.expiry)
-    return dte <= 7
+    return dte <= alertDte
   })
   if (hasNearDTE) return 'nearDTE'
 
@@ -67,10 +77,12 @@ function classifyPosition(p: Position, marks: MarksMap): LaneId {
 type Props = {
   positions: Position[]
   marks: MarksMap
+  /** Playbook rule signals by position id. */
+  signals?: Map<string, RuleSignal[]>
   onCardClick?: (p: Position) => void
 }
 
-export function KanbanBoard({ positions, marks, onCardClick }: Props) {
+export function KanbanBoard({ positions, marks, signals, onCardClick }: Props) {
   const lanes = React.useMemo(() => {
     const buckets: Record<LaneId, Position[]> = {
       new: [],
@@ -79,11 +91,11 @@ export function KanbanBoard({ positions, marks, onCardClick }: Props) {
       nearDTE: [],
     }
     for (const p of positions) {
-      const lane = classifyPosition(p, marks)
+      const lane = classifyPosition(p, marks, signals?.get(p.id))
       buckets[lane].push(p)
     }
     return buckets
-  }, [positions, marks])
+  }, [positions, marks, signals])
 
   return (
     <div className="grid grid-cols-4 gap-3 p-4 min-h-[400px]">
@@ -103,7 +115,7 @@ export function KanbanBoard({ positions, marks, onCardClick }: Props) {
             {lanes[id].length === 0 ? (
               <p className="type-caption text-text-disabled text-center py-6">No structures</p>
             ) : (
-              lanes[id].map((p) => <StructureCard key={p.id} position={p} marks={marks} onClick={onCardClick} />)
+              lanes[id].map((p) => <StructureCard key={p.id} position={p} marks={marks} signals={signals?.get(p.id)} onClick={onCardClick} />)
             )}
           </div>
         </div>
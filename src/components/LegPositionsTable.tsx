@@ -8,6 +8,7 @@ import {
   fmtGreek,
   fmtNumber,
   formatInstrumentLabel,
+  markMultiplier,
 } from '../utils'
 import { DataTable, type Column } from './ui'
 
@@ -66,7 +67,7 @@ export function LegPositionsTable({ position: p, marks, markLoading }: LegPositi
       const markInfo = ref ? marks?.[ref.key] : undefined
       const markPrice = markInfo?.price ?? null
       const greeks = markInfo?.greeks
-      const multiplier = ref?.exchange === 'coincall' ? markInfo?.multiplier : ref?.defaultMultiplier
+      const multiplier = ref ? markMultiplier(ref, markInfo) : undefined
 
       const totalAbsQty = leg.trades.reduce((sum, t) => sum + Math.abs(t.amount ?? 0), 0)
       const premiumBasisQty = leg.netPremiumBasisQty ?? totalAbsQty
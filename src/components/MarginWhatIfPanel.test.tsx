@@ -0,0 +1,43 @@
+import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import { toDeribitInstrument, type Position } from '../utils'
+import type { MarginUsage } from '../features/clientPortal/dashboard/marginModel'
+import { MarginWhatIfPanel } from './MarginWhatIfPanel'
+
+const EXPIRY = new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10)
+
+const margin: MarginUsage = {
+  ccy: 'BTC', marginBalance: 0.5, initialMargin: 0.1, maintenanceMargin: 0.05, available: 0.4, imUtilization: 0.2, zone: 'ok',
+  venues: [], asOf: null, stale: false, unconverted: [], unavailable: [],
+}
+
+const shortCall: Position = {
+  id: 'p1', underlying: 'BTC', expiryISO: EXPIRY, dte: 30, legsCount: 1, type: 'Single', realizedPnl: 0, netPremium: 0,
+  status: 'OPEN', greeks: {}, exchange: 'deribit',
+  legs: [{ key: 'p1-l', strike: 110_000, optionType: 'C', openLots: [], realizedPnl: 0, netPremium: 0, qtyNet: -1, trades: [] }],
+}
+
+const candidate = [{ side: 'buy' as const, option_type: 'put' as const, expiry: EXPIRY, strike: 90_000, qty: 1 }]
+
+function delta(): string {
+  const row = screen.getByText('Delta').closest('tr')!
+  return row.querySelectorAll('td')[1].textContent ?? ''
+}
+
+describe('MarginWhatIfPanel', () => {
+  it('defaults account equity to the Hub margin balance in USD', () => {
+    render(<MarginWhatIfPanel positions={[]} legs={candidate} underlying="BTC" exchange="deribit" defaultSpot={100_000} margin={margin} />)
+    expect(screen.getByLabelText('Account equity (USD)')).toHaveValue(50_000)
+  })
+
+  it('prices held legs off the live marks', () => {
+    const props = { positions: [shortCall], legs: candidate, underlying: 'BTC', exchange: 'deribit', defaultSpot: 100_000 }
+    const { unmount } = render(<MarginWhatIfPanel {...props} />)
+    const fallback = delta()
+    unmount()
+    // A mark far richer than the 50% fallback vol implies a higher vol, so a larger call delta.
+    const marks = { [`deribit:${toDeribitInstrument('BTC', EXPIRY, 110_000, 'C')}`]: { price: 0.05, multiplier: 1, indexPrice: 100_000 } }
+    render(<MarginWhatIfPanel {...props} marks={marks} />)
+    expect(delta()).not.toBe(fallback)
+  })
+})
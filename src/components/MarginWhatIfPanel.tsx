@@ -0,0 +1,177 @@
+import React from 'react';
+import { SegmentedControl } from './ui';
+import type { MarksMap, Position } from '../utils';
+import type { Leg as ImportLeg } from '../lib/import/types';
+import type { MarginUsage } from '../features/clientPortal/dashboard/marginModel';
+import {
+  candidateMarginLegs,
+  marginEquityUsd,
+  positionMarginLegs,
+  simulateMarginWhatIf,
+  type MarginMode,
+  type MarginSnapshot,
+} from '../lib/margin';
+
+const MODE_ITEMS = [
+  { value: 'standard', label: 'Standard margin' },
+  { value: 'portfolio', label: 'Portfolio margin' },
+];
+
+const DEFAULT_VOL_PCT = 50;
+
+const ZONE_TEXT: Record<MarginSnapshot['zone'], string> = {
+  ok: 'text-status-success',
+  warn: 'text-status-warning',
+  high: 'text-status-danger',
+};
+
+function usd(n: number): string {
+  return `${Math.round(n).toLocaleString('en-US')} USD`;
+}
+
+function signed(n: number, fmt: (x: number) => string): string {
+  if (Math.abs(n) < 1e-9) return '—';
+  return `${n > 0 ? '+' : '−'}${fmt(Math.abs(n))}`;
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const num = (digits: number) => (n: number) => n.toFixed(digits);
+
+function NumberInput({
+  label,
+  value,
+  onChange,
+  step,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (n: number | undefined) => void;
+  step?: string;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="type-caption font-medium uppercase tracking-wide text-text-secondary">{label}</span>
+      <input
+        type="number"
+        aria-label={label}
+        step={step}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className="block w-full rounded-lg border border-border-default bg-bg-surface-1 px-3 py-2 type-subhead text-text-primary focus:outline-none focus:shadow-[var(--glow-accent-sm)]"
+      />
+    </label>
+  );
+}
+
+/**
+ * What-if margin for a proposed structure: the current open structures on the same
+ * underlying, with and without the candidate legs, under a local approximation of
+ * Deribit's standard or portfolio margin. Held legs price off the dashboard's live `marks`
+ * when given, and account equity defaults to the Hub margin balance; otherwise it runs
+ * offline from the entered prices.
+ */
+export function MarginWhatIfPanel({
+  positions,
+  legs,
+  underlying,
+  exchange,
+  defaultSpot,
+  marks,
+  margin,
+}: {
+  positions: Position[];
+  legs: Array<Partial<ImportLeg>>;
+  underlying: string | undefined;
+  exchange?: string | null;
+  defaultSpot?: number | null;
+  marks?: MarksMap;
+  margin?: MarginUsage | null;
+}) {
+  const [mode, setMode] = React.useState<MarginMode>('standard');
+  const [spot, setSpot] = React.useState<number | undefined>(defaultSpot ?? undefined);
+  const [equity, setEquity] = React.useState<number | undefined>(undefined);
+  const [volPct, setVolPct] = React.useState<number | undefined>(DEFAULT_VOL_PCT);
+
+  React.useEffect(() => {
+    if (defaultSpot != null && defaultSpot > 0) setSpot((cur) => cur ?? defaultSpot);
+  }, [defaultSpot]);
+
+  const defaultEquity = marginEquityUsd(margin, { spot, underlying });
+  React.useEffect(() => {
+    if (defaultEquity != null && defaultEquity > 0) setEquity((cur) => cur ?? defaultEquity);
+  }, [defaultEquity]);
+
+  const result = React.useMemo(() => {
+    if (!underlying || !(spot != null && spot > 0)) return null;
+    const ctx = { spot, vol: (volPct ?? DEFAULT_VOL_PCT) / 100, marks };
+    const candidate = candidateMarginLegs(legs, { ...ctx, exchange, underlying });
+    if (candidate.length === 0) return null;
+    const current = positionMarginLegs(positions, underlying, ctx);
+    return simulateMarginWhatIf({ current, candidate, spot, equity: equity ?? 0, mode });
+  }, [positions, legs, underlying, exchange, spot, equity, volPct, mode, marks]);
+
+  const rows: Array<{ label: string; pick: (s: MarginSnapshot) => number; fmt: (n: number) => string; delta: number }> =
+    result
+      ? [
+          { label: 'Initial margin', pick: (s) => s.initialMargin, fmt: usd, delta: result.delta.initialMargin },
+          { label: 'Maintenance margin', pick: (s) => s.maintenanceMargin, fmt: usd, delta: result.delta.maintenanceMargin },
+          { label: 'Available funds', pick: (s) => s.available, fmt: usd, delta: result.delta.available },
+          { label: 'IM utilization', pick: (s) => s.utilization, fmt: pct, delta: result.delta.utilization },
+          { label: 'Delta', pick: (s) => s.greeks.delta, fmt: num(3), delta: result.delta.delta },
+          { label: 'Gamma', pick: (s) => s.greeks.gamma, fmt: num(6), delta: result.delta.gamma },
+          { label: 'Vega (USD)', pick: (s) => s.greeks.vega, fmt: num(0), delta: result.delta.vega },
+          { label: 'Theta (USD/day)', pick: (s) => s.greeks.theta, fmt: num(0), delta: result.delta.theta },
+        ]
+      : [];
+
+  return (
+    <div className="space-y-4" data-testid="margin-what-if">
+      <div className="flex flex-wrap items-end gap-4">
+        <SegmentedControl items={MODE_ITEMS} value={mode} onChange={(v) => setMode(v as MarginMode)} size="sm" />
+      </div>
+      <div className="grid gap-4 md:grid-cols-3">
+        <NumberInput label="Spot (USD)" value={spot} onChange={setSpot} />
+        <NumberInput label="Account equity (USD)" value={equity} onChange={setEquity} />
+        <NumberInput label="Fallback IV (%)" value={volPct} onChange={setVolPct} step="1" />
+      </div>
+      {!result ? (
+        <p className="type-caption text-text-tertiary">
+          Enter a spot price and complete at least one leg to estimate the margin impact.
+        </p>
+      ) : (
+        <table className="w-full type-caption tabular-nums">
+          <thead>
+            <tr className="text-left text-text-tertiary">
+              <th className="py-1.5 font-medium">Metric</th>
+              <th className="py-1.5 text-right font-medium">Current</th>
+              <th className="py-1.5 text-right font-medium">With structure</th>
+              <th className="py-1.5 text-right font-medium">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.label} className="border-t border-border-subtle">
+                <td className="py-1.5 text-text-secondary">{r.label}</td>
+                <td className="py-1.5 text-right text-text-primary">{r.fmt(r.pick(result.before))}</td>
+                <td className="py-1.5 text-right text-text-primary">{r.fmt(r.pick(result.after))}</td>
+                <td className="py-1.5 text-right text-text-primary">{signed(r.delta, r.fmt)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-border-subtle">
+              <td className="py-1.5 text-text-secondary">Utilization zone</td>
+              <td className={`py-1.5 text-right font-semibold ${ZONE_TEXT[result.before.zone]}`}>{result.before.zone}</td>
+              <td className={`py-1.5 text-right font-semibold ${ZONE_TEXT[result.after.zone]}`}>{result.after.zone}</td>
+              <td className="py-1.5 text-right text-text-tertiary">
+                {result.before.zone === result.after.zone ? '—' : `${result.before.zone} → ${result.after.zone}`}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+      <p className="type-micro text-text-tertiary">
+        Local approximation of Deribit {mode === 'portfolio' ? 'portfolio' : 'standard'} margin for {underlying ?? 'the underlier'}{' '}
+        options; venue figures include add-ons not modelled here.
+      </p>
+    </div>
+  );
+}
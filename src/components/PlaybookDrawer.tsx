@@ -1,7 +1,13 @@
 import React from 'react'
 import { Link as LinkIcon, Sparkles as SparklesIcon, X as CloseIcon } from 'lucide-react'
 import type { Position } from '../utils'
-import type { ProgramPlaybook } from '../lib/positions'
+import {
+  formatPlaybookRules,
+  parsePlaybookRules,
+  type PlaybookRule,
+  type ProgramPlaybook,
+  type RuleSignal,
+} from '../lib/positions'
 
 type PlaybookDrawerProps = {
   open: boolean
@@ -10,6 +16,10 @@ type PlaybookDrawerProps = {
   playbook: ProgramPlaybook | null
   loading?: boolean
   error?: string | null
+  /** Rule signals of the structure at the current marks. */
+  ruleSignals?: RuleSignal[]
+  /** Save the playbook's structured rules; resolves to an error message or null. Omit to make them read-only. */
+  onSaveRules?: (playbook: ProgramPlaybook, rules: PlaybookRule[]) => Promise<string | null>
 }
 
 function InlineSpinner() {
@@ -21,10 +31,111 @@ function InlineSpinner() {
   )
 }
 
+type PlaybookRulesPanelProps = {
+  playbook: ProgramPlaybook
+  signals: RuleSignal[]
+  onSave?: (playbook: ProgramPlaybook, rules: PlaybookRule[]) => Promise<string | null>
+}
+
+function PlaybookRulesPanel({ playbook, signals, onSave }: PlaybookRulesPanelProps) {
+  const [draft, setDraft] = React.useState<string | null>(null)
+  const [saving, setSaving] = React.useState(false)
+  const [saveError, setSaveError] = React.useState<string | null>(null)
+  const parsed = draft == null ? null : parsePlaybookRules(draft)
+  const rulesText = formatPlaybookRules(playbook.rules)
+
+  React.useEffect(() => {
+    setDraft(null)
+    setSaveError(null)
+  }, [playbook.id])
+
+  const handleSave = async () => {
+    if (!onSave || !parsed?.ok) return
+    setSaving(true)
+    setSaveError(null)
+    const message = await onSave(playbook, parsed.rules)
+    setSaving(false)
+    if (message) setSaveError(message)
+    else setDraft(null)
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-border-default bg-surface-card p-3 type-subhead text-strong" data-testid="playbook-rules">
+      <div className="flex items-center justify-between gap-2">
+        <div className="type-caption font-semibold uppercase tracking-[0.15em] text-muted">Rules</div>
+        {onSave && draft == null ? (
+          <button
+            type="button"
+            onClick={() => setDraft(rulesText)}
+            className="rounded-full border border-border-strong bg-surface-chip px-3 py-1 type-caption font-semibold text-body hover:bg-surface-hover"
+          >
+            Edit rules
+          </button>
+        ) : null}
+      </div>
+
+      {draft != null ? (
+        <div className="mt-2 space-y-2">
+          <textarea
+            aria-label="Playbook rules"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={Math.max(4, draft.split('\n').length + 1)}
+            placeholder={'take profit at 50% of max gain\nstop at 2× credit\nclose at 21 DTE\nclose if short strike delta > 0.30'}
+            className="w-full rounded border border-border-default bg-surface-chip px-2 py-1.5 font-mono type-caption text-strong"
+          />
+          <div className="type-micro text-subtle">
+            One rule per line: take profit at N% of max gain, stop at N× credit, close at N DTE, close if short strike delta &gt; N.
+          </div>
+          {parsed && !parsed.ok ? <div className="type-caption text-status-danger">{parsed.error}</div> : null}
+          {saveError ? <div className="type-caption text-status-danger">{saveError}</div> : null}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => { setDraft(null); setSaveError(null) }}
+              className="rounded-full border border-border-strong bg-surface-chip px-3 py-1 type-caption font-semibold text-body hover:bg-surface-hover"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={saving || !parsed?.ok}
+              className="rounded-full border border-border-accent bg-surface-chip px-3 py-1 type-caption font-semibold text-strong hover:bg-surface-hover disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save rules'}
+            </button>
+          </div>
+        </div>
+      ) : playbook.rules.length > 0 ? (
+        <ul className="mt-2 space-y-1 type-caption text-body">
+          {rulesText.split('\n').map((line) => <li key={line}>{line}</li>)}
+        </ul>
+      ) : (
+        <div className="mt-2 type-caption text-subtle">No structured rules yet.</div>
+      )}
+
+      {signals.length > 0 ? (
+        <ul className="mt-3 space-y-2" aria-label="Rule signals">
+          {signals.map((signal) => (
+            <li
+              key={`${signal.rule.kind}-${signal.rule.value}`}
+              className={`rounded border px-3 py-2 ${signal.severity === 'ALERT' ? 'banner-danger' : 'border-border-default bg-surface-chip'}`}
+            >
+              <div className="type-subhead font-semibold">{signal.action}</div>
+              <div className="mt-0.5 type-caption">{signal.detail}</div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
+
 const FOCUSABLE_SELECTORS =
   'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
 
-function PlaybookDrawerComponent({ open, onClose, position, playbook, loading, error }: PlaybookDrawerProps) {
+function PlaybookDrawerComponent({ open, onClose, position, playbook, loading, error, ruleSignals, onSaveRules }: PlaybookDrawerProps) {
   const hasPlaybook = Boolean(playbook)
   const links = playbook?.links ?? []
   const signals = playbook?.signals ?? []
@@ -144,6 +255,10 @@ function PlaybookDrawerComponent({ open, onClose, position, playbook, loading, e
                 </div>
               ) : null}
 
+              {playbook && (playbook.rules.length > 0 || onSaveRules) ? (
+                <PlaybookRulesPanel playbook={playbook} signals={ruleSignals ?? []} onSave={onSaveRules} />
+              ) : null}
+
               {hasSignals ? (
                 <div className="mt-4 rounded-lg border playbook-panel p-3 type-subhead text-strong shadow-sm">
                   <div className="flex items-center gap-2 type-caption font-semibold uppercase tracking-[0.15em] text-playbook-text">
@@ -234,7 +349,9 @@ export const PlaybookDrawer = React.memo(
     prev.loading === next.loading &&
     prev.error === next.error &&
     prev.position === next.position &&
-    prev.playbook === next.playbook,
+    prev.playbook === next.playbook &&
+    prev.ruleSignals === next.ruleSignals &&
+    prev.onSaveRules === next.onSaveRules,
 )
 
 PlaybookDrawer.displayName = 'PlaybookDrawer'
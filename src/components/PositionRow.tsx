@@ -5,11 +5,11 @@ import {
   Position,
   fmtPremium,
   fmtNumber,
-  positionUnrealizedPnL,
   positionGreeks,
   fmtGreek,
   calculatePnlPct,
 } from '../utils'
+import { positionPnl, type PnlCurrency } from '../lib/positions/pnlCurrency'
 import { buildStructureChipSummary, buildStructureSummaryLines } from '../lib/positions/structureSummary'
 import { StructureDetailOverlay } from './StructureDetailOverlay'
 import { TradeJsonExportOverlay } from './TradeJsonExportOverlay'
@@ -31,6 +31,8 @@ type PositionRowProps = {
   clientScope: { activeClient: string | null; isAdmin: boolean }
   onPlaybookOpen?: (position: Position) => void
   onViewDetails?: (position: Position) => void
+  /** PnL column currency; coin-settled structures convert to USD in 'usd'. Defaults to 'coin'. */
+  pnlCurrency?: PnlCurrency
 }
 
 function CellSpinner() {
@@ -69,6 +71,7 @@ const PositionRowComponent: React.FC<PositionRowProps> = ({
   clientScope,
   onPlaybookOpen,
   onViewDetails,
+  pnlCurrency = 'coin',
 }) => {
   const [showDetailOverlay, setShowDetailOverlay] = React.useState(false)
   const [showExportOverlay, setShowExportOverlay] = React.useState(false)
@@ -84,13 +87,15 @@ const PositionRowComponent: React.FC<PositionRowProps> = ({
   const isReadOnly = readOnly || isUpdateMode
   const canOpenOverlay = (!disableSave || isUpdateMode) && (!readOnly || isUpdateMode)
 
-  const posUnrealized = React.useMemo(
-    () => (marks ? positionUnrealizedPnL(p, marks) : null),
-    [marks, p]
+  const coinPnl = React.useMemo(() => positionPnl(p, marks, 'coin'), [marks, p])
+  const usdPnl = React.useMemo(
+    () => (pnlCurrency === 'usd' ? positionPnl(p, marks, 'usd') : null),
+    [marks, p, pnlCurrency]
   )
+  const shownPnl = usdPnl ?? coinPnl
 
-  const hasMarks = posUnrealized != null
-  const posTotalPnl = hasMarks ? p.realizedPnl + posUnrealized : null
+  // PnL % stays in the premium currency, the same basis as the premium it divides by.
+  const posTotalPnl = coinPnl.total
 
   const { pnlPctBaseFallback, pnlPctSignedBasis } = React.useMemo(() => {
     if (posTotalPnl == null) return { pnlPctBaseFallback: 0, pnlPctSignedBasis: null as number | null }
@@ -143,7 +148,7 @@ const PositionRowComponent: React.FC<PositionRowProps> = ({
         <td className="tbl-td" />
         {visibleCols.includes('status') && (
           <td className="tbl-td">
-            <StatusBadge status={p.status} />
+            <StatusBadge status={p.status} thresholds={p.statusThresholds} />
           </td>
         )}
         {visibleCols.includes('dte') && (
@@ -197,13 +202,18 @@ const PositionRowComponent: React.FC<PositionRowProps> = ({
           </td>
         )}
         {visibleCols.includes('pnl') && (
-          <td className={`tbl-td ${posTotalPnl != null && posTotalPnl < 0 ? 'text-status-danger' : posTotalPnl != null ? 'text-status-success' : 'text-muted'}`}>
-            {posTotalPnl != null ? fmtPremium(posTotalPnl, p.underlying) : '—'}
+          <td className={`tbl-td ${shownPnl.total != null && shownPnl.total < 0 ? 'text-status-danger' : shownPnl.total != null ? 'text-status-success' : 'text-muted'}`}>
+            {shownPnl.total != null ? fmtPremium(shownPnl.total, shownPnl.currency) : '—'}
             <div className="type-caption text-muted">
-              <span title="Realized">{fmtPremium(p.realizedPnl, p.underlying)}</span>
+              <span title="Realized">{shownPnl.realized != null ? fmtPremium(shownPnl.realized, shownPnl.currency) : '—'}</span>
               {' + '}
-              <span title="Unrealized (from Marks)">{hasMarks ? fmtPremium(posUnrealized, p.underlying) : '—'}</span>
+              <span title="Unrealized (from Marks)">{shownPnl.unrealized != null ? fmtPremium(shownPnl.unrealized, shownPnl.currency) : '—'}</span>
             </div>
+            {usdPnl && usdPnl.coinAppreciation != null && usdPnl.coinAppreciation !== 0 && (
+              <div className="type-caption text-faint" title="Change in USD value of the realized coin since it was realized; not part of option PnL">
+                Coin {fmtPremium(usdPnl.coinAppreciation, 'USD')}
+              </div>
+            )}
           </td>
         )}
         {visibleCols.includes('pnlpct') && (
@@ -319,7 +329,8 @@ export const PositionRow = React.memo(
     prev.onArchive === next.onArchive &&
     prev.archiving === next.archiving &&
     prev.clientScope === next.clientScope &&
-    prev.onPlaybookOpen === next.onPlaybookOpen
+    prev.onPlaybookOpen === next.onPlaybookOpen &&
+    prev.pnlCurrency === next.pnlCurrency
 )
 
 PositionRow.displayName = 'PositionRow'
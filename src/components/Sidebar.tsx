@@ -13,10 +13,11 @@ import {
   Plus,
   UserCircle,
   BarChart2,
+  LineChart,
 } from 'lucide-react'
 import { Toggle } from './Toggle'
 
-export type SidebarNavKey = 'dashboard' | 'clientDashboard' | 'playbooks' | 'assignLegs' | 'mapCSV' | 'optionsChain'
+export type SidebarNavKey = 'dashboard' | 'clientDashboard' | 'analytics' | 'playbooks' | 'assignLegs' | 'mapCSV' | 'optionsChain'
 
 export interface SidebarProps {
   collapsed: boolean
@@ -24,6 +25,7 @@ export interface SidebarProps {
   activeNav?: SidebarNavKey
   onNavigateDashboard?: () => void
   onNavigateClientDashboard?: () => void
+  onNavigateAnalytics?: () => void
   onNavigatePlaybooks?: () => void
   onNavigateAssignLegs?: () => void
   onNavigateMapCSV?: () => void
@@ -54,6 +56,7 @@ export function Sidebar({
   activeNav = 'dashboard',
   onNavigateDashboard,
   onNavigateClientDashboard,
+  onNavigateAnalytics,
   onNavigatePlaybooks,
   onNavigateAssignLegs,
   onNavigateMapCSV,
@@ -73,6 +76,7 @@ export function Sidebar({
   const navItems: NavItemDef[] = [
     { key: 'dashboard', icon: LayoutDashboard, label: 'Dashboard', onClick: onNavigateDashboard },
     { key: 'clientDashboard', icon: UserCircle, label: 'Client Dashboard', onClick: onNavigateClientDashboard },
+    { key: 'analytics', icon: LineChart, label: 'Analytics', onClick: onNavigateAnalytics },
     { key: 'optionsChain', icon: BarChart2, label: 'Options Chain', onClick: onNavigateOptionsChain },
     { key: 'playbooks', icon: BookOpen, label: 'Playbooks', onClick: onNavigatePlaybooks },
     { key: 'assignLegs', icon: GitMerge, label: 'Assign Legs', onClick: onNavigateAssignLegs },
@@ -1,4 +1,6 @@
 import React from 'react'
+import type { StatusThresholds } from '../utils'
+import { describeStatusThresholds } from '../lib/positions'
 
 const TONE_MAP: Record<string, string> = {
   OPEN: 'tbl-badge-success',
@@ -18,14 +20,16 @@ const DOT_MAP: Record<string, string> = {
 
 type StatusBadgeProps = {
   status: string
+  /** Thresholds the status was classified with, shown as a tooltip. */
+  thresholds?: StatusThresholds
 }
 
-export const StatusBadge: React.FC<StatusBadgeProps> = React.memo(({ status }) => {
+export const StatusBadge: React.FC<StatusBadgeProps> = React.memo(({ status, thresholds }) => {
   const tone = TONE_MAP[status] ?? 'tbl-badge-neutral'
   const dot = DOT_MAP[status] ?? 'bg-neutral-500'
 
   return (
-    <span className={`tbl-badge ${tone}`}>
+    <span className={`tbl-badge ${tone}`} title={thresholds ? describeStatusThresholds(thresholds) : undefined}>
       <span className={`w-1.5 h-1.5 rounded-full ${dot}`} />
       {status}
     </span>
@@ -1,5 +1,6 @@
 import React from 'react'
-import { type Position, type MarksMap, positionUnrealizedPnL, fmtPremium, daysTo, getLegMarkRef } from '../utils'
+import { type Position, type MarksMap, positionUnrealizedPnL, fmtPremium, daysTo, getLegMarkRef, DEFAULT_STATUS_THRESHOLDS } from '../utils'
+import type { RuleSignal } from '../lib/positions'
 import { Card, Badge } from './ui'
 
 /* ── helpers ─────────────────────────────────────────────────────────── */
@@ -53,11 +54,13 @@ export function structureTitle(p: Position): string {
 export interface StructureCardProps {
   position: Position
   marks: MarksMap
+  /** Playbook rule signals, most severe first; the first is shown on the card. */
+  signals?: RuleSignal[]
   onClick?: (p: Position) => void
   className?: string
 }
 
-export function StructureCard({ position: p, marks, onClick, className }: StructureCardProps) {
+export function StructureCard({ position: p, marks, signals, onClick, className }: StructureCardProps) {
   const pnl = positionUnrealizedPnL(p, marks)
   const hasPnl = p.legs.some((leg) => {
     const ref = getLegMarkRef(p, leg)
@@ -70,7 +73,9 @@ export function StructureCard({ position: p, marks, onClick, className }: Struct
     return min === null ? d : Math.min(min, d)
   }, null)
 
+  const alertDte = (p.statusThresholds ?? DEFAULT_STATUS_THRESHOLDS).alertDte
   const title = structureTitle(p)
+  const signal = signals?.[0]
 
   return (
     <Card
@@ -107,7 +112,7 @@ export function StructureCard({ position: p, marks, onClick, className }: Struct
           )}
 
           {minDte !== null ? (
-            <span className={`font-medium tabular-nums ${minDte <= 7 ? 'text-status-warning' : 'text-text-tertiary'}`}>
+            <span className={`font-medium tabular-nums ${minDte <= alertDte ? 'text-status-warning' : 'text-text-tertiary'}`}>
               {minDte}d
             </span>
           ) : null}
@@ -116,6 +121,16 @@ export function StructureCard({ position: p, marks, onClick, className }: Struct
             {p.legs.length} leg{p.legs.length !== 1 ? 's' : ''}
           </span>
         </div>
+
+        {/* Row 3: top playbook rule signal */}
+        {signal ? (
+          <div
+            className={`type-caption truncate ${signal.severity === 'ALERT' ? 'text-status-danger font-semibold' : 'text-status-warning'}`}
+            title={signals!.map((s) => `${s.action}: ${s.detail}`).join('\n')}
+          >
+            {signal.action}: {signal.detail}
+          </div>
+        ) : null}
       </div>
     </Card>
   )
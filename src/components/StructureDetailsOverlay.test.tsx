@@ -0,0 +1,54 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import type { TxnRow } from '../utils'
+import type { MarginUsage } from '../features/clientPortal/dashboard/marginModel'
+import { candidateLegsFromRows } from '../lib/margin'
+import { StructureDetailsOverlay, type StructureSummary } from './StructureDetailsOverlay'
+
+const EXPIRY = new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10)
+
+const margin: MarginUsage = {
+  ccy: 'BTC', marginBalance: 0.5, initialMargin: 0.1, maintenanceMargin: 0.05, available: 0.4, imUtilization: 0.2, zone: 'ok',
+  venues: [], asOf: null, stale: false, unconverted: [], unavailable: [],
+}
+
+const rows: TxnRow[] = [
+  { instrument: 'BTC-PUT', side: 'buy', amount: 1, price: 0.02, underlying: 'BTC', expiry: EXPIRY, strike: 90_000, optionType: 'P', exchange: 'deribit' },
+]
+
+const structure: StructureSummary = {
+  key: 's1', underlying: 'BTC', expirySketch: EXPIRY, legCount: 1, exchange: 'deribit', spot: 100_000,
+  legs: candidateLegsFromRows(rows),
+}
+
+function renderOverlay(structures: StructureSummary[]) {
+  return render(
+    <StructureDetailsOverlay
+      structures={structures}
+      programs={[]}
+      strategies={[]}
+      onConfirm={vi.fn()}
+      onBack={vi.fn()}
+      onCreateProgram={vi.fn()}
+      positions={[]}
+      marks={{}}
+      margin={margin}
+    />,
+  )
+}
+
+describe('StructureDetailsOverlay', () => {
+  it('opens the margin what-if for an imported structure with the Hub margin balance', () => {
+    renderOverlay([structure])
+    expect(screen.queryByTestId('margin-what-if')).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'What-if' }))
+    expect(screen.getByTestId('margin-what-if')).toBeInTheDocument()
+    expect(screen.getByLabelText('Account equity (USD)')).toHaveValue(50_000)
+    expect(screen.getByText('Delta')).toBeInTheDocument()
+  })
+
+  it('offers no what-if for a structure without legs', () => {
+    renderOverlay([{ ...structure, legs: undefined }])
+    expect(screen.queryByRole('button', { name: 'What-if' })).not.toBeInTheDocument()
+  })
+})
@@ -4,13 +4,22 @@ import { Plus, X } from 'lucide-react'
 import { Button } from './ui/Button'
 import { IconButton } from './ui/IconButton'
 import { Input } from './ui/Input'
+import { MarginWhatIfPanel } from './MarginWhatIfPanel'
+import type { MarksMap, Position } from '../utils'
+import type { Leg as ImportLeg } from '../lib/import/types'
 import type { ProgramOption } from '../lib/positions/fetchPrograms'
+import type { MarginUsage } from '../features/clientPortal/dashboard/marginModel'
 
 export type StructureSummary = {
   key: string
   underlying: string
   expirySketch: string
   legCount: number
+  exchange?: string | null
+  /** Underlying spot (USD) to seed the margin what-if with. */
+  spot?: number | null
+  /** Legs being imported; the margin what-if is offered when present. */
+  legs?: Array<Partial<ImportLeg>>
 }
 
 export type StrategyOption = {
@@ -34,6 +43,10 @@ type StructureDetailsOverlayProps = {
   onConfirm: (metadata: Map<string, StructureMetadata>) => void | Promise<void>
   onBack: () => void
   onCreateProgram: (name: string) => Promise<ProgramOption | null>
+  /** Open structures, live marks and Hub margin usage for the margin what-if. */
+  positions?: Position[]
+  marks?: MarksMap
+  margin?: MarginUsage | null
 }
 
 const selectClasses = [
@@ -53,6 +66,9 @@ export function StructureDetailsOverlay({
   onConfirm,
   onBack,
   onCreateProgram,
+  positions = [],
+  marks,
+  margin,
 }: StructureDetailsOverlayProps) {
   const [metadata, setMetadata] = React.useState<Map<string, StructureMetadata>>(() => {
     const m = new Map<string, StructureMetadata>()
@@ -93,6 +109,7 @@ export function StructureDetailsOverlay({
   const [creatingProgram, setCreatingProgram] = React.useState(false)
 
   const [saving, setSaving] = React.useState(false)
+  const [marginKey, setMarginKey] = React.useState<string | null>(null)
 
   // Animation state
   const [visible, setVisible] = useState(false)
@@ -288,14 +305,17 @@ export function StructureDetailsOverlay({
                 <th className="text-left py-2 px-3">Program *</th>
                 <th className="text-left py-2 px-3">Strategy</th>
                 <th className="text-left py-2 px-3">Notes</th>
+                <th className="text-left py-2 px-3">Margin</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-border-default">
               {structures.map((s) => {
                 const meta = metadata.get(s.key)!
                 const isNewProgram = newProgramKey === s.key
+                const showMargin = marginKey === s.key
                 return (
-                  <tr key={s.key} className="hover:bg-bg-surface-2 transition-colors">
+                  <React.Fragment key={s.key}>
+                  <tr className="hover:bg-bg-surface-2 transition-colors">
                     {/* Structure summary */}
                     <td className="py-2.5 px-3 align-top">
                       <div className="type-subhead text-text-primary font-medium">{s.underlying}</div>
@@ -388,7 +408,37 @@ export function StructureDetailsOverlay({
                         onChange={(e) => updateField(s.key, 'notes', e.target.value)}
                       />
                     </td>
+
+                    {/* Margin what-if */}
+                    <td className="py-2.5 px-3 align-top">
+                      {s.legs && s.legs.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-expanded={showMargin}
+                          onClick={() => setMarginKey(showMargin ? null : s.key)}
+                        >
+                          {showMargin ? 'Hide' : 'What-if'}
+                        </Button>
+                      )}
+                    </td>
                   </tr>
+                  {showMargin && (
+                    <tr>
+                      <td colSpan={5} className="px-3 pb-4">
+                        <MarginWhatIfPanel
+                          positions={positions}
+                          legs={s.legs ?? []}
+                          underlying={s.underlying}
+                          exchange={s.exchange}
+                          defaultSpot={s.spot}
+                          marks={marks}
+                          margin={margin}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 )
               })}
             </tbody>
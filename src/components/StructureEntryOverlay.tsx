@@ -1,8 +1,10 @@
 import React from 'react';
 import { X } from 'lucide-react';
 import Overlay from './Overlay';
+import { MarginWhatIfPanel } from './MarginWhatIfPanel';
 import { Button } from './ui';
-import type { Position, TxnRow } from '../utils';
+import type { MarksMap, Position, TxnRow } from '../utils';
+import type { MarginUsage } from '../features/clientPortal/dashboard/marginModel';
 import { computeMissing } from '../features/import/missing';
 import { importTrades } from '../lib/import';
 import type { ImportPayload } from '../lib/import';
@@ -10,6 +12,8 @@ import { tryGetSupabaseClient } from '../lib/supabase';
 import { useAuth } from '../features/auth/useAuth';
 import { fetchStructurePayload } from '../lib/positions/fetchStructurePayload';
 import { fetchPrograms } from '../lib/positions/fetchPrograms';
+import { settlementFor } from '../lib/pricing';
+import { analyticsMismatches, analyzeStructure } from '../lib/payoff';
 import {
   OPTIONS_STRUCTURES,
   CONSTRUCTIONS,
@@ -430,6 +434,10 @@ function computeNetFill(legs: Position['legs']): number {
   }, 0);
 }
 
+function formatAnalyticsNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 10 ? 4 : 2 });
+}
+
 /** Pick the first trade we encounter, primarily for default metadata fields. */
 function firstTrade(legs: Position['legs']): TxnRow | undefined {
   for (const leg of legs) {
@@ -541,6 +549,10 @@ function buildInitialPayload(position: Position): PartialPayload {
   const first = firstTrade(position.legs);
   const feesTotal = sumFees(position.legs);
   const netFill = computeNetFill(position.legs);
+  const legs = buildInitialLegs(position);
+  const analytics = analyzeStructure(legs, {
+    settlement: settlementFor(first?.exchange ?? position.exchange, position.underlying),
+  });
 
   const program = {
     program_id: '',
@@ -558,7 +570,7 @@ function buildInitialPayload(position: Position): PartialPayload {
     client_name: position.clientName ?? '',
     options_structure: position.legs.length > 1 ? 'strangle' : 'single_option',
     construction: position.legs.length > 1 ? 'balanced' : 'outright',
-    risk_defined: position.legs.length > 1,
+    risk_defined: analytics?.riskDefined ?? position.legs.length > 1,
     lifecycle: 'open',
     entry_ts: safeIso(entryTs) ?? entryTs,
     exit_ts: safeIso(exitTs) ?? undefined,
@@ -581,8 +593,8 @@ function buildInitialPayload(position: Position): PartialPayload {
     expected_move_pts: undefined,
     em_coverage_pct: undefined,
     multiplier: undefined,
-    max_gain: undefined,
-    max_loss: undefined,
+    max_gain: analytics?.maxGain ?? undefined,
+    max_loss: analytics?.maxLoss ?? undefined,
     net_delta: undefined,
     counterparty: undefined,
     pricing_currency: 'USD',
@@ -594,7 +606,7 @@ function buildInitialPayload(position: Position): PartialPayload {
   return {
     program,
     position: positionDetails,
-    legs: buildInitialLegs(position),
+    legs,
     fills: buildInitialFills(position),
     venue: undefined,
   };
@@ -775,6 +787,8 @@ export function StructureEntryOverlay({
   mode = 'create',
   existingPositionId,
   clientScope,
+  marks,
+  margin,
 }: {
   open: boolean;
   onClose: () => void;
@@ -784,6 +798,10 @@ export function StructureEntryOverlay({
   mode?: StructureEntryOverlayMode;
   existingPositionId?: string;
   clientScope: { activeClient: string | null; isAdmin: boolean };
+  /** Live leg marks the dashboard holds, for the margin what-if. */
+  marks?: MarksMap;
+  /** Hub margin usage, the margin what-if's default account equity. */
+  margin?: MarginUsage | null;
 }) {
   const initialPayload = React.useMemo(() => {
     const base = buildInitialPayload(position);
@@ -818,6 +836,10 @@ export function StructureEntryOverlay({
     [supabaseConfigured],
   );
   const isUpdateMode = mode === 'update' && Boolean(existingPositionId);
+  const marginBook = React.useMemo(
+    () => allPositions.filter((p) => p.id !== position.id && p.id !== existingPositionId),
+    [allPositions, position.id, existingPositionId],
+  );
 
   React.useEffect(() => {
     if (clientScope.isAdmin) return;
@@ -1016,6 +1038,20 @@ export function StructureEntryOverlay({
     [payloadForValidation],
   );
 
+  const analytics = React.useMemo(
+    () =>
+      analyzeStructure(form.legs ?? [], {
+        settlement: settlementFor(form.position?.provider ?? position.exchange, form.position?.underlier ?? position.underlying),
+        multiplier: form.position?.multiplier,
+        spot: form.position?.spot,
+      }),
+    [form.legs, form.position?.provider, form.position?.underlier, form.position?.multiplier, form.position?.spot, position.exchange, position.underlying],
+  );
+  const analyticsWarnings = React.useMemo(
+    () => (analytics ? analyticsMismatches(analytics, form.position ?? {}) : []),
+    [analytics, form.position],
+  );
+
   const handleProgramNameChange = React.useCallback(
     (value: string) => {
       setForm((prev) => {
@@ -1253,8 +1289,20 @@ export function StructureEntryOverlay({
     },
     { label: 'EM Coverage %', path: 'position.em_coverage_pct', valueType: 'number', type: 'number' },
     { label: 'Multiplier', path: 'position.multiplier', valueType: 'number', type: 'number' },
-    { label: 'Max Gain', path: 'position.max_gain', valueType: 'number', type: 'number' },
-    { label: 'Max Loss', path: 'position.max_loss', valueType: 'number', type: 'number' },
+    {
+      label: 'Max Gain',
+      path: 'position.max_gain',
+      valueType: 'number',
+      type: 'number',
+      helperText: 'Filled from the legs; blank when unlimited',
+    },
+    {
+      label: 'Max Loss',
+      path: 'position.max_loss',
+      valueType: 'number',
+      type: 'number',
+      helperText: 'Positive amount; blank when unlimited',
+    },
     { label: 'Net Delta', path: 'position.net_delta', valueType: 'number', type: 'number' },
     { label: 'Counterparty', path: 'position.counterparty', valueType: 'string' },
     {
@@ -1704,6 +1752,24 @@ export function StructureEntryOverlay({
                   />
                 ))}
               </div>
+              {analytics ? (
+                <div
+                  className="rounded-xl border border-border-default bg-bg-surface-1 px-4 py-3 type-caption text-text-secondary"
+                  data-testid="structure-analytics"
+                >
+                  Computed at expiry from the legs: max gain{' '}
+                  {analytics.maxGain == null ? 'unlimited' : formatAnalyticsNumber(analytics.maxGain)}, max loss{' '}
+                  {analytics.maxLoss == null ? 'unlimited' : formatAnalyticsNumber(analytics.maxLoss)}, breakevens{' '}
+                  {analytics.breakevens.length ? analytics.breakevens.map(formatAnalyticsNumber).join(', ') : 'none'}.
+                </div>
+              ) : null}
+              {analyticsWarnings.length ? (
+                <div className="space-y-1 rounded-xl border banner-warning px-4 py-3 type-subhead" data-testid="structure-analytics-warning">
+                  {analyticsWarnings.map((warning) => (
+                    <p key={warning}>{warning}</p>
+                  ))}
+                </div>
+              ) : null}
             </Section>
 
             <Section
@@ -1832,6 +1898,21 @@ export function StructureEntryOverlay({
               </div>
             </Section>
 
+            <Section
+              title="Margin impact"
+              description="What-if initial/maintenance margin and greeks of your open structures with these legs added."
+            >
+              <MarginWhatIfPanel
+                positions={marginBook}
+                legs={form.legs ?? []}
+                underlying={form.position?.underlier ?? position.underlying}
+                exchange={form.position?.provider ?? position.exchange}
+                defaultSpot={form.position?.spot}
+                marks={marks}
+                margin={margin}
+              />
+            </Section>
+
             <Section
               title="Fills"
               description="Individual fills generated from the source transactions. Update quantities, timestamps, or references as needed."
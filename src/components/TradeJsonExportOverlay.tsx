@@ -5,6 +5,7 @@ import {
   formatInstrumentLabel,
   getLegMarkRef,
   legNetQty,
+  markMultiplier,
   positionGreeks,
   type Position,
 } from '../utils'
@@ -70,7 +71,7 @@ function computeNetMark(position: Position, marks?: MarkMap) {
     if (!ref) continue
     const info = marks[ref.key]
     if (info?.price == null) continue
-    const multiplier = ref.exchange === 'coincall' ? info.multiplier : ref.defaultMultiplier
+    const multiplier = markMultiplier(ref, info)
     const m = Number.isFinite(multiplier as number) ? (multiplier as number) : 1
     sum += info.price * legNetQty(leg) * m
     hasAny = true
@@ -210,7 +210,18 @@ export function suggestStructureType(items: LegItem[]): string {
   if (items.length === 0) return 'CU'
 
   const { legMap } = aggregateStructureLegs(items)
-  const legs = Array.from(legMap.values())
+  return structureTypeFromLegs(Array.from(legMap.values()))
+}
+
+/** Aggregated leg shape the structure-type heuristic works on (one entry per contract). */
+export type StructureTypeLeg = {
+  key: { expiry: string; strike: number; optionType: string }
+  netQty: number
+}
+
+/** The `suggestStructureType` heuristic over already aggregated legs. */
+export function structureTypeFromLegs(legs: StructureTypeLeg[]): string {
+  if (legs.length === 0) return 'CU'
 
   const expiries = Array.from(new Set(legs.map((e) => e.key.expiry))).sort()
   const calls = legs.filter((e) => e.key.optionType === 'C')
@@ -0,0 +1,57 @@
+import React from 'react'
+import { Spinner } from '../../components/Spinner'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import type { MarksMap, Position } from '../../utils'
+import { historyMarkKeys, useMarkSnapshots } from '../../lib/marks'
+import { lastDays } from './performance'
+import { PerformancePanel } from './PerformancePanel'
+import { ExecutionPanel } from './ExecutionPanel'
+
+type AnalyticsPageProps = {
+  clientName: string
+  positions: Position[]
+  marks?: MarksMap
+}
+
+const VIEWS = [
+  { value: 'performance', label: 'Performance' },
+  { value: 'execution', label: 'Execution' },
+]
+
+const LOOKBACKS = [
+  { value: '30', label: '30D' },
+  { value: '90', label: '90D' },
+]
+
+/** Performance and execution-quality analytics of the client's structures over a lookback. */
+export function AnalyticsPage({ clientName, positions, marks }: AnalyticsPageProps) {
+  const [view, setView] = React.useState('performance')
+  const [lookback, setLookback] = React.useState('30')
+  const days = React.useMemo(() => lastDays(Number(lookback)), [lookback])
+  const since = React.useMemo(() => Date.parse(`${days[0]}T00:00:00Z`), [days])
+  const keys = React.useMemo(() => historyMarkKeys(positions), [positions])
+  const { snapshots, loading } = useMarkSnapshots(keys, { days: Number(lookback) + 1, reloadKey: marks })
+  const history = React.useMemo(() => snapshots ?? [], [snapshots])
+
+  return (
+    <div className="flex-1 overflow-auto px-6 py-5 space-y-5" data-testid="analytics-page">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="type-title-l font-bold text-text-primary">{clientName}</h1>
+          <div className="mt-1 type-subhead text-text-secondary">
+            {positions.length} structure{positions.length === 1 ? '' : 's'}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {loading && <Spinner className="h-4 w-4 text-muted" />}
+          <SegmentedControl items={VIEWS} value={view} onChange={setView} size="sm" />
+          <SegmentedControl items={LOOKBACKS} value={lookback} onChange={setLookback} size="sm" />
+        </div>
+      </div>
+
+      {view === 'performance'
+        ? <PerformancePanel positions={positions} marks={marks} snapshots={history} days={days} />
+        : <ExecutionPanel positions={positions} snapshots={history} since={since} />}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import React from 'react'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import { DataTable, type Column } from '../../components/ui'
+import type { Position } from '../../utils'
+import type { MarkSnapshot } from '../../lib/marks'
+import {
+  EXECUTION_DIMENSIONS, executionByDimension,
+  type ExecutionDimension, type ExecutionRow,
+} from './execution'
+import { Pnl, fmtPct } from './PerformancePanel'
+
+type ExecutionPanelProps = {
+  positions: Position[]
+  snapshots: MarkSnapshot[]
+  /** Only fills at or after this time (ms) are reported. */
+  since: number
+}
+
+// Slippage shown as a cost: red when fills were worse than the reference.
+function Cost({ value, asset }: { value: number | null; asset: string }) {
+  return <Pnl value={value == null ? null : -value} asset={asset} />
+}
+
+const fmtBps = (n: number | null) => (n == null ? '—' : `${(n * 10_000).toFixed(0)} bp`)
+
+const COLUMNS: Column<ExecutionRow>[] = [
+  { key: 'label', header: 'Group', render: (r) => <span className="font-medium">{r.label}</span> },
+  { key: 'currency', header: 'Ccy', render: (r) => r.currency },
+  { key: 'fills', header: 'Fills', align: 'right', tabular: true, render: (r) => r.fills },
+  { key: 'slippageVsMark', header: 'Slippage vs mark', align: 'right', tabular: true, render: (r) => <Cost value={r.slippageVsMark} asset={r.currency} /> },
+  { key: 'slippageVsMarkPct', header: 'vs mark', headerAbbr: 'Slippage vs mark as share of premium', align: 'right', tabular: true, render: (r) => fmtBps(r.slippageVsMarkPct) },
+  { key: 'markCoverage', header: 'Marked', headerAbbr: 'Share of fills with a mark at fill time', align: 'right', tabular: true, render: (r) => fmtPct(r.markCoverage) },
+  { key: 'slippageVsMid', header: 'Slippage vs mid', align: 'right', tabular: true, render: (r) => <Cost value={r.slippageVsMid} asset={r.currency} /> },
+  { key: 'slippageVsMidPct', header: 'vs mid', headerAbbr: 'Slippage vs mid as share of premium', align: 'right', tabular: true, render: (r) => fmtBps(r.slippageVsMidPct) },
+  { key: 'makerRatio', header: 'Maker', align: 'right', tabular: true, render: (r) => fmtPct(r.makerRatio) },
+  { key: 'feeDrag', header: 'Fee drag', align: 'right', tabular: true, render: (r) => fmtPct(r.feeDrag, 2) },
+  { key: 'rfqImprovement', header: 'RFQ vs CLOB', headerAbbr: 'RFQ price improvement over CLOB', align: 'right', tabular: true, render: (r) => fmtBps(r.rfqImprovement) },
+]
+
+/**
+ * Execution quality of the client's fills by venue, provider or structure type: slippage
+ * against the mark and mid at fill time, maker share, fee drag and RFQ price improvement.
+ */
+export function ExecutionPanel({ positions, snapshots, since }: ExecutionPanelProps) {
+  const [dimension, setDimension] = React.useState<ExecutionDimension>('venue')
+
+  const rows = React.useMemo(
+    () => executionByDimension(positions, dimension, { snapshots, since }),
+    [positions, dimension, snapshots, since],
+  )
+
+  return (
+    <div className="bg-bg-surface-1 rounded-2xl border border-border-default p-5 space-y-4" data-testid="execution-panel">
+      <SegmentedControl
+        items={EXECUTION_DIMENSIONS}
+        value={dimension}
+        onChange={(v) => setDimension(v as ExecutionDimension)}
+        size="sm"
+      />
+      <DataTable
+        columns={COLUMNS}
+        data={rows}
+        rowKey={(r) => r.key}
+        emptyMessage="No fills in this period."
+      />
+      <p className="type-micro text-text-disabled leading-snug">
+        Slippage is the cost against the nearest stored mark (within 30 minutes of the fill) or bid/ask mid; opening
+        fills without one use the structure&apos;s imported mark at entry. Fee drag is fees over premium traded. RFQ vs
+        CLOB is the CLOB slippage vs mark minus the RFQ slippage; positive means RFQ filled better.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import React from 'react'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import { DataTable, type Column } from '../../components/ui'
+import { fmtPremium, type MarksMap, type Position } from '../../utils'
+import type { MarkSnapshot } from '../../lib/marks'
+import {
+  PERFORMANCE_DIMENSIONS, performanceByDimension,
+  type PerformanceDimension, type PerformanceRow,
+} from './performance'
+
+type PerformancePanelProps = {
+  positions: Position[]
+  marks?: MarksMap
+  snapshots: MarkSnapshot[]
+  /** Days (ascending YYYY-MM-DD) of the daily PnL series. */
+  days: string[]
+}
+
+export const fmtRatio = (n: number | null, digits = 2) => (n == null ? '—' : n.toFixed(digits))
+export const fmtPct = (n: number | null, digits = 0) => (n == null ? '—' : `${(n * 100).toFixed(digits)}%`)
+
+export function Pnl({ value, asset }: { value: number | null; asset: string }) {
+  if (value == null) return <>—</>
+  return <span className={value < 0 ? 'text-status-danger' : 'text-status-success'}>{fmtPremium(value, asset)}</span>
+}
+
+const COLUMNS: Column<PerformanceRow>[] = [
+  { key: 'label', header: 'Group', render: (r) => <span className="font-medium">{r.label}</span> },
+  { key: 'currency', header: 'Ccy', render: (r) => r.currency },
+  { key: 'structures', header: 'Closed / Open', align: 'right', tabular: true, render: (r) => `${r.closed} / ${r.open}` },
+  { key: 'totalPnl', header: 'PnL', align: 'right', tabular: true, render: (r) => <Pnl value={r.totalPnl} asset={r.currency} /> },
+  { key: 'winRate', header: 'Win rate', align: 'right', tabular: true, render: (r) => fmtPct(r.winRate) },
+  { key: 'avgWin', header: 'Avg win', align: 'right', tabular: true, render: (r) => <Pnl value={r.avgWin} asset={r.currency} /> },
+  { key: 'avgLoss', header: 'Avg loss', align: 'right', tabular: true, render: (r) => <Pnl value={r.avgLoss} asset={r.currency} /> },
+  { key: 'expectancy', header: 'Expectancy', align: 'right', tabular: true, render: (r) => <Pnl value={r.expectancy} asset={r.currency} /> },
+  { key: 'profitFactor', header: 'Profit factor', align: 'right', tabular: true, render: (r) => fmtRatio(r.profitFactor) },
+  { key: 'sharpe', header: 'Sharpe', align: 'right', tabular: true, render: (r) => fmtRatio(r.sharpe) },
+  { key: 'sortino', header: 'Sortino', align: 'right', tabular: true, render: (r) => fmtRatio(r.sortino) },
+  {
+    key: 'maxDrawdown', header: 'Max DD', align: 'right', tabular: true,
+    render: (r) => (r.maxDrawdown == null ? '—' : <Pnl value={-r.maxDrawdown} asset={r.currency} />),
+  },
+  { key: 'avgDaysInTrade', header: 'Avg days', align: 'right', tabular: true, render: (r) => fmtRatio(r.avgDaysInTrade, 1) },
+  { key: 'returnOnRisk', header: 'Return on risk', align: 'right', tabular: true, render: (r) => fmtPct(r.returnOnRisk) },
+]
+
+/**
+ * Performance of the client's structures grouped by program, strategy code, underlying or
+ * structure type. Trade statistics cover closed structures; Sharpe, Sortino and drawdown
+ * use the daily PnL over the lookback, rebuilt from trades and the marks in `mark_snapshots`.
+ */
+export function PerformancePanel({ positions, marks, snapshots, days }: PerformancePanelProps) {
+  const [dimension, setDimension] = React.useState<PerformanceDimension>('program')
+
+  const rows = React.useMemo(
+    () => performanceByDimension(positions, dimension, { marks, snapshots, days }),
+    [positions, dimension, marks, snapshots, days],
+  )
+
+  return (
+    <div className="bg-bg-surface-1 rounded-2xl border border-border-default p-5 space-y-4" data-testid="performance-panel">
+      <SegmentedControl
+        items={PERFORMANCE_DIMENSIONS}
+        value={dimension}
+        onChange={(v) => setDimension(v as PerformanceDimension)}
+        size="sm"
+      />
+      <DataTable
+        columns={COLUMNS}
+        data={rows}
+        rowKey={(r) => r.key}
+        emptyMessage="No structures for this client yet."
+      />
+      <p className="type-micro text-text-disabled leading-snug">
+        Win rate, averages, expectancy, profit factor, days in trade and return on risk (PnL over max loss at
+        entry) use closed structures. Sharpe and Sortino are annualised from daily PnL over the lookback; days
+        before a leg has stored marks only count its realized PnL. Amounts are in each group&apos;s premium currency.
+      </p>
+    </div>
+  )
+}
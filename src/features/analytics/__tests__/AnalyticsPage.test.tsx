@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import type { Position } from '../../../utils'
+import { AnalyticsPage } from '../AnalyticsPage'
+
+vi.mock('../../../lib/marks/useMarkSnapshots', () => ({
+  useMarkSnapshots: () => ({ snapshots: [], loading: false }),
+}))
+
+const closed = (id: string, realizedPnl: number, over: Partial<Position>): Position => ({
+  id, underlying: 'BTC', expiryISO: '2026-09-25', dte: 0, legsCount: 1, type: 'Single', realizedPnl,
+  netPremium: 0, status: 'CLOSED', greeks: {}, exchange: 'deribit', programName: 'Core',
+  openedAt: '2026-09-01T00:00:00Z', closedAt: '2026-09-05T00:00:00Z',
+  legs: [{ key: id, strike: 100_000, optionType: 'C', realizedPnl, netPremium: 0, qtyNet: 0, trades: [], openLots: [] }],
+  ...over,
+})
+
+const positions = [
+  closed('a', 0.02, { strategyCode: 'CC' }),
+  closed('b', -0.01, { strategyCode: 'PS', programName: 'Hedge' }),
+]
+
+describe('AnalyticsPage', () => {
+  it('lists one row per program and regroups by strategy', () => {
+    render(<AnalyticsPage clientName="Acme" positions={positions} />)
+    const page = screen.getByTestId('performance-panel')
+    expect(within(page).getByText('Core')).toBeInTheDocument()
+    expect(within(page).getByText('Hedge')).toBeInTheDocument()
+    expect(within(page).getAllByText('100%').length).toBeGreaterThan(0)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Strategy' }))
+    expect(within(page).getByText('CC')).toBeInTheDocument()
+    expect(within(page).getByText('PS')).toBeInTheDocument()
+    expect(within(page).queryByText('Core')).not.toBeInTheDocument()
+  })
+
+  it('shows an empty state without structures', () => {
+    render(<AnalyticsPage clientName="Acme" positions={[]} />)
+    expect(screen.getByText('No structures for this client yet.')).toBeInTheDocument()
+  })
+
+  it('switches to execution quality by venue', () => {
+    const fills = positions.map((p) => ({
+      ...p,
+      legs: p.legs.map((l) => ({
+        ...l,
+        trades: [{ instrument: 'x', side: 'buy', action: 'open', amount: 1, price: 0.05, fee: 0.0003, timestamp: new Date().toISOString(), liquidityRole: 'maker' as const }],
+      })),
+    }))
+    render(<AnalyticsPage clientName="Acme" positions={fills} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Execution' }))
+    const panel = screen.getByTestId('execution-panel')
+    const row = within(panel).getByText('deribit').closest('tr')!
+    expect(within(row).getByText('2')).toBeInTheDocument()
+    expect(within(row).getByText('100%')).toBeInTheDocument()
+    expect(within(row).getByText('0.60%')).toBeInTheDocument()
+  })
+})
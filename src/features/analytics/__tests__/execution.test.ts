@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { cmeContractMultiplier, toCmeSymbol, type Leg, type Position, type TxnRow } from '@/utils'
+import type { MarkSnapshot } from '@/lib/marks'
+import { executionByDimension, executionStats, fillExecutions, type FillExecution } from '../execution'
+
+const KEY = 'deribit:BTC-25DEC26-100000-C'
+const FILL_TS = '2026-10-10T12:00:00Z'
+
+const trade = (over: Partial<TxnRow> = {}): TxnRow => ({
+  instrument: 'BTC-25DEC26-100000-C', side: 'buy', action: 'open', amount: 2, price: 0.052, timestamp: FILL_TS, ...over,
+})
+
+const leg = (trades: TxnRow[], over: Partial<Leg> = {}): Leg => ({
+  key: 'c', strike: 100_000, optionType: 'C', realizedPnl: 0, netPremium: 0, qtyNet: 2, trades,
+  openLots: [{ qty: 2, price: 0.052, sign: 1 }], ...over,
+})
+
+const position = (trades: TxnRow[], over: Partial<Position> = {}): Position => ({
+  id: 'p1', underlying: 'BTC', expiryISO: '2026-12-25', dte: 67, legsCount: 1, type: 'Single',
+  realizedPnl: 0, netPremium: 0, status: 'OPEN', greeks: {}, exchange: 'deribit', provider: 'deribit',
+  legs: [leg(trades)], ...over,
+})
+
+const snap = (ts: string, mark: number, bid: number | null, ask: number | null): MarkSnapshot => ({
+  key: KEY, exchange: 'deribit', instrument: 'BTC-25DEC26-100000-C', ts, mark, bid, ask,
+  iv: null, indexPrice: null, multiplier: 1,
+  greeks: { delta: null, gamma: null, theta: null, vega: null, rho: null },
+})
+
+const fill = (over: Partial<FillExecution>): FillExecution => ({
+  positionId: 'p', at: null, venue: 'deribit', provider: 'deribit', structureType: 'LC', currency: 'BTC',
+  role: null, mode: null, notional: 1, fee: null, markCost: null, midCost: null, ...over,
+})
+
+describe('fillExecutions', () => {
+  it('measures slippage against the nearest stored mark and mid', () => {
+    const [f] = fillExecutions([position([trade()])], [
+      snap('2026-10-10T11:00:00Z', 0.04, 0.039, 0.041),
+      snap('2026-10-10T11:50:00Z', 0.05, 0.049, 0.053),
+    ])
+    expect(f.markCost).toBeCloseTo(2 * 0.002, 12)
+    expect(f.midCost).toBeCloseTo(2 * 0.001, 12)
+    expect(f.notional).toBeCloseTo(0.104, 12)
+  })
+
+  it('treats a sell below the reference as a cost', () => {
+    const [f] = fillExecutions([position([trade({ side: 'sell', price: 0.048 })])], [snap(FILL_TS, 0.05, null, null)])
+    expect(f.markCost).toBeCloseTo(0.004, 12)
+    expect(f.midCost).toBeNull()
+  })
+
+  it('ignores stale snapshots and falls back to the imported mark at entry', () => {
+    const p = position([trade(), trade({ amount: 1, price: 0.05 })], { markAtEntry: 0.14 })
+    const fills = fillExecutions([p], [snap('2026-10-10T10:00:00Z', 0.05, null, null)])
+    // Net fill 0.154 against a 0.14 mark, spread by premium (0.104 : 0.05).
+    expect(fills[0].markCost! + fills[1].markCost!).toBeCloseTo(0.014, 12)
+    expect(fills[0].markCost! / fills[1].markCost!).toBeCloseTo(0.104 / 0.05, 9)
+  })
+
+  it('scales the mark-at-entry cost by the contract multiplier', () => {
+    const instrument = toCmeSymbol('BTC', '2028-12-29', 100_000, 'C')!
+    const m = cmeContractMultiplier(instrument)!
+    expect(m).toBeGreaterThan(1)
+    const cme = position([trade({ instrument, price: 1_000, exchange: 'cme' })], {
+      exchange: 'cme', expiryISO: '2028-12-29', markAtEntry: 1_900,
+    })
+    cme.legs[0] = { ...cme.legs[0], exchange: 'cme', expiry: '2028-12-29' }
+    const [f] = fillExecutions([cme], [])
+    // Net fill 2,000 (2 × 1,000) against a 1,900 mark for the entry, per contract unit.
+    expect(f.notional).toBeCloseTo(2_000 * m, 9)
+    expect(f.markCost).toBeCloseTo(100 * m, 9)
+  })
+})
+
+describe('executionStats', () => {
+  it('reports maker share, fee drag and RFQ improvement over CLOB', () => {
+    const s = executionStats([
+      fill({ role: 'maker', mode: 'CLOB', notional: 10, fee: 0.02, markCost: 0.1 }),
+      fill({ role: 'taker', mode: 'CLOB', notional: 10, fee: 0.03, markCost: 0.1 }),
+      fill({ role: 'taker', mode: 'RFQ', notional: 20, markCost: -0.1 }),
+      fill({ notional: 10 }),
+    ])
+    expect(s.fills).toBe(4)
+    expect(s.makerRatio).toBeCloseTo(1 / 3, 12)
+    expect(s.feeDrag).toBeCloseTo(0.05 / 50, 12)
+    expect(s.slippageVsMark).toBeCloseTo(0.1, 12)
+    expect(s.slippageVsMarkPct).toBeCloseTo(0.1 / 40, 12)
+    expect(s.markCoverage).toBe(0.75)
+    expect(s.rfqImprovement).toBeCloseTo(0.2 / 20 - -0.1 / 20, 12)
+    expect(s.slippageVsMid).toBeNull()
+  })
+})
+
+describe('executionByDimension', () => {
+  it('groups fills by provider and skips fills before the window', () => {
+    const rows = executionByDimension([
+      position([trade({ provider: 'Paradigm', executionMode: 'rfq' }), trade({ timestamp: '2026-09-01T00:00:00Z' })]),
+      position([trade()], { id: 'p2', provider: null }),
+    ], 'provider', { since: Date.parse('2026-10-01T00:00:00Z') })
+    expect(rows.map((r) => [r.label, r.fills])).toEqual([['Paradigm', 1], ['Unspecified', 1]])
+  })
+})
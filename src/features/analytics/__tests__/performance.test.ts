@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import type { Leg, Position } from '@/utils'
+import type { MarkSnapshot } from '@/lib/marks'
+import {
+  dailyPnlSeries, lastDays, maxDrawdown, performanceByDimension, sharpeRatio, sortinoRatio,
+  structureOutcome, structureTypeOf, tradeStats, type StructureOutcome,
+} from '../performance'
+
+const NOW = Date.parse('2026-10-19T12:00:00Z')
+
+const leg = (strike: number, optionType: 'C' | 'P', qty: number, over: Partial<Leg> = {}): Leg => ({
+  key: `${strike}${optionType}`, strike, optionType, realizedPnl: 0, netPremium: 0, qtyNet: qty, trades: [],
+  openLots: qty === 0 ? [] : [{ qty: Math.abs(qty), price: 0.05, sign: qty < 0 ? -1 : 1 }],
+  ...over,
+})
+
+const position = (over: Partial<Position> = {}): Position => ({
+  id: 'p', underlying: 'BTC', expiryISO: '2026-12-25', dte: 67, legsCount: 1, type: 'Single',
+  realizedPnl: 0, netPremium: 0, status: 'OPEN', greeks: {}, exchange: 'deribit', programName: 'Core',
+  legs: [leg(100_000, 'C', 1)],
+  ...over,
+})
+
+const closed = (id: string, realizedPnl: number, over: Partial<Position> = {}) =>
+  position({
+    id, realizedPnl, status: 'CLOSED', openedAt: '2026-09-01T00:00:00Z', closedAt: '2026-09-11T00:00:00Z',
+    legs: [leg(100_000, 'C', 0, { realizedPnl })], ...over,
+  })
+
+const outcome = (pnl: number | null, over: Partial<StructureOutcome> = {}): StructureOutcome => ({
+  id: 'x', currency: 'BTC', closed: true, pnl, daysInTrade: null, maxLoss: null, returnOnRisk: null, ...over,
+})
+
+describe('tradeStats', () => {
+  it('computes win rate, averages, expectancy and profit factor over closed structures', () => {
+    const s = tradeStats([
+      outcome(3, { daysInTrade: 10, returnOnRisk: 0.3 }),
+      outcome(1, { daysInTrade: 20 }),
+      outcome(-2, { returnOnRisk: -0.1 }),
+      outcome(5, { closed: false }),
+      outcome(null),
+    ])
+    expect(s.winRate).toBeCloseTo(2 / 3, 12)
+    expect(s.avgWin).toBe(2)
+    expect(s.avgLoss).toBe(-2)
+    expect(s.expectancy).toBeCloseTo(2 / 3, 12)
+    expect(s.profitFactor).toBe(2)
+    expect(s.avgDaysInTrade).toBe(15)
+    expect(s.returnOnRisk).toBeCloseTo(0.1, 12)
+  })
+
+  it('leaves ratios empty without closed structures or losses', () => {
+    const s = tradeStats([outcome(1)])
+    expect(s.profitFactor).toBeNull()
+    expect(s.avgLoss).toBeNull()
+    expect(tradeStats([]).winRate).toBeNull()
+  })
+})
+
+describe('risk-adjusted statistics', () => {
+  it('annualises Sharpe and Sortino from daily PnL', () => {
+    const daily = [1, -1, 2, 0]
+    const sd = Math.sqrt(((0.5 ** 2) + (1.5 ** 2) + (1.5 ** 2) + (0.5 ** 2)) / 3)
+    expect(sharpeRatio(daily)).toBeCloseTo((0.5 / sd) * Math.sqrt(365), 9)
+    expect(sortinoRatio(daily)).toBeCloseTo((0.5 / Math.sqrt(1 / 4)) * Math.sqrt(365), 9)
+    expect(sharpeRatio([1])).toBeNull()
+    expect(sharpeRatio([1, 1])).toBeNull()
+    expect(sortinoRatio([1, 2])).toBeNull()
+  })
+
+  it('measures the largest peak-to-trough fall of cumulative PnL', () => {
+    expect(maxDrawdown([2, -1, -3, 1, 4, -2])).toBe(4)
+    expect(maxDrawdown([-1, -1])).toBe(2)
+    expect(maxDrawdown([1, 2])).toBe(0)
+  })
+})
+
+describe('structureTypeOf', () => {
+  it('classifies structures from the legs as entered', () => {
+    const opened = (side: 'buy' | 'sell') => [{ instrument: 'x', side, action: 'open', amount: 1, price: 0.05 }]
+    const condor = position({
+      legs: [
+        leg(80_000, 'P', 0, { trades: opened('buy') }),
+        leg(90_000, 'P', 0, { trades: opened('sell') }),
+        leg(110_000, 'C', 0, { trades: opened('sell') }),
+        leg(120_000, 'C', 0, { trades: opened('buy') }),
+      ],
+    })
+    expect(structureTypeOf(condor)).toBe('IC')
+    expect(structureTypeOf(position({ legs: [leg(90_000, 'P', -1), leg(110_000, 'C', -1)] }))).toBe('SG')
+  })
+})
+
+describe('structureOutcome', () => {
+  it('measures days in trade and return on risk of a closed structure', () => {
+    const o = structureOutcome(closed('a', 0.02, { maxLoss: 0.1 }), undefined, NOW)
+    expect(o.pnl).toBe(0.02)
+    expect(o.daysInTrade).toBe(10)
+    expect(o.returnOnRisk).toBeCloseTo(0.2, 12)
+    expect(o.currency).toBe('BTC')
+  })
+
+  it('values open structures at the marks and leaves them out without marks', () => {
+    const p = position()
+    expect(structureOutcome(p, {}, NOW).pnl).toBeNull()
+    const key = 'deribit:BTC-25DEC26-100000-C'
+    expect(structureOutcome(p, { [key]: { price: 0.07, multiplier: null } }, NOW).pnl).toBeCloseTo(0.02, 12)
+  })
+})
+
+describe('dailyPnlSeries', () => {
+  const snap = (ts: string, mark: number): MarkSnapshot => ({
+    key: 'deribit:BTC-25DEC26-100000-C', exchange: 'deribit', instrument: 'BTC-25DEC26-100000-C', ts,
+    mark, bid: null, ask: null, iv: null, indexPrice: null, multiplier: 1,
+    greeks: { delta: null, gamma: null, theta: null, vega: null, rho: null },
+  })
+
+  it('takes the day-over-day change of realized plus marked PnL', () => {
+    const days = lastDays(3, NOW)
+    expect(days).toEqual(['2026-10-17', '2026-10-18', '2026-10-19'])
+    const snapshots = [
+      snap('2026-10-16T20:00:00Z', 0.05),
+      snap('2026-10-17T20:00:00Z', 0.06),
+      snap('2026-10-18T20:00:00Z', 0.055),
+      snap('2026-10-19T08:00:00Z', 0.07),
+    ]
+    const series = dailyPnlSeries([position()], snapshots, days)
+    expect(series[0]).toBeCloseTo(0.01, 12)
+    expect(series[1]).toBeCloseTo(-0.005, 12)
+    expect(series[2]).toBeCloseTo(0.015, 12)
+  })
+})
+
+describe('performanceByDimension', () => {
+  it('groups by the dimension and premium currency, best first', () => {
+    const rows = performanceByDimension([
+      closed('a', 0.02),
+      closed('b', -0.01),
+      closed('c', 0.005, { programName: 'Hedge' }),
+      closed('d', 100, { programName: 'Hedge', exchange: 'coincall' }),
+    ], 'program', { days: lastDays(5, NOW), now: NOW })
+    expect(rows.map((r) => [r.label, r.currency, r.structures])).toEqual([
+      ['Hedge', 'USD', 1],
+      ['Core', 'BTC', 2],
+      ['Hedge', 'BTC', 1],
+    ])
+    const core = rows[1]
+    expect(core.totalPnl).toBeCloseTo(0.01, 12)
+    expect(core.winRate).toBe(0.5)
+    expect(core.profitFactor).toBe(2)
+    expect(core.closed).toBe(2)
+    expect(core.open).toBe(0)
+  })
+})
@@ -0,0 +1,208 @@
+// Execution quality of fills: slippage against the mark and the mid at fill time, maker /
+// taker mix, fee drag and RFQ vs CLOB price improvement, grouped by venue, provider or
+// structure type. Slippage is a cost: positive when a buy paid above (or a sell received
+// below) the reference. References come from the nearest stored mark snapshot; opening
+// fills without one fall back to the structure's imported mark at entry.
+
+import { snapshotMark, type MarkSnapshot } from '@/lib/marks'
+import { venueAdapter } from '@/lib/venues/registry'
+import { getLegMarkRef, markMultiplier, type Position, type TxnRow } from '@/utils'
+import { premiumCurrency, structureTypeOf } from './performance'
+
+export type ExecutionDimension = 'venue' | 'provider' | 'structureType'
+
+export const EXECUTION_DIMENSIONS: { value: ExecutionDimension; label: string }[] = [
+  { value: 'venue', label: 'Venue' },
+  { value: 'provider', label: 'Provider' },
+  { value: 'structureType', label: 'Structure type' },
+]
+
+export type FillExecution = {
+  positionId: string
+  /** Fill time (ms); null when the fill has no timestamp. */
+  at: number | null
+  venue: string
+  provider: string
+  structureType: string
+  currency: string
+  role: 'maker' | 'taker' | null
+  mode: string | null
+  /** Premium traded: |price| × quantity × contract multiplier. */
+  notional: number
+  fee: number | null
+  /** Cost against the mark at fill time in premium currency; null without a reference. */
+  markCost: number | null
+  /** Cost against the bid/ask mid at fill time; null without a stored quote. */
+  midCost: number | null
+}
+
+export type ExecutionRow = {
+  key: string
+  label: string
+  currency: string
+  fills: number
+  notional: number
+  slippageVsMark: number | null
+  /** Slippage vs mark over the premium of the fills that have a mark. */
+  slippageVsMarkPct: number | null
+  markCoverage: number
+  slippageVsMid: number | null
+  slippageVsMidPct: number | null
+  makerRatio: number | null
+  /** Fees over premium traded; maker rebates (negative fees) reduce it. */
+  feeDrag: number | null
+  /** CLOB minus RFQ slippage vs mark (as % of premium); positive when RFQ filled better. */
+  rfqImprovement: number | null
+}
+
+// Snapshots further than this from a fill are too stale to judge it by.
+export const MAX_MARK_AGE_MS = 30 * 60 * 1000
+
+const sideSign = (t: TxnRow) => (t.side === 'sell' ? -1 : 1)
+
+function nearestSnapshot(series: MarkSnapshot[] | undefined, t: number): MarkSnapshot | null {
+  let best: MarkSnapshot | null = null
+  let bestGap = Infinity
+  for (const s of series ?? []) {
+    const gap = Math.abs(Date.parse(s.ts) - t)
+    if (gap < bestGap) { best = s; bestGap = gap }
+  }
+  return bestGap <= MAX_MARK_AGE_MS ? best : null
+}
+
+function normalizeMode(mode?: string): string | null {
+  const m = (mode ?? '').trim().toUpperCase()
+  if (!m) return null
+  return m === 'BLOCK' ? 'Block' : m
+}
+
+/** One execution record per fill of the positions. */
+export function fillExecutions(positions: Position[], snapshots: MarkSnapshot[]): FillExecution[] {
+  const byKey = new Map<string, MarkSnapshot[]>()
+  for (const s of snapshots) {
+    const series = byKey.get(s.key) ?? []
+    series.push(s)
+    byKey.set(s.key, series)
+  }
+
+  const out: FillExecution[] = []
+  for (const p of positions) {
+    const base = {
+      positionId: p.id,
+      venue: p.exchange ?? 'unknown',
+      structureType: structureTypeOf(p),
+      currency: premiumCurrency(p),
+    }
+    const entry: { fill: FillExecution; signedPremium: number; premium: number; multiplier: number }[] = []
+    let entryCovered = false
+
+    for (const leg of p.legs) {
+      const ref = getLegMarkRef(p, leg, { includeExpired: true })
+      for (const t of leg.trades ?? []) {
+        const qty = Math.abs(Number(t.amount) || 0)
+        const price = Number(t.price)
+        if (qty === 0 || !Number.isFinite(price)) continue
+        const at = Date.parse(t.timestamp ?? '')
+        const snap = ref && Number.isFinite(at) ? nearestSnapshot(byKey.get(ref.key), at) : null
+        const info = snap ? snapshotMark(snap) : undefined
+        // Venues without a mark source (CME) still size contracts from the symbol.
+        const rawMultiplier = ref
+          ? markMultiplier(ref, info)
+          : venueAdapter(leg.exchange ?? p.exchange)?.contractMultiplier(t.instrument) ?? null
+        const m = rawMultiplier != null && Number.isFinite(rawMultiplier) && rawMultiplier > 0 ? rawMultiplier : 1
+        const cost = (reference: number | null | undefined) =>
+          reference != null ? sideSign(t) * (price - reference) * qty * m : null
+        const mid = snap?.bid != null && snap?.ask != null ? (snap.bid + snap.ask) / 2 : null
+
+        const fill: FillExecution = {
+          ...base,
+          at: Number.isFinite(at) ? at : null,
+          provider: t.provider ?? p.provider ?? 'Unspecified',
+          role: t.liquidityRole ?? null,
+          mode: normalizeMode(t.executionMode),
+          notional: Math.abs(price) * qty * m,
+          fee: t.fee != null && Number.isFinite(Number(t.fee)) ? Number(t.fee) : null,
+          markCost: cost(snap?.mark),
+          midCost: cost(mid),
+        }
+        out.push(fill)
+        if (t.action !== 'close') {
+          entry.push({ fill, signedPremium: sideSign(t) * price * qty, premium: Math.abs(price) * qty, multiplier: m })
+          if (fill.markCost != null) entryCovered = true
+        }
+      }
+    }
+
+    // The imported mark prices the whole entry in `net_fill` units (side-signed price ×
+    // quantity, before the contract multiplier). Its cost is spread over the opening fills by
+    // premium and scaled by each fill's multiplier, as every other mark cost is.
+    if (!entryCovered && p.markAtEntry != null && entry.length > 0) {
+      const netFill = entry.reduce((s, e) => s + e.signedPremium, 0)
+      const premium = entry.reduce((s, e) => s + e.premium, 0)
+      const structureCost = netFill - p.markAtEntry
+      for (const e of entry) e.fill.markCost = premium > 0 ? structureCost * (e.premium / premium) * e.multiplier : 0
+    }
+  }
+  return out
+}
+
+function dimensionValue(f: FillExecution, dimension: ExecutionDimension): string {
+  if (dimension === 'venue') return f.venue
+  if (dimension === 'provider') return f.provider
+  return f.structureType
+}
+
+const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0)
+
+function slippagePct(fills: FillExecution[], cost: (f: FillExecution) => number | null): number | null {
+  const covered = fills.filter((f) => cost(f) != null)
+  const premium = sum(covered.map((f) => f.notional))
+  return premium > 0 ? sum(covered.map((f) => cost(f) as number)) / premium : null
+}
+
+/** Execution statistics of one group of fills. */
+export function executionStats(fills: FillExecution[]): Omit<ExecutionRow, 'key' | 'label' | 'currency'> {
+  const notional = sum(fills.map((f) => f.notional))
+  const withMark = fills.filter((f) => f.markCost != null)
+  const withMid = fills.filter((f) => f.midCost != null)
+  const roles = fills.filter((f) => f.role != null)
+  const fees = fills.filter((f) => f.fee != null)
+  const rfq = slippagePct(fills.filter((f) => f.mode === 'RFQ'), (f) => f.markCost)
+  const clob = slippagePct(fills.filter((f) => f.mode === 'CLOB'), (f) => f.markCost)
+  return {
+    fills: fills.length,
+    notional,
+    slippageVsMark: withMark.length > 0 ? sum(withMark.map((f) => f.markCost as number)) : null,
+    slippageVsMarkPct: slippagePct(fills, (f) => f.markCost),
+    markCoverage: fills.length > 0 ? withMark.length / fills.length : 0,
+    slippageVsMid: withMid.length > 0 ? sum(withMid.map((f) => f.midCost as number)) : null,
+    slippageVsMidPct: slippagePct(fills, (f) => f.midCost),
+    makerRatio: roles.length > 0 ? roles.filter((f) => f.role === 'maker').length / roles.length : null,
+    feeDrag: fees.length > 0 && notional > 0 ? sum(fees.map((f) => f.fee as number)) / notional : null,
+    rfqImprovement: rfq != null && clob != null ? clob - rfq : null,
+  }
+}
+
+/**
+ * One execution row per dimension value and premium currency, most premium first. Only
+ * fills at or after `since` count.
+ */
+export function executionByDimension(
+  positions: Position[],
+  dimension: ExecutionDimension,
+  opts: { snapshots?: MarkSnapshot[]; since?: number } = {},
+): ExecutionRow[] {
+  const since = opts.since ?? -Infinity
+  const groups = new Map<string, { label: string; currency: string; fills: FillExecution[] }>()
+  for (const f of fillExecutions(positions, opts.snapshots ?? [])) {
+    if (f.at != null && f.at < since) continue
+    const label = dimensionValue(f, dimension)
+    const id = `${label}|${f.currency}`
+    const g = groups.get(id) ?? { label, currency: f.currency, fills: [] }
+    g.fills.push(f)
+    groups.set(id, g)
+  }
+  return [...groups.entries()]
+    .map(([key, g]) => ({ key, label: g.label, currency: g.currency, ...executionStats(g.fills) }))
+    .sort((a, b) => b.notional - a.notional)
+}
@@ -0,0 +1,286 @@
+// Historical performance of structures grouped by program, strategy code, underlying or
+// structure type. Trade statistics (win rate, expectancy, profit factor, days in trade,
+// return on risk) use closed structures; risk-adjusted statistics (Sharpe, Sortino, max
+// drawdown) use the group's daily PnL, replayed from trades and stored marks.
+// Amounts stay in each structure's premium currency, so groups are split by currency.
+
+import { legAsOf, legExpiryTime, type MarkSnapshot } from '@/lib/marks'
+import {
+  getLegMarkRef, legNetQty, legUnrealizedPnL, markMultiplier, positionUnrealizedPnL, premiumCurrencyFor,
+  type Leg, type MarksMap, type Position,
+} from '@/utils'
+import { STRUCTURE_TYPES, structureTypeFromLegs } from '@/components/dndUtils'
+
+export type PerformanceDimension = 'program' | 'strategy' | 'underlying' | 'structureType'
+
+export const PERFORMANCE_DIMENSIONS: { value: PerformanceDimension; label: string }[] = [
+  { value: 'program', label: 'Program' },
+  { value: 'strategy', label: 'Strategy' },
+  { value: 'underlying', label: 'Underlying' },
+  { value: 'structureType', label: 'Structure type' },
+]
+
+export type StructureOutcome = {
+  id: string
+  currency: string
+  closed: boolean
+  /** Realized + unrealized PnL; null for an open structure without marks. */
+  pnl: number | null
+  daysInTrade: number | null
+  maxLoss: number | null
+  /** PnL over max loss at entry, for closed risk-defined structures. */
+  returnOnRisk: number | null
+}
+
+export type PerformanceRow = {
+  key: string
+  label: string
+  currency: string
+  structures: number
+  closed: number
+  open: number
+  totalPnl: number
+  winRate: number | null
+  avgWin: number | null
+  avgLoss: number | null
+  expectancy: number | null
+  profitFactor: number | null
+  sharpe: number | null
+  sortino: number | null
+  /** Largest peak-to-trough fall of cumulative daily PnL, as a positive amount. */
+  maxDrawdown: number | null
+  avgDaysInTrade: number | null
+  returnOnRisk: number | null
+}
+
+const DAY_MS = 86_400_000
+const PERIODS_PER_YEAR = 365
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length
+
+export function premiumCurrency(p: Position): string {
+  return premiumCurrencyFor(p.exchange, p.underlying)
+}
+
+const tradeTimes = (p: Position) =>
+  p.legs.flatMap((l) => (l.trades ?? []).map((t) => Date.parse(t.timestamp ?? ''))).filter(Number.isFinite)
+
+/** Signed quantity the leg was opened with; falls back to the current net quantity. */
+function entryQty(leg: Leg): number {
+  const opens = (leg.trades ?? []).filter((t) => t.action === 'open')
+  if (opens.length === 0) return leg.qtyNet
+  return opens.reduce((s, t) => s + (t.side === 'sell' ? -1 : 1) * Math.abs(Number(t.amount) || 0), 0)
+}
+
+/** Structure type code (IC, VS, ST…) from the legs as entered. */
+export function structureTypeOf(p: Position): string {
+  return structureTypeFromLegs(p.legs.map((leg) => ({
+    key: {
+      expiry: leg.expiry ?? p.expiryISO,
+      strike: leg.strike,
+      optionType: String(leg.optionType).toUpperCase().startsWith('P') ? 'P' : 'C',
+    },
+    netQty: entryQty(leg),
+  })))
+}
+
+function dimensionValue(p: Position, dimension: PerformanceDimension): { key: string; label: string } {
+  switch (dimension) {
+    case 'program':
+      return { key: p.programId ?? p.programName ?? '', label: p.programName ?? 'Unassigned' }
+    case 'strategy':
+      return { key: p.strategyCode ?? '', label: p.strategyCode ? (p.strategy && p.strategy !== p.strategyCode ? `${p.strategyCode} · ${p.strategy}` : p.strategyCode) : 'No strategy code' }
+    case 'underlying':
+      return { key: p.underlying, label: p.underlying }
+    case 'structureType': {
+      const code = structureTypeOf(p)
+      return { key: code, label: `${code} · ${STRUCTURE_TYPES.find((t) => t.code === code)?.label ?? code}` }
+    }
+  }
+}
+
+/** When a closed structure was closed: its close time, else expiry if it was held into it, else its last trade. */
+function closeTime(p: Position, times: number[]): number {
+  const closedAt = Date.parse(p.closedAt ?? '')
+  if (Number.isFinite(closedAt)) return closedAt
+  const heldToExpiry = p.legs.some((l) => Math.abs(legNetQty(legAsOf(l, Infinity))) > 1e-10)
+  if (heldToExpiry) return Math.max(...p.legs.map((l) => legExpiryTime(p, l)))
+  return times.length > 0 ? Math.max(...times) : NaN
+}
+
+export function structureOutcome(p: Position, marks?: MarksMap, now = Date.now()): StructureOutcome {
+  const closed = p.status === 'CLOSED'
+  let pnl: number | null = p.realizedPnl
+  if (!closed) {
+    const marked = marks && p.legs.some((l) => {
+      const ref = getLegMarkRef(p, l)
+      return ref != null && marks[ref.key]?.price != null
+    })
+    pnl = marked ? p.realizedPnl + positionUnrealizedPnL(p, marks) : null
+  }
+
+  const times = tradeTimes(p)
+  const opened = Date.parse(p.openedAt ?? '')
+  const start = Number.isFinite(opened) ? opened : times.length > 0 ? Math.min(...times) : NaN
+  const end = closed ? closeTime(p, times) : now
+  const daysInTrade = Number.isFinite(start) && Number.isFinite(end) ? Math.max(0, (end - start) / DAY_MS) : null
+
+  const maxLoss = p.maxLoss != null && p.maxLoss > 0 ? p.maxLoss : null
+  return {
+    id: p.id,
+    currency: premiumCurrency(p),
+    closed,
+    pnl,
+    daysInTrade,
+    maxLoss,
+    returnOnRisk: closed && maxLoss != null && pnl != null ? pnl / maxLoss : null,
+  }
+}
+
+/** Consecutive UTC days (YYYY-MM-DD) ending today, oldest first. */
+export function lastDays(n: number, now = Date.now()): string[] {
+  return Array.from({ length: n }, (_, i) => new Date(now - (n - 1 - i) * DAY_MS).toISOString().slice(0, 10))
+}
+
+type MarkSeries = { times: number[]; snapshots: MarkSnapshot[] }
+
+function latestAtOrBefore(series: MarkSeries | undefined, t: number): MarkSnapshot | undefined {
+  if (!series) return undefined
+  let lo = 0
+  let hi = series.times.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (series.times[mid] <= t) lo = mid + 1
+    else hi = mid
+  }
+  return lo > 0 ? series.snapshots[lo - 1] : undefined
+}
+
+/**
+ * Cumulative PnL of the positions at `t`: realized PnL of the trades done by then plus
+ * open lots valued at the latest stored mark. Legs past expiry count as settled.
+ */
+function cumulativePnlAt(positions: Position[], marksByKey: Map<string, MarkSeries>, t: number): number {
+  let sum = 0
+  for (const p of positions) {
+    for (const leg of p.legs) {
+      const expired = t >= legExpiryTime(p, leg)
+      const state = expired && p.status === 'CLOSED' ? leg : legAsOf(leg, t)
+      sum += state.realizedPnl ?? 0
+      if (expired) continue
+      const ref = getLegMarkRef(p, leg, { includeExpired: true })
+      const mark = ref ? latestAtOrBefore(marksByKey.get(ref.key), t) : undefined
+      if (ref && mark?.mark != null) {
+        sum += legUnrealizedPnL(state, mark.mark, markMultiplier(ref, { price: mark.mark, multiplier: mark.multiplier }))
+      }
+    }
+  }
+  return sum
+}
+
+/** Day-over-day PnL of the positions for each of `days` (ascending YYYY-MM-DD). */
+export function dailyPnlSeries(positions: Position[], snapshots: MarkSnapshot[], days: string[]): number[] {
+  if (days.length === 0) return []
+  const marksByKey = new Map<string, MarkSeries>()
+  for (const s of [...snapshots].sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts))) {
+    const series = marksByKey.get(s.key) ?? { times: [], snapshots: [] }
+    series.times.push(Date.parse(s.ts))
+    series.snapshots.push(s)
+    marksByKey.set(s.key, series)
+  }
+  const closeOf = (day: string) => Date.parse(`${day}T00:00:00Z`) + DAY_MS - 1
+  let prev = cumulativePnlAt(positions, marksByKey, closeOf(days[0]) - DAY_MS)
+  return days.map((day) => {
+    const cum = cumulativePnlAt(positions, marksByKey, closeOf(day))
+    const change = cum - prev
+    prev = cum
+    return change
+  })
+}
+
+/** Annualised Sharpe ratio of daily PnL; null with fewer than two days or no variance. */
+export function sharpeRatio(daily: number[]): number | null {
+  if (daily.length < 2) return null
+  const m = mean(daily)
+  const sd = Math.sqrt(daily.reduce((s, x) => s + (x - m) ** 2, 0) / (daily.length - 1))
+  return sd > 0 ? (m / sd) * Math.sqrt(PERIODS_PER_YEAR) : null
+}
+
+/** Annualised Sortino ratio of daily PnL (downside deviation against zero); null without losing days. */
+export function sortinoRatio(daily: number[]): number | null {
+  if (daily.length < 2) return null
+  const downside = Math.sqrt(daily.reduce((s, x) => s + Math.min(0, x) ** 2, 0) / daily.length)
+  return downside > 0 ? (mean(daily) / downside) * Math.sqrt(PERIODS_PER_YEAR) : null
+}
+
+export function maxDrawdown(daily: number[]): number {
+  let cum = 0
+  let peak = 0
+  let worst = 0
+  for (const x of daily) {
+    cum += x
+    peak = Math.max(peak, cum)
+    worst = Math.max(worst, peak - cum)
+  }
+  return worst
+}
+
+/** Trade statistics of one group of structures. */
+export function tradeStats(outcomes: StructureOutcome[]) {
+  const closed = outcomes.filter((o) => o.closed && o.pnl != null)
+  const pnls = closed.map((o) => o.pnl as number)
+  const wins = pnls.filter((x) => x > 0)
+  const losses = pnls.filter((x) => x <= 0)
+  const grossWin = wins.reduce((s, x) => s + x, 0)
+  const grossLoss = -losses.reduce((s, x) => s + x, 0)
+  const days = closed.map((o) => o.daysInTrade).filter((d): d is number => d != null)
+  const ror = closed.map((o) => o.returnOnRisk).filter((r): r is number => r != null)
+  return {
+    winRate: pnls.length > 0 ? wins.length / pnls.length : null,
+    avgWin: wins.length > 0 ? grossWin / wins.length : null,
+    avgLoss: losses.length > 0 ? -grossLoss / losses.length : null,
+    expectancy: pnls.length > 0 ? mean(pnls) : null,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    avgDaysInTrade: days.length > 0 ? mean(days) : null,
+    returnOnRisk: ror.length > 0 ? mean(ror) : null,
+  }
+}
+
+/**
+ * One performance row per dimension value and premium currency, largest total PnL first.
+ * `days` bounds the daily PnL series used for the risk-adjusted statistics.
+ */
+export function performanceByDimension(
+  positions: Position[],
+  dimension: PerformanceDimension,
+  opts: { marks?: MarksMap; snapshots?: MarkSnapshot[]; days: string[]; now?: number },
+): PerformanceRow[] {
+  const groups = new Map<string, { key: string; label: string; currency: string; positions: Position[] }>()
+  for (const p of positions) {
+    const v = dimensionValue(p, dimension)
+    const currency = premiumCurrency(p)
+    const id = `${v.key}|${currency}`
+    const g = groups.get(id) ?? { key: id, label: v.label, currency, positions: [] }
+    g.positions.push(p)
+    groups.set(id, g)
+  }
+
+  return [...groups.values()].map((g) => {
+    const outcomes = g.positions.map((p) => structureOutcome(p, opts.marks, opts.now))
+    const daily = dailyPnlSeries(g.positions, opts.snapshots ?? [], opts.days)
+    const closed = outcomes.filter((o) => o.closed).length
+    return {
+      key: g.key,
+      label: g.label,
+      currency: g.currency,
+      structures: outcomes.length,
+      closed,
+      open: outcomes.length - closed,
+      totalPnl: outcomes.reduce((s, o) => s + (o.pnl ?? 0), 0),
+      ...tradeStats(outcomes),
+      sharpe: sharpeRatio(daily),
+      sortino: sortinoRatio(daily),
+      maxDrawdown: daily.length > 0 ? maxDrawdown(daily) : null,
+    }
+  }).sort((a, b) => b.totalPnl - a.totalPnl)
+}
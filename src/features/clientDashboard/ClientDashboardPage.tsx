@@ -1,5 +1,5 @@
 import React from 'react'
-import { TrendingUp, Play, Square } from 'lucide-react'
+import { TrendingUp, Play, Square, Download } from 'lucide-react'
 import { Button } from '../../components/ui/Button'
 import { SegmentedControl } from '../../components/ui/SegmentedControl'
 import { StatusBadge } from '../../components/StatusBadge'
@@ -8,15 +8,17 @@ import { ConfirmationTable } from '../../components/ConfirmationTable'
 import { Spinner } from '../../components/Spinner'
 import { DataTable, type Column } from '../../components/ui'
 import {
-  fmtPremium, fmtNumber, fmtGreek,
-  type Position, type MarksMap,
+  fmtPremium, fmtNumber, fmtGreek, LOT_METHODS,
+  type LotMethod, type Position, type MarksMap, type PricingContext,
 } from '../../utils'
-import { portfolioSummary, positionSummaryRows, type PositionSummaryRow } from '../clientPortal/portfolio'
+import { portfolioSummary, positionSummaryRows, realizedPnlCsv, type PositionSummaryRow } from '../clientPortal/portfolio'
 
 type ClientDashboardPageProps = {
   clientName: string
   positions: Position[]
   marks?: MarksMap
+  /** Spot and vol surface for greeks of legs whose marks carry none. */
+  pricing?: PricingContext
   markLoading?: boolean
   onRefreshMarks?: () => void
   strategyRunning: boolean
@@ -30,6 +32,19 @@ const TAB_ITEMS = [
   { value: 'confirmation', label: 'Open for Confirmation' },
 ]
 
+// Methods offered next to the operational FIFO figure.
+const COMPARE_METHODS = LOT_METHODS.filter((m) => m.value !== 'fifo')
+
+function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
 function DetailItem({ label, children }: { label: string; children: React.ReactNode }) {
   return (
     <div>
@@ -43,6 +58,7 @@ export function ClientDashboardPage({
   clientName,
   positions,
   marks,
+  pricing,
   markLoading,
   onRefreshMarks,
   strategyRunning,
@@ -50,12 +66,16 @@ export function ClientDashboardPage({
   onOpenStructureDetail,
 }: ClientDashboardPageProps) {
   const [activeTab, setActiveTab] = React.useState('positions')
+  // Defaults to the client's configured reporting method when it is not FIFO.
+  const configuredMethod = positions.find((p) => p.lotMethod && p.lotMethod !== 'fifo')?.lotMethod
+  const [compareMethod, setCompareMethod] = React.useState<LotMethod>(configuredMethod ?? 'lifo')
+  const compareLabel = LOT_METHODS.find((m) => m.value === compareMethod)?.label ?? compareMethod
 
   // Aggregate portfolio KPIs
-  const portfolio = React.useMemo(() => portfolioSummary(positions, marks), [positions, marks])
+  const portfolio = React.useMemo(() => portfolioSummary(positions, marks, pricing), [positions, marks, pricing])
 
   // Build position summary rows
-  const positionRows = React.useMemo(() => positionSummaryRows(positions, marks), [positions, marks])
+  const positionRows = React.useMemo(() => positionSummaryRows(positions, marks, pricing), [positions, marks, pricing])
 
   const positionColumns = React.useMemo<Column<PositionSummaryRow>[]>(() => [
     {
@@ -95,6 +115,20 @@ export function ClientDashboardPage({
         </span>
       ),
     },
+    {
+      key: 'realizedCompare',
+      header: `Real. PnL (${compareLabel})`,
+      align: 'right',
+      render: (r) => {
+        const value = r.realizedByMethod?.[compareMethod]
+        if (value == null) return '—'
+        return (
+          <span className={value < 0 ? 'text-status-danger' : 'text-status-success'}>
+            {fmtPremium(value, r.asset)}
+          </span>
+        )
+      },
+    },
     {
       key: 'unrealizedPnl',
       header: 'uPnL',
@@ -112,7 +146,7 @@ export function ClientDashboardPage({
     { key: 'gamma', header: 'Gamma', align: 'right', render: (r) => r.gamma != null ? fmtGreek(r.gamma, 6) : '—' },
     { key: 'theta', header: 'Theta', align: 'right', render: (r) => r.theta != null ? fmtNumber(r.theta) : '—' },
     { key: 'vega', header: 'Vega', align: 'right', render: (r) => r.vega != null ? fmtNumber(r.vega) : '—' },
-  ], [markLoading, onOpenStructureDetail])
+  ], [markLoading, onOpenStructureDetail, compareMethod, compareLabel])
 
   return (
     <div className="flex-1 overflow-auto px-6 py-5">
@@ -210,12 +244,31 @@ export function ClientDashboardPage({
           {activeTab === 'positions' && (
             positions.length === 0
               ? <p className="text-text-secondary type-subhead">No open positions.</p>
-              : <DataTable
-                  columns={positionColumns}
-                  data={positionRows}
-                  rowKey={(r) => r.id}
-                  emptyMessage="No open positions."
-                />
+              : <div className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="type-caption text-text-tertiary">Compare FIFO with</span>
+                    <SegmentedControl
+                      items={COMPARE_METHODS}
+                      value={compareMethod}
+                      onChange={(v) => setCompareMethod(v as LotMethod)}
+                      size="sm"
+                    />
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      leftIcon={<Download className="h-3.5 w-3.5" />}
+                      onClick={() => downloadCsv(realizedPnlCsv(positions), `${clientName}-realized-pnl.csv`)}
+                    >
+                      Export realized PnL
+                    </Button>
+                  </div>
+                  <DataTable
+                    columns={positionColumns}
+                    data={positionRows}
+                    rowKey={(r) => r.id}
+                    emptyMessage="No open positions."
+                  />
+                </div>
           )}
           {activeTab === 'trades' && (
             positions.length === 0
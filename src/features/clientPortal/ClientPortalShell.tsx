@@ -8,6 +8,12 @@ import { DashboardPage } from './pages/DashboardPage'
 import { PositionsPage } from './pages/PositionsPage'
 import { HubDashboard, HubLedgerPage, HubPositionsPage } from './components/HubPortfolioView'
 import { useClientPositions } from './useClientPositions'
+import { useLiveMarks } from './useLiveMarks'
+import { usePricingContext } from './usePricingContext'
+import { dayWindow, historyMarkKeys, portfolioExplain, useMarkSnapshots } from '@/lib/marks'
+import { DAILY_DERIVE_DAYS, useDailySnapshots } from './useDailySnapshots'
+import { peakDailyPnl } from './dashboard/dailySnapshots'
+import { useRiskBreachMonitor } from './useRiskBreachMonitor'
 import { usePortfolioDataHub, useReportingCurrencySelection } from './usePortfolioDataHub'
 import { usePositionInterventions } from './usePositionInterventions'
 import { useSetupPersistence } from './useSetupPersistence'
@@ -23,7 +29,7 @@ import { KeysPage } from './pages/KeysPage'
 import { UpdatesPage } from './pages/UpdatesPage'
 import { AuditLogPage } from './pages/AuditLogPage'
 import { newEvent, SEED_AUDIT_EVENTS, type AuditEvent, type AuditType, type AuditActor } from './audit'
-import { SAMPLE_POSITIONS, SAMPLE_MARKS } from './sampleData'
+import { SAMPLE_POSITIONS, SAMPLE_MARKS, SAMPLE_PRICING, SAMPLE_MARGIN, SAMPLE_DAILY_SNAPSHOTS } from './sampleData'
 import { hasSupabaseClient } from '@/lib/supabase'
 
 const PAGE_TITLES: Record<PortalPage, string> = {
@@ -47,7 +53,10 @@ export function ClientPortalShell({ clientName, program, hash, onSignOut }: {
   // must show its own manual data or an explicit Hub setup/unavailable state, never samples.
   const usingSample = !hasSupabaseClient() && !loading && !error && positions.length === 0
   const shownPositions = usingSample ? SAMPLE_POSITIONS : positions
-  const shownMarks = usingSample ? SAMPLE_MARKS : undefined
+  const liveMarks = useLiveMarks(positions)
+  const shownMarks = usingSample ? SAMPLE_MARKS : liveMarks
+  const livePricing = usePricingContext(positions, { enabled: !usingSample })
+  const shownPricing = usingSample ? SAMPLE_PRICING : livePricing
   const [setupStatus, setSetupStatus] = React.useState<SetupStatus>(EMPTY_SETUP_STATUS)
   const [riskLimits, setRiskLimits] = React.useState<RiskLimits | null>(null)
   const effectiveLimits = riskLimits ?? DEFAULT_RISK_LIMITS
@@ -89,6 +98,29 @@ export function ClientPortalShell({ clientName, program, hash, onSignOut }: {
     setSessionAudit((evs) => [e, ...evs])
     persistence.saveAuditEvent(e).then((r) => { if (!r.ok) console.error('audit persist failed', r.error) }).catch((err) => console.error('audit persist failed', err))
   }, [persistence.saveAuditEvent])
+  const historyKeys = React.useMemo(
+    () => (!usingSample && !loading && !error ? historyMarkKeys(positions) : []),
+    [usingSample, loading, error, positions],
+  )
+  const { snapshots: markHistory } = useMarkSnapshots(historyKeys, { days: DAILY_DERIVE_DAYS, reloadKey: liveMarks })
+  const dailySnapshots = useDailySnapshots({
+    clientName, positions, marks: liveMarks, pricing: livePricing, markSnapshots: markHistory,
+    hubComponents: hubState.status === 'ready' ? hubState.overview.summary.components : undefined,
+    enabled: !usingSample && !loading && !error,
+  })
+  const livePeakPnl = React.useMemo(() => peakDailyPnl(dailySnapshots), [dailySnapshots])
+  const shownPeakPnl = usingSample ? peakDailyPnl(SAMPLE_DAILY_SNAPSHOTS) : livePeakPnl
+  useRiskBreachMonitor({
+    clientName, positions, marks: liveMarks, pricing: livePricing, peakPnl: livePeakPnl,
+    limits: riskLimits ?? persistence.savedRiskLimits ?? DEFAULT_RISK_LIMITS,
+    // Only judge the client's own book once it and their saved limits have loaded.
+    enabled: !usingSample && !loading && !error && persistence.loaded,
+    onEvent: (e) => appendAudit('RISK_PARAM', e.detail, 'system'),
+  })
+  const pnlExplain = React.useMemo(
+    () => (markHistory ? portfolioExplain(positions, markHistory, dayWindow(new Date().toISOString().slice(0, 10))) : null),
+    [positions, markHistory],
+  )
   const shownAudit = React.useMemo(() => {
     const real = [...sessionAudit, ...persistence.persistedAudit]
     if (real.length > 0) return real
@@ -176,7 +208,7 @@ export function ClientPortalShell({ clientName, program, hash, onSignOut }: {
             </div>
           )}
           {page === 'risk' ? (
-            <RiskPage limits={effectiveLimits} onApply={applyRisk} />
+            <RiskPage limits={effectiveLimits} onApply={applyRisk} positions={shownPositions} marks={shownMarks} pricing={shownPricing} peakPnl={shownPeakPnl} />
           ) : page === 'appropriateness' ? (
             <AppropriatenessPage signed={setupStatus.appropriateness} onSign={signAppropriateness} />
           ) : page === 'strategy' ? (
@@ -238,6 +270,7 @@ export function ClientPortalShell({ clientName, program, hash, onSignOut }: {
                   <PositionsPage
                     positions={shownPositions}
                     marks={shownMarks}
+                    pricing={shownPricing}
                     interventions={interventions}
                     onModify={(positionId) => {
                       record(positionId, 'modify', { persist: !usingSample })
@@ -249,7 +282,7 @@ export function ClientPortalShell({ clientName, program, hash, onSignOut }: {
                     }}
                   />
                 ) : (
-                  <DashboardPage positions={shownPositions} marks={shownMarks} setupStatus={setupStatus} onNavigate={navigate} />
+                  <DashboardPage positions={shownPositions} marks={shownMarks} pricing={shownPricing} margin={usingSample ? SAMPLE_MARGIN : null} snapshots={usingSample ? SAMPLE_DAILY_SNAPSHOTS : dailySnapshots} explain={usingSample ? null : pnlExplain} setupStatus={setupStatus} onNavigate={navigate} />
                 )}
               </div>
             )
@@ -123,6 +123,8 @@ describe('ClientPortalShell', () => {
         status: 'ready',
         overview: {
           summary: parseHubSummary(summaryFixture),
+          accountSummaries: [parseHubSummary(summaryFixture)],
+          unavailableAccounts: [],
           positions: { ...parseHubLatestPositionPage(positionsFixture), pageToken: 'signed-page-token' },
           reportingCurrency: null,
           reportingCurrencySource: null,
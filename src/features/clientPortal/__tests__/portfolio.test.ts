@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { portfolioSummary, positionSummaryRows, legSummaryRows } from '../portfolio'
+import { portfolioSummary, positionSummaryRows, legSummaryRows, realizedPnlCsv } from '../portfolio'
 import type { Position } from '@/utils'
 
 function pos(partial: Partial<Position>): Position {
@@ -34,6 +34,21 @@ describe('positionSummaryRows', () => {
   })
 })
 
+describe('realizedPnlCsv', () => {
+  it('lists realized PnL under every lot method, FIFO falling back to the operational figure', () => {
+    const csv = realizedPnlCsv([
+      pos({ lotMethod: 'hifo', realizedPnlByMethod: { fifo: 0.001, lifo: 0.002, hifo: 0.0005, average: 0.0015 } }),
+      pos({ id: 'p2', strategy: 'Put, spread' }),
+    ])
+    expect(csv.split('\n')).toEqual([
+      'structure_id,strategy,underlying,status,closed_at,lot_method,realized_fifo,realized_lifo,realized_hifo,realized_average',
+      'p1,Iron Condor,BTC,open,,hifo,0.001,0.002,0.0005,0.0015',
+      'p2,"Put, spread",BTC,open,,fifo,0.001,,,',
+      '',
+    ])
+  })
+})
+
 describe('legSummaryRows', () => {
   it('threads the parent positionId onto every leg row', () => {
     const p = pos({
@@ -50,3 +65,32 @@ describe('legSummaryRows', () => {
     expect(rows[0].id).toBe('pos-42-90000-P')
   })
 })
+
+describe('model greek fallback', () => {
+  const expiry = new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10)
+  const longCall = pos({
+    expiryISO: expiry,
+    legs: [{
+      key: 'p1-100000-C', strike: 100000, optionType: 'C',
+      openLots: [{ qty: 1, price: 0.03, sign: 1 }], realizedPnl: 0, netPremium: 0,
+      qtyNet: 1, trades: [], expiry,
+    }],
+  })
+
+  it('prices greeks from a pricing context when the venue is offline', () => {
+    const s = portfolioSummary([longCall], undefined, { spot: 100000, vol: 0.5 })
+    expect(s.delta).toBeGreaterThan(0.5)
+    expect(s.delta).toBeLessThan(0.6)
+    expect(s.gamma).toBeGreaterThan(0)
+    expect(s.theta).toBeLessThan(0)
+    expect(s.hasAnyMarks).toBe(false)
+  })
+
+  it('solves greeks from the mark when the venue omits them', () => {
+    const option = legSummaryRows([longCall])[0].option
+    const marks = { [`deribit:${option}`]: { price: 0.06, multiplier: 1, indexPrice: 100000 } }
+    const rows = legSummaryRows([longCall], marks)
+    expect(rows[0].delta).toBeGreaterThan(0.5)
+    expect(positionSummaryRows([longCall], marks)[0].gamma).toBeGreaterThan(0)
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { SAMPLE_POSITIONS, SAMPLE_MARKS } from '../sampleData'
+import { SAMPLE_POSITIONS, SAMPLE_MARKS, SAMPLE_DAILY_SNAPSHOTS } from '../sampleData'
 import { portfolioSummary, positionSummaryRows } from '../portfolio'
 
 describe('sample data', () => {
@@ -28,4 +28,14 @@ describe('sample data', () => {
     expect(rows[0].unrealizedPnl).not.toBeNull()
     expect(rows[0].delta).not.toBeNull()
   })
+
+  it('ends the sample daily history at today\'s live summary', () => {
+    const s = portfolioSummary(SAMPLE_POSITIONS, SAMPLE_MARKS)
+    const last = SAMPLE_DAILY_SNAPSHOTS[SAMPLE_DAILY_SNAPSHOTS.length - 1]
+    expect(SAMPLE_DAILY_SNAPSHOTS.length).toBeGreaterThanOrEqual(90)
+    expect(last.pnl).toBeCloseTo(s.totalPnl ?? NaN, 12)
+    expect(last.equity).toBeCloseTo(s.totalEquity, 12)
+    const days = SAMPLE_DAILY_SNAPSHOTS.map((d) => d.day)
+    expect([...days].sort()).toEqual(days)
+  })
 })
@@ -0,0 +1,80 @@
+import React from 'react'
+import { render, renderHook, screen, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VolSurface } from '@/lib/volSurface'
+import type { Position } from '@/utils'
+
+const fetchVolSurface = vi.fn()
+vi.mock('@/lib/volSurface', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/volSurface')>()),
+  fetchVolSurface: (...args: unknown[]) => fetchVolSurface(...args),
+}))
+
+import { usePricingContext } from '../usePricingContext'
+import { PositionsPage } from '../pages/PositionsPage'
+
+const expiry = new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10)
+const years = 30 / 365
+
+// A flat 50% surface struck at 100k.
+const surface: VolSurface = {
+  underlying: 'BTC', spot: 100_000, asOf: Date.now(),
+  slices: [{
+    expiryISO: expiry, years, forward: 100_000, params: { a: 0.25 * years, b: 0, rho: 0, m: 0, sigma: 0.1 },
+    rmse: 0, quotes: [], atmIv: 0.5,
+  }],
+}
+
+const longCall = {
+  id: 'p1', underlying: 'BTC', exchange: 'deribit', expiryISO: expiry, dte: 30, status: 'OPEN',
+  netPremium: 0.03, realizedPnl: 0, legsCount: 1, type: 'Single', greeks: {}, source: 'supabase',
+  legs: [{
+    key: 'p1-100000-C', strike: 100_000, optionType: 'C', expiry,
+    openLots: [{ qty: 1, price: 0.03, sign: 1 }], realizedPnl: 0, netPremium: 0, qtyNet: 1, trades: [],
+  }],
+} as unknown as Position
+
+function OfflinePositions({ positions }: { positions: Position[] }) {
+  const pricing = usePricingContext(positions)
+  return <PositionsPage positions={positions} pricing={pricing} onModify={() => {}} onClose={() => {}} />
+}
+
+describe('usePricingContext', () => {
+  beforeEach(() => {
+    fetchVolSurface.mockReset()
+    fetchVolSurface.mockResolvedValue(surface)
+  })
+
+  it('loads the surface for each open Deribit underlying and takes its spot', async () => {
+    const closed = { ...longCall, id: 'p2', underlying: 'ETH', status: 'CLOSED' } as Position
+    const { result } = renderHook(() => usePricingContext([longCall, closed]))
+    expect(result.current).toBeUndefined()
+    await waitFor(() => expect(result.current).toBeDefined())
+    expect(fetchVolSurface).toHaveBeenCalledTimes(1)
+    expect(fetchVolSurface).toHaveBeenCalledWith('BTC')
+    expect(result.current?.spot).toBe(100_000)
+    expect(result.current?.volAt?.('BTC', 100_000, expiry)).toBeCloseTo(0.5, 2)
+  })
+
+  it('loads the BTC surface beside another book for its spot', async () => {
+    fetchVolSurface.mockImplementation(async (u: string) => ({ ...surface, underlying: u, spot: u === 'ETH' ? 4_000 : 100_000 }))
+    const eth = { ...longCall, underlying: 'ETH' } as Position
+    const { result } = renderHook(() => usePricingContext([eth]))
+    await waitFor(() => expect(result.current).toBeDefined())
+    expect(fetchVolSurface.mock.calls.map(([u]) => u).sort()).toEqual(['BTC', 'ETH'])
+    expect(result.current?.spot).toBe(4_000)
+    expect(result.current?.spots).toEqual({ BTC: 100_000, ETH: 4_000 })
+  })
+
+  it('fetches nothing while disabled', () => {
+    const { result } = renderHook(() => usePricingContext([longCall], { enabled: false }))
+    expect(fetchVolSurface).not.toHaveBeenCalled()
+    expect(result.current).toBeUndefined()
+  })
+
+  it('gives the Positions page model deltas when the venue returns no marks', async () => {
+    render(<OfflinePositions positions={[longCall]} />)
+    // An at-the-money 30-day call at 50% vol has a delta just above one half.
+    expect(await screen.findByText(/^0\.5\d$/)).toBeInTheDocument()
+  })
+})
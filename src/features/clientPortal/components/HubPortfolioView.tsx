@@ -8,6 +8,8 @@ import type { PortfolioHubOverview } from '@/lib/portfolioDataHub/client'
 import { usePortfolioHubLedger, usePortfolioHubPositions } from '../usePortfolioDataHub'
 import { formatPortfolioValue } from './portfolioFormatters'
 import { ReportingCurrencySelector } from './ReportingCurrencySelector'
+import { MarginUsageCard } from './MarginUsageCard'
+import { overviewMargin } from '../dashboard/marginModel'
 import { normalizeReportingCurrency } from '@/lib/clientPortal/reportingCurrencyRepo'
 
 function formatTimestamp(value: string) {
@@ -113,6 +115,7 @@ export function HubDashboard({ overview, onOpenPositions, onOpenLedger, onRefres
   const reportingCurrency = normalizeReportingCurrency(overview.reportingCurrency)
   const component = componentForOverview(overview.summary.components, reportingCurrency)
   const partial = overview.positions.snapshot.quality === 'partial'
+  const margin = React.useMemo(() => overviewMargin(overview), [overview])
   return (
     <div className="flex flex-col gap-5">
       <div>
@@ -144,6 +147,13 @@ export function HubDashboard({ overview, onOpenPositions, onOpenLedger, onRefres
       {!reportingCurrency ? <p className="type-caption text-text-secondary">No reporting currency is configured, so a single-currency headline is not shown.</p>
         : !component ? <p className="type-caption text-text-secondary">No account-level summary component was reported in {reportingCurrency}; currencies are not converted or combined.</p> : null}
 
+      {margin && (
+        <section className="flex flex-col gap-3" aria-label="Margin usage">
+          <h2 className="type-subhead font-semibold text-text-primary">Margin Usage</h2>
+          <MarginUsageCard margin={margin} />
+        </section>
+      )}
+
       <section className="rounded-2xl border border-border-default bg-bg-surface-1 p-5">
         <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
           <div>
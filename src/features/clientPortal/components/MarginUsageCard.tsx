@@ -4,10 +4,18 @@ const FILL: Record<UtilizationZone, string> = {
   ok: 'bg-status-success', warn: 'bg-amber-400', high: 'bg-status-danger',
 }
 
+const COIN_CCYS = new Set(['BTC', 'ETH'])
+
 function fmtCcy(n: number, ccy: string): string {
+  if (COIN_CCYS.has(ccy)) return `${n.toLocaleString('en-US', { minimumFractionDigits: 4, maximumFractionDigits: 4 })} ${ccy}`
   return `${Math.round(n).toLocaleString('en-US')} ${ccy}`
 }
 
+function fmtAsOf(ts: string): string {
+  const d = new Date(ts)
+  return Number.isNaN(d.getTime()) ? ts : d.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
 export function MarginUsageCard({ margin }: { margin: MarginUsage }) {
   const pct = Math.round(margin.imUtilization * 100)
   const rows: { label: React.ReactNode; amount: number }[] = [
@@ -41,8 +49,35 @@ export function MarginUsageCard({ margin }: { margin: MarginUsage }) {
               <span className="type-caption font-semibold text-text-primary tabular-nums">{fmtCcy(r.amount, margin.ccy)}</span>
             </div>
           ))}
-          <div className="mt-2 type-caption text-text-tertiary">Amounts in venue margin currency · second-tier to utilization</div>
+          <div className="mt-2 type-caption text-text-tertiary">Converted to {margin.ccy} · second-tier to utilization</div>
+        </div>
+      </div>
+      {margin.venues.length > 1 && (
+        <div className="mt-4 border-t border-border-subtle pt-3" data-testid="margin-venues">
+          <div className="type-caption uppercase tracking-wide text-text-tertiary">By venue</div>
+          {margin.venues.map((v) => (
+            <div key={v.venue} className="flex items-baseline justify-between gap-3 py-1.5">
+              <span className="type-caption capitalize text-text-secondary">
+                {v.venue}{v.accounts > 1 && <span className="text-text-tertiary"> · {v.accounts} accounts</span>}
+                {v.stale && <span className="text-status-warning"> · stale</span>}
+              </span>
+              <span className="type-caption tabular-nums text-text-primary">
+                {Math.round(v.imUtilization * 100)}% · {fmtCcy(v.initialMargin, margin.ccy)} IM
+              </span>
+            </div>
+          ))}
         </div>
+      )}
+      <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 type-caption text-text-tertiary">
+        {margin.asOf && (
+          <span data-testid="margin-as-of" data-stale={margin.stale} className={margin.stale ? 'text-status-warning' : undefined}>
+            {margin.stale ? 'Stale · ' : ''}as of {fmtAsOf(margin.asOf)}
+          </span>
+        )}
+        {margin.unconverted.length > 0 && <span>Excludes {margin.unconverted.join(', ')} (no conversion rate)</span>}
+        {margin.unavailable.length > 0 && (
+          <span className="text-status-warning">Excludes {margin.unavailable.join(', ')} (account unavailable)</span>
+        )}
       </div>
     </div>
   )
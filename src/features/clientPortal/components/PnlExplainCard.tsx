@@ -0,0 +1,61 @@
+import type { PnlExplain, PortfolioExplain } from '@/lib/marks'
+
+const TERMS: { key: keyof PnlExplain; label: string }[] = [
+  { key: 'delta', label: 'Delta' },
+  { key: 'gamma', label: 'Gamma' },
+  { key: 'vega', label: 'Vega' },
+  { key: 'theta', label: 'Theta' },
+  { key: 'residual', label: 'Unexplained' },
+  { key: 'total', label: 'Total' },
+]
+
+function fmtUsd(n: number): string {
+  const sign = n < 0 ? '−' : n > 0 ? '+' : ''
+  return `${sign}$${Math.abs(n).toLocaleString('en-US', { maximumFractionDigits: 0 })}`
+}
+
+function tone(n: number): string {
+  if (Math.abs(n) < 0.5) return 'text-text-tertiary'
+  return n < 0 ? 'text-status-danger' : 'text-status-success'
+}
+
+function Row({ label, explain, strong }: { label: string; explain: PnlExplain; strong?: boolean }) {
+  return (
+    <tr className="border-b border-border-subtle last:border-0">
+      <td className={`py-2 pr-3 type-caption ${strong ? 'font-semibold text-text-primary' : 'text-text-secondary'}`}>{label}</td>
+      {TERMS.map((t) => (
+        <td key={t.key} className={`py-2 pl-3 text-right type-caption tabular-nums ${tone(explain[t.key])} ${strong || t.key === 'total' ? 'font-semibold' : ''}`}>
+          {fmtUsd(explain[t.key])}
+        </td>
+      ))}
+    </tr>
+  )
+}
+
+// Today's PnL split into greek terms, one row per program plus the client total, in USD.
+export function PnlExplainCard({ explain }: { explain: PortfolioExplain }) {
+  return (
+    <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-5" data-testid="pnl-explain">
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead>
+            <tr className="border-b border-border-subtle">
+              <th className="pb-2 pr-3 text-left type-caption font-medium uppercase tracking-wide text-text-tertiary">Program</th>
+              {TERMS.map((t) => (
+                <th key={t.key} className="pb-2 pl-3 text-right type-caption font-medium uppercase tracking-wide text-text-tertiary">{t.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {explain.programs.map((p) => <Row key={p.programName} label={p.programName} explain={p} />)}
+            {explain.programs.length !== 1 && <Row label="Portfolio" explain={explain.total} strong />}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-3 type-caption text-text-tertiary">
+        Start-of-day greeks against today&apos;s index and IV moves, in USD
+        {explain.missing > 0 && ` · ${explain.missing} leg${explain.missing === 1 ? '' : 's'} without stored marks left out`}
+      </div>
+    </div>
+  )
+}
@@ -13,8 +13,11 @@ import { usePortfolioHubLedger, usePortfolioHubPositions } from '../../usePortfo
 
 const mixedPositions = structuredClone(positionsFixture)
 mixedPositions.snapshot.run_id = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc'
+const summary = parseHubSummary(summaryFixture)
 const overview = {
-  summary: parseHubSummary(summaryFixture),
+  summary,
+  accountSummaries: [summary],
+  unavailableAccounts: [],
   positions: { ...parseHubLatestPositionPage(mixedPositions), pageToken: 'signed-page-token' },
   reportingCurrency: 'USDC',
   reportingCurrencySource: 'client' as const,
@@ -50,6 +53,37 @@ describe('Hub-backed portfolio views', () => {
     expect(screen.getByRole('button', { name: /refresh portfolio/i })).toBeInTheDocument()
   })
 
+  it('drives the margin usage card from the summary margin components', () => {
+    render(<HubDashboard overview={overview} onOpenPositions={() => {}} onOpenLedger={() => {}} onRefresh={() => {}} />)
+    const card = screen.getByRole('region', { name: 'Margin usage' })
+    // Paradex USDC account: IM 200.5 over equity 1,250.125.
+    expect(card).toHaveTextContent('16%')
+    expect(card).toHaveTextContent('201 USDC')
+    expect(card).toHaveTextContent('900 USDC')
+    expect(screen.getByTestId('margin-as-of')).toHaveAttribute('data-stale', 'true')
+  })
+
+  it('aggregates margin across every connected Hub account', () => {
+    const second = structuredClone(summaryFixture)
+    second.id = '33333333-3333-4333-8333-333333333332'
+    second.account_id = 'a0000000-0000-4000-8000-000000000002'
+    second.account_label = 'Paradex secondary'
+    Object.assign(second.components[0], { equity: '749.875', initial_margin: '99.5', available_funds: '99.75' })
+    render(<HubDashboard overview={{ ...overview, accountSummaries: [summary, parseHubSummary(second)] }} onOpenPositions={() => {}} onOpenLedger={() => {}} onRefresh={() => {}} />)
+    const card = screen.getByRole('region', { name: 'Margin usage' })
+    // IM 200.5 + 99.5 over equity 1,250.125 + 749.875.
+    expect(card).toHaveTextContent('15%')
+    expect(card).toHaveTextContent('300 USDC')
+    expect(card).toHaveTextContent('1,000 USDC')
+  })
+
+  it("keeps the mapped account's margin and names linked accounts the Hub could not provide", () => {
+    render(<HubDashboard overview={{ ...overview, unavailableAccounts: [{ label: 'Deribit sub-account', code: 'HUB_UNAVAILABLE' }] }} onOpenPositions={() => {}} onOpenLedger={() => {}} onRefresh={() => {}} />)
+    const card = screen.getByRole('region', { name: 'Margin usage' })
+    expect(card).toHaveTextContent('201 USDC')
+    expect(card).toHaveTextContent('Excludes Deribit sub-account (account unavailable)')
+  })
+
   it('renders native Hub positions as read-only data', () => {
     render(<HubPositionsPage overview={overview} onRefresh={() => {}} />)
     expect(screen.getByText(/native venue positions/i)).toBeInTheDocument()
@@ -6,8 +6,14 @@ import type { MarginUsage } from '../../dashboard/marginModel'
 const margin: MarginUsage = {
   imUtilization: 0.31, initialMargin: 818, maintenanceMargin: 406,
   marginBalance: 2620, available: 1802, ccy: 'USDC', zone: 'ok',
+  venues: [], asOf: '2026-08-01T12:00:00Z', stale: false, unconverted: [], unavailable: [],
 }
 
+const venue = (name: string, im: number, stale = false) => ({
+  venue: name, accounts: 1, imUtilization: 0.25, initialMargin: im, maintenanceMargin: im / 2,
+  marginBalance: im * 4, available: im * 3, zone: 'ok' as const, fetchedAt: '2026-08-01T12:00:00Z', stale,
+})
+
 describe('MarginUsageCard', () => {
   it('leads with the IM utilization percent and lists the amounts in the margin currency', () => {
     render(<MarginUsageCard margin={margin} />)
@@ -21,4 +27,13 @@ describe('MarginUsageCard', () => {
     expect(screen.getByTestId('im-gauge')).toHaveAttribute('data-zone', 'high')
     expect(screen.getByText('88%')).toBeInTheDocument()
   })
+  it('breaks usage down by venue and flags stale or unconverted data', () => {
+    render(<MarginUsageCard margin={{
+      ...margin, venues: [venue('deribit', 600), venue('coincall', 218, true)], stale: true, unconverted: ['ETH'],
+    }} />)
+    expect(screen.getByTestId('margin-venues')).toHaveTextContent(/deribit.*25% · 600 USDC IM/)
+    expect(screen.getByTestId('margin-venues')).toHaveTextContent(/coincall · stale/)
+    expect(screen.getByTestId('margin-as-of')).toHaveAttribute('data-stale', 'true')
+    expect(screen.getByText(/Excludes ETH/)).toBeInTheDocument()
+  })
 })
@@ -5,6 +5,7 @@ import { PnlChart } from '../charts/PnlChart'
 import { GreekCharts } from '../charts/GreekCharts'
 import { denominationFor } from '../../dashboard/denomination'
 import type { PortfolioSummary } from '../../portfolio'
+import { utcDay, type DailySnapshot } from '../../dashboard/dailySnapshots'
 
 vi.mock('recharts', async (importOriginal) => {
   const actual = await importOriginal<typeof import('recharts')>()
@@ -22,20 +23,27 @@ const summary: PortfolioSummary = {
   programName: 'Obsidian Core', exchange: 'deribit', asset: 'BTC',
 }
 
+const snapshots: DailySnapshot[] = [2, 1, 0].map((ago) => ({
+  day: utcDay(Date.now() - ago * 86_400_000), equity: 0.025 + ago * 0.0004, equitySource: 'positions',
+  pnl: 0.0081 - ago * 0.0004, realized: 0.0063, unrealized: 0.0018 - ago * 0.0004,
+  delta: 0.0135, gamma: 0.00021, theta: -0.000038, vega: 0.000124,
+}))
+
 describe('dashboard charts', () => {
   const denom = denominationFor(summary)
+  const history = { snapshots, period: '30D' as const }
   it('EquityChart renders titled equity panel', () => {
-    render(<EquityChart summary={summary} denom={denom} />)
+    render(<EquityChart summary={summary} denom={denom} {...history} />)
     expect(screen.getByText(/equity curve/i)).toBeInTheDocument()
     expect(screen.getByTestId('equity-chart')).toBeInTheDocument()
   })
   it('PnlChart renders titled PnL panel', () => {
-    render(<PnlChart summary={summary} denom={denom} />)
+    render(<PnlChart summary={summary} denom={denom} {...history} />)
     expect(screen.getByText(/cumulative pnl/i)).toBeInTheDocument()
     expect(screen.getByTestId('pnl-chart')).toBeInTheDocument()
   })
   it('GreekCharts renders one panel per greek', () => {
-    render(<GreekCharts summary={summary} denom={denom} />)
+    render(<GreekCharts summary={summary} denom={denom} {...history} />)
     for (const name of ['Delta', 'Gamma', 'Vega', 'Theta']) {
       expect(screen.getByText(name)).toBeInTheDocument()
     }
@@ -44,7 +52,7 @@ describe('dashboard charts', () => {
 
   it('PnlChart shows an honest placeholder when there is no PnL yet', () => {
     const noPnl: PortfolioSummary = { ...summary, totalPnl: null, hasAnyMarks: false }
-    render(<PnlChart summary={noPnl} denom={denom} />)
+    render(<PnlChart summary={noPnl} denom={denom} {...history} />)
     expect(screen.getByText(/awaiting live marks/i)).toBeInTheDocument()
     expect(screen.queryByTestId('pnl-chart')).not.toBeInTheDocument()
   })
@@ -52,16 +60,22 @@ describe('dashboard charts', () => {
   it('GreekCharts honors theta digits (1 decimal) instead of the fmtNumber 2-decimal cap', () => {
     // theta=-0.0001234 * spotUsd(100000) = -12.34 -> digits=1 should render "-12.3", not "-12.34"
     const wide: PortfolioSummary = { ...summary, theta: -0.0001234 }
-    render(<GreekCharts summary={wide} denom={denom} />)
+    render(<GreekCharts summary={wide} denom={denom} {...history} />)
     expect(screen.getByText(/−12\.3(?!\d)/)).toBeInTheDocument()
     expect(screen.queryByText(/−12\.34/)).not.toBeInTheDocument()
   })
 
+  it('says so when the period holds too little daily history', () => {
+    render(<EquityChart summary={summary} denom={denom} snapshots={snapshots.slice(-1)} period="7D" />)
+    expect(screen.getByText(/not enough daily history/i)).toBeInTheDocument()
+    expect(screen.queryByTestId('equity-chart')).not.toBeInTheDocument()
+  })
+
   it('GreekCharts shows an honest placeholder when there are no live marks', () => {
     const noMarks: PortfolioSummary = {
       ...summary, hasAnyMarks: false, delta: 0, gamma: 0, theta: 0, vega: 0, totalPnl: null,
     }
-    render(<GreekCharts summary={noMarks} denom={denom} />)
+    render(<GreekCharts summary={noMarks} denom={denom} {...history} />)
     expect(screen.getAllByText(/awaiting live marks/i).length).toBe(4)
     expect(screen.queryByTestId('greek-chart-delta')).not.toBeInTheDocument()
   })
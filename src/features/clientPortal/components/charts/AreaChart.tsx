@@ -53,3 +53,12 @@ export function AreaChart({ data, color, height = 176, zeroBaseline, formatValue
     </div>
   )
 }
+
+/** Placeholder for a chart whose period holds fewer than two daily snapshots. */
+export function NoHistory({ compact }: { compact?: boolean }) {
+  return (
+    <div className={`grid place-items-center type-caption text-text-tertiary ${compact ? 'h-[82px]' : 'h-44'}`}>
+      Not enough daily history for this period yet
+    </div>
+  )
+}
@@ -1,20 +1,26 @@
 import { fmtPremium } from '@/utils'
 import type { PortfolioSummary } from '../../portfolio'
 import type { DashboardDenomination } from '../../dashboard/denomination'
-import { equitySeries } from '../../dashboard/series'
+import type { DailySnapshot } from '../../dashboard/dailySnapshots'
+import { equitySeries, type Period } from '../../dashboard/series'
 import { CHART_COLORS } from '../../dashboard/chartTheme'
-import { AreaChart } from './AreaChart'
+import { AreaChart, NoHistory } from './AreaChart'
 
-export function EquityChart({ summary, denom }: { summary: PortfolioSummary; denom: DashboardDenomination }) {
+export function EquityChart({ summary, denom, snapshots, period }: {
+  summary: PortfolioSummary; denom: DashboardDenomination; snapshots: DailySnapshot[]; period: Period
+}) {
+  const data = equitySeries(snapshots, period)
   return (
     <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-4">
       <div className="type-caption font-semibold text-text-secondary">Equity Curve</div>
       <div className="mt-1 type-title-l font-bold text-text-primary">{fmtPremium(summary.totalEquity, denom.depositAsset)}</div>
-      <div className="mt-0.5 type-caption text-text-tertiary">Account equity in deposit asset, marked to live prices</div>
-      <AreaChart
-        data={equitySeries(summary)} color={CHART_COLORS.accent}
-        formatValue={(v) => fmtPremium(v, denom.depositAsset)} testId="equity-chart"
-      />
+      <div className="mt-0.5 type-caption text-text-tertiary">Account equity in deposit asset at each daily close</div>
+      {data.length < 2 ? <NoHistory /> : (
+        <AreaChart
+          data={data} color={CHART_COLORS.accent}
+          formatValue={(v) => fmtPremium(v, denom.depositAsset)} testId="equity-chart"
+        />
+      )}
     </div>
   )
 }
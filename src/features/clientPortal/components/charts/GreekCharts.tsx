@@ -2,9 +2,10 @@ import { fmtGreek } from '@/utils'
 import type { PortfolioSummary } from '../../portfolio'
 import type { DashboardDenomination } from '../../dashboard/denomination'
 import { greekDisplays, type GreekTone } from '../../dashboard/greeksDisplay'
-import { greekSeries } from '../../dashboard/series'
+import type { DailySnapshot } from '../../dashboard/dailySnapshots'
+import { greekSeries, type Period } from '../../dashboard/series'
 import { CHART_COLORS } from '../../dashboard/chartTheme'
-import { AreaChart } from './AreaChart'
+import { AreaChart, NoHistory } from './AreaChart'
 
 const TONE_HEX: Record<GreekTone, string> = {
   accent: CHART_COLORS.accent, sky: CHART_COLORS.sky, amber: CHART_COLORS.amber, rose: CHART_COLORS.rose,
@@ -20,7 +21,9 @@ function fmtGreekValue(value: number, digits: number): string {
   return `${sign}${body}`
 }
 
-export function GreekCharts({ summary, denom }: { summary: PortfolioSummary; denom: DashboardDenomination }) {
+export function GreekCharts({ summary, denom, snapshots, period }: {
+  summary: PortfolioSummary; denom: DashboardDenomination; snapshots: DailySnapshot[]; period: Period
+}) {
   const rows = greekDisplays(summary, denom)
   return (
     <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
@@ -35,11 +38,16 @@ export function GreekCharts({ summary, denom }: { summary: PortfolioSummary; den
               <div className={`mt-1.5 type-subhead font-bold ${g.value < 0 ? 'text-status-danger' : 'text-status-success'}`}>
                 {fmtGreekValue(g.value, g.digits)} <span className="type-caption font-medium text-text-tertiary">{g.unit}</span>
               </div>
-              <AreaChart
-                data={greekSeries(g.key, g.value)} color={TONE_HEX[g.tone]} height={82}
-                zeroBaseline={g.key === 'delta' || g.key === 'theta'}
-                formatValue={(v) => fmtGreekValue(v, g.digits)} testId={`greek-chart-${g.key}`}
-              />
+              {(() => {
+                const data = greekSeries(g.key, snapshots, period, g.scale)
+                return data.length < 2 ? <NoHistory compact /> : (
+                  <AreaChart
+                    data={data} color={TONE_HEX[g.tone]} height={82}
+                    zeroBaseline={g.key === 'delta' || g.key === 'theta'}
+                    formatValue={(v) => fmtGreekValue(v, g.digits)} testId={`greek-chart-${g.key}`}
+                  />
+                )
+              })()}
             </>
           ) : (
             <>
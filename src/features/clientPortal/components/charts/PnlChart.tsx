@@ -1,11 +1,14 @@
 import { fmtPremium } from '@/utils'
 import type { PortfolioSummary } from '../../portfolio'
 import type { DashboardDenomination } from '../../dashboard/denomination'
-import { pnlSeries } from '../../dashboard/series'
+import type { DailySnapshot } from '../../dashboard/dailySnapshots'
+import { pnlSeries, type Period } from '../../dashboard/series'
 import { CHART_COLORS } from '../../dashboard/chartTheme'
-import { AreaChart } from './AreaChart'
+import { AreaChart, NoHistory } from './AreaChart'
 
-export function PnlChart({ summary, denom }: { summary: PortfolioSummary; denom: DashboardDenomination }) {
+export function PnlChart({ summary, denom, snapshots, period }: {
+  summary: PortfolioSummary; denom: DashboardDenomination; snapshots: DailySnapshot[]; period: Period
+}) {
   if (summary.totalPnl == null) {
     return (
       <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-4">
@@ -17,6 +20,7 @@ export function PnlChart({ summary, denom }: { summary: PortfolioSummary; denom:
   }
   const pnl = summary.totalPnl
   const color = pnl < 0 ? CHART_COLORS.danger : CHART_COLORS.good
+  const data = pnlSeries(snapshots, period)
   return (
     <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-4">
       <div className="type-caption font-semibold text-text-secondary">Cumulative PnL</div>
@@ -24,10 +28,12 @@ export function PnlChart({ summary, denom }: { summary: PortfolioSummary; denom:
         {fmtPremium(pnl, denom.depositAsset)}
       </div>
       <div className="mt-0.5 type-caption text-text-tertiary">Realized + unrealized, from inception baseline</div>
-      <AreaChart
-        data={pnlSeries(summary)} color={color} zeroBaseline
-        formatValue={(v) => fmtPremium(v, denom.depositAsset)} testId="pnl-chart"
-      />
+      {data.length < 2 ? <NoHistory /> : (
+        <AreaChart
+          data={data} color={color} zeroBaseline
+          formatValue={(v) => fmtPremium(v, denom.depositAsset)} testId="pnl-chart"
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import type { HistoryPoint } from '@/lib/marks'
+import type { HubSummaryComponent } from '@/lib/portfolioDataHub'
+import type { PortfolioSummary } from '../../portfolio'
+import {
+  changedDailySnapshots, dailySnapshotsFromHistory, hubEquity, liveDailySnapshot, mergeDailySnapshots, peakDailyPnl,
+  type DailySnapshot,
+} from '../dailySnapshots'
+
+const NOW = Date.parse('2026-10-19T12:00:00Z')
+
+const summary: PortfolioSummary = {
+  totalEquity: 0.0262, totalPnl: 0.0081, totalRealized: 0.0063, pnlPct: 30.92,
+  delta: 0.0135, gamma: 0.00021, theta: -0.000038, vega: 0.000124, hasAnyMarks: true,
+  programName: 'Obsidian Core', exchange: 'deribit', asset: 'BTC',
+}
+
+const point = (iso: string, pnl: number): HistoryPoint => ({
+  t: Date.parse(iso), pnl, realized: 0.001, unrealized: pnl - 0.001, delta: 0.01, gamma: 0, theta: 0, vega: 0,
+})
+
+describe('liveDailySnapshot', () => {
+  it('records today from the live summary', () => {
+    expect(liveDailySnapshot(summary, { now: NOW })).toEqual({
+      day: '2026-10-19', equity: 0.0262, equitySource: 'positions', pnl: 0.0081, realized: 0.0063,
+      unrealized: 0.0081 - 0.0063, delta: 0.0135, gamma: 0.00021, theta: -0.000038, vega: 0.000124,
+    })
+  })
+  it('prefers Hub equity and waits for marks', () => {
+    expect(liveDailySnapshot(summary, { hubEquity: 0.03, now: NOW })).toMatchObject({ equity: 0.03, equitySource: 'hub' })
+    expect(liveDailySnapshot({ ...summary, totalPnl: null }, { now: NOW })).toBeNull()
+  })
+})
+
+describe('hubEquity', () => {
+  const component = (currency: string, equity: string | null) => ({ currency, equity } as unknown as HubSummaryComponent)
+  it('reads the equity component in the book asset', () => {
+    expect(hubEquity([component('USDT', '1200'), component('BTC', '0.0300')], 'btc')).toBe(0.03)
+    expect(hubEquity([component('BTC', null)], 'BTC')).toBeNull()
+    expect(hubEquity(undefined, 'BTC')).toBeNull()
+  })
+})
+
+describe('dailySnapshotsFromHistory', () => {
+  it('takes the last point per UTC day and anchors equity to today', () => {
+    const live = liveDailySnapshot(summary, { now: NOW })
+    const days = dailySnapshotsFromHistory([
+      point('2026-10-17T22:00:00Z', 0.004),
+      point('2026-10-17T08:00:00Z', 0.002),
+      point('2026-10-18T10:00:00Z', 0.006),
+    ], live)
+    expect(days.map((d) => [d.day, d.pnl])).toEqual([['2026-10-17', 0.004], ['2026-10-18', 0.006]])
+    expect(days[0].equity).toBeCloseTo(0.0262 - 0.0081 + 0.004, 12)
+  })
+  it('leaves equity unknown without a live anchor', () => {
+    expect(dailySnapshotsFromHistory([point('2026-10-17T08:00:00Z', 0.002)])[0].equity).toBeNull()
+  })
+})
+
+describe('merging and change detection', () => {
+  const snap = (day: string, pnl: number): DailySnapshot => ({
+    day, equity: 1, equitySource: 'positions', pnl, realized: 0, unrealized: pnl, delta: 0, gamma: 0, theta: 0, vega: 0,
+  })
+  it('lets later sets win per day', () => {
+    expect(mergeDailySnapshots([snap('2026-10-02', 1), snap('2026-10-01', 1)], [snap('2026-10-02', 2)]))
+      .toEqual([snap('2026-10-01', 1), snap('2026-10-02', 2)])
+  })
+  it('reports only new or changed days', () => {
+    const stored = [snap('2026-10-01', 1), snap('2026-10-02', 2)]
+    expect(changedDailySnapshots(stored, [snap('2026-10-01', 1), snap('2026-10-02', 2.5), snap('2026-10-03', 3)]))
+      .toEqual([snap('2026-10-02', 2.5), snap('2026-10-03', 3)])
+  })
+  it('finds the peak cumulative PnL', () => {
+    expect(peakDailyPnl([snap('2026-10-01', -1), snap('2026-10-02', 2.5), snap('2026-10-03', 1)])).toBe(2.5)
+    expect(peakDailyPnl([])).toBeNull()
+  })
+})
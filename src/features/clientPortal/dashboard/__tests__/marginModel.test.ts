@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest'
+import deribitSummary from '@/lib/portfolioDataHub/__fixtures__/deribit/summary-latest.json'
+import coincallSummary from '@/lib/portfolioDataHub/__fixtures__/coincall/summary-latest.json'
+import paradexSummary from '@/lib/portfolioDataHub/__fixtures__/paradex/summary-latest.json'
+import deribitPositions from '@/lib/portfolioDataHub/__fixtures__/deribit/positions-latest.json'
+import { parseHubLatestPositionPage, parseHubSummary } from '@/lib/portfolioDataHub'
 import { denominationFor } from '../denomination'
-import { utilizationZone, illustrativeMargin } from '../marginModel'
+import { utilizationZone, hubFxRates, hubMargin } from '../marginModel'
 import type { PortfolioSummary } from '../../portfolio'
 
 const summary = (over: Partial<PortfolioSummary> = {}): PortfolioSummary => ({
@@ -9,6 +14,11 @@ const summary = (over: Partial<PortfolioSummary> = {}): PortfolioSummary => ({
   programName: 'Obsidian Core', exchange: 'deribit', asset: 'BTC', ...over,
 })
 
+const DERIBIT = parseHubSummary(deribitSummary)
+const COINCALL = parseHubSummary(coincallSummary)
+const PARADEX = parseHubSummary(paradexSummary)
+const FETCHED = Date.parse('2026-07-29T12:00:00Z')
+
 describe('denominationFor', () => {
   it('uses the summary asset as deposit asset and USDC margin currency', () => {
     const d = denominationFor(summary())
@@ -28,15 +38,54 @@ describe('utilizationZone', () => {
   })
 })
 
-describe('illustrativeMargin', () => {
-  it('derives deterministic margin figures in the margin currency', () => {
-    const d = denominationFor(summary())
-    const m = illustrativeMargin(summary(), d)
+describe('hubFxRates', () => {
+  it('prices coins from USD index prices and keeps dollar stablecoins at par', () => {
+    const positions = parseHubLatestPositionPage(deribitPositions).items
+    const usd = hubFxRates(positions, 'USDC')
+    expect(usd.USDC).toBe(1)
+    expect(usd.USDT).toBe(1)
+    expect(usd.BTC).toBe(119200)
+    const btc = hubFxRates(positions, 'btc')
+    expect(btc.BTC).toBe(1)
+    expect(btc.USD).toBeCloseTo(1 / 119200, 12)
+  })
+
+  it('returns only the identity rate when the reporting currency cannot be priced', () => {
+    expect(hubFxRates([], 'EUR')).toEqual({ EUR: 1 })
+  })
+})
+
+describe('hubMargin', () => {
+  const rates = { BTC: 100_000, USD: 1, USDC: 1, USDT: 1 }
+
+  it('aggregates margin components across accounts in the reporting currency', () => {
+    const m = hubMargin([DERIBIT, COINCALL, PARADEX], { reportingCurrency: 'USDC', rates, now: FETCHED })!
     expect(m.ccy).toBe('USDC')
-    expect(m.marginBalance).toBe(Math.round(0.0262 * d.spotUsd))
-    expect(m.initialMargin).toBe(Math.round(m.marginBalance * m.imUtilization))
-    expect(m.available).toBe(m.marginBalance - m.initialMargin)
-    expect(m.maintenanceMargin).toBeLessThan(m.initialMargin)
+    // Deribit BTC (IM 0.20 BTC) + Coincall USDT (IM 100) + Paradex USDC (IM 200.5).
+    expect(m.initialMargin).toBeCloseTo(20_000 + 100 + 200.5, 6)
+    expect(m.maintenanceMargin).toBeCloseTo(10_000 + 50 + 100.25, 6)
+    expect(m.marginBalance).toBeCloseTo(234_567.8901234568 + 99_888.76626863 + 1250.125, 4)
+    expect(m.available).toBeCloseTo(195_000 + 99_500 + 900.25, 6)
+    expect(m.imUtilization).toBeCloseTo(m.initialMargin / m.marginBalance, 12)
     expect(m.zone).toBe('ok')
+    expect(m.venues.map((v) => v.venue)).toEqual(['deribit', 'paradex', 'coincall'])
+    expect(m.unconverted).toEqual([])
+  })
+
+  it('ignores valuation-only components and reports currencies it could not convert', () => {
+    const m = hubMargin([DERIBIT, COINCALL], { reportingCurrency: 'USDC', rates: { USDC: 1, USDT: 1 }, now: FETCHED })!
+    expect(m.venues.map((v) => v.venue)).toEqual(['coincall'])
+    expect(m.unconverted).toEqual(['BTC'])
+    expect(hubMargin([DERIBIT], { reportingCurrency: 'USDC', rates: {}, now: FETCHED })).toBeNull()
+  })
+
+  it('flags staleness from fetched_at, per venue and overall', () => {
+    const fresh = hubMargin([DERIBIT], { reportingCurrency: 'BTC', rates: { BTC: 1 }, now: FETCHED + 60_000 })!
+    expect(fresh.stale).toBe(false)
+    expect(fresh.asOf).toBe('2026-07-29T12:00:00Z')
+    expect(fresh.initialMargin).toBeCloseTo(0.2, 12)
+    const later = hubMargin([DERIBIT], { reportingCurrency: 'BTC', rates: { BTC: 1 }, now: FETCHED + 60 * 60_000 })!
+    expect(later.stale).toBe(true)
+    expect(later.venues[0].stale).toBe(true)
   })
 })
@@ -1,55 +1,50 @@
 import { describe, it, expect } from 'vitest'
-import { buildSeries, equitySeries, pnlSeries, greekSeries } from '../series'
-import type { PortfolioSummary } from '../../portfolio'
+import { equitySeries, greekSeries, periodStart, pnlSeries, snapshotSeries } from '../series'
+import type { DailySnapshot } from '../dailySnapshots'
 
-const summary = (over: Partial<PortfolioSummary> = {}): PortfolioSummary => ({
-  totalEquity: 0.0262, totalPnl: 0.0081, totalRealized: 0.0063, pnlPct: 30.92,
-  delta: 0.0135, gamma: 0.00021, theta: -0.000038, vega: 0.000124, hasAnyMarks: true,
-  programName: 'Obsidian Core', exchange: 'deribit', asset: 'BTC', ...over,
-})
+const NOW = Date.parse('2026-10-19T12:00:00Z')
 
-describe('buildSeries', () => {
-  it('is deterministic for a given seed', () => {
-    const a = buildSeries(11, { start: 1, drift: 0.1, vol: 0.5 })
-    const b = buildSeries(11, { start: 1, drift: 0.1, vol: 0.5 })
-    expect(a).toEqual(b)
-  })
-  it('produces `points` points and pins the last value to endValue', () => {
-    const s = buildSeries(3, { start: 0, drift: 1, vol: 2, points: 30, endValue: 42 })
-    expect(s).toHaveLength(30)
-    expect(s[29].v).toBe(42)
-    expect(typeof s[0].t).toBe('string')
-  })
+const snap = (day: string, pnl: number, over: Partial<DailySnapshot> = {}): DailySnapshot => ({
+  day, equity: 1 + pnl, equitySource: 'positions', pnl, realized: 0, unrealized: pnl,
+  delta: pnl * 10, gamma: 0, theta: 0, vega: pnl * 2, ...over,
 })
 
-describe('equitySeries', () => {
-  it('ends at the summary equity', () => {
-    const s = equitySeries(summary())
-    expect(s[s.length - 1].v).toBe(0.0262)
+const history = [
+  snap('2025-12-31', -0.5),
+  snap('2026-01-02', -0.2),
+  snap('2026-07-01', 0.1),
+  snap('2026-10-01', 0.2),
+  snap('2026-10-13', 0.3, { equity: null }),
+  snap('2026-10-19', 0.4),
+]
+
+describe('periodStart', () => {
+  it('counts the period back from today inclusive', () => {
+    expect(periodStart('7D', NOW)).toBe('2026-10-13')
+    expect(periodStart('30D', NOW)).toBe('2026-09-20')
+    expect(periodStart('90D', NOW)).toBe('2026-07-22')
+    expect(periodStart('YTD', NOW)).toBe('2026-01-01')
+    expect(periodStart('ALL', NOW)).toBeNull()
   })
 })
 
-describe('pnlSeries', () => {
-  it('ends at the summary totalPnl and has 30 points', () => {
-    const s = pnlSeries(summary({ totalPnl: 0.0081 }))
-    expect(s).toHaveLength(30)
-    expect(s[s.length - 1].v).toBe(0.0081)
+describe('snapshotSeries', () => {
+  it('keeps the days inside the period, oldest first', () => {
+    expect(pnlSeries(history, '7D', NOW)).toEqual([{ t: '2026-10-13', v: 0.3 }, { t: '2026-10-19', v: 0.4 }])
+    expect(pnlSeries(history, 'YTD', NOW).map((p) => p.t)).toEqual(['2026-01-02', '2026-07-01', '2026-10-01', '2026-10-13', '2026-10-19'])
+    expect(pnlSeries(history, 'ALL', NOW)).toHaveLength(6)
+  })
+  it('skips days without a value', () => {
+    expect(equitySeries(history, '30D', NOW).map((p) => p.t)).toEqual(['2026-10-01', '2026-10-19'])
   })
-  it('ends at 0 when totalPnl is null', () => {
-    const s = pnlSeries(summary({ totalPnl: null }))
-    expect(s[s.length - 1].v).toBe(0)
+  it('sorts unordered input', () => {
+    expect(snapshotSeries([...history].reverse(), (s) => s.pnl, '30D', NOW).map((p) => p.v)).toEqual([0.2, 0.3, 0.4])
   })
 })
 
 describe('greekSeries', () => {
-  it('ends at the given value and has 30 points', () => {
-    const s = greekSeries('delta', 2.5)
-    expect(s).toHaveLength(30)
-    expect(s[s.length - 1].v).toBe(2.5)
-  })
-  it('is deterministic across two calls', () => {
-    const a = greekSeries('delta', 2.5)
-    const b = greekSeries('delta', 2.5)
-    expect(a).toEqual(b)
+  it('scales stored greeks to the display unit', () => {
+    expect(greekSeries('vega', history, '7D', 100, NOW).map((p) => p.v)).toEqual([60, 80])
+    expect(greekSeries('delta', history, '7D', 1, NOW).map((p) => p.v)).toEqual([3, 4])
   })
 })
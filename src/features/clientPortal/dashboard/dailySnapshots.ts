@@ -0,0 +1,93 @@
+import type { HistoryPoint } from '@/lib/marks'
+import type { HubSummaryComponent } from '@/lib/portfolioDataHub'
+import type { PortfolioSummary } from '../portfolio'
+
+export type EquitySource = 'hub' | 'positions'
+
+// One client day: closing NAV (null when no equity figure was available), cumulative PnL
+// since inception and net greeks, all in the book's deposit asset.
+export type DailySnapshot = {
+  day: string
+  equity: number | null
+  equitySource: EquitySource
+  pnl: number
+  realized: number
+  unrealized: number
+  delta: number
+  gamma: number
+  theta: number
+  vega: number
+}
+
+export const utcDay = (t: number) => new Date(t).toISOString().slice(0, 10)
+
+/** Hub-reported account equity in `asset`, when the summary carries a component for it. */
+export function hubEquity(components: HubSummaryComponent[] | undefined, asset: string): number | null {
+  const c = components?.find((x) => x.currency.toUpperCase() === asset.toUpperCase() && x.equity != null)
+  const v = c ? Number(c.equity) : NaN
+  return Number.isFinite(v) ? v : null
+}
+
+/**
+ * Today's snapshot from the live summary. Equity is the Hub's account equity when given,
+ * otherwise the positions-based figure. Null while PnL is still waiting on marks.
+ */
+export function liveDailySnapshot(summary: PortfolioSummary, opts: { hubEquity?: number | null; now?: number } = {}): DailySnapshot | null {
+  if (summary.totalPnl == null) return null
+  const hub = opts.hubEquity ?? null
+  return {
+    day: utcDay(opts.now ?? Date.now()),
+    equity: hub ?? summary.totalEquity,
+    equitySource: hub != null ? 'hub' : 'positions',
+    pnl: summary.totalPnl,
+    realized: summary.totalRealized,
+    unrealized: summary.totalPnl - summary.totalRealized,
+    delta: summary.delta, gamma: summary.gamma, theta: summary.theta, vega: summary.vega,
+  }
+}
+
+/**
+ * Daily closes (last point per UTC day) of a portfolio mark history. Equity moves with PnL
+ * from `live`: each day's equity is today's equity less the PnL earned since that close.
+ */
+export function dailySnapshotsFromHistory(history: HistoryPoint[], live?: DailySnapshot | null): DailySnapshot[] {
+  const byDay = new Map<string, HistoryPoint>()
+  for (const p of [...history].sort((a, b) => a.t - b.t)) byDay.set(utcDay(p.t), p)
+  const base = live?.equity != null ? live.equity - live.pnl : null
+  return [...byDay.entries()].map(([day, p]) => ({
+    day,
+    equity: base != null ? base + p.pnl : null,
+    equitySource: live?.equitySource ?? 'positions',
+    pnl: p.pnl, realized: p.realized, unrealized: p.unrealized,
+    delta: p.delta, gamma: p.gamma, theta: p.theta, vega: p.vega,
+  }))
+}
+
+/** Highest cumulative PnL across the snapshots: the peak drawdown is measured from. Null when empty. */
+export function peakDailyPnl(snapshots: DailySnapshot[]): number | null {
+  return snapshots.length > 0 ? Math.max(...snapshots.map((s) => s.pnl)) : null
+}
+
+/** Merge snapshot sets by day, later sets winning; sorted by day. */
+export function mergeDailySnapshots(...sets: DailySnapshot[][]): DailySnapshot[] {
+  const byDay = new Map<string, DailySnapshot>()
+  for (const set of sets) for (const s of set) byDay.set(s.day, s)
+  return [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day))
+}
+
+const SNAPSHOT_FIELDS = ['equity', 'pnl', 'realized', 'unrealized', 'delta', 'gamma', 'theta', 'vega'] as const
+
+/** Snapshots in `next` that are new or differ from the stored day, i.e. worth recording. */
+export function changedDailySnapshots(stored: DailySnapshot[], next: DailySnapshot[]): DailySnapshot[] {
+  const byDay = new Map(stored.map((s) => [s.day, s]))
+  return next.filter((s) => {
+    const prev = byDay.get(s.day)
+    if (!prev || prev.equitySource !== s.equitySource) return true
+    return SNAPSHOT_FIELDS.some((k) => {
+      const a = prev[k]
+      const b = s[k]
+      if (a == null || b == null) return a !== b
+      return Math.abs(a - b) > 1e-9 * Math.max(1, Math.abs(a), Math.abs(b))
+    })
+  })
+}
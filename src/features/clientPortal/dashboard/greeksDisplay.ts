@@ -8,6 +8,8 @@ export type GreekDisplay = {
   label: string
   symbol: string
   value: number
+  /** Factor from the summary greek to `value` (spot for the USD-converted greeks). */
+  scale: number
   unit: string
   tone: GreekTone
   digits: number
@@ -20,9 +22,9 @@ export function greekDisplays(
 ): GreekDisplay[] {
   const asset = denom.depositAsset
   return [
-    { key: 'delta', label: 'Delta', symbol: 'Δ', value: summary.delta, unit: `${asset} equivalent`, tone: 'accent', digits: 4 },
-    { key: 'gamma', label: 'Gamma', symbol: 'Γ', value: summary.gamma, unit: `${asset} per 1% move`, tone: 'sky', digits: 5 },
-    { key: 'vega', label: 'Vega', symbol: 'V', value: summary.vega * denom.spotUsd, unit: 'USD per vol pt', tone: 'amber', digits: 1 },
-    { key: 'theta', label: 'Theta', symbol: 'Θ', value: summary.theta * denom.spotUsd, unit: 'USD per day', tone: 'rose', digits: 1 },
+    { key: 'delta', label: 'Delta', symbol: 'Δ', value: summary.delta, scale: 1, unit: `${asset} equivalent`, tone: 'accent', digits: 4 },
+    { key: 'gamma', label: 'Gamma', symbol: 'Γ', value: summary.gamma, scale: 1, unit: `${asset} per 1% move`, tone: 'sky', digits: 5 },
+    { key: 'vega', label: 'Vega', symbol: 'V', value: summary.vega * denom.spotUsd, scale: denom.spotUsd, unit: 'USD per vol pt', tone: 'amber', digits: 1 },
+    { key: 'theta', label: 'Theta', symbol: 'Θ', value: summary.theta * denom.spotUsd, scale: denom.spotUsd, unit: 'USD per day', tone: 'rose', digits: 1 },
   ]
 }
@@ -1,5 +1,7 @@
-import type { PortfolioSummary } from '../portfolio'
-import type { DashboardDenomination } from './denomination'
+import { decimalOrNull } from '@/lib/portfolioDataHub/decimal'
+import type { HubPosition, HubSummary, HubSummaryComponent } from '@/lib/portfolioDataHub'
+import type { PortfolioHubOverview } from '@/lib/portfolioDataHub/client'
+import { normalizeReportingCurrency } from '@/lib/clientPortal/reportingCurrencyRepo'
 
 export type UtilizationZone = 'ok' | 'warn' | 'high'
 
@@ -9,36 +11,150 @@ export function utilizationZone(u: number): UtilizationZone {
   return 'high'
 }
 
-export type MarginUsage = {
+export type MarginFigures = {
   imUtilization: number
   initialMargin: number
   maintenanceMargin: number
   marginBalance: number
   available: number
-  ccy: string
   zone: UtilizationZone
 }
 
-// Illustrative IM utilization for this phase. Real feed replaces this.
-const ILLUSTRATIVE_IM_UTILIZATION = 0.31
-const MM_TO_IM_RATIO = 0.5
+export type VenueMargin = MarginFigures & {
+  venue: string
+  accounts: number
+  /** Oldest `fetched_at` among this venue's summaries. */
+  fetchedAt: string
+  stale: boolean
+}
+
+export type MarginUsage = MarginFigures & {
+  ccy: string
+  venues: VenueMargin[]
+  /** Oldest `fetched_at` across every summary that contributed, null when none did. */
+  asOf: string | null
+  stale: boolean
+  /** Margin-bearing currencies left out because no conversion rate was available. */
+  unconverted: string[]
+  /** Labels of connected accounts left out because the Hub could not provide their summary. */
+  unavailable: string[]
+}
+
+/** Value of one unit of each currency in the reporting currency. */
+export type FxRates = Record<string, number>
+
+/** Summaries fetched longer ago than this are flagged as stale. */
+export const MARGIN_STALE_AFTER_MS = 15 * 60_000
+
+// Treated as interchangeable dollars when deriving rates; venue collateral haircuts are ignored.
+export const USD_LIKE = new Set(['USD', 'USDC', 'USDT'])
+
+/**
+ * Conversion rates into `reportingCurrency` from the index prices on Hub positions
+ * (base currency priced in USD), with USD, USDC and USDT at par. Currencies that
+ * cannot be priced are omitted, so callers can tell them apart from a zero rate.
+ */
+export function hubFxRates(positions: HubPosition[], reportingCurrency: string): FxRates {
+  const usd: Record<string, number> = { USD: 1, USDC: 1, USDT: 1 }
+  for (const p of positions) {
+    const base = normalizeReportingCurrency(p.baseCurrency)
+    const priceCcy = normalizeReportingCurrency(p.indexPriceCurrency ?? p.quoteCurrency)
+    const price = decimalOrNull(p.indexPrice)?.toNumber()
+    if (!base || USD_LIKE.has(base) || usd[base] != null) continue
+    if (!priceCcy || !USD_LIKE.has(priceCcy) || !(price != null && price > 0)) continue
+    usd[base] = price
+  }
+  const target = normalizeReportingCurrency(reportingCurrency)
+  const per = target ? usd[target] : undefined
+  if (!target || per == null) return target ? { [target]: 1 } : {}
+  const rates: FxRates = {}
+  for (const [ccy, price] of Object.entries(usd)) rates[ccy] = price / per
+  return rates
+}
+
+function isMarginComponent(c: HubSummaryComponent): boolean {
+  return c.initialMargin !== null || c.maintenanceMargin !== null
+}
+
+const num = (v: HubSummaryComponent['equity']) => decimalOrNull(v)?.toNumber() ?? null
 
-export function illustrativeMargin(
-  summary: PortfolioSummary,
-  denom: DashboardDenomination,
-): MarginUsage {
-  const marginBalance = Math.round(summary.totalEquity * denom.spotUsd)
-  const imUtilization = ILLUSTRATIVE_IM_UTILIZATION
-  const initialMargin = Math.round(marginBalance * imUtilization)
-  const maintenanceMargin = Math.round(initialMargin * MM_TO_IM_RATIO)
-  const available = marginBalance - initialMargin
+function figures(im: number, mm: number, balance: number, available: number): MarginFigures {
+  const imUtilization = balance > 0 ? im / balance : im > 0 ? 1 : 0
   return {
-    imUtilization,
-    initialMargin,
-    maintenanceMargin,
-    marginBalance,
-    available,
-    ccy: denom.marginCcy,
+    imUtilization, initialMargin: im, maintenanceMargin: mm, marginBalance: balance, available,
     zone: utilizationZone(imUtilization),
   }
 }
+
+/**
+ * Margin usage from Hub summary components, aggregated across every summary (one per Hub
+ * account) and converted to the reporting currency. Only margin-bearing components
+ * (those reporting initial or maintenance margin) count; the margin balance is their
+ * equity, and available funds fall back to equity less IM when a venue omits them.
+ * Returns null when no component could be converted.
+ */
+export function hubMargin(
+  summaries: HubSummary[],
+  opts: { reportingCurrency: string; rates: FxRates; now?: number; staleAfterMs?: number; unavailable?: string[] },
+): MarginUsage | null {
+  const ccy = normalizeReportingCurrency(opts.reportingCurrency)
+  if (!ccy) return null
+  const now = opts.now ?? Date.now()
+  const staleAfter = opts.staleAfterMs ?? MARGIN_STALE_AFTER_MS
+  const unconverted = new Set<string>()
+  const byVenue = new Map<string, { im: number; mm: number; balance: number; available: number; accounts: Set<string>; fetchedAt: string }>()
+
+  for (const s of summaries) {
+    for (const c of s.components) {
+      if (!isMarginComponent(c)) continue
+      const cur = normalizeReportingCurrency(c.currency) ?? c.currency
+      const rate = opts.rates[cur]
+      if (!(rate > 0)) { unconverted.add(cur); continue }
+      const im = num(c.initialMargin) ?? 0
+      const balance = num(c.equity) ?? num(c.collateral) ?? 0
+      const venue = s.venue ?? 'unknown'
+      const v = byVenue.get(venue) ?? { im: 0, mm: 0, balance: 0, available: 0, accounts: new Set(), fetchedAt: s.fetchedAt }
+      v.im += im * rate
+      v.mm += (num(c.maintenanceMargin) ?? 0) * rate
+      v.balance += balance * rate
+      v.available += (num(c.availableFunds) ?? balance - im) * rate
+      v.accounts.add(s.accountId)
+      if (Date.parse(s.fetchedAt) < Date.parse(v.fetchedAt)) v.fetchedAt = s.fetchedAt
+      byVenue.set(venue, v)
+    }
+  }
+  if (byVenue.size === 0) return null
+
+  const isStale = (ts: string) => !(now - Date.parse(ts) <= staleAfter)
+  const venues: VenueMargin[] = [...byVenue.entries()]
+    .map(([venue, v]) => ({
+      ...figures(v.im, v.mm, v.balance, v.available),
+      venue, accounts: v.accounts.size, fetchedAt: v.fetchedAt, stale: isStale(v.fetchedAt),
+    }))
+    .sort((a, b) => b.initialMargin - a.initialMargin)
+  const total = venues.reduce(
+    (t, v) => ({ im: t.im + v.initialMargin, mm: t.mm + v.maintenanceMargin, balance: t.balance + v.marginBalance, available: t.available + v.available }),
+    { im: 0, mm: 0, balance: 0, available: 0 },
+  )
+  const asOf = venues.reduce((oldest, v) => (Date.parse(v.fetchedAt) < Date.parse(oldest) ? v.fetchedAt : oldest), venues[0].fetchedAt)
+
+  return {
+    ...figures(total.im, total.mm, total.balance, total.available),
+    ccy, venues, asOf, stale: venues.some((v) => v.stale), unconverted: [...unconverted].sort(),
+    unavailable: opts.unavailable ?? [],
+  }
+}
+
+/**
+ * Margin usage of a Hub overview in its reporting currency, across every connected account
+ * and naming the linked accounts the Hub could not provide. Null without a reporting currency.
+ */
+export function overviewMargin(overview: PortfolioHubOverview): MarginUsage | null {
+  const reportingCurrency = normalizeReportingCurrency(overview.reportingCurrency)
+  if (!reportingCurrency) return null
+  return hubMargin(overview.accountSummaries, {
+    reportingCurrency,
+    rates: hubFxRates(overview.positions.items, reportingCurrency),
+    unavailable: overview.unavailableAccounts.map((a) => a.label ?? 'an unlabelled account'),
+  })
+}
@@ -1,54 +1,64 @@
-import type { PortfolioSummary } from '../portfolio'
+import type { DailySnapshot } from './dailySnapshots'
 
 export type SeriesPoint = { t: string; v: number }
 
-const DAYS = 30
+export type Period = '7D' | '30D' | '90D' | 'YTD' | 'ALL'
 
-function seeded(seed: number): () => number {
-  let s = seed >>> 0
-  return () => {
-    s = (s * 1664525 + 1013904223) & 0xffffffff
-    return (s >>> 0) / 0xffffffff
-  }
-}
+export const PERIODS: { value: Period; label: string }[] = [
+  { value: '7D', label: '7D' },
+  { value: '30D', label: '30D' },
+  { value: '90D', label: '90D' },
+  { value: 'YTD', label: 'YTD' },
+  { value: 'ALL', label: 'Since inception' },
+]
+
+const PERIOD_DAYS: Partial<Record<Period, number>> = { '7D': 7, '30D': 30, '90D': 90 }
 
-function isoDaysAgo(n: number): string {
-  const d = new Date()
+function isoDaysAgo(n: number, now: number): string {
+  const d = new Date(now)
   d.setUTCDate(d.getUTCDate() - n)
   return d.toISOString().slice(0, 10)
 }
 
-export function buildSeries(
-  seed: number,
-  opts: { start: number; drift: number; vol: number; points?: number; endValue?: number },
+/** First day (YYYY-MM-DD) included in `period`, or null for since inception. */
+export function periodStart(period: Period, now = Date.now()): string | null {
+  if (period === 'ALL') return null
+  if (period === 'YTD') return `${new Date(now).toISOString().slice(0, 4)}-01-01`
+  return isoDaysAgo((PERIOD_DAYS[period] ?? 30) - 1, now)
+}
+
+/** The snapshots' `pick` values over `period`, oldest first; days without a value are skipped. */
+export function snapshotSeries(
+  snapshots: DailySnapshot[],
+  pick: (s: DailySnapshot) => number | null,
+  period: Period,
+  now = Date.now(),
 ): SeriesPoint[] {
-  const points = opts.points ?? DAYS
-  const rand = seeded(seed)
+  const from = periodStart(period, now)
   const out: SeriesPoint[] = []
-  let v = opts.start
-  for (let i = 0; i < points; i++) {
-    v += opts.drift + (rand() - 0.5) * opts.vol
-    out.push({ t: isoDaysAgo(points - 1 - i), v })
+  for (const s of snapshots) {
+    if (from != null && s.day < from) continue
+    const v = pick(s)
+    if (v != null && Number.isFinite(v)) out.push({ t: s.day, v })
   }
-  if (opts.endValue != null && out.length > 0) out[out.length - 1].v = opts.endValue
-  return out
+  return out.sort((a, b) => a.t.localeCompare(b.t))
 }
 
-export function equitySeries(summary: PortfolioSummary): SeriesPoint[] {
-  const end = summary.totalEquity
-  return buildSeries(11, { start: end * 0.77, drift: end * 0.008, vol: Math.abs(end) * 0.06 + 1e-9, endValue: end })
+export function equitySeries(snapshots: DailySnapshot[], period: Period, now?: number): SeriesPoint[] {
+  return snapshotSeries(snapshots, (s) => s.equity, period, now)
 }
 
-export function pnlSeries(summary: PortfolioSummary): SeriesPoint[] {
-  const end = summary.totalPnl ?? 0
-  return buildSeries(31, { start: end * 0.13, drift: end * 0.03, vol: Math.abs(end) * 0.28 + 1e-9, endValue: end })
+export function pnlSeries(snapshots: DailySnapshot[], period: Period, now?: number): SeriesPoint[] {
+  return snapshotSeries(snapshots, (s) => s.pnl, period, now)
 }
 
+/** `scale` converts a stored greek to its display unit (see `greekDisplays`). */
 export function greekSeries(
   key: 'delta' | 'gamma' | 'vega' | 'theta',
-  endValue: number,
+  snapshots: DailySnapshot[],
+  period: Period,
+  scale = 1,
+  now?: number,
 ): SeriesPoint[] {
-  const seeds = { delta: 41, gamma: 47, vega: 53, theta: 59 } as const
-  const mag = Math.abs(endValue) || 1
-  return buildSeries(seeds[key], { start: endValue * 0.6, drift: 0, vol: mag * 0.5, endValue })
+  return snapshotSeries(snapshots, (s) => s[key] * scale, period, now)
 }
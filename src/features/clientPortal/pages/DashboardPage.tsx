@@ -1,10 +1,16 @@
+import React from 'react'
 import { Check, AlertCircle } from 'lucide-react'
-import { fmtPremium, type Position, type MarksMap } from '@/utils'
+import { SegmentedControl } from '@/components/ui/SegmentedControl'
+import { fmtPremium, type Position, type MarksMap, type PricingContext } from '@/utils'
+import type { PortfolioExplain } from '@/lib/marks'
 import { portfolioSummary } from '../portfolio'
 import { denominationFor } from '../dashboard/denomination'
-import { illustrativeMargin } from '../dashboard/marginModel'
+import type { MarginUsage } from '../dashboard/marginModel'
+import type { DailySnapshot } from '../dashboard/dailySnapshots'
+import { PERIODS, type Period } from '../dashboard/series'
 import { GreeksStrip } from '../components/GreeksStrip'
 import { MarginUsageCard } from '../components/MarginUsageCard'
+import { PnlExplainCard } from '../components/PnlExplainCard'
 import { EquityChart } from '../components/charts/EquityChart'
 import { PnlChart } from '../components/charts/PnlChart'
 import { GreekCharts } from '../components/charts/GreekCharts'
@@ -27,21 +33,25 @@ function Kpi({ label, value, tone }: { label: string; value: string; tone?: 'pos
   )
 }
 
-function SectionHead({ title, meta }: { title: string; meta?: string }) {
+function SectionHead({ title, meta, action }: { title: string; meta?: string; action?: React.ReactNode }) {
   return (
-    <div className="flex items-center justify-between">
+    <div className="flex items-center justify-between gap-3">
       <h2 className="type-subhead font-semibold text-text-primary">{title}</h2>
-      {meta && <span className="type-caption uppercase tracking-wide text-text-tertiary">{meta}</span>}
+      <div className="flex items-center gap-3">
+        {meta && <span className="type-caption uppercase tracking-wide text-text-tertiary">{meta}</span>}
+        {action}
+      </div>
     </div>
   )
 }
 
-export function DashboardPage({ positions, marks, setupStatus, onNavigate }: {
-  positions: Position[]; marks?: MarksMap; setupStatus: SetupStatus; onNavigate: (page: PortalPage) => void
+export function DashboardPage({ positions, marks, pricing, margin, snapshots = [], explain, setupStatus, onNavigate }: {
+  positions: Position[]; marks?: MarksMap; pricing?: PricingContext; margin?: MarginUsage | null; snapshots?: DailySnapshot[]; explain?: PortfolioExplain | null; setupStatus: SetupStatus; onNavigate: (page: PortalPage) => void
 }) {
-  const s = portfolioSummary(positions, marks)
+  const s = portfolioSummary(positions, marks, pricing)
   const denom = denominationFor(s)
-  const margin = illustrativeMargin(s, denom)
+  const [period, setPeriod] = React.useState<Period>('30D')
+  const periodLabel = PERIODS.find((x) => x.value === period)?.label ?? period
   const pnl = s.totalPnl
   return (
     <div className="flex flex-col gap-5">
@@ -64,20 +74,36 @@ export function DashboardPage({ positions, marks, setupStatus, onNavigate }: {
 
       <div className="flex flex-col gap-3">
         <SectionHead title="Margin Usage" meta="initial margin utilization" />
-        <MarginUsageCard margin={margin} />
+        {margin ? <MarginUsageCard margin={margin} /> : (
+          <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-5 type-caption text-text-secondary">
+            Margin figures come from your venue accounts via the Portfolio Data Hub and are not available for this portfolio.
+          </div>
+        )}
       </div>
 
       <div className="flex flex-col gap-3">
-        <SectionHead title="Performance" meta="last 30 days" />
+        <SectionHead
+          title="Performance" meta="daily close"
+          action={<SegmentedControl size="sm" items={PERIODS} value={period} onChange={(v) => setPeriod(v as Period)} />}
+        />
         <div className="grid gap-3 md:grid-cols-2">
-          <EquityChart summary={s} denom={denom} />
-          <PnlChart summary={s} denom={denom} />
+          <EquityChart summary={s} denom={denom} snapshots={snapshots} period={period} />
+          <PnlChart summary={s} denom={denom} snapshots={snapshots} period={period} />
         </div>
       </div>
 
       <div className="flex flex-col gap-3">
-        <SectionHead title="Greek Exposure Over Time" meta="one panel per greek · last 30 days" />
-        <GreekCharts summary={s} denom={denom} />
+        <SectionHead title="Today's PnL Explain" meta="delta · gamma · vega · theta" />
+        {explain ? <PnlExplainCard explain={explain} /> : (
+          <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-5 type-caption text-text-secondary">
+            The PnL explain is built from stored marks and appears once your positions have been marked today.
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <SectionHead title="Greek Exposure Over Time" meta={`one panel per greek · ${periodLabel}`} />
+        <GreekCharts summary={s} denom={denom} snapshots={snapshots} period={period} />
       </div>
 
       <div className="rounded-2xl border border-border-default bg-bg-surface-1 p-5">
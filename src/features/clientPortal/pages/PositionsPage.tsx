@@ -1,18 +1,18 @@
 import React from 'react'
 import { DataTable, type Column } from '@/components/ui'
 import { Button } from '@/components/ui/Button'
-import { fmtPremium, fmtNumber, type Position, type MarksMap } from '@/utils'
+import { fmtPremium, fmtNumber, type Position, type MarksMap, type PricingContext } from '@/utils'
 import type { InterventionMap } from '@/lib/positions/interventions'
 import { InterventionBadge } from '../components/InterventionBadge'
 import { legSummaryRows, type LegSummaryRow } from '../portfolio'
 
 const EMPTY_INTERVENTIONS: InterventionMap = new Map()
 
-export function PositionsPage({ positions, marks, interventions = EMPTY_INTERVENTIONS, onModify, onClose }: {
-  positions: Position[]; marks?: MarksMap; interventions?: InterventionMap
+export function PositionsPage({ positions, marks, pricing, interventions = EMPTY_INTERVENTIONS, onModify, onClose }: {
+  positions: Position[]; marks?: MarksMap; pricing?: PricingContext; interventions?: InterventionMap
   onModify: (positionId: string) => void; onClose: (positionId: string) => void
 }) {
-  const rows = React.useMemo(() => legSummaryRows(positions, marks), [positions, marks])
+  const rows = React.useMemo(() => legSummaryRows(positions, marks, pricing), [positions, marks, pricing])
 
   const columns: Column<LegSummaryRow>[] = React.useMemo(() => [
     {
@@ -1,8 +1,9 @@
 import { describe, it, expect, vi } from 'vitest'
 import { render, screen, within } from '@testing-library/react'
 import { DashboardPage } from '../DashboardPage'
-import { SAMPLE_POSITIONS, SAMPLE_MARKS } from '../../sampleData'
+import { SAMPLE_POSITIONS, SAMPLE_MARKS, SAMPLE_DAILY_SNAPSHOTS } from '../../sampleData'
 import { EMPTY_SETUP_STATUS } from '../../setupStatus'
+import type { PortfolioExplain } from '@/lib/marks'
 
 vi.mock('recharts', async (importOriginal) => {
   const actual = await importOriginal<typeof import('recharts')>()
@@ -18,7 +19,7 @@ describe('DashboardPage', () => {
   it('renders the new sections in order: greeks before margin, then charts', () => {
     render(
       <DashboardPage
-        positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS}
+        positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS} snapshots={SAMPLE_DAILY_SNAPSHOTS}
         setupStatus={EMPTY_SETUP_STATUS} onNavigate={() => {}}
       />,
     )
@@ -27,6 +28,7 @@ describe('DashboardPage', () => {
     expect(screen.getByText('Performance')).toBeInTheDocument()
     expect(screen.getByTestId('equity-chart')).toBeInTheDocument()
     expect(screen.getByTestId('greek-chart-vega')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Since inception' })).toBeInTheDocument()
 
     // Greeks section appears before Margin section in the DOM.
     const greeks = screen.getByText('Portfolio Greeks')
@@ -37,7 +39,7 @@ describe('DashboardPage', () => {
   it('keeps the existing KPI tiles and setup status', () => {
     render(
       <DashboardPage
-        positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS}
+        positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS} snapshots={SAMPLE_DAILY_SNAPSHOTS}
         setupStatus={EMPTY_SETUP_STATUS} onNavigate={() => {}}
       />,
     )
@@ -52,4 +54,30 @@ describe('DashboardPage', () => {
     // No Margin Balance KPI tile — the margin balance amount only appears inside the margin card.
     expect(within(kpiRow).queryByText('Margin Balance')).toBeNull()
   })
+
+  it("shows today's PnL explain per program, or says why it is missing", () => {
+    const term = (total: number) => ({ delta: total * 0.8, gamma: 0, vega: total * 0.3, theta: -total * 0.1, residual: 0, total })
+    const explain: PortfolioExplain = {
+      structures: [],
+      programs: [{ ...term(1200), programName: 'Core', structures: 2 }, { ...term(-300), programName: 'Hedge', structures: 1 }],
+      total: term(900),
+      missing: 1,
+    }
+    const { unmount } = render(
+      <DashboardPage positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS} setupStatus={EMPTY_SETUP_STATUS} onNavigate={() => {}} />,
+    )
+    expect(screen.getByText(/appears once your positions have been marked today/)).toBeInTheDocument()
+    unmount()
+    render(
+      <DashboardPage
+        positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS} explain={explain}
+        setupStatus={EMPTY_SETUP_STATUS} onNavigate={() => {}}
+      />,
+    )
+    const card = screen.getByTestId('pnl-explain')
+    const core = within(card).getByText('Core').closest('tr')!
+    expect(within(core).getByText('+$1,200')).toBeInTheDocument()
+    expect(within(card).getByText('Portfolio').closest('tr')).toHaveTextContent('+$900')
+    expect(within(card).getByText(/1 leg without stored marks/)).toBeInTheDocument()
+  })
 })
@@ -1,9 +1,10 @@
 import {
   positionUnrealizedPnL, positionGreeks,
-  getLegMarkRef, legUnrealizedPnL, legGreekExposure, daysTo,
-  toDeribitInstrument, toCoincallSymbol,
-  type Position, type Leg, type MarksMap,
+  getLegMarkRef, legUnrealizedPnL, legGreekExposure, legGreeks, daysTo, markMultiplier,
+  toDeribitInstrument, realizedPnlUnder, LOT_METHODS,
+  type Position, type Leg, type LotMethod, type MarksMap, type PricingContext,
 } from '@/utils'
+import { venueAdapter } from '@/lib/venues/registry'
 
 export type PortfolioSummary = {
   totalEquity: number
@@ -29,6 +30,8 @@ export type PositionSummaryRow = {
   status: Position['status']
   netPremium: number
   realizedPnl: number
+  /** Realized PnL under each lot-matching method; null for structures replayed FIFO only. */
+  realizedByMethod: Record<LotMethod, number> | null
   unrealizedPnl: number | null
   delta: number | null
   gamma: number | null
@@ -37,7 +40,9 @@ export type PositionSummaryRow = {
   asset: string
 }
 
-export function portfolioSummary(positions: Position[], marks?: MarksMap): PortfolioSummary {
+// `pricing` lets greeks fall back to the Black-76 model when marks lack venue greeks or are
+// missing entirely (venue offline); PnL still requires marks.
+export function portfolioSummary(positions: Position[], marks?: MarksMap, pricing?: PricingContext): PortfolioSummary {
   let totalEquity = 0, totalRealized = 0, totalUnrealized = 0
   let hasAnyMarks = false
   let delta = 0, gamma = 0, theta = 0, vega = 0
@@ -48,8 +53,10 @@ export function portfolioSummary(positions: Position[], marks?: MarksMap): Portf
     if (marks) {
       const uPnl = positionUnrealizedPnL(p, marks)
       if (uPnl != null) { totalUnrealized += uPnl; hasAnyMarks = true }
-      const g = positionGreeks(p, marks)
-      if (g) { delta += g.delta; gamma += g.gamma; theta += g.theta; vega += g.vega }
+    }
+    if (marks || pricing) {
+      const g = positionGreeks(p, marks ?? {}, pricing)
+      delta += g.delta; gamma += g.gamma; theta += g.theta; vega += g.vega
     }
   }
 
@@ -83,8 +90,8 @@ export type LegSummaryRow = {
 function legInstrument(p: Position, leg: Leg): string {
   const expiry = leg.expiry ?? p.expiryISO
   const exchange = leg.exchange ?? p.exchange
-  if (exchange === 'coincall') return toCoincallSymbol(p.underlying, expiry, leg.strike, leg.optionType)
-  return toDeribitInstrument(p.underlying, expiry, leg.strike, leg.optionType)
+  return venueAdapter(exchange)?.toSymbol(p.underlying, expiry, leg.strike, leg.optionType)
+    ?? toDeribitInstrument(p.underlying, expiry, leg.strike, leg.optionType)
 }
 
 /** Credit convention: short legs (sign -1) collect premium, long legs pay it — sums to position.netPremium. */
@@ -93,16 +100,17 @@ function legNetPremium(leg: Leg): number {
 }
 
 /** One row per individual option across all positions (a "position" from the client's view). */
-export function legSummaryRows(positions: Position[], marks?: MarksMap): LegSummaryRow[] {
+export function legSummaryRows(positions: Position[], marks?: MarksMap, pricing?: PricingContext): LegSummaryRow[] {
   const rows: LegSummaryRow[] = []
   for (const p of positions) {
     for (const leg of p.legs) {
       const expiry = leg.expiry ?? p.expiryISO
-      const ref = marks ? getLegMarkRef(p, leg) : null
+      const ref = marks || pricing ? getLegMarkRef(p, leg) : null
       const info = ref ? marks?.[ref.key] : undefined
-      const multiplier = ref?.exchange === 'coincall' ? info?.multiplier : ref?.defaultMultiplier
+      const multiplier = ref ? markMultiplier(ref, info) : undefined
       const unrealizedPnl = info?.price != null ? legUnrealizedPnL(leg, info.price, multiplier) : null
-      const delta = info?.greeks?.delta != null ? legGreekExposure(leg, info.greeks.delta, multiplier) : null
+      const g = ref ? legGreeks(p, leg, info, pricing) : null
+      const delta = g?.delta != null ? legGreekExposure(leg, g.delta, multiplier) : null
       rows.push({
         id: leg.key,
         positionId: p.id,
@@ -121,10 +129,10 @@ export function legSummaryRows(positions: Position[], marks?: MarksMap): LegSumm
   return rows
 }
 
-export function positionSummaryRows(positions: Position[], marks?: MarksMap): PositionSummaryRow[] {
+export function positionSummaryRows(positions: Position[], marks?: MarksMap, pricing?: PricingContext): PositionSummaryRow[] {
   return positions.map((p) => {
     const uPnl = marks ? positionUnrealizedPnL(p, marks) : null
-    const g = marks ? positionGreeks(p, marks) : null
+    const g = marks || pricing ? positionGreeks(p, marks ?? {}, pricing) : null
     return {
       id: p.id,
       strategy: p.strategy ?? p.structureId ?? p.underlying,
@@ -134,6 +142,7 @@ export function positionSummaryRows(positions: Position[], marks?: MarksMap): Po
       status: p.status,
       netPremium: p.netPremium,
       realizedPnl: p.realizedPnl,
+      realizedByMethod: p.realizedPnlByMethod ?? null,
       unrealizedPnl: uPnl,
       delta: g?.delta ?? null,
       gamma: g?.gamma ?? null,
@@ -143,3 +152,21 @@ export function positionSummaryRows(positions: Position[], marks?: MarksMap): Po
     }
   })
 }
+
+const csvCell = (v: string | number | null | undefined) => {
+  const text = v == null ? '' : String(v)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** CSV of realized PnL per structure under every lot-matching method, for tax and client reporting. */
+export function realizedPnlCsv(positions: Position[]): string {
+  const header = [
+    'structure_id', 'strategy', 'underlying', 'status', 'closed_at', 'lot_method',
+    ...LOT_METHODS.map((m) => `realized_${m.value}`),
+  ]
+  const lines = positions.map((p) => [
+    p.id, p.strategy ?? '', p.underlying, p.status, p.closedAt ?? '', p.lotMethod ?? 'fifo',
+    ...LOT_METHODS.map((m) => realizedPnlUnder(p, m.value)),
+  ].map(csvCell).join(','))
+  return [header.join(','), ...lines].join('\n') + '\n'
+}
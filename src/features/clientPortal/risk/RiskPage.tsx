@@ -1,9 +1,13 @@
 import React from 'react'
 import { Button } from '@/components/ui/Button'
-import { type RiskLimits, ILLUSTRATIVE_READINGS, activeDeltaBand } from './riskLimits'
+import { SegmentedControl } from '@/components/ui/SegmentedControl'
+import type { Position, MarksMap, PricingContext } from '@/utils'
+import { type RiskLimits, activeDeltaBand } from './riskLimits'
+import { buildGreekReadings } from './readings'
 import { paddedDomain, rangeGauge, bandStatus, capStatus, twoStageGauge } from './gauge'
 import { LimitGauge, TwoStageGauge } from './LimitGauge'
 import { StressMatrix } from './StressMatrix'
+import { STRESS_AXIS_PRESETS, TERM_TILT_REF_DAYS, stressGrid, headroomPct, type StressAxes } from './stress'
 
 const pctFmt = (n: number) => `${n > 0 ? '+' : ''}${n}%`
 const sp = pctFmt
@@ -44,6 +48,18 @@ function BoundInput({ label, value, onChange, step = 1 }: { label: string; value
   )
 }
 
+const AXIS_ITEMS = [
+  { value: 'standard', label: '±10%' },
+  { value: 'wide', label: '±5/10/20/30%' },
+]
+const IV_MODE_ITEMS = [
+  { value: 'parallel', label: 'Parallel IV' },
+  { value: 'tilt', label: 'Term tilt' },
+]
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const NO_POSITIONS: Position[] = []
+
 const STATUS_TEXT = { ok: 'text-status-success', near: 'text-status-warning', breach: 'text-status-danger' } as const
 
 function Reading({ value, status }: { value: number; status: 'ok' | 'near' | 'breach' }) {
@@ -55,10 +71,28 @@ function Reading({ value, status }: { value: number; status: 'ok' | 'near' | 'br
   )
 }
 
-export function RiskPage({ limits, onApply }: { limits: RiskLimits; onApply: (next: RiskLimits) => void }) {
+export function RiskPage({ limits, onApply, positions = NO_POSITIONS, marks, pricing, peakPnl }: {
+  limits: RiskLimits; onApply: (next: RiskLimits) => void
+  positions?: Position[]; marks?: MarksMap; pricing?: PricingContext
+  /** Peak cumulative PnL from the daily snapshots; drawdown reads from break-even without it. */
+  peakPnl?: number | null
+}) {
   const [draft, setDraft] = React.useState<RiskLimits>(limits)
   React.useEffect(() => setDraft(limits), [limits])
-  const r = ILLUSTRATIVE_READINGS
+  const [axisPreset, setAxisPreset] = React.useState<keyof typeof STRESS_AXIS_PRESETS>('standard')
+  const [ivMode, setIvMode] = React.useState<'parallel' | 'tilt'>('parallel')
+  const axes = React.useMemo<StressAxes>(
+    () => ({ ...STRESS_AXIS_PRESETS[axisPreset], tiltRefDays: ivMode === 'tilt' ? TERM_TILT_REF_DAYS : null }),
+    [axisPreset, ivMode],
+  )
+  const grid = React.useMemo(
+    () => stressGrid(positions, marks, { tvl: limits.capitalTvlBtc, axes, pricing }),
+    [positions, marks, limits.capitalTvlBtc, axes, pricing],
+  )
+  const r = React.useMemo(
+    () => buildGreekReadings(positions, marks, limits, { pricing, axes, peakPnl: peakPnl ?? undefined }),
+    [positions, marks, limits, pricing, axes, peakPnl],
+  )
   const patch = (p: Partial<RiskLimits>) => setDraft((d) => ({ ...d, ...p }))
   const apply = () => onApply(draft)
 
@@ -112,7 +146,7 @@ export function RiskPage({ limits, onApply }: { limits: RiskLimits; onApply: (ne
       </Card>
 
       {/* Greek limits */}
-      <Card title="Greek exposure limits" sub="% of TVL · live values illustrative" onApply={apply} applyLabel="Apply greek limits"
+      <Card title="Greek exposure limits" sub="% of TVL · live" onApply={apply} applyLabel="Apply greek limits"
         right={<span className="rounded-full bg-status-info/15 px-2.5 py-1 text-[10.5px] font-semibold text-status-info">on breach → rebalance</span>}>
         {/* Delta */}
         <Row>
@@ -182,8 +216,12 @@ export function RiskPage({ limits, onApply }: { limits: RiskLimits; onApply: (ne
           <div className="mt-2 flex flex-wrap gap-2">
             <BoundInput label="Stress loss max" value={draft.stressLossMaxPct} onChange={(n) => patch({ stressLossMaxPct: n })} />
           </div>
-          <StressMatrix />
-          <p className="mt-2.5 font-sans type-caption text-text-tertiary">Worst-case loss <strong className="text-text-primary">{r.stressWorstPct}%</strong> · limit <strong className="text-text-primary">{limits.stressLossMaxPct}%</strong>.</p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <SegmentedControl size="sm" items={AXIS_ITEMS} value={axisPreset} onChange={(v) => setAxisPreset(v as keyof typeof STRESS_AXIS_PRESETS)} />
+            <SegmentedControl size="sm" items={IV_MODE_ITEMS} value={ivMode} onChange={(v) => setIvMode(v as 'parallel' | 'tilt')} />
+          </div>
+          <StressMatrix grid={grid} axes={axes} />
+          <p className="mt-2.5 font-sans type-caption text-text-tertiary">Worst-case loss <strong className="text-text-primary">{r.stressWorstPct}%</strong> · limit <strong className="text-text-primary">{limits.stressLossMaxPct}%</strong> · headroom <strong className="text-text-primary">{round2(headroomPct(r.stressWorstPct, limits.stressLossMaxPct))}%</strong>.</p>
         </Row>
         <Row>
           <div className="flex flex-wrap items-center gap-2">
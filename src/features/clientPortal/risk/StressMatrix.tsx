@@ -1,28 +1,29 @@
-import { STRESS_SCENARIO, SPOT_SHOCKS, IV_SHOCKS, worstCell } from './stress'
+import { DEFAULT_STRESS_AXES, worstCell, type StressAxes } from './stress'
 
 const fmt = (n: number) => (n > 0 ? `+${n.toFixed(1)}` : n.toFixed(1))
 const sign = (n: number) => (n > 0 ? `+${n}` : `−${Math.abs(n)}`)
+const span = (xs: number[]) => Math.max(0, ...xs.map(Math.abs))
 
-export function StressMatrix({ grid = STRESS_SCENARIO }: { grid?: number[][] }) {
+export function StressMatrix({ grid, axes = DEFAULT_STRESS_AXES }: { grid: number[][]; axes?: StressAxes }) {
   const worst = worstCell(grid)
   return (
     <div className="mt-3 overflow-x-auto">
       <table className="border-collapse font-mono text-xs">
         <caption className="pb-2 text-left font-sans text-[11px] text-text-tertiary">
-          Worst loss across ±10% spot × ±20% parallel IV shift (PnL as % of TVL)
+          Worst loss across ±{span(axes.spotShocks)}% spot × ±{span(axes.ivShocks)}% {axes.tiltRefDays ? 'term-tilted' : 'parallel'} IV shift (PnL as % of TVL)
         </caption>
         <thead>
           <tr>
             <th className="px-3.5 py-1.5 text-left text-[10px] text-text-tertiary">spot ╲ IV</th>
-            {IV_SHOCKS.map((iv) => (
+            {axes.ivShocks.map((iv) => (
               <th key={iv} className="px-3.5 py-1.5 text-[10.5px] font-semibold text-text-tertiary whitespace-nowrap">IV {sign(iv)}%</th>
             ))}
           </tr>
         </thead>
         <tbody>
           {grid.map((row, r) => (
-            <tr key={SPOT_SHOCKS[r]}>
-              <th className="px-3.5 py-2 text-left text-[10.5px] font-semibold text-text-tertiary whitespace-nowrap">spot {sign(SPOT_SHOCKS[r])}%</th>
+            <tr key={axes.spotShocks[r]}>
+              <th className="px-3.5 py-2 text-left text-[10.5px] font-semibold text-text-tertiary whitespace-nowrap">spot {sign(axes.spotShocks[r])}%</th>
               {row.map((v, c) => {
                 const isWorst = r === worst.row && c === worst.col
                 return (
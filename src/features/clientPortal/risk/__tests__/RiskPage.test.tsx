@@ -3,6 +3,7 @@ import { render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { RiskPage } from '../RiskPage'
 import { DEFAULT_RISK_LIMITS } from '../riskLimits'
+import { SAMPLE_POSITIONS, SAMPLE_MARKS } from '../../sampleData'
 
 describe('RiskPage', () => {
   it('renders the limit cards, TVL note, and stress matrix', () => {
@@ -30,4 +31,15 @@ describe('RiskPage', () => {
     render(<RiskPage limits={{ ...DEFAULT_RISK_LIMITS, gammaFloor: -15 }} onApply={() => {}} />)
     expect(screen.getByText(/-15% < Γ%/)).toBeInTheDocument()
   })
+
+  it('stresses the given positions and switches the grid axes', async () => {
+    const { container } = render(<RiskPage limits={DEFAULT_RISK_LIMITS} onApply={() => {}} positions={SAMPLE_POSITIONS} marks={SAMPLE_MARKS} />)
+    const worst = container.querySelector('[data-role="worst"]') as HTMLElement
+    expect(Number(worst.textContent)).toBeLessThan(0)
+    expect(screen.getByText(/headroom/)).toBeInTheDocument()
+    await userEvent.click(screen.getByRole('button', { name: '±5/10/20/30%' }))
+    expect(screen.getByText(/spot \+30%/)).toBeInTheDocument()
+    await userEvent.click(screen.getByRole('button', { name: 'Term tilt' }))
+    expect(screen.getByText(/term-tilted IV shift/)).toBeInTheDocument()
+  })
 })
@@ -1,13 +1,24 @@
 import { describe, it, expect } from 'vitest'
 import { render } from '@testing-library/react'
 import { StressMatrix } from '../StressMatrix'
+import { STRESS_AXIS_PRESETS } from '../stress'
+
+const GRID = [[-1.9, -2.4, -3.0], [1.2, 0.4, -1.1], [-2.2, -2.7, -3.4]]
 
 describe('StressMatrix', () => {
   it('renders the grid and highlights the worst cell', () => {
-    const { container, getByText } = render(<StressMatrix />)
+    const { container, getByText } = render(<StressMatrix grid={GRID} />)
     expect(getByText('IV −20%')).toBeInTheDocument()
     expect(getByText('spot +10%')).toBeInTheDocument()
     const worst = container.querySelector('[data-role="worst"]') as HTMLElement
     expect(worst.textContent).toContain('-3.4')
   })
+
+  it('labels configured axes', () => {
+    const axes = { ...STRESS_AXIS_PRESETS.wide, tiltRefDays: 30 }
+    const grid = axes.spotShocks.map(() => axes.ivShocks.map(() => 0))
+    const { getByText } = render(<StressMatrix grid={grid} axes={axes} />)
+    expect(getByText('spot +30%')).toBeInTheDocument()
+    expect(getByText(/±30% spot × ±30% term-tilted IV shift/)).toBeInTheDocument()
+  })
 })
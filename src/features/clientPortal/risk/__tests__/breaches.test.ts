@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_RISK_LIMITS } from '../riskLimits'
+import { EMPTY_READINGS } from '../readings'
+import { applyBreachEvents, diffBreaches, evaluateRiskLimits, type BreachKey } from '../breaches'
+
+const LIMITS = DEFAULT_RISK_LIMITS
+const CALM = { openStructures: 2, dtes: [2, 3] }
+
+const breached = (checks: ReturnType<typeof evaluateRiskLimits>) =>
+  checks.filter((c) => c.breached).map((c) => c.key).sort()
+
+describe('evaluateRiskLimits', () => {
+  it('reports nothing for a flat book inside every limit', () => {
+    expect(breached(evaluateRiskLimits(LIMITS, EMPTY_READINGS, CALM))).toEqual([])
+  })
+
+  it('uses the short-gamma delta band when gamma is negative', () => {
+    const r = { ...EMPTY_READINGS, deltaPct: 20, gammaPct: -2, netDeltaPct: 20 }
+    const checks = evaluateRiskLimits(LIMITS, r, CALM)
+    expect(breached(checks)).toEqual(['delta', 'netDelta'])
+    expect(checks.find((c) => c.key === 'delta')?.limit).toBe('short-gamma band [-10%, +10%]')
+    // Same delta sits inside the long-gamma band.
+    expect(breached(evaluateRiskLimits(LIMITS, { ...r, gammaPct: 0, netDeltaPct: 0 }, CALM))).toEqual([])
+  })
+
+  it('checks gamma floor and cap, vega band, theta floor and stress loss', () => {
+    const r = { ...EMPTY_READINGS, gammaPct: -12, vegaPct: 0.8, thetaPct: -3, stressWorstPct: 6 }
+    expect(breached(evaluateRiskLimits(LIMITS, r, CALM))).toEqual(['gammaFloor', 'stressLoss', 'thetaFloor', 'vega'])
+    expect(breached(evaluateRiskLimits(LIMITS, { ...EMPTY_READINGS, gammaPct: 1 }, CALM))).toEqual(['gammaCap'])
+  })
+
+  it('stages drawdown: reduce at the first threshold, stop at the second', () => {
+    expect(breached(evaluateRiskLimits(LIMITS, { ...EMPTY_READINGS, drawdownPct: 20 }, CALM))).toEqual(['drawdownReduce'])
+    expect(breached(evaluateRiskLimits(LIMITS, { ...EMPTY_READINGS, drawdownPct: 40 }, CALM))).toEqual(['drawdownReduce', 'drawdownStop'])
+  })
+
+  it('checks the structure count and the DTE window, reporting the worst DTE', () => {
+    const checks = evaluateRiskLimits(LIMITS, EMPTY_READINGS, { openStructures: 4, dtes: [2, 9, 0] })
+    expect(breached(checks)).toEqual(['dteWindow', 'maxConcurrent'])
+    expect(checks.find((c) => c.key === 'dteWindow')).toMatchObject({ value: 9, limit: '1–3 DTE' })
+    expect(breached(evaluateRiskLimits(LIMITS, EMPTY_READINGS, { openStructures: 0, dtes: [] }))).toEqual([])
+  })
+})
+
+describe('diffBreaches', () => {
+  const TS = '2026-08-13T09:00:00Z'
+
+  it('emits a breach when a limit is crossed and a recovery when it comes back', () => {
+    const over = evaluateRiskLimits(LIMITS, { ...EMPTY_READINGS, stressWorstPct: 7.5 }, CALM)
+    const first = diffBreaches(new Set(), over, TS)
+    expect(first).toEqual([{
+      key: 'stressLoss', kind: 'breach', value: 7.5, limit: 'worst loss ≤ 5%', ts: TS,
+      detail: 'stress loss limit breached · +7.5% of TVL vs worst loss ≤ 5%',
+    }])
+
+    const active = applyBreachEvents(new Set(), first)
+    expect(diffBreaches(active, over, TS)).toEqual([])
+
+    const back = diffBreaches(active, evaluateRiskLimits(LIMITS, { ...EMPTY_READINGS, stressWorstPct: 2 }, CALM), TS)
+    expect(back).toHaveLength(1)
+    expect(back[0]).toMatchObject({ key: 'stressLoss', kind: 'recovery', detail: 'stress loss back within limit · +2% of TVL vs worst loss ≤ 5%' })
+    expect(applyBreachEvents(active, back).size).toBe(0)
+  })
+
+  it('formats deployment limits in their own units', () => {
+    const checks = evaluateRiskLimits(LIMITS, EMPTY_READINGS, { openStructures: 5, dtes: [1] })
+    const [e] = diffBreaches(new Set<BreachKey>(), checks, TS)
+    expect(e.detail).toBe('max concurrent structures limit breached · 5 structures vs ≤ 3')
+  })
+})
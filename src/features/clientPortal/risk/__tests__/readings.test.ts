@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { toDeribitInstrument, type Position } from '@/utils'
+import { DEFAULT_RISK_LIMITS, activeDeltaBand } from '../riskLimits'
+import { buildGreekReadings, EMPTY_READINGS } from '../readings'
+import { bandStatus, capStatus } from '../gauge'
+
+const EXPIRY = new Date(Date.now() + 10 * 86_400_000).toISOString().slice(0, 10)
+const LIMITS = { ...DEFAULT_RISK_LIMITS, capitalTvlBtc: 1 }
+
+const shortCall: Position = {
+  id: 'p1', underlying: 'BTC', expiryISO: EXPIRY, dte: 10, legsCount: 1, type: 'Single',
+  realizedPnl: 0, netPremium: 0.02, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  legs: [{
+    key: 'p1-110000-C', strike: 110000, optionType: 'C', openLots: [{ qty: 1, price: 0.02, sign: -1 }],
+    realizedPnl: 0, netPremium: 0.02, qtyNet: -1, trades: [], exchange: 'deribit', expiry: EXPIRY,
+  }],
+}
+
+const marks = {
+  [`deribit:${toDeribitInstrument('BTC', EXPIRY, 110000, 'C')}`]: {
+    price: 0.03, multiplier: 1, indexPrice: 100000, iv: 0.5,
+    greeks: { delta: 0.3, gamma: 0.00002, vega: 50, theta: -40, rho: 1 },
+  },
+}
+
+describe('buildGreekReadings', () => {
+  it('converts venue greeks into % of TVL', () => {
+    const r = buildGreekReadings([shortCall], marks, LIMITS)
+    expect(r.deltaPct).toBeCloseTo(-30)
+    expect(r.netDeltaPct).toBeCloseTo(30)
+    expect(r.gammaPct).toBeCloseTo(-2)
+    expect(r.vegaPct).toBeCloseTo(-0.05)
+    expect(r.thetaPct).toBeCloseTo(0.04)
+    expect(r.drawdownPct).toBeCloseTo(1)
+    expect(r.stressWorstPct).toBeGreaterThan(0)
+  })
+
+  it('drives gauge statuses and the gamma regime from real readings', () => {
+    const r = buildGreekReadings([shortCall], marks, LIMITS)
+    const { band, regime } = activeDeltaBand(LIMITS, r)
+    expect(regime).toBe('short')
+    expect(bandStatus(r.deltaPct, band.min, band.max)).toBe('breach')
+    expect(capStatus(r.netDeltaPct, LIMITS.netDeltaMaxPct)).toBe('breach')
+    expect(bandStatus(r.gammaPct, LIMITS.gammaFloor, LIMITS.gammaCap)).toBe('ok')
+  })
+
+  it('measures drawdown from a supplied PnL peak', () => {
+    const r = buildGreekReadings([shortCall], marks, LIMITS, { peakPnl: 0.04 })
+    expect(r.drawdownPct).toBeCloseTo(5)
+  })
+
+  it('counts closed structures in the drawdown PnL, as the daily snapshots do', () => {
+    const closedWin: Position = { ...shortCall, id: 'p2', status: 'CLOSED', realizedPnl: 0.03, legs: [] }
+    const r = buildGreekReadings([shortCall, closedWin], marks, LIMITS, { peakPnl: 0.04 })
+    // Book PnL 0.03 − 0.01 = 0.02 against a 0.04 peak; greeks still come from the open call only.
+    expect(r.drawdownPct).toBeCloseTo(2)
+    expect(r.deltaPct).toBeCloseTo(-30)
+  })
+
+  it("takes each leg's greeks to BTC at its own index before summing", () => {
+    const ethCall: Position = {
+      ...shortCall, id: 'p3', underlying: 'ETH',
+      legs: [{ ...shortCall.legs[0], key: 'p3-4400-C', strike: 4400 }],
+    }
+    const ethMarks = {
+      ...marks,
+      [`deribit:${toDeribitInstrument('ETH', EXPIRY, 4400, 'C')}`]: {
+        price: 0.03, multiplier: 1, indexPrice: 4000, iv: 0.6,
+        greeks: { delta: 0.3, gamma: 0.0005, vega: 50, theta: -40, rho: 1 },
+      },
+    }
+    const r = buildGreekReadings([shortCall, ethCall], ethMarks, LIMITS)
+    // The ETH call's 0.3 ETH delta is 0.012 BTC at 4,000 / 100,000.
+    expect(r.deltaPct).toBeCloseTo(-31.2)
+    // Its gamma per 1% move is 0.0005 × 40 ETH = 0.02 ETH, or 0.0008 BTC.
+    expect(r.gammaPct).toBeCloseTo(-2.08)
+    // Vega and theta are USD for both legs and convert at the BTC index.
+    expect(r.vegaPct).toBeCloseTo(-0.1)
+    expect(r.thetaPct).toBeCloseTo(0.08)
+  })
+
+  it('reads zero without positions or TVL', () => {
+    expect(buildGreekReadings([], undefined, LIMITS)).toEqual(EMPTY_READINGS)
+    expect(buildGreekReadings([shortCall], marks, { ...LIMITS, capitalTvlBtc: 0 })).toEqual(EMPTY_READINGS)
+  })
+})
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest'
-import { DEFAULT_RISK_LIMITS, ILLUSTRATIVE_READINGS, activeDeltaBand } from '../riskLimits'
+import { DEFAULT_RISK_LIMITS, activeDeltaBand, type GreekReadings } from '../riskLimits'
+
+const READINGS: GreekReadings = {
+  deltaPct: 3.2, gammaPct: -8.1, vegaPct: -0.28, thetaPct: 0.8, stressWorstPct: 3.4, netDeltaPct: 3.2, drawdownPct: 6.7,
+}
 
 describe('DEFAULT_RISK_LIMITS', () => {
   it('encodes the Weekend Vol defaults', () => {
@@ -19,13 +23,12 @@ describe('DEFAULT_RISK_LIMITS', () => {
 
 describe('activeDeltaBand', () => {
   it('selects the short-gamma band when gamma reading is negative', () => {
-    const r = activeDeltaBand(DEFAULT_RISK_LIMITS, ILLUSTRATIVE_READINGS)
-    expect(ILLUSTRATIVE_READINGS.gammaPct).toBeLessThan(0)
+    const r = activeDeltaBand(DEFAULT_RISK_LIMITS, READINGS)
     expect(r.regime).toBe('short')
     expect(r.band).toEqual({ min: -10, max: 10 })
   })
   it('selects the long-gamma band when gamma is positive', () => {
-    const r = activeDeltaBand(DEFAULT_RISK_LIMITS, { ...ILLUSTRATIVE_READINGS, gammaPct: 4 })
+    const r = activeDeltaBand(DEFAULT_RISK_LIMITS, { ...READINGS, gammaPct: 4 })
     expect(r.regime).toBe('long')
     expect(r.band).toEqual({ min: -60, max: 60 })
   })
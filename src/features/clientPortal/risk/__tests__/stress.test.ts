@@ -1,15 +1,92 @@
 import { describe, it, expect } from 'vitest'
-import { STRESS_SCENARIO, SPOT_SHOCKS, IV_SHOCKS, worstCell, headroomPct } from '../stress'
+import type { Position } from '@/utils'
+import {
+  SPOT_SHOCKS, IV_SHOCKS, STRESS_AXIS_PRESETS, stressGrid, worstCell, worstLossPct, headroomPct,
+} from '../stress'
 
-describe('stress scenario', () => {
-  it('is a 3x3 grid aligned to the shock axes', () => {
+const EXPIRY = new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10)
+const NOW = Date.parse(`${EXPIRY}T08:00:00Z`) - 30 * 86_400_000
+
+function straddle(sign: 1 | -1): Position {
+  const leg = (strike: number, optionType: 'C' | 'P') => ({
+    key: `s-${strike}-${optionType}`, strike, optionType,
+    openLots: [{ qty: 1, price: 0.04, sign }], realizedPnl: 0, netPremium: 0,
+    qtyNet: sign, trades: [], exchange: 'deribit' as const, expiry: EXPIRY,
+  })
+  return {
+    id: 's', underlying: 'BTC', expiryISO: EXPIRY, dte: 30, legs: [leg(100000, 'C'), leg(100000, 'P')],
+    legsCount: 2, type: 'Multi-leg', realizedPnl: 0, netPremium: 0, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  }
+}
+
+// Price off a pricing context pinned to exactly 30 days before expiry.
+const pricing = { spot: 100000, vol: 0.5, now: NOW }
+
+describe('stress axes', () => {
+  it('defaults to a 3x3 grid aligned to the shock axes', () => {
     expect(SPOT_SHOCKS).toEqual([10, 0, -10])
     expect(IV_SHOCKS).toEqual([-20, 0, 20])
-    expect(STRESS_SCENARIO).toHaveLength(3)
-    STRESS_SCENARIO.forEach((row) => expect(row).toHaveLength(3))
+    const grid = stressGrid([], undefined, { tvl: 1 })
+    expect(grid).toHaveLength(3)
+    grid.forEach((row) => expect(row).toEqual([0, 0, 0]))
+  })
+  it('follows a configured axis preset', () => {
+    const grid = stressGrid([straddle(-1)], undefined, { tvl: 1, axes: STRESS_AXIS_PRESETS.wide, pricing })
+    expect(grid).toHaveLength(9)
+    grid.forEach((row) => expect(row).toHaveLength(5))
+  })
+})
+
+describe('stressGrid', () => {
+  it('reprices a short straddle into losses on big spot moves and IV spikes', () => {
+    const grid = stressGrid([straddle(-1)], undefined, { tvl: 1, pricing })
+    expect(grid[1][1]).toBeCloseTo(0, 10)
+    expect(grid[0][1]).toBeLessThan(0)
+    expect(grid[2][1]).toBeLessThan(0)
+    expect(grid[1][2]).toBeLessThan(0)
+    expect(grid[1][0]).toBeGreaterThan(0)
+    const w = worstCell(grid)
+    expect(w.col).toBe(2)
+  })
+  it('scales PnL to % of TVL and mirrors a long position', () => {
+    const short = stressGrid([straddle(-1)], undefined, { tvl: 1, pricing })
+    const halfTvl = stressGrid([straddle(-1)], undefined, { tvl: 0.5, pricing })
+    const long = stressGrid([straddle(1)], undefined, { tvl: 1, pricing })
+    expect(halfTvl[0][2]).toBeCloseTo(short[0][2] * 2, 8)
+    expect(long[0][2]).toBeCloseTo(-short[0][2], 8)
+  })
+  it('tilts IV shocks by tenor when a reference tenor is set', () => {
+    const parallel = stressGrid([straddle(-1)], undefined, { tvl: 1, pricing })
+    const tilted = stressGrid([straddle(-1)], undefined, {
+      tvl: 1, pricing, axes: { spotShocks: SPOT_SHOCKS, ivShocks: IV_SHOCKS, tiltRefDays: 7.5 },
+    })
+    // 30-day legs against a 7.5-day reference take half the IV shock.
+    expect(tilted[1][2]).toBeGreaterThan(parallel[1][2])
+    expect(tilted[1][2]).toBeLessThan(0)
+  })
+  it('takes each leg to BTC at its own index before summing', () => {
+    const spots = { BTC: 100000, ETH: 4000 }
+    const ethStraddle = (): Position => {
+      const p = straddle(-1)
+      return { ...p, id: 'e', underlying: 'ETH', legs: p.legs.map((l) => ({ ...l, key: `e-${l.optionType}`, strike: 4000 })) }
+    }
+    const btc = stressGrid([straddle(-1)], undefined, { tvl: 1, pricing: { ...pricing, spots } })
+    const mixed = stressGrid([straddle(-1), ethStraddle()], undefined, { tvl: 1, pricing: { vol: 0.5, now: NOW, spots } })
+    // The ETH straddle loses the same coin fraction as the BTC one, worth 4,000 / 100,000 BTC per ETH.
+    expect(mixed[0][2]).toBeCloseTo(btc[0][2] * 1.04, 8)
+    // Without a BTC index the ETH legs cannot be expressed against TVL and are left out.
+    const noBtc = stressGrid([ethStraddle()], undefined, { tvl: 1, pricing: { vol: 0.5, now: NOW, spots: { ETH: 4000 } } })
+    expect(worstLossPct(noBtc)).toBe(0)
   })
+  it('skips closed positions and returns zeros without TVL', () => {
+    expect(worstLossPct(stressGrid([{ ...straddle(-1), status: 'CLOSED' }], undefined, { tvl: 1, pricing }))).toBe(0)
+    expect(worstLossPct(stressGrid([straddle(-1)], undefined, { tvl: 0, pricing }))).toBe(0)
+  })
+})
+
+describe('worstCell', () => {
   it('finds the worst (most negative) cell', () => {
-    const w = worstCell(STRESS_SCENARIO)
+    const w = worstCell([[-1.9, -2.4, -3.0], [1.2, 0.4, -1.1], [-2.2, -2.7, -3.4]])
     expect(w).toEqual({ row: 2, col: 2, value: -3.4 })
   })
   it('computes headroom against the limit', () => {
@@ -0,0 +1,147 @@
+import type { Position } from '@/utils'
+import { activeDeltaBand, type GreekReadings, type RiskLimits } from './riskLimits'
+import { bandStatus, capStatus, twoStageGauge } from './gauge'
+
+export type BreachKey =
+  | 'delta' | 'gammaFloor' | 'gammaCap' | 'vega' | 'thetaFloor' | 'stressLoss' | 'netDelta'
+  | 'maxConcurrent' | 'dteWindow' | 'drawdownReduce' | 'drawdownStop'
+
+export const BREACH_KEYS: BreachKey[] = [
+  'delta', 'gammaFloor', 'gammaCap', 'vega', 'thetaFloor', 'stressLoss', 'netDelta',
+  'maxConcurrent', 'dteWindow', 'drawdownReduce', 'drawdownStop',
+]
+
+export const BREACH_LABELS: Record<BreachKey, string> = {
+  delta: 'delta band',
+  gammaFloor: 'gamma floor',
+  gammaCap: 'gamma cap',
+  vega: 'vega band',
+  thetaFloor: 'theta floor',
+  stressLoss: 'stress loss',
+  netDelta: 'net delta',
+  maxConcurrent: 'max concurrent structures',
+  dteWindow: 'DTE window',
+  drawdownReduce: 'drawdown reduce',
+  drawdownStop: 'drawdown stop',
+}
+
+/** Structure count and days-to-expiry of the book, for the deployment limits. */
+export type BookExposure = { openStructures: number; dtes: number[] }
+
+export type LimitCheck = {
+  key: BreachKey
+  breached: boolean
+  /** Reading compared against the limit, in `unit`. */
+  value: number
+  unit: '%' | 'structures' | 'DTE'
+  /** Human-readable limit, e.g. "[-10%, +10%]" or "≤ 5%". */
+  limit: string
+}
+
+export type BreachKind = 'breach' | 'recovery'
+
+export type RiskBreachEvent = {
+  key: BreachKey
+  kind: BreachKind
+  value: number
+  limit: string
+  detail: string
+  ts: string
+}
+
+const sp = (n: number) => `${n > 0 ? '+' : ''}${n}%`
+
+function fmtValue(check: Pick<LimitCheck, 'value' | 'unit'>): string {
+  if (check.unit === '%') return `${sp(check.value)} of TVL`
+  return `${check.value} ${check.unit}`
+}
+
+export function bookExposure(positions: Position[]): BookExposure {
+  const open = positions.filter((p) => p.status !== 'CLOSED')
+  return { openStructures: open.length, dtes: open.map((p) => p.dte).filter(Number.isFinite) }
+}
+
+/**
+ * Check every client limit against the live readings and the book. Greek, stress and
+ * net-delta checks use the same status rules as the Risk page gauges, so a breach here is
+ * exactly a red gauge there. The DTE window reports the structure furthest outside it.
+ */
+export function evaluateRiskLimits(limits: RiskLimits, r: GreekReadings, book: BookExposure): LimitCheck[] {
+  const { band, regime } = activeDeltaBand(limits, r)
+  const dd = twoStageGauge(r.drawdownPct, limits.drawdownReducePct, limits.drawdownStopPct, limits.drawdownStopPct)
+
+  const outside = (dte: number) =>
+    dte < limits.expiryMinDte ? limits.expiryMinDte - dte : dte > limits.expiryMaxDte ? dte - limits.expiryMaxDte : 0
+  const worstDte = book.dtes.reduce<number | null>(
+    (w, d) => (w === null || outside(d) > outside(w) ? d : w), null,
+  )
+
+  return [
+    {
+      key: 'delta', breached: bandStatus(r.deltaPct, band.min, band.max) === 'breach', value: r.deltaPct, unit: '%',
+      limit: `${regime}-gamma band [${sp(band.min)}, ${sp(band.max)}]`,
+    },
+    { key: 'gammaFloor', breached: r.gammaPct < limits.gammaFloor, value: r.gammaPct, unit: '%', limit: `≥ ${sp(limits.gammaFloor)}` },
+    { key: 'gammaCap', breached: r.gammaPct > limits.gammaCap, value: r.gammaPct, unit: '%', limit: `≤ ${sp(limits.gammaCap)}` },
+    {
+      key: 'vega', breached: bandStatus(r.vegaPct, limits.vega.min, limits.vega.max) === 'breach', value: r.vegaPct, unit: '%',
+      limit: `[${sp(limits.vega.min)}, ${sp(limits.vega.max)}]`,
+    },
+    { key: 'thetaFloor', breached: r.thetaPct < limits.thetaFloor, value: r.thetaPct, unit: '%', limit: `≥ ${sp(limits.thetaFloor)}` },
+    {
+      key: 'stressLoss', breached: capStatus(r.stressWorstPct, limits.stressLossMaxPct) === 'breach', value: r.stressWorstPct, unit: '%',
+      limit: `worst loss ≤ ${limits.stressLossMaxPct}%`,
+    },
+    {
+      key: 'netDelta', breached: capStatus(r.netDeltaPct, limits.netDeltaMaxPct) === 'breach', value: r.netDeltaPct, unit: '%',
+      limit: `≤ ${limits.netDeltaMaxPct}%`,
+    },
+    {
+      key: 'maxConcurrent', breached: book.openStructures > limits.maxConcurrent, value: book.openStructures, unit: 'structures',
+      limit: `≤ ${limits.maxConcurrent}`,
+    },
+    {
+      key: 'dteWindow', breached: worstDte !== null && outside(worstDte) > 0, value: worstDte ?? 0, unit: 'DTE',
+      limit: `${limits.expiryMinDte}–${limits.expiryMaxDte} DTE`,
+    },
+    { key: 'drawdownReduce', breached: dd.status !== 'ok', value: r.drawdownPct, unit: '%', limit: `< ${limits.drawdownReducePct}%` },
+    { key: 'drawdownStop', breached: dd.status === 'breach', value: r.drawdownPct, unit: '%', limit: `< ${limits.drawdownStopPct}%` },
+  ]
+}
+
+export function breachDetail(kind: BreachKind, check: LimitCheck): string {
+  const label = BREACH_LABELS[check.key]
+  return kind === 'breach'
+    ? `${label} limit breached · ${fmtValue(check)} vs ${check.limit}`
+    : `${label} back within limit · ${fmtValue(check)} vs ${check.limit}`
+}
+
+/**
+ * Transitions between the currently active breaches and a fresh evaluation: a `breach`
+ * event for each newly breached limit and a `recovery` for each active one now within range.
+ * Limits that stay breached (or stay fine) produce nothing, so repeated refreshes are quiet.
+ */
+export function diffBreaches(
+  active: ReadonlySet<BreachKey>,
+  checks: LimitCheck[],
+  ts: string = new Date().toISOString(),
+): RiskBreachEvent[] {
+  const events: RiskBreachEvent[] = []
+  for (const c of checks) {
+    const was = active.has(c.key)
+    if (c.breached === was) continue
+    const kind: BreachKind = c.breached ? 'breach' : 'recovery'
+    events.push({ key: c.key, kind, value: c.value, limit: c.limit, detail: breachDetail(kind, c), ts })
+  }
+  return events
+}
+
+/** Active set after applying events in order. */
+export function applyBreachEvents(active: ReadonlySet<BreachKey>, events: RiskBreachEvent[]): Set<BreachKey> {
+  const next = new Set(active)
+  for (const e of events) {
+    if (e.kind === 'breach') next.add(e.key)
+    else next.delete(e.key)
+  }
+  return next
+}
@@ -0,0 +1,44 @@
+import { getLegMarkRef, type MarksMap, type Position, type PricingContext } from '@/utils'
+
+// Risk limits are sized against TVL in BTC, while a book can span coins (BTC and ETH inverse
+// options, USDC-linear books such as SOL_USDC). Every leg amount is taken to BTC at its own
+// coin's index before it is summed.
+
+/** Coin an underlying is priced off: `SOL_USDC` → `SOL`. */
+export const underlyingCoin = (underlying: string) => underlying.toUpperCase().split('_')[0]
+
+/**
+ * Index price per coin: the first mark index of any leg on that coin, else the context's
+ * per-underlying spot (`pricing.spots`), else `pricing.spot` when every position is on one coin.
+ */
+export function coinSpots(positions: Position[], marks?: MarksMap, pricing?: PricingContext): Record<string, number> {
+  const spots: Record<string, number> = {}
+  for (const p of positions) {
+    const coin = underlyingCoin(p.underlying)
+    if (spots[coin] != null) continue
+    for (const leg of p.legs) {
+      const ref = getLegMarkRef(p, leg)
+      const index = ref ? marks?.[ref.key]?.indexPrice : null
+      if (index != null && index > 0) { spots[coin] = index; break }
+    }
+  }
+  for (const [underlying, spot] of Object.entries(pricing?.spots ?? {})) {
+    const coin = underlyingCoin(underlying)
+    if (spots[coin] == null && spot > 0) spots[coin] = spot
+  }
+  const coins = new Set(positions.map((p) => underlyingCoin(p.underlying)))
+  if (coins.size === 1 && pricing?.spot != null && pricing.spot > 0) {
+    const [coin] = coins
+    spots[coin] ??= pricing.spot
+  }
+  return spots
+}
+
+/**
+ * BTC per unit of `underlying`'s coin at `coinSpot` (1 for BTC itself), or null when either
+ * index is unknown.
+ */
+export function btcPerCoin(underlying: string, coinSpot: number | null | undefined, btcSpot: number | null | undefined): number | null {
+  if (underlyingCoin(underlying) === 'BTC') return 1
+  return coinSpot != null && coinSpot > 0 && btcSpot != null && btcSpot > 0 ? coinSpot / btcSpot : null
+}
@@ -0,0 +1,87 @@
+import {
+  getLegMarkRef, legGreekExposure, legGreeks, markMultiplier,
+  type Position, type MarksMap, type PricingContext,
+} from '@/utils'
+import { portfolioSummary } from '../portfolio'
+import { btcPerCoin, coinSpots, underlyingCoin } from './btcUnits'
+import type { GreekReadings, RiskLimits } from './riskLimits'
+import { stressGrid, worstLossPct, type StressAxes } from './stress'
+
+export const EMPTY_READINGS: GreekReadings = {
+  deltaPct: 0, gammaPct: 0, vegaPct: 0, thetaPct: 0, stressWorstPct: 0, netDeltaPct: 0, drawdownPct: 0,
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+type BtcGreeks = { delta: number; gamma: number; vega: number; theta: number }
+
+/**
+ * Open-leg greeks in BTC. Greeks follow the venue ticker conventions whatever the premium
+ * currency: delta in the leg's coin, gamma per USD move, vega per vol point and theta per day
+ * in USD. Delta and gamma (per 1% move, at the leg's own index) are taken to BTC at the
+ * leg's coin/BTC index ratio; vega and theta at the BTC index. A greek that lacks an index to
+ * convert at is left out.
+ */
+function btcGreeks(positions: Position[], marks: MarksMap | undefined, pricing?: PricingContext): BtcGreeks {
+  const total: BtcGreeks = { delta: 0, gamma: 0, vega: 0, theta: 0 }
+  if (!marks && !pricing) return total
+  const spots = coinSpots(positions, marks, pricing)
+  const btcSpot = spots.BTC
+  for (const p of positions) {
+    for (const leg of p.legs) {
+      const ref = getLegMarkRef(p, leg)
+      if (!ref) continue
+      const info = marks?.[ref.key]
+      const g = legGreeks(p, leg, info, pricing)
+      if (!g) continue
+      const m = markMultiplier(ref, info)
+      const exposure = (v: number | null | undefined) => legGreekExposure(leg, v ?? undefined, m)
+      const spot = info?.indexPrice != null && info.indexPrice > 0 ? info.indexPrice : spots[underlyingCoin(p.underlying)]
+      const toBtc = btcPerCoin(p.underlying, spot, btcSpot)
+      if (toBtc != null) {
+        total.delta += exposure(g.delta) * toBtc
+        if (spot) total.gamma += exposure(g.gamma) * spot * 0.01 * toBtc
+      }
+      if (btcSpot) {
+        total.vega += exposure(g.vega) / btcSpot
+        total.theta += exposure(g.theta) / btcSpot
+      }
+    }
+  }
+  return total
+}
+
+/**
+ * Live risk readings as % of TVL (`capitalTvlBtc`) from the client's open positions and marks,
+ * with each leg's greeks taken to BTC before they are summed (see `btcGreeks`). Gamma is
+ * reported per 1% spot move. Drawdown is the book's cumulative PnL (closed structures
+ * included, as in the daily snapshots) below `peakPnl` (coin, see `peakDailyPnl`), or below
+ * break-even when no history is known.
+ */
+export function buildGreekReadings(
+  positions: Position[],
+  marks: MarksMap | undefined,
+  limits: RiskLimits,
+  opts: { pricing?: PricingContext; axes?: StressAxes; peakPnl?: number } = {},
+): GreekReadings {
+  const tvl = limits.capitalTvlBtc
+  if (!(tvl > 0)) return EMPTY_READINGS
+  const open = positions.filter((p) => p.status !== 'CLOSED')
+  const g = btcGreeks(open, marks, opts.pricing)
+  const pct = (coin: number) => round2((coin / tvl) * 100)
+
+  const book = portfolioSummary(positions, marks, opts.pricing)
+  const pnl = book.totalPnl ?? book.totalRealized
+  const peak = Math.max(opts.peakPnl ?? 0, pnl)
+  const stress = worstLossPct(stressGrid(open, marks, { tvl, axes: opts.axes, pricing: opts.pricing }))
+
+  return {
+    deltaPct: pct(g.delta),
+    netDeltaPct: pct(Math.abs(g.delta)),
+    gammaPct: pct(g.gamma),
+    vegaPct: pct(g.vega),
+    thetaPct: pct(g.theta),
+    stressWorstPct: round2(stress),
+    drawdownPct: pct(peak - pnl),
+  }
+}
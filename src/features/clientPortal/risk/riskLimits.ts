@@ -49,17 +49,6 @@ export const DEFAULT_RISK_LIMITS: RiskLimits = {
   drawdownStopPct: 33,
 }
 
-// Placeholder live readings until a greek engine + live marks are wired (later phase).
-export const ILLUSTRATIVE_READINGS: GreekReadings = {
-  deltaPct: 3.2,
-  gammaPct: -8.1,
-  vegaPct: -0.28,
-  thetaPct: 0.8,
-  stressWorstPct: 3.4,
-  netDeltaPct: 3.2,
-  drawdownPct: 6.7,
-}
-
 export function activeDeltaBand(
   limits: RiskLimits,
   readings: GreekReadings,
@@ -1,12 +1,91 @@
-// Rows = spot shock, Cols = parallel IV shock. Values are PnL as % of TVL.
+import { black76Price, yearsToExpiry } from '@/lib/pricing'
+import {
+  getLegMarkRef, legModelInputs, legNetQty, markMultiplier,
+  type Position, type MarksMap, type PricingContext, type LegModelInputs,
+} from '@/utils'
+import { btcPerCoin, coinSpots } from './btcUnits'
+
+// Rows = spot shock, Cols = IV shock (relative to each leg's IV). Values are PnL as % of TVL.
 export const SPOT_SHOCKS = [10, 0, -10]
 export const IV_SHOCKS = [-20, 0, 20]
 
-export const STRESS_SCENARIO: number[][] = [
-  [-1.9, -2.4, -3.0],
-  [1.2, 0.4, -1.1],
-  [-2.2, -2.7, -3.4],
-]
+export type StressAxes = {
+  spotShocks: number[]
+  ivShocks: number[]
+  /** When set, IV shocks tilt with tenor: scaled by √(tiltRefDays / days to expiry). */
+  tiltRefDays?: number | null
+}
+
+export const DEFAULT_STRESS_AXES: StressAxes = { spotShocks: SPOT_SHOCKS, ivShocks: IV_SHOCKS }
+
+export const STRESS_AXIS_PRESETS = {
+  standard: DEFAULT_STRESS_AXES,
+  wide: { spotShocks: [30, 20, 10, 5, 0, -5, -10, -20, -30], ivShocks: [-30, -20, 0, 20, 30] },
+} satisfies Record<string, StressAxes>
+
+export const TERM_TILT_REF_DAYS = 30
+
+const MIN_VOL = 0.01
+
+/** Leg value in coin (the TVL unit) at a given spot/vol. */
+function legValueCoin(inputs: LegModelInputs, spot: number, vol: number, years: number): number {
+  const usd = black76Price({ forward: spot, strike: inputs.strike, years, vol, optionType: inputs.optionType })
+  return usd / spot
+}
+
+/** Coin PnL of one contract of the leg under a spot/IV shock, repriced from the unshocked model value. */
+export function shockedLegPnl(inputs: LegModelInputs, spotShockPct: number, ivShockPct: number, tiltRefDays?: number | null): number {
+  const years = yearsToExpiry(inputs.expiryISO, inputs.now)
+  const tilt = tiltRefDays ? Math.sqrt(tiltRefDays / Math.max(years * 365, 1)) : 1
+  const spot = inputs.spot * (1 + spotShockPct / 100)
+  const vol = Math.max(MIN_VOL, inputs.iv * (1 + (ivShockPct / 100) * tilt))
+  if (!(spot > 0)) return 0
+  const after = legValueCoin(inputs, spot, vol, years)
+  if (inputs.settlement === 'inverse') return after - legValueCoin(inputs, inputs.spot, inputs.iv, years)
+  // Linear premiums move in USD; express the USD change in coin at the shocked spot.
+  const baseUsd = legValueCoin(inputs, inputs.spot, inputs.iv, years) * inputs.spot
+  return (after * spot - baseUsd) / spot
+}
+
+/**
+ * Full-revaluation stress grid: every open leg is repriced (Black-76) under each spot shock
+ * × IV shock, and the portfolio PnL is expressed as % of `tvl` (BTC). Each leg's coin PnL is
+ * taken to BTC at its own index before summing (the shock moves every coin alike, so the ratio
+ * holds). Legs without a spot/IV, or off BTC with no BTC index to convert at, are skipped.
+ */
+export function stressGrid(
+  positions: Position[],
+  marks: MarksMap | undefined,
+  opts: { tvl: number; axes?: StressAxes; pricing?: PricingContext },
+): number[][] {
+  const axes = opts.axes ?? DEFAULT_STRESS_AXES
+  const grid = axes.spotShocks.map(() => axes.ivShocks.map(() => 0))
+  if (!(opts.tvl > 0)) return grid
+  const btcSpot = coinSpots(positions, marks, opts.pricing).BTC
+
+  for (const p of positions) {
+    if (p.status === 'CLOSED') continue
+    for (const leg of p.legs) {
+      const qty = legNetQty(leg)
+      if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) continue
+      const ref = getLegMarkRef(p, leg)
+      if (!ref) continue
+      const info = marks?.[ref.key]
+      const inputs = legModelInputs(p, leg, info, opts.pricing)
+      if (!inputs) continue
+      const toBtc = btcPerCoin(p.underlying, inputs.spot, btcSpot)
+      if (toBtc == null) continue
+      const m = markMultiplier(ref, info) || ref.defaultMultiplier
+      axes.spotShocks.forEach((s, r) => {
+        axes.ivShocks.forEach((v, c) => {
+          grid[r][c] += shockedLegPnl(inputs, s, v, axes.tiltRefDays) * qty * m * toBtc
+        })
+      })
+    }
+  }
+
+  return grid.map((row) => row.map((pnl) => (pnl / opts.tvl) * 100))
+}
 
 export function worstCell(grid: number[][]): { row: number; col: number; value: number } {
   let worst = { row: 0, col: 0, value: grid[0][0] }
@@ -18,6 +97,11 @@ export function worstCell(grid: number[][]): { row: number; col: number; value:
   return worst
 }
 
+/** Magnitude of the worst loss in a grid, % of TVL (0 when every cell is a gain). */
+export function worstLossPct(grid: number[][]): number {
+  return Math.max(0, -worstCell(grid).value)
+}
+
 export function headroomPct(worstLossPct: number, limitPct: number): number {
   return limitPct - worstLossPct
 }
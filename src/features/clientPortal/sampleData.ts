@@ -2,9 +2,18 @@
 // the signed-in client has no real positions yet, so the Dashboard and Positions
 // pages demonstrate the UI (like the design mockup). These are NOT real holdings —
 // the shell labels them as sample data. Replaced entirely once real positions load.
-import { getLegMarkRef, daysTo, type Position, type Leg, type MarksMap } from '@/utils'
+import { getLegMarkRef, daysTo, type Position, type Leg, type MarksMap, type PricingContext } from '@/utils'
+import type { ExactDecimal, HubSummary, HubSummaryComponent } from '@/lib/portfolioDataHub'
+import { hubMargin } from './dashboard/marginModel'
+import { liveDailySnapshot, type DailySnapshot } from './dashboard/dailySnapshots'
+import { portfolioSummary } from './portfolio'
 
 const UNDERLYING = 'BTC'
+// Index price the sample marks were struck against; lets the Risk page reprice the condors.
+const SAMPLE_SPOT = 90500
+/** Pricing context for the sample book: its index, for legs priced off the model. */
+export const SAMPLE_PRICING: PricingContext = { spot: SAMPLE_SPOT }
+
 const PROGRAM = 'Weekend Vol (Short-Dated)'
 
 type LegSpec = {
@@ -75,7 +84,7 @@ function buildCondor(
   const marks: MarksMap = {}
   legs.forEach((leg, i) => {
     const ref = getLegMarkRef(position, leg)
-    if (ref) marks[ref.key] = { price: CONDOR_LEGS[i].mark, multiplier: 1, greeks: CONDOR_LEGS[i].greeks }
+    if (ref) marks[ref.key] = { price: CONDOR_LEGS[i].mark, multiplier: 1, greeks: CONDOR_LEGS[i].greeks, indexPrice: SAMPLE_SPOT }
   })
 
   return { position, marks }
@@ -90,3 +99,84 @@ const CONDORS = [
 export const SAMPLE_POSITIONS: Position[] = CONDORS.map((c) => c.position)
 
 export const SAMPLE_MARKS: MarksMap = CONDORS.reduce<MarksMap>((acc, c) => Object.assign(acc, c.marks), {})
+
+// Illustrative Hub summaries (a Deribit BTC margin account and a Coincall USDT account) so the
+// demo build's Margin Usage card runs through the same model as a connected portal.
+const dec = (v: string) => v as ExactDecimal
+
+function sampleComponent(currency: string, equity: string, available: string, im: string, mm: string): HubSummaryComponent {
+  return {
+    currency, componentScope: 'margin_account', equity: dec(equity), balance: dec(equity), collateral: dec(equity),
+    availableFunds: dec(available), availableWithdrawalFunds: dec(available), initialMargin: dec(im), maintenanceMargin: dec(mm),
+    realizedPnl: null, unrealizedPnl: null, attributes: {},
+  }
+}
+
+function sampleSummary(venue: string, accountId: string, components: HubSummaryComponent[]): HubSummary {
+  const fetchedAt = new Date().toISOString()
+  return {
+    id: `sample-summary-${venue}`, accountId, accountLabel: `${venue} sample`, sourceRawBatchId: null, ingestedAt: fetchedAt,
+    canonicalSchemaVersion: '1.0', runId: 'sample-run', fetchedAt, venueObservedAt: fetchedAt, processingVersion: 'sample',
+    quality: 'complete', venue, components, attributes: {},
+  }
+}
+
+export const SAMPLE_HUB_SUMMARIES: HubSummary[] = [
+  sampleSummary('deribit', 'sample-deribit', [sampleComponent('BTC', '0.0262', '0.0181', '0.0081', '0.0040')]),
+  sampleSummary('coincall', 'sample-coincall', [sampleComponent('USDT', '1200', '950', '250', '125')]),
+]
+
+export const SAMPLE_MARGIN = hubMargin(SAMPLE_HUB_SUMMARIES, {
+  reportingCurrency: 'USDC', rates: { BTC: SAMPLE_SPOT, USDC: 1, USDT: 1 }, staleAfterMs: Infinity,
+})
+
+// Illustrative daily history (120 days) for the demo build's equity, PnL and greek charts:
+// seeded random walks that end on the sample book's live figures.
+const SAMPLE_HISTORY_DAYS = 120
+
+function seeded(seed: number): () => number {
+  let s = seed >>> 0
+  return () => {
+    s = (s * 1664525 + 1013904223) & 0xffffffff
+    return (s >>> 0) / 0xffffffff
+  }
+}
+
+function walk(seed: number, end: number, opts: { start: number; vol: number }): number[] {
+  const rand = seeded(seed)
+  const drift = (end - opts.start) / (SAMPLE_HISTORY_DAYS - 1)
+  const out: number[] = []
+  let v = opts.start
+  for (let i = 0; i < SAMPLE_HISTORY_DAYS; i++) {
+    out.push(v)
+    v += drift + (rand() - 0.5) * opts.vol
+  }
+  out[out.length - 1] = end
+  return out
+}
+
+function sampleDailySnapshots(): DailySnapshot[] {
+  const live = liveDailySnapshot(portfolioSummary(SAMPLE_POSITIONS, SAMPLE_MARKS, SAMPLE_PRICING))
+  if (!live) return []
+  const mag = (v: number) => Math.abs(v) || 1
+  const pnl = walk(31, live.pnl, { start: 0, vol: mag(live.pnl) * 0.2 })
+  const realized = walk(37, live.realized, { start: 0, vol: mag(live.realized) * 0.05 })
+  const greeks = (['delta', 'gamma', 'theta', 'vega'] as const).map((k, i) =>
+    walk(41 + 6 * i, live[k], { start: live[k] * 0.6, vol: mag(live[k]) * 0.5 }))
+  const base = (live.equity ?? 0) - live.pnl
+  return pnl.map((p, i) => {
+    const d = new Date()
+    d.setUTCDate(d.getUTCDate() - (SAMPLE_HISTORY_DAYS - 1 - i))
+    return {
+      day: d.toISOString().slice(0, 10),
+      equity: base + p,
+      equitySource: 'positions',
+      pnl: p,
+      realized: realized[i],
+      unrealized: p - realized[i],
+      delta: greeks[0][i], gamma: greeks[1][i], theta: greeks[2][i], vega: greeks[3][i],
+    }
+  })
+}
+
+export const SAMPLE_DAILY_SNAPSHOTS: DailySnapshot[] = sampleDailySnapshots()
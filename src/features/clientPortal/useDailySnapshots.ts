@@ -0,0 +1,66 @@
+import React from 'react'
+import { getSupabaseClient, hasSupabaseClient } from '@/lib/supabase'
+import { fetchDailySnapshots, saveDailySnapshots } from '@/lib/clientPortal/dailySnapshotsRepo'
+import { portfolioHistory, type MarkSnapshot } from '@/lib/marks'
+import type { HubSummaryComponent } from '@/lib/portfolioDataHub'
+import type { Position, MarksMap, PricingContext } from '@/utils'
+import { portfolioSummary } from './portfolio'
+import {
+  changedDailySnapshots, dailySnapshotsFromHistory, hubEquity, liveDailySnapshot, mergeDailySnapshots,
+  type DailySnapshot,
+} from './dashboard/dailySnapshots'
+
+// Days of mark history to re-derive recent snapshots from on every load; older days come
+// from the recorded daily snapshots.
+export const DAILY_DERIVE_DAYS = 30
+
+/**
+ * The client's daily NAV / PnL / greek snapshots since inception. Stored days are loaded
+ * from `client_daily_snapshots`; recent days are rebuilt from `markSnapshots` (the last
+ * `DAILY_DERIVE_DAYS` of stored marks) and realized fills, today comes from the live summary (with Hub equity when connected), and
+ * any derived day that differs from its stored row is recorded back.
+ */
+export function useDailySnapshots({ clientName, positions, marks, pricing, markSnapshots, hubComponents, enabled }: {
+  clientName: string
+  positions: Position[]
+  marks: MarksMap | undefined
+  pricing?: PricingContext
+  markSnapshots: MarkSnapshot[] | null
+  hubComponents?: HubSummaryComponent[]
+  enabled: boolean
+}) {
+  const [stored, setStored] = React.useState<DailySnapshot[] | null>(null)
+
+  React.useEffect(() => {
+    setStored(null)
+    if (!enabled || !hasSupabaseClient()) return
+    let ignore = false
+    fetchDailySnapshots(getSupabaseClient(), clientName)
+      .then((r) => {
+        if (ignore) return
+        if (r.ok) setStored(r.snapshots)
+        else console.error('[daily snapshots] load failed', r.error)
+      })
+      .catch((e) => console.error('[daily snapshots] load failed', e))
+    return () => { ignore = true }
+  }, [clientName, enabled])
+
+  const derived = React.useMemo(() => {
+    const summary = portfolioSummary(positions, marks, pricing)
+    const live = marks ? liveDailySnapshot(summary, { hubEquity: hubEquity(hubComponents, summary.asset) }) : null
+    const fromMarks = markSnapshots ? dailySnapshotsFromHistory(portfolioHistory(positions, markSnapshots), live) : []
+    return mergeDailySnapshots(fromMarks, live ? [live] : [])
+  }, [positions, marks, pricing, markSnapshots, hubComponents])
+
+  React.useEffect(() => {
+    if (!enabled || !stored || !hasSupabaseClient()) return
+    const changed = changedDailySnapshots(stored, derived)
+    if (changed.length === 0) return
+    setStored((prev) => mergeDailySnapshots(prev ?? [], changed))
+    saveDailySnapshots(getSupabaseClient(), clientName, changed)
+      .then((r) => { if (!r.ok) console.error('[daily snapshots] persist failed', r.error) })
+      .catch((e) => console.error('[daily snapshots] persist failed', e))
+  }, [enabled, stored, derived, clientName])
+
+  return React.useMemo(() => mergeDailySnapshots(stored ?? [], derived), [stored, derived])
+}
@@ -0,0 +1,27 @@
+import React from 'react'
+import { fetchLiveMarks } from '@/lib/venues/fetchLiveMarks'
+import { getLegMarkRef, type LegMarkRef, type Position, type MarksMap } from '@/utils'
+
+/** Fetch live venue marks for the client's open legs whenever the position set changes. */
+export function useLiveMarks(positions: Position[]) {
+  const [marks, setMarks] = React.useState<MarksMap | undefined>(undefined)
+
+  React.useEffect(() => {
+    const refs = new Map<string, LegMarkRef>()
+    for (const p of positions) {
+      if (p.status === 'CLOSED') continue
+      for (const leg of p.legs) {
+        const ref = getLegMarkRef(p, leg)
+        if (ref) refs.set(ref.key, ref)
+      }
+    }
+    if (refs.size === 0) { setMarks(undefined); return }
+    let ignore = false
+    fetchLiveMarks([...refs.values()])
+      .then((m) => { if (!ignore) setMarks(m) })
+      .catch((e) => console.error('[portal marks] fetch failed', e))
+    return () => { ignore = true }
+  }, [positions])
+
+  return marks
+}
@@ -48,8 +48,11 @@ async function currentSessionIdentity(): Promise<string> {
   return data.session.user?.id ?? data.session.access_token
 }
 
-/** Fetches the independently-provenanced summary and position datasets together. */
-export function usePortfolioDataHub() {
+/**
+ * Fetches the independently-provenanced summary and position datasets together. Nothing is
+ * fetched while `enabled` is false.
+ */
+export function usePortfolioDataHub({ enabled = true }: { enabled?: boolean } = {}) {
   const [state, setState] = React.useState<PortfolioHubState>(() => (
     hasSupabaseClient() ? { status: 'loading' } : { status: 'not-configured' }
   ))
@@ -60,6 +63,7 @@ export function usePortfolioDataHub() {
       setState({ status: 'not-configured' })
       return
     }
+    if (!enabled) return
     let cancelled = false
     setState({ status: 'loading' })
     void currentAccessToken()
@@ -67,7 +71,7 @@ export function usePortfolioDataHub() {
       .then((overview) => { if (!cancelled) setState({ status: 'ready', overview }) })
       .catch((error: unknown) => { if (!cancelled) setState(stateFromError(error)) })
     return () => { cancelled = true }
-  }, [nonce])
+  }, [nonce, enabled])
 
   return { state, reload: React.useCallback(() => setNonce((value) => value + 1), []) }
 }
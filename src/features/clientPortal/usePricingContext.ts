@@ -0,0 +1,50 @@
+import React from 'react'
+import { fetchVolSurface, surfaceVolAt, type VolSurface } from '@/lib/volSurface'
+import type { Position, PricingContext } from '@/utils'
+
+/**
+ * Model pricing inputs for the client's open Deribit books: the fitted vol surface per
+ * underlying (for `volAt`) and each surface's spot for legs whose mark carries no index
+ * (`spots`, and `spot` when the book holds a single underlying). The BTC surface is loaded
+ * alongside any book, as risk is read against TVL in BTC. Undefined until a surface loads.
+ */
+export function usePricingContext(positions: Position[], { enabled = true }: { enabled?: boolean } = {}) {
+  const [surfaces, setSurfaces] = React.useState<Record<string, VolSurface>>({})
+
+  const books = React.useMemo(() => {
+    const set = new Set<string>()
+    for (const p of positions) {
+      if (p.status !== 'CLOSED' && p.exchange === 'deribit' && p.underlying) set.add(p.underlying.toUpperCase())
+    }
+    return [...set].sort()
+  }, [positions])
+  const booksKey = books.join(',')
+
+  React.useEffect(() => {
+    if (!enabled || books.length === 0) { setSurfaces({}); return }
+    let ignore = false
+    const underlyings = [...new Set([...books, 'BTC'])]
+    Promise.all(underlyings.map((u) => fetchVolSurface(u).then((s) => [u, s] as const)))
+      .then((rows) => {
+        if (ignore) return
+        const next: Record<string, VolSurface> = {}
+        for (const [u, s] of rows) if (s) next[u] = s
+        setSurfaces(next)
+      })
+      .catch((e) => console.error('[portal vol surface] fetch failed', e))
+    return () => { ignore = true }
+    // Refetch only when the set of underlyings changes, not on every positions reload.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, booksKey])
+
+  return React.useMemo<PricingContext | undefined>(() => {
+    const loaded = Object.keys(surfaces)
+    if (loaded.length === 0) return undefined
+    return {
+      spot: books.length === 1 ? surfaces[books[0]]?.spot ?? null : null,
+      spots: Object.fromEntries(loaded.map((u) => [u, surfaces[u].spot])),
+      volAt: surfaceVolAt(surfaces),
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [surfaces, booksKey])
+}
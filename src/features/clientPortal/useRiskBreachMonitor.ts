@@ -0,0 +1,69 @@
+import React from 'react'
+import { getSupabaseClient, hasSupabaseClient } from '@/lib/supabase'
+import { fetchActiveBreaches, saveRiskBreachEvent } from '@/lib/clientPortal/riskBreachRepo'
+import type { Position, MarksMap, PricingContext } from '@/utils'
+import type { RiskLimits } from './risk/riskLimits'
+import { buildGreekReadings } from './risk/readings'
+import {
+  applyBreachEvents, bookExposure, diffBreaches, evaluateRiskLimits,
+  type BreachKey, type RiskBreachEvent,
+} from './risk/breaches'
+
+/**
+ * Evaluate the client's limits on every marks refresh and emit breach / recovery events.
+ * The active set is seeded from `risk_breach_events` so a reload does not re-announce
+ * breaches already on record; each event is persisted there and handed to `onEvent`.
+ */
+export function useRiskBreachMonitor({ clientName, positions, marks, pricing, peakPnl, limits, enabled, onEvent }: {
+  clientName: string
+  positions: Position[]
+  marks: MarksMap | undefined
+  pricing?: PricingContext
+  /** Peak cumulative PnL from the daily snapshots, for the drawdown limits. */
+  peakPnl?: number | null
+  limits: RiskLimits
+  enabled: boolean
+  onEvent: (event: RiskBreachEvent) => void
+}) {
+  const [seeded, setSeeded] = React.useState(false)
+  const [active, setActive] = React.useState<Set<BreachKey>>(() => new Set())
+  const activeRef = React.useRef<Set<BreachKey>>(new Set())
+  const onEventRef = React.useRef(onEvent)
+  onEventRef.current = onEvent
+
+  React.useEffect(() => {
+    setSeeded(false)
+    activeRef.current = new Set()
+    if (!hasSupabaseClient()) { setSeeded(true); return }
+    let ignore = false
+    ;(async () => {
+      const r = await fetchActiveBreaches(getSupabaseClient(), clientName)
+      if (ignore) return
+      if (r.ok) { activeRef.current = r.active; setActive(r.active) }
+      else console.error('[risk breaches] load failed', r.error)
+      setSeeded(true)
+    })()
+    return () => { ignore = true }
+  }, [clientName])
+
+  React.useEffect(() => {
+    if (!enabled || !seeded) return
+    // Wait for marks while anything is open; an empty book still evaluates so breaches recover.
+    if (!marks && positions.some((p) => p.status !== 'CLOSED')) return
+    const readings = buildGreekReadings(positions, marks, limits, { pricing, peakPnl: peakPnl ?? undefined })
+    const checks = evaluateRiskLimits(limits, readings, bookExposure(positions))
+    const events = diffBreaches(activeRef.current, checks)
+    if (events.length === 0) return
+    activeRef.current = applyBreachEvents(activeRef.current, events)
+    setActive(activeRef.current)
+    for (const e of events) {
+      onEventRef.current(e)
+      if (!hasSupabaseClient()) continue
+      saveRiskBreachEvent(getSupabaseClient(), clientName, e)
+        .then((r) => { if (!r.ok) console.error('[risk breaches] persist failed', r.error) })
+        .catch((err) => console.error('[risk breaches] persist failed', err))
+    }
+  }, [enabled, seeded, positions, marks, pricing, peakPnl, limits, clientName])
+
+  return { active }
+}
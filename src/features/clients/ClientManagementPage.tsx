@@ -9,6 +9,7 @@ import {
   type AdminReportingCurrencyOptions,
   PortfolioHubClientError,
 } from '../../lib/portfolioDataHub/client'
+import { LOT_METHODS, isLotMethod, type LotMethod } from '../../utils'
 
 /* ── Types ── */
 
@@ -20,10 +21,13 @@ export type ClientFormData = {
   mandate: string
   notes: string
   status: 'active' | 'inactive'
+  /** Reporting lot-matching method; programs can override it. */
+  lot_method: LotMethod
 }
 
-type ClientRecord = ClientFormData & {
+type ClientRecord = Omit<ClientFormData, 'lot_method'> & {
   client_id: string
+  lot_method: string | null
   hub_account_label: string | null
   reporting_currency: string | null
   reporting_currency_source: 'client' | 'admin' | null
@@ -50,6 +54,7 @@ const emptyForm: ClientFormData = {
   mandate: '',
   notes: '',
   status: 'active',
+  lot_method: 'fifo',
 }
 
 /* ── Main Component ── */
@@ -101,7 +106,7 @@ export default function ClientManagementPage({ supabase, isAdmin, onClientAdded,
     if (mountedRef.current) setLoading(true)
     const { data, error: err } = await supabase
       .from('clients')
-      .select('client_id, client_name, contact_name, contact_email, phone, mandate, notes, status, hub_account_label, reporting_currency, reporting_currency_source')
+      .select('client_id, client_name, contact_name, contact_email, phone, mandate, notes, status, lot_method, hub_account_label, reporting_currency, reporting_currency_source')
       .order('client_name')
     const records = !err && data ? data as ClientRecord[] : []
     if (mountedRef.current) {
@@ -184,6 +189,7 @@ export default function ClientManagementPage({ supabase, isAdmin, onClientAdded,
       mandate: client.mandate ?? '',
       notes: client.notes ?? '',
       status: (client.status as 'active' | 'inactive') ?? 'active',
+      lot_method: isLotMethod(client.lot_method) ? client.lot_method : 'fifo',
     })
     setError(null)
     setSuccessMsg(null)
@@ -266,6 +272,7 @@ export default function ClientManagementPage({ supabase, isAdmin, onClientAdded,
           base.mandate = form.mandate.trim()
           base.notes = form.notes.trim()
           base.status = form.status
+          base.lot_method = form.lot_method
         } else {
           // Insert — only include non-empty optional fields
           if (form.contact_name.trim()) base.contact_name = form.contact_name.trim()
@@ -274,6 +281,7 @@ export default function ClientManagementPage({ supabase, isAdmin, onClientAdded,
           if (form.mandate.trim()) base.mandate = form.mandate.trim()
           if (form.notes.trim()) base.notes = form.notes.trim()
           base.status = form.status
+          if (form.lot_method !== 'fifo') base.lot_method = form.lot_method
         }
         return base
       }
@@ -604,6 +612,18 @@ export default function ClientManagementPage({ supabase, isAdmin, onClientAdded,
                       </div>
                     </Field>
 
+                    {/* Lot matching */}
+                    <Field label="Lot Matching">
+                      <div className="flex gap-2">
+                        {LOT_METHODS.map((m) => (
+                          <StatusChip key={m.value} active={form.lot_method === m.value} onClick={() => set('lot_method', m.value)} label={m.label} />
+                        ))}
+                      </div>
+                      <p className="mt-1 type-caption text-text-tertiary">
+                        Method for reported realized PnL. Operational PnL stays FIFO; a program&apos;s own setting takes precedence.
+                      </p>
+                    </Field>
+
                     {mode === 'edit' && selectedId && (
                       <AdminReportingCurrencyField
                         client={clients.find((candidate) => candidate.client_id === selectedId) ?? null}
@@ -20,6 +20,8 @@ import { createStructure } from '../../lib/positions/createStructure'
 import { saveUnprocessedTrades } from '../../lib/positions/saveUnprocessedTrades'
 import { deriveSyntheticDeliveryTradeId, sanitizeIdentifier } from '../../lib/positions/identifiers'
 import { Button } from '../../components/ui'
+import { VENUE_ADAPTERS, venueAdapter } from '../../lib/venues/registry'
+import { applyCsvPreset } from '../../lib/venues/csvPreset'
 
 type Props = {
   onBack: () => void
@@ -44,7 +46,7 @@ export function MapCSVPage({ onBack, onOpenAssignLegs, embedded, onStepChange, o
   const mode = ctx?.mode ?? 'import'
 
   const [mapping, setMapping] = React.useState<Record<string, string>>({})
-  const [exchange, setExchange] = React.useState<'deribit' | 'coincall' | 'cme'>('deribit')
+  const [exchange, setExchange] = React.useState<Exchange>('deribit')
   const [importHistoricalRows, setImportHistoricalRows] = React.useState(false)
   const [allowAllocations, setAllowAllocations] = React.useState(false)
 
@@ -65,7 +67,7 @@ export function MapCSVPage({ onBack, onOpenAssignLegs, embedded, onStepChange, o
       const i = lower.findIndex((h) => needle.some((n) => h.includes(n)))
       return i >= 0 ? headers[i] : ''
     }
-    setMapping({
+    setMapping(applyCsvPreset(headers, venueAdapter(exchange).csvPreset, {
       instrument: exact('instrument') || guess(['instrument', 'instrument_name', 'instrument name', 'symbol']),
       side: exact('side') || guess(['side', 'direction', 'buy', 'sell', 'trade side', 'order side', 'type']),
       amount: exact('amount') || guess(['amount', 'contracts', 'qty', 'quantity', 'size', 'contract size']),
@@ -76,8 +78,8 @@ export function MapCSVPage({ onBack, onOpenAssignLegs, embedded, onStepChange, o
       order_id: exact('order id') || exact('order_id') || guess(['order id', 'order_id', 'orderid']),
       info: exact('info') || guess(['info', 'note', 'comment']),
       type: exact('type') || guess(['type', 'trade_type', 'transaction_type']),
-    })
-  }, [headers.join(',')])
+    }))
+  }, [headers.join(','), exchange])
 
   function parseFile(file: File) {
     const common = {
@@ -204,6 +206,7 @@ export function MapCSVPage({ onBack, onOpenAssignLegs, embedded, onStepChange, o
         amount: mapping.amount ? toNumber(r[mapping.amount]) : 0,
         price: mapping.price ? toNumber(r[mapping.price]) : 0,
         fee: mapping.fee ? toNumber(r[mapping.fee]) : 0,
+        indexPrice: mapping.index_price ? toNumber(r[mapping.index_price]) || undefined : undefined,
         timestamp: mapping.timestamp ? String(r[mapping.timestamp]) : undefined,
         trade_id: rawTradeId ?? undefined,
         order_id: rawOrderId ?? undefined,
@@ -514,12 +517,12 @@ export function MapCSVPage({ onBack, onOpenAssignLegs, embedded, onStepChange, o
               <div className="relative">
                 <select
                   value={exchange}
-                  onChange={(e) => setExchange(e.target.value as 'deribit' | 'coincall' | 'cme')}
+                  onChange={(e) => setExchange(e.target.value as Exchange)}
                   className="w-full appearance-none bg-bg-surface-3 border border-border-default rounded-2xl px-4 py-3 pr-9 type-subhead text-text-primary focus:outline-none focus:border-border-accent cursor-pointer transition-colors"
                 >
-                  <option value="deribit">Deribit</option>
-                  <option value="coincall">Coincall</option>
-                  <option value="cme">CME</option>
+                  {VENUE_ADAPTERS.map((v) => (
+                    <option key={v.id} value={v.id}>{v.label}</option>
+                  ))}
                 </select>
                 <ChevronsUpDown size={13} className="absolute right-3 top-1/2 -translate-y-1/2 text-text-tertiary pointer-events-none" />
               </div>
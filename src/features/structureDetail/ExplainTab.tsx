@@ -0,0 +1,100 @@
+import React from 'react'
+import { Spinner } from '../../components/Spinner'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import { DataTable, type Column } from '../../components/ui'
+import { fmtMoney, type MarksMap, type Position } from '../../utils'
+import {
+  dayWindow, historyMarkKeys, recentDays, structureExplain, useMarkSnapshots, type PnlExplain,
+} from '../../lib/marks'
+
+// Days offered in the selector; one more is loaded so the first day has a start-of-day mark.
+const DAYS = 7
+
+type ExplainRow = { id: string; label: string; explain: PnlExplain; strong?: boolean }
+
+const fmtDayLabel = (day: string, i: number) =>
+  i === 0 ? 'Today' : new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+function Amount({ value, strong }: { value: number; strong?: boolean }) {
+  const tone = Math.abs(value) < 0.005 ? 'text-text-tertiary' : value < 0 ? 'text-status-danger' : 'text-status-success'
+  return <span className={`${tone} ${strong ? 'font-semibold' : ''}`}>{fmtMoney(value)}</span>
+}
+
+const COLUMNS: Column<ExplainRow>[] = [
+  { key: 'label', header: '', render: (r) => <span className={r.strong ? 'font-semibold' : ''}>{r.label}</span> },
+  ...(['delta', 'gamma', 'vega', 'theta', 'residual', 'total'] as const).map((k): Column<ExplainRow> => ({
+    key: k,
+    header: k === 'residual' ? 'Unexplained' : k[0].toUpperCase() + k.slice(1),
+    align: 'right',
+    tabular: true,
+    render: (r) => <Amount value={r.explain[k]} strong={r.strong || k === 'total'} />,
+  })),
+]
+
+/**
+ * Day-over-day PnL of the structure split into delta, gamma, vega and theta from
+ * start-of-day greeks and end-of-day spot / IV, with the unexplained remainder. Uses the
+ * marks stored in `mark_snapshots`; amounts are in USD.
+ */
+export function ExplainTab({ position: p, marks }: { position: Position; marks?: MarksMap }) {
+  const days = React.useMemo(() => recentDays(DAYS), [])
+  const [day, setDay] = React.useState(days[0])
+  const keys = React.useMemo(() => historyMarkKeys([p]), [p])
+  const { snapshots, loading } = useMarkSnapshots(keys, { days: DAYS + 1, reloadKey: marks })
+
+  const byDay = React.useMemo(
+    () => (snapshots ? days.map((d) => ({ day: d, explain: structureExplain(p, snapshots, dayWindow(d)) })) : []),
+    [p, snapshots, days],
+  )
+  const selected = byDay.find((x) => x.day === day)?.explain
+
+  const legRows: ExplainRow[] = selected
+    ? [
+      ...selected.legs.map((l) => ({
+        id: l.leg.key,
+        label: l.key.slice(l.key.indexOf(':') + 1),
+        explain: l,
+      })),
+      ...(selected.legs.length > 1 ? [{ id: 'total', label: 'Structure', explain: selected, strong: true }] : []),
+    ]
+    : []
+  const dayRows: ExplainRow[] = byDay.map((x, i) => ({ id: x.day, label: fmtDayLabel(x.day, i), explain: x.explain }))
+
+  return (
+    <div className="space-y-6" data-testid="explain-tab">
+      <div className="flex items-center gap-3">
+        <SegmentedControl
+          items={days.map((d, i) => ({ value: d, label: fmtDayLabel(d, i) }))}
+          value={day} onChange={setDay} size="sm"
+        />
+        {loading && <Spinner className="h-4 w-4 text-muted" />}
+      </div>
+
+      {!snapshots || snapshots.length === 0 ? (
+        <p className="type-subhead text-text-tertiary">
+          {loading ? 'Loading mark history…' : 'No stored marks for this structure yet. Each marks refresh adds a snapshot.'}
+        </p>
+      ) : (
+        <>
+          <div data-testid="explain-legs">
+            <div className="type-caption font-medium uppercase tracking-wide text-text-secondary mb-2">By leg (USD)</div>
+            <DataTable columns={COLUMNS} data={legRows} rowKey={(r) => r.id} emptyMessage="No leg was held with marks on both sides of this day." />
+            {selected && selected.missing > 0 && (
+              <div className="mt-2 type-micro text-text-disabled">
+                {selected.missing} leg{selected.missing === 1 ? '' : 's'} without start and end marks for this day {selected.missing === 1 ? 'is' : 'are'} left out.
+              </div>
+            )}
+          </div>
+          <div data-testid="explain-days">
+            <div className="type-caption font-medium uppercase tracking-wide text-text-secondary mb-2">Last {DAYS} days (USD)</div>
+            <DataTable columns={COLUMNS} data={dayRows} rowKey={(r) => r.id} />
+          </div>
+          <p className="type-micro text-text-disabled leading-snug">
+            Delta = Δ·dS, Gamma = ½Γ·dS², Vega = V·dσ, Theta = Θ·dt, using greeks at the start of the day and the index and
+            IV at its last mark. Quantities are those held at the start of the day; trades during the day are not explained.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import React from 'react'
+import {
+  LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine,
+} from 'recharts'
+import { CHART_COLORS } from '../clientPortal/dashboard/chartTheme'
+import { Spinner } from '../../components/Spinner'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import { fmtGreek, fmtPremium, type MarksMap, type Position } from '../../utils'
+import { settlementFor } from '../../lib/pricing'
+import { historyMarkKeys, structureHistory, useMarkSnapshots, type HistoryPoint } from '../../lib/marks'
+
+const RANGE_ITEMS = [
+  { value: '7', label: '7D' },
+  { value: '30', label: '30D' },
+  { value: '90', label: '90D' },
+]
+
+const GREEK_LINES = [
+  { key: 'delta', name: 'Delta', color: CHART_COLORS.accent },
+  { key: 'gamma', name: 'Gamma', color: CHART_COLORS.sky },
+  { key: 'vega', name: 'Vega', color: CHART_COLORS.amber },
+  { key: 'theta', name: 'Theta', color: CHART_COLORS.rose },
+] as const
+
+const TOOLTIP_STYLE = {
+  contentStyle: { background: '#202029', border: '1px solid #1F2A3A', borderRadius: 9, fontSize: 12 },
+  labelStyle: { color: '#8A8A98' },
+}
+
+const fmtTime = (t: number) => new Date(t).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+const fmtDay = (t: number) => new Date(t).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+function TimeChart({ data, height, children, formatValue }: {
+  data: HistoryPoint[]
+  height: number
+  children: React.ReactNode
+  formatValue: (v: number) => string
+}) {
+  return (
+    <div style={{ width: '100%', height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 8, right: 16, bottom: 4, left: 8 }}>
+          <CartesianGrid stroke={CHART_COLORS.grid} vertical={false} />
+          <XAxis dataKey="t" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={fmtDay} stroke="#8A8A98" fontSize={11} />
+          <YAxis tickFormatter={formatValue} stroke="#8A8A98" fontSize={11} width={72} />
+          <ReferenceLine y={0} stroke={CHART_COLORS.zero} />
+          <Tooltip {...TOOLTIP_STYLE} labelFormatter={fmtTime} formatter={(v: number, name: string) => [formatValue(v), name]} />
+          {children}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+/**
+ * PnL and greeks of the structure over time, rebuilt from the marks stored in
+ * `mark_snapshots` on every refresh and on the dashboard's snapshot schedule.
+ */
+export function HistoryTab({ position: p, marks }: { position: Position; marks?: MarksMap }) {
+  const [days, setDays] = React.useState('30')
+  const keys = React.useMemo(() => historyMarkKeys([p]), [p])
+  const { snapshots, loading } = useMarkSnapshots(keys, { days: Number(days), reloadKey: marks })
+  const history = React.useMemo(() => (snapshots ? structureHistory(p, snapshots) : []), [p, snapshots])
+
+  const asset = settlementFor(p.exchange, p.underlying) === 'inverse' ? p.underlying : 'USD'
+  const fmt = (v: number) => fmtPremium(v, asset, asset === 'USD' ? 2 : 4)
+
+  return (
+    <div className="space-y-5" data-testid="history-tab">
+      <div className="flex items-center gap-3">
+        <SegmentedControl items={RANGE_ITEMS} value={days} onChange={setDays} size="sm" />
+        {loading && <Spinner className="h-4 w-4 text-muted" />}
+      </div>
+
+      {history.length === 0 ? (
+        <p className="type-subhead text-text-tertiary">
+          {loading ? 'Loading mark history…' : 'No stored marks for this structure yet. Each marks refresh adds a snapshot.'}
+        </p>
+      ) : (
+        <>
+          <div data-testid="history-pnl">
+            <div className="type-caption font-medium uppercase tracking-wide text-text-secondary mb-2">PnL (realized + unrealized)</div>
+            <TimeChart data={history} height={260} formatValue={fmt}>
+              <Line dataKey="pnl" name="PnL" type="monotone" dot={false} isAnimationActive={false} stroke={CHART_COLORS.good} strokeWidth={2} />
+              <Line dataKey="realized" name="Realized" type="stepAfter" dot={false} isAnimationActive={false} stroke={CHART_COLORS.sky} strokeDasharray="5 3" />
+            </TimeChart>
+          </div>
+          <div data-testid="history-greeks" className="grid gap-4 md:grid-cols-2">
+            {GREEK_LINES.map((g) => (
+              <div key={g.key}>
+                <div className="type-caption font-medium uppercase tracking-wide text-text-secondary mb-2">{g.name}</div>
+                <TimeChart data={history} height={160} formatValue={(v) => fmtGreek(v)}>
+                  <Line dataKey={g.key} name={g.name} type="monotone" dot={false} isAnimationActive={false} stroke={g.color} strokeWidth={1.5} />
+                </TimeChart>
+              </div>
+            ))}
+          </div>
+          <p className="type-caption text-text-tertiary">
+            {history.length} snapshot{history.length === 1 ? '' : 's'} since {fmtTime(history[0].t)}. Marks are carried forward between snapshots.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
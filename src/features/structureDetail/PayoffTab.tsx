@@ -0,0 +1,159 @@
+import React from 'react'
+import {
+  LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, Legend,
+} from 'recharts'
+import { CHART_COLORS } from '../clientPortal/dashboard/chartTheme'
+import { fmtNumber, fmtPremium, type MarksMap, type Position, type PricingContext } from '../../utils'
+import { payoffCurves, payoffStats, positionPayoffLegs, positionSpot, spotGrid } from '../../lib/payoff'
+
+const DEFAULT_VOL_PCT = 50
+
+const CURVE_COLORS = [CHART_COLORS.sky, CHART_COLORS.amber, CHART_COLORS.rose, CHART_COLORS.accent]
+
+function NumberField({ label, value, onChange }: {
+  label: string
+  value: number | undefined
+  onChange: (n: number | undefined) => void
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="type-caption font-medium uppercase tracking-wide text-text-secondary">{label}</span>
+      <input
+        type="number"
+        aria-label={label}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className="block w-40 rounded-lg border border-border-default bg-bg-surface-1 px-3 py-2 type-subhead text-text-primary focus:outline-none focus:shadow-[var(--glow-accent-sm)]"
+      />
+    </label>
+  )
+}
+
+function Stat({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="type-caption text-text-tertiary mb-0.5">{label}</div>
+      <div className="type-subhead font-medium text-text-primary tabular-nums">{children}</div>
+    </div>
+  )
+}
+
+/**
+ * Payoff of the structure's open legs across a spot range: at the front expiry and at
+ * T+0 and intermediate dates with IVs held at their current level. PnL includes the
+ * structure's realized PnL, in the legs' premium currency.
+ */
+export function PayoffTab({ position: p, marks, now, volAt }: {
+  position: Position
+  marks?: MarksMap
+  now?: number
+  volAt?: PricingContext['volAt']
+}) {
+  const markSpot = React.useMemo(() => positionSpot(p, marks), [p, marks])
+  const [spotInput, setSpotInput] = React.useState<number | undefined>(undefined)
+  const [volPct, setVolPct] = React.useState<number | undefined>(DEFAULT_VOL_PCT)
+  const spot = spotInput ?? markSpot ?? undefined
+
+  const model = React.useMemo(() => {
+    if (!(spot != null && spot > 0)) return null
+    const at = now ?? Date.now()
+    const { legs, skipped } = positionPayoffLegs(p, marks, { spot, vol: (volPct ?? DEFAULT_VOL_PCT) / 100, volAt, now: at })
+    if (legs.length === 0) return { legs, skipped, curves: [], stats: null, rows: [] }
+    const grid = spotGrid(legs, spot)
+    const curves = payoffCurves(legs, { spot, now: at, base: p.realizedPnl, grid })
+    const stats = payoffStats(legs, { spot, base: p.realizedPnl, grid })
+    const rows = grid.map((s, i) => {
+      const row: Record<string, number> = { spot: s }
+      for (const c of curves) row[c.label] = c.points[i].pnl
+      return row
+    })
+    return { legs, skipped, curves, stats, rows }
+  }, [p, marks, spot, volPct, volAt, now])
+
+  const asset = model?.legs.some((l) => l.settlement === 'inverse') ? p.underlying : 'USD'
+  const fmt = (v: number) => fmtPremium(v, asset, asset === 'USD' ? 2 : 4)
+  const strikes = React.useMemo(() => [...new Set(p.legs.map((l) => l.strike))], [p.legs])
+  const multiExpiry = model ? new Set(model.legs.map((l) => l.expiryISO)).size > 1 : false
+
+  return (
+    <div className="space-y-5" data-testid="payoff-tab">
+      <div className="flex flex-wrap items-end gap-4">
+        <NumberField label="Spot (USD)" value={spot} onChange={setSpotInput} />
+        <NumberField label="Fallback IV (%)" value={volPct} onChange={setVolPct} />
+      </div>
+
+      {!model ? (
+        <p className="type-subhead text-text-tertiary">
+          Refresh live marks or enter a spot price to plot the payoff.
+        </p>
+      ) : model.legs.length === 0 ? (
+        <p className="type-subhead text-text-tertiary">This structure has no open legs.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-8 gap-y-4">
+            <Stat label="Max gain">
+              <span data-testid="payoff-max-gain">
+                {model.stats?.maxGain == null ? 'Unlimited' : fmt(model.stats.maxGain)}
+              </span>
+            </Stat>
+            <Stat label="Max loss">
+              <span data-testid="payoff-max-loss">
+                {model.stats?.maxLoss == null ? 'Unlimited' : fmt(model.stats.maxLoss)}
+              </span>
+            </Stat>
+            <Stat label="Breakevens">
+              <span data-testid="payoff-breakevens">
+                {model.stats?.breakevens.length ? model.stats.breakevens.map((b) => fmtNumber(b)).join(' · ') : '—'}
+              </span>
+            </Stat>
+            <Stat label="Spot">{fmtNumber(spot!)}</Stat>
+          </div>
+
+          <div style={{ width: '100%', height: 320 }} data-testid="payoff-chart">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={model.rows} margin={{ top: 8, right: 16, bottom: 4, left: 8 }}>
+                <CartesianGrid stroke={CHART_COLORS.grid} vertical={false} />
+                <XAxis
+                  dataKey="spot" type="number" domain={['dataMin', 'dataMax']}
+                  tickFormatter={(v: number) => fmtNumber(v)} stroke="#8A8A98" fontSize={11}
+                />
+                <YAxis tickFormatter={(v: number) => fmtNumber(v)} stroke="#8A8A98" fontSize={11} width={72} />
+                <ReferenceLine y={0} stroke={CHART_COLORS.zero} />
+                {strikes.map((k) => (
+                  <ReferenceLine key={`k-${k}`} x={k} stroke={CHART_COLORS.zero} strokeDasharray="2 4" />
+                ))}
+                {model.stats?.breakevens.map((b) => (
+                  <ReferenceLine key={`be-${b}`} x={b} stroke={CHART_COLORS.amber} strokeDasharray="3 3" />
+                ))}
+                <ReferenceLine x={spot} stroke={CHART_COLORS.accent} label={{ value: 'Spot', fill: '#8A8A98', fontSize: 11, position: 'top' }} />
+                <Tooltip
+                  contentStyle={{ background: '#202029', border: '1px solid #1F2A3A', borderRadius: 9, fontSize: 12 }}
+                  labelStyle={{ color: '#8A8A98' }}
+                  labelFormatter={(v: number) => `Spot ${fmtNumber(v)}`}
+                  formatter={(v: number, name: string) => [fmt(v), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {model.curves.map((c, i) => (
+                  <Line
+                    key={c.label} type="linear" dataKey={c.label} dot={false} isAnimationActive={false}
+                    stroke={c.expiry ? CHART_COLORS.good : CURVE_COLORS[i % CURVE_COLORS.length]}
+                    strokeWidth={c.expiry ? 2.25 : 1.5}
+                    strokeDasharray={c.expiry ? undefined : '5 3'}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="type-caption text-text-tertiary">
+            {multiExpiry
+              ? 'Expiry is the front expiry; later legs are valued with their remaining time at current IV. '
+              : ''}
+            Dashed lines show strikes ({strikes.map((k) => fmtNumber(k)).join(', ')}) and breakevens.
+            {model.skipped > 0 ? ` ${model.skipped} leg${model.skipped === 1 ? '' : 's'} could not be priced and are excluded.` : ''}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+import React from 'react'
+import { Button } from '../../components/ui/Button'
+import { Modal } from '../../components/ui/Modal'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import { Spinner } from '../../components/Spinner'
+import { fmtPremium, type MarksMap, type Position, type PricingContext, type TxnRow } from '../../utils'
+import { venueAdapter } from '../../lib/venues/registry'
+import type { ChainInstrument } from '../../lib/venues/deribit'
+import {
+  ROLL_STRIKE_MODES, planRoll, rollPreview, rollTargetRef, rollTradeRows,
+  type RollStrikeMode,
+} from '../../lib/positions'
+
+type RollDialogProps = {
+  open: boolean
+  onClose: () => void
+  position: Position
+  marks?: MarksMap
+  volAt?: PricingContext['volAt']
+  /** Book the roll; resolves to an error message or null. */
+  onConfirm: (rows: { closeRows: TxnRow[]; openRows: TxnRow[] }) => Promise<string | null>
+}
+
+const SELECT_CLASS =
+  'rounded-lg border border-border-strong bg-surface-card px-2 py-1 type-subhead text-heading focus:outline-none focus:shadow-[var(--glow-accent-sm)]'
+
+const fmtPrice = (n: number | null) => (n == null ? '—' : n.toFixed(4))
+
+/**
+ * Roll a structure to a later expiry: pick the expiry and how strikes move (same delta,
+ * same width or custom), preview the net credit / debit at live marks, then book it.
+ */
+export function RollDialog({ open, onClose, position: p, marks, volAt, onConfirm }: RollDialogProps) {
+  const adapter = venueAdapter(p.exchange)
+  const [expiries, setExpiries] = React.useState<string[]>([])
+  const [expiry, setExpiry] = React.useState('')
+  const [chain, setChain] = React.useState<ChainInstrument[]>([])
+  const [mode, setMode] = React.useState<RollStrikeMode>('width')
+  const [anchorStrike, setAnchorStrike] = React.useState<number | undefined>(undefined)
+  const [customStrikes, setCustomStrikes] = React.useState<number[]>([])
+  const [targetMarks, setTargetMarks] = React.useState<MarksMap>({})
+  const [loading, setLoading] = React.useState(false)
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!open || !adapter?.listExpiries) return
+    let active = true
+    setLoading(true)
+    adapter.listExpiries(p.underlying)
+      .then((list) => {
+        if (!active) return
+        const later = list.filter((d) => d > p.expiryISO).sort()
+        setExpiries(later)
+        setExpiry((current) => (current && later.includes(current) ? current : later[0] ?? ''))
+      })
+      .catch((err) => { if (active) setError(err instanceof Error ? err.message : 'Failed to load expiries.') })
+      .finally(() => { if (active) setLoading(false) })
+    return () => { active = false }
+  }, [open, adapter, p.underlying, p.expiryISO])
+
+  React.useEffect(() => {
+    if (!open || !expiry || !adapter?.listChain) return
+    let active = true
+    setLoading(true)
+    adapter.listChain(expiry, p.underlying)
+      .then((list) => { if (active) setChain(list) })
+      .catch((err) => { if (active) setError(err instanceof Error ? err.message : 'Failed to load the chain.') })
+      .finally(() => { if (active) setLoading(false) })
+    return () => { active = false }
+  }, [open, expiry, adapter, p.underlying])
+
+  const plan = React.useMemo(
+    () => (expiry ? planRoll(p, { expiry, mode, chain, marks, ctx: { volAt }, anchorStrike, strikes: customStrikes }) : []),
+    [p, expiry, mode, chain, marks, volAt, anchorStrike, customStrikes],
+  )
+
+  // Fetch marks for successor legs not yet marked.
+  React.useEffect(() => {
+    if (!open || !adapter?.fetchMark) return
+    const refs = plan.map((leg) => rollTargetRef(p, leg)).filter((ref) => ref && !targetMarks[ref.key])
+    if (refs.length === 0) return
+    let active = true
+    Promise.all(refs.map((ref) => adapter.fetchMark!(ref!.symbol).then((mark) => [ref!.key, mark] as const).catch(() => null)))
+      .then((results) => {
+        if (!active) return
+        setTargetMarks((prev) => {
+          const next = { ...prev }
+          for (const entry of results) if (entry) next[entry[0]] = entry[1]
+          return next
+        })
+      })
+    return () => { active = false }
+  }, [open, adapter, p, plan, targetMarks])
+
+  const preview = React.useMemo(() => rollPreview(p, plan, { ...marks, ...targetMarks }), [p, plan, marks, targetMarks])
+  const rows = React.useMemo(() => rollTradeRows(p, preview), [p, preview])
+
+  const anchorOptions = React.useMemo(() => {
+    const anchor = plan.find((leg) => leg.qty < 0) ?? plan[0]
+    const kind = anchor?.optionType === 'P' ? 'put' : 'call'
+    return chain.filter((c) => c.option_type === kind).map((c) => c.strike)
+  }, [chain, plan])
+
+  const handleConfirm = async () => {
+    if (!rows) return
+    setSaving(true)
+    setError(null)
+    const message = await onConfirm(rows)
+    setSaving(false)
+    if (message) setError(message)
+    else onClose()
+  }
+
+  const netLabel = preview.net == null ? '—' : `${fmtPremium(Math.abs(preview.net), p.underlying)} ${preview.net >= 0 ? 'credit' : 'debit'}`
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={`Roll ${p.structureId ?? p.underlying}`}
+      size="lg"
+      footer={(
+        <>
+          <Button variant="secondary" size="sm" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" size="sm" onClick={() => void handleConfirm()} disabled={!rows || saving} loading={saving}>
+            Roll structure
+          </Button>
+        </>
+      )}
+    >
+      <div className="space-y-4" data-testid="roll-dialog">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 type-subhead text-text-secondary">
+            Expiry
+            <select aria-label="Target expiry" className={SELECT_CLASS} value={expiry} onChange={(e) => setExpiry(e.target.value)}>
+              {expiries.map((d) => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <SegmentedControl
+            items={ROLL_STRIKE_MODES}
+            value={mode}
+            onChange={(v) => setMode(v as RollStrikeMode)}
+            size="sm"
+          />
+          {mode === 'width' && anchorOptions.length > 0 && (
+            <label className="flex items-center gap-2 type-subhead text-text-secondary">
+              Anchor strike
+              <select
+                aria-label="Anchor strike"
+                className={SELECT_CLASS}
+                value={anchorStrike ?? plan.find((leg) => leg.qty < 0)?.toStrike ?? plan[0]?.toStrike ?? ''}
+                onChange={(e) => setAnchorStrike(Number(e.target.value))}
+              >
+                {anchorOptions.map((k) => <option key={k} value={k}>{k}</option>)}
+              </select>
+            </label>
+          )}
+          {loading && <Spinner className="h-4 w-4 text-muted" />}
+        </div>
+
+        <table className="w-full type-subhead">
+          <thead>
+            <tr className="text-left type-caption text-text-tertiary">
+              <th className="py-1 font-medium">Leg</th>
+              <th className="py-1 font-medium text-right">Close @</th>
+              <th className="py-1 font-medium">New strike</th>
+              <th className="py-1 font-medium text-right">Open @</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.legs.map((leg, i) => (
+              <tr key={`${leg.optionType}${leg.fromStrike}`} className="border-t border-border-subtle">
+                <td className="py-1.5 text-text-primary">
+                  {leg.qty > 0 ? '+' : ''}{leg.qty} {leg.optionType}{leg.fromStrike} {leg.fromExpiry}
+                </td>
+                <td className="py-1.5 text-right tabular-nums">{fmtPrice(leg.closePrice)}</td>
+                <td className="py-1.5">
+                  {mode === 'custom' ? (
+                    <select
+                      aria-label={`New strike for ${leg.optionType}${leg.fromStrike}`}
+                      className={SELECT_CLASS}
+                      value={leg.toStrike}
+                      onChange={(e) => {
+                        const next = plan.map((l) => l.toStrike)
+                        next[i] = Number(e.target.value)
+                        setCustomStrikes(next)
+                      }}
+                    >
+                      {chain
+                        .filter((c) => c.option_type === (leg.optionType === 'P' ? 'put' : 'call'))
+                        .map((c) => <option key={c.instrument_name} value={c.strike}>{c.strike}</option>)}
+                    </select>
+                  ) : (
+                    <span className="tabular-nums">{leg.optionType}{leg.toStrike}</span>
+                  )}
+                </td>
+                <td className="py-1.5 text-right tabular-nums">{fmtPrice(leg.openPrice)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between rounded-xl bg-bg-surface-2 px-4 py-3">
+          <span className="type-subhead text-text-secondary">Net roll at marks</span>
+          <span
+            className={`type-subhead font-semibold ${preview.net == null ? 'text-text-tertiary' : preview.net >= 0 ? 'text-status-success' : 'text-status-danger'}`}
+            data-testid="roll-net"
+          >
+            {netLabel}
+          </span>
+        </div>
+        {!rows && plan.length > 0 && (
+          <p className="type-caption text-text-tertiary">Every leg needs a mark on both sides before the roll can be booked.</p>
+        )}
+        {error && <div className="rounded-lg border banner-danger px-3 py-2 type-subhead">{error}</div>}
+      </div>
+    </Modal>
+  )
+}
@@ -1,13 +1,18 @@
 import React from 'react'
-import { ArrowLeft, Archive, TrendingUp } from 'lucide-react'
+import { ArrowLeft, Archive, Repeat, TrendingUp } from 'lucide-react'
 import { Button } from '../../components/ui/Button'
 import { SegmentedControl } from '../../components/ui/SegmentedControl'
 import { StatusBadge } from '../../components/StatusBadge'
 import { LegPositionsTable } from '../../components/LegPositionsTable'
 import { TransactionTable } from '../../components/TransactionTable'
 import { Spinner } from '../../components/Spinner'
+import { PayoffTab } from './PayoffTab'
+import { HistoryTab } from './HistoryTab'
+import { ExplainTab } from './ExplainTab'
+import { RollDialog } from './RollDialog'
 import { fmtPremium, positionUnrealizedPnL, positionGreeks, fmtNumber, fmtGreek } from '../../utils'
-import type { Position, MarksMap } from '../../utils'
+import type { Position, MarksMap, PricingContext, TxnRow } from '../../utils'
+import { positionPnl, positionPremiumCurrency, rollChainPnl } from '../../lib/positions'
 
 type StructureDetailPageProps = {
   embedded?: boolean
@@ -18,11 +23,21 @@ type StructureDetailPageProps = {
   onArchive?: (id: string) => void
   archiving?: boolean
   onRefreshMarks?: () => void
+  /** Surface volatility for legs without a usable mark (see `surfaceVolAt`). */
+  volAt?: PricingContext['volAt']
+  /** Book a roll of the structure; resolves to an error message or null. */
+  onRoll?: (rows: { closeRows: TxnRow[]; openRows: TxnRow[] }) => Promise<string | null>
+  /** Structures of the roll campaign containing this one, oldest first (see `rollChain`). */
+  rollChain?: Position[]
+  onOpenStructure?: (id: string) => void
 }
 
 const TAB_ITEMS = [
   { value: 'positions', label: 'Positions' },
   { value: 'trades', label: 'Trades' },
+  { value: 'payoff', label: 'Payoff' },
+  { value: 'history', label: 'History' },
+  { value: 'explain', label: 'PnL Explain' },
 ]
 
 function formatStructureTitle(p: Position): string {
@@ -60,8 +75,13 @@ export function StructureDetailPage({
   onArchive,
   archiving,
   onRefreshMarks,
+  volAt,
+  onRoll,
+  rollChain,
+  onOpenStructure,
 }: StructureDetailPageProps) {
   const [activeTab, setActiveTab] = React.useState('positions')
+  const [rollOpen, setRollOpen] = React.useState(false)
 
   const posUnrealized = React.useMemo(
     () => (marks ? positionUnrealizedPnL(p, marks) : null),
@@ -69,6 +89,11 @@ export function StructureDetailPage({
   )
   const hasMarks = posUnrealized != null
   const posTotalPnl = hasMarks ? p.realizedPnl + posUnrealized : null
+  const premiumCurrency = positionPremiumCurrency(p)
+  const usdPnl = React.useMemo(
+    () => (premiumCurrency !== 'USD' ? positionPnl(p, marks, 'usd') : null),
+    [p, marks, premiumCurrency],
+  )
 
   const greeks = React.useMemo(
     () => (marks ? positionGreeks(p, marks) : null),
@@ -80,6 +105,11 @@ export function StructureDetailPage({
     return `${p.expiries[0]} (+${p.expiries.length - 1} more)`
   }, [p.expiries, p.expiryISO])
 
+  const chainPnl = React.useMemo(
+    () => (rollChain && rollChain.length > 1 ? rollChainPnl(rollChain, marks) : null),
+    [rollChain, marks],
+  )
+
   return (
     <div className="flex-1 overflow-auto px-6 py-5">
       {/* Breadcrumb header */}
@@ -115,6 +145,16 @@ export function StructureDetailPage({
                 : <TrendingUp className="h-4 w-4" />}
             </button>
           )}
+          {onRoll && p.status !== 'CLOSED' && (
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Repeat className="h-3.5 w-3.5" />}
+              onClick={() => setRollOpen(true)}
+            >
+              Roll
+            </Button>
+          )}
           {onArchive && (
             <Button
               variant="secondary"
@@ -142,7 +182,7 @@ export function StructureDetailPage({
               {p.underlying} · {expirySummary} · {p.dte} DTE
             </div>
           </div>
-          <StatusBadge status={p.status} />
+          <StatusBadge status={p.status} thresholds={p.statusThresholds} />
         </div>
 
         {/* Structure Details sub-card */}
@@ -159,19 +199,33 @@ export function StructureDetailPage({
               </DetailItem>
               <DetailItem label="Strategy">{p.strategy ?? '—'}</DetailItem>
               <DetailItem label="Program">{p.programName ?? '—'}</DetailItem>
-              <DetailItem label="Net Premium">{fmtPremium(p.netPremium, p.underlying)}</DetailItem>
+              <DetailItem label="Net Premium">{fmtPremium(p.netPremium, premiumCurrency)}</DetailItem>
               <DetailItem label="Realized PnL">
                 <span className={p.realizedPnl < 0 ? 'text-status-danger' : 'text-status-success'}>
-                  {fmtPremium(p.realizedPnl, p.underlying)}
+                  {fmtPremium(p.realizedPnl, premiumCurrency)}
                 </span>
               </DetailItem>
               <DetailItem label="Total PnL">
                 {posTotalPnl != null ? (
                   <span className={posTotalPnl < 0 ? 'text-status-danger' : 'text-status-success'}>
-                    {fmtPremium(posTotalPnl, p.underlying)}
+                    {fmtPremium(posTotalPnl, premiumCurrency)}
                   </span>
                 ) : '—'}
               </DetailItem>
+              {usdPnl && (
+                <>
+                  <DetailItem label="Option PnL (USD)">
+                    {usdPnl.total != null ? (
+                      <span className={usdPnl.total < 0 ? 'text-status-danger' : 'text-status-success'}>
+                        {fmtPremium(usdPnl.total, 'USD')}
+                      </span>
+                    ) : '—'}
+                  </DetailItem>
+                  <DetailItem label="Coin appreciation">
+                    {usdPnl.coinAppreciation != null ? fmtPremium(usdPnl.coinAppreciation, 'USD') : '—'}
+                  </DetailItem>
+                </>
+              )}
               <DetailItem label="Delta (Δ)">{greeks ? fmtNumber(greeks.delta) : '—'}</DetailItem>
               <DetailItem label="Gamma (Γ)">{greeks ? fmtGreek(greeks.gamma, 6) : '—'}</DetailItem>
               <DetailItem label="Theta (Θ)">{greeks ? fmtNumber(greeks.theta) : '—'}</DetailItem>
@@ -180,6 +234,47 @@ export function StructureDetailPage({
           </div>
         </div>
 
+        {rollChain && rollChain.length > 1 && (
+          <div className="mx-6 mb-5" data-testid="roll-chain">
+            <div className="bg-bg-surface-2 rounded-xl border border-border-subtle p-5">
+              <div className="flex items-center justify-between mb-3">
+                <div className="type-caption font-semibold text-text-secondary uppercase tracking-wider">
+                  Roll Chain
+                </div>
+                {chainPnl != null && (
+                  <div className="type-subhead">
+                    <span className="text-text-tertiary mr-2">Campaign PnL</span>
+                    <span className={chainPnl < 0 ? 'text-status-danger' : 'text-status-success'}>
+                      {fmtPremium(chainPnl, p.underlying)}
+                    </span>
+                  </div>
+                )}
+              </div>
+              <ol className="flex flex-wrap items-center gap-2 type-subhead">
+                {rollChain.map((link, i) => (
+                  <li key={link.id} className="flex items-center gap-2">
+                    {i > 0 && <span className="text-text-tertiary">→</span>}
+                    {link.id === p.id || !onOpenStructure ? (
+                      <span className={link.id === p.id ? 'font-medium text-text-primary' : 'text-text-secondary'}>
+                        {link.structureId ?? link.expiryISO}
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => onOpenStructure(link.id)}
+                        className="text-text-secondary hover:text-text-primary transition-colors"
+                      >
+                        {link.structureId ?? link.expiryISO}
+                      </button>
+                    )}
+                    <span className="type-caption text-text-tertiary">{link.expiryISO}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        )}
+
         {/* Tab band */}
         <div className="px-6 pb-3 border-b border-border-subtle">
           <SegmentedControl
@@ -198,8 +293,27 @@ export function StructureDetailPage({
           {activeTab === 'trades' && (
             <TransactionTable position={p} />
           )}
+          {activeTab === 'payoff' && (
+            <PayoffTab position={p} marks={marks} volAt={volAt} />
+          )}
+          {activeTab === 'history' && (
+            <HistoryTab position={p} marks={marks} />
+          )}
+          {activeTab === 'explain' && (
+            <ExplainTab position={p} marks={marks} />
+          )}
         </div>
       </div>
+      {onRoll && rollOpen && (
+        <RollDialog
+          open={rollOpen}
+          onClose={() => setRollOpen(false)}
+          position={p}
+          marks={marks}
+          volAt={volAt}
+          onConfirm={onRoll}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import type { Position } from '../../../utils'
+import type { MarkSnapshot } from '../../../lib/marks'
+import { ExplainTab } from '../ExplainTab'
+
+const state = vi.hoisted(() => ({ snapshots: null as unknown }))
+
+vi.mock('../../../lib/marks/useMarkSnapshots', () => ({
+  useMarkSnapshots: () => ({ snapshots: state.snapshots, loading: false }),
+}))
+
+const DAY_MS = 86_400_000
+const today = new Date().toISOString().slice(0, 10)
+const at = (offsetMs: number) => new Date(Date.parse(`${today}T00:00:00Z`) + offsetMs).toISOString()
+
+const snap = (ts: string, mark: number, indexPrice: number): MarkSnapshot => ({
+  key: 'deribit:BTC-30JAN99-100000-C', exchange: 'deribit', instrument: 'BTC-30JAN99-100000-C', ts,
+  mark, bid: null, ask: null, iv: 0.5, indexPrice, multiplier: 1,
+  greeks: { delta: 0.5, gamma: 0.00001, theta: -10, vega: 50, rho: null },
+})
+
+const position: Position = {
+  id: 'p1', underlying: 'BTC', expiryISO: '2099-01-30', dte: 30, legsCount: 1, type: 'Single', realizedPnl: 0,
+  netPremium: -0.05, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  legs: [{
+    key: 'a', strike: 100_000, optionType: 'C', realizedPnl: 0, netPremium: -0.05, qtyNet: 1, trades: [],
+    openLots: [{ qty: 1, price: 0.05, sign: 1 }],
+  }],
+}
+
+describe('ExplainTab', () => {
+  it('explains the empty state before any marks are stored', () => {
+    state.snapshots = []
+    render(<ExplainTab position={position} />)
+    expect(screen.getByText(/No stored marks/)).toBeInTheDocument()
+  })
+
+  it('breaks today down by leg and lists recent days', () => {
+    // Start of day 0.05 BTC @ 100k ($5,000); first mark today 0.052 BTC @ 101k ($5,252).
+    state.snapshots = [snap(at(-2 * 3_600_000), 0.05, 100_000), snap(at(60_000), 0.052, 101_000)]
+    render(<ExplainTab position={position} />)
+    const legs = screen.getByTestId('explain-legs')
+    const row = within(legs).getByText('BTC-30JAN99-100000-C').closest('tr')!
+    expect(within(row).getByText('$500')).toBeInTheDocument()
+    expect(within(row).getByText('$252')).toBeInTheDocument()
+    expect(within(screen.getByTestId('explain-days')).getAllByRole('row')).toHaveLength(8)
+  })
+
+  it('notes days without marks on both sides', () => {
+    state.snapshots = [snap(at(-3 * DAY_MS), 0.05, 100_000)]
+    render(<ExplainTab position={position} />)
+    expect(screen.getByText(/1 leg without start and end marks/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import type { Position } from '../../../utils'
+import type { MarkSnapshot } from '../../../lib/marks'
+import { HistoryTab } from '../HistoryTab'
+
+vi.mock('recharts', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('recharts')>()
+  return {
+    ...actual,
+    ResponsiveContainer: ({ children }: { children: React.ReactNode }) => (
+      <div style={{ width: 600, height: 300 }}>{children}</div>
+    ),
+  }
+})
+
+const snapshots: MarkSnapshot[] = ['2099-01-02T00:00:00Z', '2099-01-03T00:00:00Z'].map((ts, i) => ({
+  key: 'deribit:BTC-30JAN99-100000-C', exchange: 'deribit', instrument: 'BTC-30JAN99-100000-C', ts,
+  mark: 0.05 + i * 0.01, bid: null, ask: null, iv: 0.5, indexPrice: 100_000, multiplier: 1,
+  greeks: { delta: 0.5, gamma: 0.00001, theta: -10, vega: 50, rho: null },
+}))
+const state = vi.hoisted(() => ({ snapshots: null as unknown }))
+
+vi.mock('../../../lib/marks/useMarkSnapshots', () => ({
+  useMarkSnapshots: () => ({ snapshots: state.snapshots, loading: false }),
+}))
+
+const position: Position = {
+  id: 'p1', underlying: 'BTC', expiryISO: '2099-01-30', dte: 30, legsCount: 1, type: 'Single', realizedPnl: 0,
+  netPremium: -0.05, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  legs: [{
+    key: 'a', strike: 100_000, optionType: 'C', realizedPnl: 0, netPremium: -0.05, qtyNet: 1, trades: [],
+    openLots: [{ qty: 1, price: 0.05, sign: 1 }],
+  }],
+}
+
+describe('HistoryTab', () => {
+  it('explains the empty state before any marks are stored', () => {
+    state.snapshots = []
+    render(<HistoryTab position={position} />)
+    expect(screen.getByText(/No stored marks/)).toBeInTheDocument()
+  })
+
+  it('charts PnL and greeks once snapshots exist', () => {
+    state.snapshots = snapshots
+    render(<HistoryTab position={position} />)
+    expect(screen.getByTestId('history-pnl')).toBeInTheDocument()
+    expect(screen.getByTestId('history-greeks')).toBeInTheDocument()
+    expect(screen.getByText(/2 snapshots since/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import type { Position } from '../../../utils'
+import { PayoffTab } from '../PayoffTab'
+
+// Recharts' ResponsiveContainer measures 0×0 in jsdom; give it a fixed size.
+vi.mock('recharts', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('recharts')>()
+  return {
+    ...actual,
+    ResponsiveContainer: ({ children }: { children: React.ReactNode }) => (
+      <div style={{ width: 600, height: 300 }}>{children}</div>
+    ),
+  }
+})
+
+const position: Position = {
+  id: 'p1', underlying: 'BTC', expiryISO: '2099-01-30', dte: 30, legsCount: 1, type: 'Single', realizedPnl: 0,
+  netPremium: 0.05, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  legs: [{
+    key: 'a', strike: 100_000, optionType: 'C', realizedPnl: 0, netPremium: 0.05, qtyNet: 1, trades: [],
+    openLots: [{ qty: 1, price: 0.05, sign: 1 }],
+  }],
+}
+
+describe('PayoffTab', () => {
+  it('asks for a spot until one is available', () => {
+    render(<PayoffTab position={position} />)
+    expect(screen.getByText(/enter a spot price/i)).toBeInTheDocument()
+  })
+
+  it('shows the expiry stats once a spot is entered', () => {
+    render(<PayoffTab position={position} />)
+    fireEvent.change(screen.getByLabelText('Spot (USD)'), { target: { value: '100000' } })
+    expect(screen.getByTestId('payoff-chart')).toBeInTheDocument()
+    expect(screen.getByTestId('payoff-max-loss')).toHaveTextContent('-0.0500 BTC')
+    expect(screen.getByTestId('payoff-max-gain')).toHaveTextContent('0.9500 BTC')
+  })
+})
@@ -0,0 +1,239 @@
+import React from 'react'
+import { RefreshCw } from 'lucide-react'
+import {
+  ComposedChart, LineChart, Line, Scatter, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+} from 'recharts'
+import { SegmentedControl } from '../../components/ui/SegmentedControl'
+import { Spinner } from '../../components/Spinner'
+import { CHART_COLORS } from '../clientPortal/dashboard/chartTheme'
+import { fmtNumber } from '../../utils'
+import {
+  fetchVolSurface, smileCurve, surfaceGrid, termStructure, type VolSurface,
+} from '../../lib/volSurface'
+
+const CURRENCY_ITEMS = [
+  { value: 'BTC', label: 'BTC' },
+  { value: 'ETH', label: 'ETH' },
+]
+
+const MONEYNESS = [0.6, 0.7, 0.8, 0.9, 0.95, 1, 1.05, 1.1, 1.2, 1.3, 1.5]
+
+const pct = (iv: number) => `${(iv * 100).toFixed(1)}%`
+
+const TOOLTIP_STYLE = {
+  contentStyle: { background: '#202029', border: '1px solid #1F2A3A', borderRadius: 9, fontSize: 12 },
+  labelStyle: { color: '#8A8A98' },
+}
+
+// Cool-to-hot ramp for the heatmap: sky at the lowest IV, amber mid, rose at the highest.
+const RAMP: Array<[number, number, number]> = [[56, 189, 248], [251, 191, 36], [251, 113, 133]]
+
+function heatColor(t: number): string {
+  const x = Math.max(0, Math.min(1, t)) * (RAMP.length - 1)
+  const i = Math.min(RAMP.length - 2, Math.floor(x))
+  const f = x - i
+  const [r, g, b] = RAMP[i].map((c, j) => Math.round(c + f * (RAMP[i + 1][j] - c)))
+  return `rgba(${r}, ${g}, ${b}, 0.35)`
+}
+
+function ChartCard({ title, children, testId }: { title: string; children: React.ReactNode; testId?: string }) {
+  return (
+    <div className="rounded-xl border border-border-default bg-bg-surface-1 p-4" data-testid={testId}>
+      <div className="type-caption font-medium uppercase tracking-wide text-text-secondary mb-3">{title}</div>
+      {children}
+    </div>
+  )
+}
+
+function SmileChart({ surface, expiry }: { surface: VolSurface; expiry: string }) {
+  const slice = surface.slices.find((s) => s.expiryISO === expiry)
+  if (!slice) return null
+  const fitted = smileCurve(slice).map((p) => ({ strike: p.strike, fit: p.iv }))
+  const market = slice.quotes.map((q) => ({ strike: q.strike, mark: q.iv }))
+  return (
+    <div style={{ width: '100%', height: 280 }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart margin={{ top: 8, right: 16, bottom: 4, left: 8 }}>
+          <CartesianGrid stroke={CHART_COLORS.grid} vertical={false} />
+          <XAxis
+            dataKey="strike" type="number" domain={['dataMin', 'dataMax']}
+            tickFormatter={(v: number) => fmtNumber(v)} stroke="#8A8A98" fontSize={11}
+          />
+          <YAxis tickFormatter={pct} stroke="#8A8A98" fontSize={11} width={56} domain={['auto', 'auto']} />
+          <Tooltip
+            {...TOOLTIP_STYLE}
+            labelFormatter={(v: number) => `Strike ${fmtNumber(v)}`}
+            formatter={(v: number, name: string) => [pct(v), name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line data={fitted} dataKey="fit" name="SVI fit" type="monotone" dot={false} isAnimationActive={false} stroke={CHART_COLORS.accent} strokeWidth={2} />
+          <Scatter data={market} dataKey="mark" name="Mark IV" fill={CHART_COLORS.sky} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+function TermChart({ surface }: { surface: VolSurface }) {
+  const data = termStructure(surface)
+  return (
+    <div style={{ width: '100%', height: 220 }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 8, right: 16, bottom: 4, left: 8 }}>
+          <CartesianGrid stroke={CHART_COLORS.grid} vertical={false} />
+          <XAxis
+            dataKey="days" type="number" domain={[0, 'dataMax']}
+            tickFormatter={(v: number) => `${Math.round(v)}d`} stroke="#8A8A98" fontSize={11}
+          />
+          <YAxis tickFormatter={pct} stroke="#8A8A98" fontSize={11} width={56} domain={['auto', 'auto']} />
+          <Tooltip
+            {...TOOLTIP_STYLE}
+            labelFormatter={(v: number) => `${Math.round(v)} days`}
+            formatter={(v: number) => [pct(v), 'ATM IV']}
+          />
+          <Line dataKey="atmIv" name="ATM IV" type="monotone" isAnimationActive={false} stroke={CHART_COLORS.amber} strokeWidth={2} dot={{ r: 2.5 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+function SurfaceHeatmap({ surface }: { surface: VolSurface }) {
+  const rows = surfaceGrid(surface, MONEYNESS)
+  const all = rows.flatMap((r) => r.ivs).filter(Number.isFinite)
+  const lo = Math.min(...all)
+  const hi = Math.max(...all)
+  return (
+    <div className="overflow-auto">
+      <table className="w-full type-caption tabular-nums" data-testid="vol-heatmap">
+        <thead>
+          <tr className="text-text-tertiary">
+            <th className="px-2 py-1.5 text-left font-medium">Expiry</th>
+            {MONEYNESS.map((m) => (
+              <th key={m} className="px-2 py-1.5 text-right font-medium">{Math.round(m * 100)}%</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.expiryISO} className="border-t border-border-subtle">
+              <td className="px-2 py-1.5 text-text-secondary whitespace-nowrap">
+                {r.expiryISO} <span className="text-text-tertiary">({Math.round(r.days)}d)</span>
+              </td>
+              {r.ivs.map((iv, i) => (
+                <td
+                  key={MONEYNESS[i]}
+                  className="px-2 py-1.5 text-right text-text-primary"
+                  style={{ background: heatColor(hi > lo ? (iv - lo) / (hi - lo) : 0.5) }}
+                >
+                  {Number.isFinite(iv) ? pct(iv) : '—'}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * Deribit implied volatility surface: an SVI smile fitted per expiry from mark IVs, the
+ * ATM term structure, and a heatmap of fitted IV by moneyness (K/F) and tenor. Each fitted
+ * surface is handed to `onSurface` so pricing elsewhere can use it for off-chain strikes.
+ */
+export function VolSurfacePanel({ onSurface }: { onSurface?: (surface: VolSurface) => void }) {
+  const [currency, setCurrency] = React.useState('BTC')
+  const [surface, setSurface] = React.useState<VolSurface | null>(null)
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [expiry, setExpiry] = React.useState<string | null>(null)
+  const onSurfaceRef = React.useRef(onSurface)
+  onSurfaceRef.current = onSurface
+
+  const load = React.useCallback(async (ccy: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const next = await fetchVolSurface(ccy)
+      setSurface(next)
+      if (!next || next.slices.length === 0) {
+        setError(`No ${ccy} option IVs available from Deribit.`)
+        return
+      }
+      setExpiry((cur) => (cur && next.slices.some((s) => s.expiryISO === cur) ? cur : next.slices[0].expiryISO))
+      onSurfaceRef.current?.(next)
+    } catch (e) {
+      console.error('[VolSurfacePanel] surface fetch failed', e)
+      setError('Failed to load the volatility surface.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => { void load(currency) }, [currency, load])
+
+  const slice = surface?.slices.find((s) => s.expiryISO === expiry)
+
+  return (
+    <div className="flex flex-col gap-4 p-4 overflow-auto" data-testid="vol-surface">
+      <div className="flex flex-wrap items-center gap-3">
+        <SegmentedControl items={CURRENCY_ITEMS} value={currency} onChange={setCurrency} size="sm" />
+        {surface && surface.slices.length > 0 && (
+          <select
+            aria-label="Smile expiry"
+            value={expiry ?? ''}
+            onChange={(e) => setExpiry(e.target.value)}
+            className="rounded-lg border border-border-default bg-bg-surface-1 px-2 py-1 type-caption text-text-primary"
+          >
+            {surface.slices.map((s) => (
+              <option key={s.expiryISO} value={s.expiryISO}>{s.expiryISO}</option>
+            ))}
+          </select>
+        )}
+        {surface && (
+          <span className="type-micro text-muted tabular-nums">
+            Spot <span className="text-body font-semibold">{fmtNumber(surface.spot)}</span>
+            {slice && <> · fit RMSE {(slice.rmse * 100).toFixed(2)} vol pts</>}
+          </span>
+        )}
+        <button
+          onClick={() => void load(currency)}
+          disabled={loading}
+          className={[
+            'ml-auto inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg type-caption font-medium',
+            'border border-border-default bg-surface-chip hover:bg-surface-hover',
+            'text-body transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+            'focus:outline-none focus:shadow-[var(--glow-accent-sm)]',
+          ].join(' ')}
+        >
+          {loading ? <Spinner className="w-3.5 h-3.5" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          Update
+        </button>
+      </div>
+
+      {error && <p className="type-subhead text-text-tertiary">{error}</p>}
+      {loading && !surface && (
+        <div className="flex items-center justify-center py-12">
+          <Spinner className="w-5 h-5 text-muted" />
+        </div>
+      )}
+
+      {surface && surface.slices.length > 0 && (
+        <>
+          <div className="grid gap-4 lg:grid-cols-2">
+            <ChartCard title={`Smile — ${expiry ?? ''}`} testId="vol-smile">
+              {expiry && <SmileChart surface={surface} expiry={expiry} />}
+            </ChartCard>
+            <ChartCard title="ATM term structure" testId="vol-term">
+              <TermChart surface={surface} />
+            </ChartCard>
+          </div>
+          <ChartCard title="Surface — IV by moneyness (K/F) and tenor">
+            <SurfaceHeatmap surface={surface} />
+          </ChartCard>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import { buildVolSurface, type VolQuote } from '../../../lib/volSurface'
+import { VolSurfacePanel } from '../VolSurfacePanel'
+
+vi.mock('recharts', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('recharts')>()
+  return {
+    ...actual,
+    ResponsiveContainer: ({ children }: { children: React.ReactNode }) => (
+      <div style={{ width: 600, height: 300 }}>{children}</div>
+    ),
+  }
+})
+
+const NOW = Date.parse('2099-01-01T08:00:00Z')
+const quotes: VolQuote[] = ['2099-01-30', '2099-03-27'].flatMap((expiryISO) =>
+  [80_000, 90_000, 100_000, 110_000, 120_000].map((strike) => ({
+    expiryISO, strike, optionType: 'call' as const, iv: 0.5 + Math.abs(strike - 100_000) / 200_000, forward: 100_000,
+  })),
+)
+const surface = buildVolSurface(quotes, { underlying: 'BTC', spot: 100_000, now: NOW })
+
+vi.mock('../../../lib/volSurface/fetchSurface', () => ({
+  fetchVolSurface: vi.fn(async () => surface),
+  bookSummaryQuotes: vi.fn(),
+}))
+
+describe('VolSurfacePanel', () => {
+  it('renders the smile, term structure and heatmap and reports the surface', async () => {
+    const onSurface = vi.fn()
+    render(<VolSurfacePanel onSurface={onSurface} />)
+    await waitFor(() => expect(screen.getByTestId('vol-heatmap')).toBeInTheDocument())
+    expect(screen.getByTestId('vol-smile')).toBeInTheDocument()
+    expect(screen.getByTestId('vol-term')).toBeInTheDocument()
+    expect(screen.getByLabelText('Smile expiry')).toHaveValue('2099-01-30')
+    // One heatmap row per expiry.
+    expect(screen.getByTestId('vol-heatmap').querySelectorAll('tbody tr')).toHaveLength(2)
+    expect(onSurface).toHaveBeenCalledWith(surface)
+  })
+})
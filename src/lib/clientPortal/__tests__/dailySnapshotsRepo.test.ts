@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchDailySnapshots, mapDailySnapshotRow, saveDailySnapshots } from '../dailySnapshotsRepo'
+import type { DailySnapshot } from '@/features/clientPortal/dashboard/dailySnapshots'
+
+function mockClient(over: { selectData?: unknown[]; selectError?: { message: string } | null; insertError?: { message: string } | null }) {
+  const data = over.selectData ?? []
+  const q = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    gte: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    range: vi.fn(async (from: number, to: number) => ({ data: data.slice(from, to + 1), error: over.selectError ?? null })),
+    insert: vi.fn().mockResolvedValue({ error: over.insertError ?? null }),
+  }
+  const from = vi.fn().mockReturnValue(q)
+  return { client: { from } as unknown as SupabaseClient, from, q }
+}
+
+const row = (day: string, pnl: number, ts: string) => ({
+  day, equity: 0.03, equity_source: 'hub', pnl, realized: 0.001, unrealized: pnl - 0.001,
+  delta: 0.01, gamma: 0.0001, theta: -0.00002, vega: 0.0001, ts,
+})
+
+describe('mapDailySnapshotRow', () => {
+  it('maps a well-formed row', () => {
+    expect(mapDailySnapshotRow(row('2026-10-18', 0.005, 't'))).toEqual({
+      day: '2026-10-18', equity: 0.03, equitySource: 'hub', pnl: 0.005, realized: 0.001, unrealized: 0.004,
+      delta: 0.01, gamma: 0.0001, theta: -0.00002, vega: 0.0001,
+    })
+  })
+  it('returns null for a bad day or a non-numeric figure', () => {
+    expect(mapDailySnapshotRow(row('18/10/2026', 0.005, 't'))).toBeNull()
+    expect(mapDailySnapshotRow({ ...row('2026-10-18', 0.005, 't'), pnl: '0.005' })).toBeNull()
+    expect(mapDailySnapshotRow(null)).toBeNull()
+  })
+})
+
+describe('fetchDailySnapshots', () => {
+  it('keeps the newest recording of each day', async () => {
+    const { client, from, q } = mockClient({ selectData: [
+      row('2026-10-17', 0.003, '2'),
+      row('2026-10-18', 0.006, '3'),
+      row('2026-10-18', 0.005, '1'),
+      { nonsense: true },
+    ] })
+    const r = await fetchDailySnapshots(client, 'TwoPrime', { since: '2026-10-01' })
+    expect(from).toHaveBeenCalledWith('client_daily_snapshots')
+    expect(q.eq).toHaveBeenCalledWith('client_name', 'TwoPrime')
+    expect(q.gte).toHaveBeenCalledWith('day', '2026-10-01')
+    expect(q.order.mock.calls).toEqual([['day', { ascending: true }], ['ts', { ascending: false }]])
+    if (!r.ok) throw new Error(r.error)
+    expect(r.snapshots.map((s) => [s.day, s.pnl])).toEqual([['2026-10-17', 0.003], ['2026-10-18', 0.006]])
+  })
+  it('pages past the 1000-row response cap to reach the newest days', async () => {
+    const older = Array.from({ length: 1000 }, (_, i) => row('2026-10-17', 0.003, String(1000 - i)))
+    const { client, q } = mockClient({ selectData: [...older, row('2026-10-18', 0.006, '1001')] })
+    const r = await fetchDailySnapshots(client, 'TwoPrime')
+    expect(q.range.mock.calls).toEqual([[0, 999], [1000, 1999]])
+    if (!r.ok) throw new Error(r.error)
+    expect(r.snapshots.map((s) => s.day)).toEqual(['2026-10-17', '2026-10-18'])
+  })
+  it('returns an error result on query failure', async () => {
+    const { client } = mockClient({ selectError: { message: 'boom' } })
+    expect(await fetchDailySnapshots(client, 'TwoPrime')).toEqual({ ok: false, error: 'boom' })
+  })
+})
+
+describe('saveDailySnapshots', () => {
+  const S: DailySnapshot = {
+    day: '2026-10-19', equity: null, equitySource: 'positions', pnl: 0.008, realized: 0.006, unrealized: 0.002,
+    delta: 0.01, gamma: 0, theta: 0, vega: 0,
+  }
+  it('inserts one row per day', async () => {
+    const { client, q } = mockClient({})
+    expect(await saveDailySnapshots(client, 'TwoPrime', [S])).toEqual({ ok: true })
+    expect(q.insert).toHaveBeenCalledWith([{
+      client_name: 'TwoPrime', day: '2026-10-19', equity: null, equity_source: 'positions',
+      pnl: 0.008, realized: 0.006, unrealized: 0.002, delta: 0.01, gamma: 0, theta: 0, vega: 0,
+    }])
+  })
+  it('skips an empty batch and surfaces insert errors', async () => {
+    const { client, q } = mockClient({})
+    expect(await saveDailySnapshots(client, 'TwoPrime', [])).toEqual({ ok: true })
+    expect(q.insert).not.toHaveBeenCalled()
+    const failing = mockClient({ insertError: { message: 'denied' } })
+    expect(await saveDailySnapshots(failing.client, 'TwoPrime', [S])).toEqual({ ok: false, error: 'denied' })
+  })
+})
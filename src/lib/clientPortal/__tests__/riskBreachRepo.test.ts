@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { mapRiskBreachRow, fetchActiveBreaches, saveRiskBreachEvent } from '../riskBreachRepo'
+import type { RiskBreachEvent } from '@/features/clientPortal/risk/breaches'
+
+function mockClient(over: { selectData?: unknown[]; selectError?: { message: string } | null; insertError?: { message: string } | null }) {
+  const q = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data: over.selectData ?? [], error: over.selectError ?? null }),
+    insert: vi.fn().mockResolvedValue({ error: over.insertError ?? null }),
+  }
+  const from = vi.fn().mockReturnValue(q)
+  return { client: { from } as unknown as SupabaseClient, from, q }
+}
+
+const row = (breach_key: string, kind: string, ts: string) => ({ breach_key, kind, value: 6, limit_desc: '≤ 5%', detail: 'd', ts })
+
+describe('mapRiskBreachRow', () => {
+  it('maps a well-formed row', () => {
+    expect(mapRiskBreachRow(row('stressLoss', 'breach', 't1')))
+      .toEqual({ key: 'stressLoss', kind: 'breach', value: 6, limit: '≤ 5%', detail: 'd', ts: 't1' })
+  })
+  it('returns null for unknown keys, kinds or wrong-typed fields', () => {
+    expect(mapRiskBreachRow(row('leverage', 'breach', 't'))).toBeNull()
+    expect(mapRiskBreachRow(row('vega', 'warning', 't'))).toBeNull()
+    expect(mapRiskBreachRow({ ...row('vega', 'breach', 't'), value: '6' })).toBeNull()
+    expect(mapRiskBreachRow(null)).toBeNull()
+  })
+})
+
+describe('fetchActiveBreaches', () => {
+  it('treats a limit as active when its newest event is a breach', async () => {
+    const { client, from, q } = mockClient({ selectData: [
+      row('vega', 'recovery', '4'),
+      row('stressLoss', 'breach', '3'),
+      row('vega', 'breach', '2'),
+      { nonsense: true },
+      row('stressLoss', 'recovery', '1'),
+    ] })
+    const r = await fetchActiveBreaches(client, 'TwoPrime')
+    expect(from).toHaveBeenCalledWith('risk_breach_events')
+    expect(q.eq).toHaveBeenCalledWith('client_name', 'TwoPrime')
+    expect(q.order).toHaveBeenCalledWith('ts', { ascending: false })
+    expect(r).toEqual({ ok: true, active: new Set(['stressLoss']) })
+  })
+  it('returns an error result on query failure', async () => {
+    const { client } = mockClient({ selectError: { message: 'boom' } })
+    expect(await fetchActiveBreaches(client, 'TwoPrime')).toEqual({ ok: false, error: 'boom' })
+  })
+})
+
+describe('saveRiskBreachEvent', () => {
+  const EV: RiskBreachEvent = { key: 'netDelta', kind: 'breach', value: 12, limit: '≤ 10%', detail: 'net delta limit breached', ts: '2026-08-13T00:00:00Z' }
+  it('inserts the event as a row', async () => {
+    const { client, q } = mockClient({})
+    expect(await saveRiskBreachEvent(client, 'TwoPrime', EV)).toEqual({ ok: true })
+    expect(q.insert).toHaveBeenCalledWith({
+      client_name: 'TwoPrime', breach_key: 'netDelta', kind: 'breach', value: 12,
+      limit_desc: '≤ 10%', detail: 'net delta limit breached', ts: '2026-08-13T00:00:00Z',
+    })
+  })
+  it('returns an error result on insert failure', async () => {
+    const { client } = mockClient({ insertError: { message: 'denied' } })
+    expect(await saveRiskBreachEvent(client, 'TwoPrime', EV)).toEqual({ ok: false, error: 'denied' })
+  })
+})
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DailySnapshot } from '@/features/clientPortal/dashboard/dailySnapshots'
+
+export type FetchDailySnapshotsResult = { ok: true; snapshots: DailySnapshot[] } | { ok: false; error: string }
+export type SaveDailySnapshotsResult = { ok: true } | { ok: false; error: string }
+
+// The table is append-only and PostgREST caps a response at 1000 rows by default; page
+// through longer histories so the newest days are not cut off.
+const PAGE = 1000
+
+const NUMBER_FIELDS = ['pnl', 'realized', 'unrealized', 'delta', 'gamma', 'theta', 'vega'] as const
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v)
+}
+
+// Validating map of an untyped row. Returns null on a malformed day or any non-numeric figure.
+export function mapDailySnapshotRow(row: unknown): DailySnapshot | null {
+  if (typeof row !== 'object' || row === null) return null
+  const o = row as Record<string, unknown>
+  if (typeof o.day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(o.day)) return null
+  if (o.equity != null && !isFiniteNumber(o.equity)) return null
+  for (const k of NUMBER_FIELDS) if (!isFiniteNumber(o[k])) return null
+  return {
+    day: o.day,
+    equity: (o.equity as number | null | undefined) ?? null,
+    equitySource: o.equity_source === 'hub' ? 'hub' : 'positions',
+    pnl: o.pnl as number,
+    realized: o.realized as number,
+    unrealized: o.unrealized as number,
+    delta: o.delta as number,
+    gamma: o.gamma as number,
+    theta: o.theta as number,
+    vega: o.vega as number,
+  }
+}
+
+// Newest recording per day, oldest day first, optionally from `since` (YYYY-MM-DD) onwards.
+export async function fetchDailySnapshots(
+  supabase: SupabaseClient,
+  clientName: string,
+  opts: { since?: string } = {},
+): Promise<FetchDailySnapshotsResult> {
+  const byDay = new Map<string, DailySnapshot>()
+  for (let from = 0; ; from += PAGE) {
+    let q = supabase
+      .from('client_daily_snapshots')
+      .select('day, equity, equity_source, pnl, realized, unrealized, delta, gamma, theta, vega, ts')
+      .eq('client_name', clientName)
+    if (opts.since) q = q.gte('day', opts.since)
+    const { data, error } = await q
+      .order('day', { ascending: true })
+      .order('ts', { ascending: false })
+      .range(from, from + PAGE - 1)
+    if (error) return { ok: false, error: error.message }
+    for (const s of (data ?? []).map(mapDailySnapshotRow)) {
+      if (s && !byDay.has(s.day)) byDay.set(s.day, s)
+    }
+    if ((data ?? []).length < PAGE) break
+  }
+  return { ok: true, snapshots: [...byDay.values()] }
+}
+
+export async function saveDailySnapshots(
+  supabase: SupabaseClient,
+  clientName: string,
+  snapshots: DailySnapshot[],
+): Promise<SaveDailySnapshotsResult> {
+  if (snapshots.length === 0) return { ok: true }
+  const { error } = await supabase.from('client_daily_snapshots').insert(snapshots.map((s) => ({
+    client_name: clientName, day: s.day, equity: s.equity, equity_source: s.equitySource,
+    pnl: s.pnl, realized: s.realized, unrealized: s.unrealized,
+    delta: s.delta, gamma: s.gamma, theta: s.theta, vega: s.vega,
+  })))
+  if (error) return { ok: false, error: error.message }
+  return { ok: true }
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { BREACH_KEYS, type BreachKey, type RiskBreachEvent } from '@/features/clientPortal/risk/breaches'
+
+export type FetchActiveBreachesResult = { ok: true; active: Set<BreachKey> } | { ok: false; error: string }
+export type SaveRiskBreachResult = { ok: true } | { ok: false; error: string }
+
+// Validating map of an untyped row. Returns null on a malformed row or unknown limit key.
+export function mapRiskBreachRow(row: unknown): RiskBreachEvent | null {
+  if (typeof row !== 'object' || row === null) return null
+  const o = row as Record<string, unknown>
+  if (typeof o.breach_key !== 'string' || !BREACH_KEYS.includes(o.breach_key as BreachKey)) return null
+  if (o.kind !== 'breach' && o.kind !== 'recovery') return null
+  if (typeof o.value !== 'number' || !Number.isFinite(o.value)) return null
+  if (typeof o.detail !== 'string' || typeof o.ts !== 'string') return null
+  const limit = typeof o.limit_desc === 'string' ? o.limit_desc : ''
+  return { key: o.breach_key as BreachKey, kind: o.kind, value: o.value, limit, detail: o.detail, ts: o.ts }
+}
+
+// Active breaches = limits whose newest event is a breach (no recovery recorded since).
+export async function fetchActiveBreaches(supabase: SupabaseClient, clientName: string): Promise<FetchActiveBreachesResult> {
+  const { data, error } = await supabase
+    .from('risk_breach_events')
+    .select('breach_key, kind, value, limit_desc, detail, ts')
+    .eq('client_name', clientName)
+    .order('ts', { ascending: false })
+  if (error) return { ok: false, error: error.message }
+  const seen = new Set<BreachKey>()
+  const active = new Set<BreachKey>()
+  for (const e of (data ?? []).map(mapRiskBreachRow)) {
+    if (!e || seen.has(e.key)) continue
+    seen.add(e.key)
+    if (e.kind === 'breach') active.add(e.key)
+  }
+  return { ok: true, active }
+}
+
+export async function saveRiskBreachEvent(supabase: SupabaseClient, clientName: string, event: RiskBreachEvent): Promise<SaveRiskBreachResult> {
+  const { error } = await supabase.from('risk_breach_events').insert({
+    client_name: clientName, breach_key: event.key, kind: event.kind, value: event.value,
+    limit_desc: event.limit, detail: event.detail, ts: event.ts,
+  })
+  if (error) return { ok: false, error: error.message }
+  return { ok: true }
+}
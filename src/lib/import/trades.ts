@@ -6,6 +6,8 @@ import { tryGetSupabaseClient } from "../supabase";
 import { syncLinkedStructures } from "../positions/syncLinkedStructures";
 import type { SupabaseClientScope } from "../positions/clientScope";
 import { payloadSchema } from "./validation";
+import { settlementFor } from "../pricing";
+import { analyzeStructure } from "../payoff";
 import type { ImportPayload } from "./types";
 
 type ImportTradesResult =
@@ -301,6 +303,17 @@ export async function importTrades(
 
   const { position: normalizedPosition, status: derivedStatus } = normalizeLifecycleState(position);
 
+  // Fill max gain / max loss from the legs when the payload leaves them blank.
+  const analytics = analyzeStructure(legs, {
+    settlement: settlementFor(normalizedPosition.provider, normalizedPosition.underlier),
+    multiplier: normalizedPosition.multiplier,
+    spot: normalizedPosition.spot,
+  });
+  if (analytics) {
+    if (normalizedPosition.max_gain == null) normalizedPosition.max_gain = analytics.maxGain;
+    if (normalizedPosition.max_loss == null) normalizedPosition.max_loss = analytics.maxLoss;
+  }
+
   const payloadClientName =
     typeof normalizedPosition.client_name === "string" ? normalizedPosition.client_name.trim() : "";
   const requestedClientName = options.clientScope?.clientName?.trim() || "";
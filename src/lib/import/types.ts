@@ -132,6 +132,8 @@ export type Fill = {
   rfq_id?: string | null;
   deal_id?: string | null;
   fees?: number | null;
+  /** Underlying index (USD) at fill time; converts coin-settled premiums to USD. */
+  index_price?: number | null;
   notes?: string | null;
 };
 
@@ -122,6 +122,7 @@ export const FillSchema = z.object({
   rfq_id: z.string().optional(),
   deal_id: z.string().optional(),
   fees: z.number().optional(),
+  index_price: z.number().positive().optional(),
   notes: z.string().optional(),
 });
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { toCoincallSymbol, type Position } from '@/utils'
+import type { MarginUsage } from '@/features/clientPortal/dashboard/marginModel'
+import { black76Price } from '@/lib/pricing'
+import {
+  standardMargin, portfolioMargin, riskMatrix, bookGreeks, PM_SPOT_SHOCKS, PM_IM_TO_MM, type MarginLeg,
+} from '../simulator'
+import { candidateMarginLegs, marginEquityUsd, positionMarginLegs, simulateMarginWhatIf } from '../whatIf'
+
+const NOW = Date.parse('2026-01-01T08:00:00Z')
+const EXPIRY = '2026-01-31'
+const SPOT = 100_000
+const YEARS = 30 / 365
+
+const leg = (over: Partial<MarginLeg>): MarginLeg => ({ strike: 100_000, expiryISO: EXPIRY, optionType: 'C', qty: -1, iv: 0.5, ...over })
+
+describe('standardMargin', () => {
+  it('margins a short OTM call at the 10% floor plus its mark', () => {
+    const short = leg({ strike: 110_000 })
+    const mark = black76Price({ forward: SPOT, strike: 110_000, years: YEARS, vol: 0.5, optionType: 'C' })
+    const m = standardMargin([short], SPOT, NOW)
+    expect(m.initialMargin).toBeCloseTo(0.1 * SPOT + mark, 6)
+    expect(m.maintenanceMargin).toBeCloseTo(0.075 * SPOT + mark, 6)
+  })
+
+  it('scales by contracts and needs nothing for long options', () => {
+    const one = standardMargin([leg({ optionType: 'P' })], SPOT, NOW)
+    const three = standardMargin([leg({ optionType: 'P', qty: -3 })], SPOT, NOW)
+    expect(three.initialMargin).toBeCloseTo(3 * one.initialMargin, 6)
+    expect(standardMargin([leg({ qty: 2 })], SPOT, NOW)).toEqual({ initialMargin: 0, maintenanceMargin: 0 })
+  })
+})
+
+describe('portfolioMargin', () => {
+  const spread = [leg({ strike: 100_000 }), leg({ strike: 110_000, qty: 1 })]
+
+  it('builds a risk matrix that is flat at the unshocked centre', () => {
+    const matrix = riskMatrix(spread, SPOT, NOW)
+    expect(matrix).toHaveLength(PM_SPOT_SHOCKS.length)
+    expect(matrix[PM_SPOT_SHOCKS.indexOf(0)][1]).toBeCloseTo(0, 9)
+  })
+
+  it('offsets hedged legs, so a call spread needs less than standard margin', () => {
+    const pm = portfolioMargin(spread, SPOT, NOW)
+    const sm = standardMargin(spread, SPOT, NOW)
+    expect(pm.maintenanceMargin).toBeGreaterThan(0)
+    expect(pm.maintenanceMargin).toBeLessThan(10_000) // bounded by the strike width
+    expect(pm.initialMargin).toBeCloseTo(pm.maintenanceMargin * PM_IM_TO_MM, 9)
+    expect(pm.initialMargin).toBeLessThan(sm.initialMargin)
+  })
+})
+
+describe('simulateMarginWhatIf', () => {
+  it('reports the change in margin, available funds, zone and greeks', () => {
+    const current = [leg({ optionType: 'P', strike: 90_000 })]
+    const candidate = [leg({ strike: 110_000, qty: -2 })]
+    const r = simulateMarginWhatIf({ current, candidate, spot: SPOT, equity: 30_000, mode: 'standard', now: NOW })
+    expect(r.delta.initialMargin).toBeCloseTo(standardMargin(candidate, SPOT, NOW).initialMargin, 6)
+    expect(r.delta.available).toBeCloseTo(-r.delta.initialMargin, 6)
+    expect(r.before.zone).toBe('ok')
+    expect(r.after.zone).toBe('high')
+    expect(r.delta.delta).toBeCloseTo(bookGreeks(candidate, SPOT, NOW).delta, 9)
+  })
+})
+
+describe('candidateMarginLegs', () => {
+  it('signs quantities by side, implies vol from the entered premium and skips incomplete legs', () => {
+    const coinPrice = black76Price({ forward: SPOT, strike: 110_000, years: YEARS, vol: 0.6, optionType: 'C' }) / SPOT
+    const legs = candidateMarginLegs(
+      [
+        { side: 'sell', option_type: 'call', expiry: EXPIRY, strike: 110_000, qty: 2, price: coinPrice },
+        { side: 'buy', option_type: 'put', expiry: EXPIRY, strike: 90_000, qty: 1 },
+        { side: 'buy', option_type: 'put', expiry: EXPIRY, qty: 1 },
+      ],
+      { spot: SPOT, vol: 0.45, now: NOW, exchange: 'deribit', underlying: 'BTC' },
+    )
+    expect(legs).toHaveLength(2)
+    expect(legs[0]).toMatchObject({ qty: -2, settlement: 'inverse' })
+    expect(legs[0].iv).toBeCloseTo(0.6, 6)
+    expect(legs[1]).toMatchObject({ qty: 1, iv: 0.45 })
+  })
+
+  it('scales by the venue contract multiplier from the live marks', () => {
+    const entered = [{ side: 'sell' as const, option_type: 'call' as const, expiry: EXPIRY, strike: 110_000, qty: 2 }]
+    const marks = { [`coincall:${toCoincallSymbol('BTC', EXPIRY, 110_000, 'call')}`]: { price: 100, multiplier: 0.01 } }
+    const [coincall] = candidateMarginLegs(entered, { spot: SPOT, vol: 0.5, now: NOW, exchange: 'coincall', underlying: 'BTC', marks })
+    expect(coincall).toMatchObject({ qty: -2, multiplier: 0.01 })
+    const [deribit] = candidateMarginLegs(entered, { spot: SPOT, vol: 0.5, now: NOW, exchange: 'deribit', underlying: 'BTC', marks })
+    expect(deribit.multiplier).toBe(1)
+  })
+})
+
+describe('marginEquityUsd', () => {
+  const margin = (ccy: string, marginBalance: number): MarginUsage => ({
+    ccy, marginBalance, initialMargin: 0, maintenanceMargin: 0, available: marginBalance, imUtilization: 0, zone: 'ok',
+    venues: [], asOf: null, stale: false, unconverted: [], unavailable: [],
+  })
+
+  it('takes a dollar margin balance as is and converts the underlying coin at spot', () => {
+    expect(marginEquityUsd(margin('USDC', 40_000), { spot: SPOT, underlying: 'BTC' })).toBe(40_000)
+    expect(marginEquityUsd(margin('BTC', 0.5), { spot: SPOT, underlying: 'BTC_USDC' })).toBe(50_000)
+  })
+
+  it('has no equity for another coin, without a spot or without a summary', () => {
+    expect(marginEquityUsd(margin('ETH', 10), { spot: SPOT, underlying: 'BTC' })).toBeNull()
+    expect(marginEquityUsd(margin('BTC', 0.5), { underlying: 'BTC' })).toBeNull()
+    expect(marginEquityUsd(null, { spot: SPOT, underlying: 'BTC' })).toBeNull()
+  })
+})
+
+describe('positionMarginLegs', () => {
+  const position = (id: string, underlying: string, status: Position['status']): Position => ({
+    id, underlying, expiryISO: '2099-01-30', dte: 1, legsCount: 1, type: 'Single', realizedPnl: 0, netPremium: 0,
+    status, greeks: {}, exchange: 'deribit',
+    legs: [{ key: `${id}-l`, strike: 100_000, optionType: 'C', openLots: [], realizedPnl: 0, netPremium: 0, qtyNet: -1, trades: [] }],
+  })
+
+  it('keeps open legs on the requested underlying only', () => {
+    const legs = positionMarginLegs(
+      [position('a', 'BTC', 'OPEN'), position('b', 'ETH', 'OPEN'), position('c', 'BTC', 'CLOSED')],
+      'btc', { spot: SPOT, vol: 0.5 },
+    )
+    expect(legs).toEqual([expect.objectContaining({ strike: 100_000, qty: -1, iv: 0.5, expiryISO: '2099-01-30' })])
+  })
+})
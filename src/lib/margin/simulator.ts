@@ -0,0 +1,140 @@
+// Local what-if margin simulator approximating Deribit's option margin rules.
+//
+// Everything is computed offline from strikes, expiries, quantities and volatilities, so it
+// runs without a venue session. Amounts are USD; a venue account margins each currency
+// separately, so callers pass the legs of one underlying at a time.
+//
+// Standard margin (SM) margins every short option on its own:
+//   short call  IM = max(0.15 − OTM/S, 0.10)·S + mark      MM = 0.075·S + mark
+//   short put   IM = max(max(0.15 − OTM/S, 0.10)·S + mark, MM)
+//               MM = max(0.075·S, 0.075·mark) + mark
+// Long options need no margin (the premium is paid up front).
+//
+// Portfolio margin (PM) reprices the whole book over a risk matrix of spot moves and
+// term-scaled vol shocks; MM is the worst scenario loss and IM a fixed multiple of it.
+// Contingency add-ons and collateral haircuts are not modelled.
+
+import { black76Greeks, black76Price, yearsToExpiry, type Settlement } from '@/lib/pricing'
+
+export type MarginMode = 'standard' | 'portfolio'
+
+export type MarginLeg = {
+  strike: number
+  expiryISO: string
+  optionType: string
+  /** Signed contracts: positive long, negative short. */
+  qty: number
+  /** Volatility as a decimal fraction. */
+  iv: number
+  settlement?: Settlement
+  /** Underlying units per contract (1 for Deribit coin options). */
+  multiplier?: number
+}
+
+export type MarginFigures = { initialMargin: number; maintenanceMargin: number }
+
+export type PortfolioGreeks = { delta: number; gamma: number; vega: number; theta: number }
+
+export const SM_SHORT_IM_BASE = 0.15
+export const SM_SHORT_IM_FLOOR = 0.1
+export const SM_SHORT_MM = 0.075
+
+export const PM_SPOT_SHOCKS = [-16, -12, -8, -4, 0, 4, 8, 12, 16]
+export const PM_VOL_UP = 0.45
+export const PM_VOL_DOWN = 0.3
+export const PM_VOL_REF_DAYS = 30
+export const PM_VOL_TERM_POWER = 0.3
+export const PM_IM_TO_MM = 1.2
+
+const MIN_VOL = 0.01
+// Caps the term scaling so very short-dated vol-down shocks cannot drive vol to zero.
+const MAX_TERM_SCALE = 3
+
+const mult = (leg: MarginLeg) => leg.multiplier ?? 1
+
+function legYears(leg: MarginLeg, now: number) {
+  return yearsToExpiry(leg.expiryISO, now)
+}
+
+/** Model value of one contract in USD. */
+export function legValueUsd(leg: MarginLeg, spot: number, vol: number, now: number): number {
+  return black76Price({ forward: spot, strike: leg.strike, years: legYears(leg, now), vol, optionType: leg.optionType })
+}
+
+function shortOptionMargin(leg: MarginLeg, spot: number, now: number): MarginFigures {
+  const mark = legValueUsd(leg, spot, leg.iv, now)
+  const isCall = leg.optionType.toUpperCase().startsWith('C')
+  const otm = isCall ? Math.max(leg.strike - spot, 0) : Math.max(spot - leg.strike, 0)
+  const base = Math.max(SM_SHORT_IM_BASE - otm / spot, SM_SHORT_IM_FLOOR) * spot + mark
+  if (isCall) return { initialMargin: base, maintenanceMargin: SM_SHORT_MM * spot + mark }
+  const mm = Math.max(SM_SHORT_MM * spot, SM_SHORT_MM * mark) + mark
+  return { initialMargin: Math.max(base, mm), maintenanceMargin: mm }
+}
+
+export function standardMargin(legs: MarginLeg[], spot: number, now: number = Date.now()): MarginFigures {
+  let initialMargin = 0
+  let maintenanceMargin = 0
+  for (const leg of legs) {
+    if (!(leg.qty < 0) || legYears(leg, now) <= 0) continue
+    const m = shortOptionMargin(leg, spot, now)
+    const contracts = -leg.qty * mult(leg)
+    initialMargin += m.initialMargin * contracts
+    maintenanceMargin += m.maintenanceMargin * contracts
+  }
+  return { initialMargin, maintenanceMargin }
+}
+
+/** Relative vol shocks [down, 0, up] for a leg, steeper for short tenors. */
+export function pmVolShocks(leg: MarginLeg, now: number): [number, number, number] {
+  const days = Math.max(legYears(leg, now) * 365, 1)
+  const scale = Math.min(MAX_TERM_SCALE, Math.pow(PM_VOL_REF_DAYS / days, PM_VOL_TERM_POWER))
+  return [-PM_VOL_DOWN * scale, 0, PM_VOL_UP * scale]
+}
+
+/**
+ * Book PnL (USD) under each PM scenario. Rows follow `PM_SPOT_SHOCKS`; columns are the
+ * vol-down, unchanged and vol-up shocks (each leg shocked by its own term-scaled amount).
+ */
+export function riskMatrix(legs: MarginLeg[], spot: number, now: number = Date.now()): number[][] {
+  const grid = PM_SPOT_SHOCKS.map(() => [0, 0, 0])
+  for (const leg of legs) {
+    if (legYears(leg, now) <= 0) continue
+    const base = legValueUsd(leg, spot, leg.iv, now)
+    const shocks = pmVolShocks(leg, now)
+    PM_SPOT_SHOCKS.forEach((s, r) => {
+      const shockedSpot = spot * (1 + s / 100)
+      shocks.forEach((v, c) => {
+        const vol = Math.max(MIN_VOL, leg.iv * (1 + v))
+        grid[r][c] += (legValueUsd(leg, shockedSpot, vol, now) - base) * leg.qty * mult(leg)
+      })
+    })
+  }
+  return grid
+}
+
+export function portfolioMargin(legs: MarginLeg[], spot: number, now: number = Date.now()): MarginFigures & { matrix: number[][] } {
+  const matrix = riskMatrix(legs, spot, now)
+  const worst = Math.min(0, ...matrix.flat())
+  const maintenanceMargin = -worst
+  return { initialMargin: maintenanceMargin * PM_IM_TO_MM, maintenanceMargin, matrix }
+}
+
+export function marginFor(mode: MarginMode, legs: MarginLeg[], spot: number, now: number = Date.now()): MarginFigures {
+  return mode === 'portfolio' ? portfolioMargin(legs, spot, now) : standardMargin(legs, spot, now)
+}
+
+/** Net model greeks of the legs (delta in underlying, gamma per USD, vega/theta in USD). */
+export function bookGreeks(legs: MarginLeg[], spot: number, now: number = Date.now()): PortfolioGreeks {
+  const g: PortfolioGreeks = { delta: 0, gamma: 0, vega: 0, theta: 0 }
+  for (const leg of legs) {
+    const years = legYears(leg, now)
+    if (years <= 0) continue
+    const lg = black76Greeks({ forward: spot, strike: leg.strike, years, vol: leg.iv, optionType: leg.optionType })
+    const n = leg.qty * mult(leg)
+    g.delta += lg.delta * n
+    g.gamma += lg.gamma * n
+    g.vega += lg.vega * n
+    g.theta += lg.theta * n
+  }
+  return g
+}
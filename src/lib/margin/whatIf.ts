@@ -0,0 +1,154 @@
+import { impliedVolFromMark, settlementFor } from '@/lib/pricing'
+import type { Leg as ImportLeg } from '@/lib/import/types'
+import { venueAdapter } from '@/lib/venues/registry'
+import {
+  getLegMarkRef, legModelInputs, legNetQty, markMultiplier,
+  type Exchange, type LegMarkRef, type MarksMap, type Position, type TxnRow,
+} from '@/utils'
+import { normalizeReportingCurrency } from '@/lib/clientPortal/reportingCurrencyRepo'
+import { USD_LIKE, utilizationZone, type MarginUsage, type UtilizationZone } from '@/features/clientPortal/dashboard/marginModel'
+import { bookGreeks, marginFor, type MarginLeg, type MarginMode, type PortfolioGreeks } from './simulator'
+
+export type MarginSnapshot = {
+  initialMargin: number
+  maintenanceMargin: number
+  available: number
+  utilization: number
+  zone: UtilizationZone
+  greeks: PortfolioGreeks
+}
+
+export type MarginWhatIf = {
+  before: MarginSnapshot
+  after: MarginSnapshot
+  delta: { initialMargin: number; maintenanceMargin: number; available: number; utilization: number } & PortfolioGreeks
+}
+
+/** Spot (USD) and fallback volatility used when a leg has no mark to price from. */
+export type WhatIfContext = { spot: number; vol: number; now?: number; marks?: MarksMap }
+
+/** Open legs of the given positions on one underlying, priced for the simulator. */
+export function positionMarginLegs(positions: Position[], underlying: string, ctx: WhatIfContext): MarginLeg[] {
+  const out: MarginLeg[] = []
+  const u = underlying.toUpperCase()
+  for (const p of positions) {
+    if (p.status === 'CLOSED' || p.underlying.toUpperCase() !== u) continue
+    for (const leg of p.legs) {
+      const qty = legNetQty(leg)
+      if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) continue
+      const ref = getLegMarkRef(p, leg)
+      const info = ref ? ctx.marks?.[ref.key] : undefined
+      const inputs = legModelInputs(p, leg, info, { spot: ctx.spot, vol: ctx.vol, now: ctx.now })
+      if (!inputs) continue
+      const multiplier = ref ? markMultiplier(ref, info) || ref.defaultMultiplier : undefined
+      out.push({
+        strike: inputs.strike, expiryISO: inputs.expiryISO, optionType: inputs.optionType,
+        qty, iv: inputs.iv, settlement: inputs.settlement, multiplier,
+      })
+    }
+  }
+  return out
+}
+
+/** Mark reference of a candidate leg on its venue, built as `getLegMarkRef` builds a held leg's. */
+function candidateMarkRef(exchange: string, underlying: string | null | undefined, expiryISO: string, strike: number, optionType: string): LegMarkRef | null {
+  const adapter = venueAdapter(exchange)
+  const symbol = adapter && underlying ? adapter.toSymbol(underlying, expiryISO, strike, optionType) : null
+  if (!adapter || !symbol) return null
+  return { key: `${exchange}:${symbol}`, symbol, exchange: exchange as Exchange, defaultMultiplier: adapter.contractMultiplier(symbol) ?? 1 }
+}
+
+/**
+ * Candidate legs as entered in the structure form. The entered price is the premium in the
+ * venue's premium currency and is used to imply each leg's vol; incomplete legs are skipped.
+ * Quantities are in contracts, scaled by the venue's contract multiplier like held legs.
+ */
+export function candidateMarginLegs(
+  legs: Array<Partial<ImportLeg>>,
+  opts: WhatIfContext & { exchange?: string | null; underlying?: string | null },
+): MarginLeg[] {
+  const exchange = opts.exchange ?? 'deribit'
+  const settlement = settlementFor(exchange, opts.underlying)
+  const out: MarginLeg[] = []
+  for (const leg of legs) {
+    const { strike, expiry, option_type, qty, side, price } = leg
+    if (!(strike != null && strike > 0) || !expiry || !option_type || !(qty != null && qty > 0) || !side) continue
+    const implied = price != null && price > 0
+      ? impliedVolFromMark({ spot: opts.spot, strike, expiryISO: expiry, optionType: option_type, settlement, markPrice: price, now: opts.now })
+      : null
+    const ref = candidateMarkRef(exchange, opts.underlying, expiry, strike, option_type)
+    const multiplier = ref ? markMultiplier(ref, opts.marks?.[ref.key]) || ref.defaultMultiplier : undefined
+    out.push({
+      strike, expiryISO: expiry, optionType: option_type, settlement,
+      qty: side === 'sell' ? -qty : qty, iv: implied ?? opts.vol, multiplier,
+    })
+  }
+  return out
+}
+
+/** Candidate legs of a structure still being imported, one per trade row. */
+export function candidateLegsFromRows(rows: TxnRow[]): Array<Partial<ImportLeg>> {
+  return rows.map((r, i) => ({
+    leg_seq: i + 1,
+    side: r.side === 'buy' || r.side === 'sell' ? r.side : undefined,
+    option_type: !r.optionType ? undefined : r.optionType.toUpperCase().startsWith('P') ? 'put' : 'call',
+    expiry: r.expiry,
+    strike: r.strike,
+    qty: Math.abs(r.amount),
+    price: r.price,
+  }))
+}
+
+/**
+ * Account equity in USD from the Hub margin summary: its margin balance when reported in
+ * dollars, or converted at `spot` when reported in the underlying's coin. Null otherwise.
+ */
+export function marginEquityUsd(margin: MarginUsage | null | undefined, opts: { spot?: number | null; underlying?: string | null }): number | null {
+  if (!margin) return null
+  const ccy = normalizeReportingCurrency(margin.ccy)
+  if (ccy && USD_LIKE.has(ccy)) return margin.marginBalance
+  const base = normalizeReportingCurrency((opts.underlying ?? '').split('_')[0])
+  return ccy != null && ccy === base && opts.spot != null && opts.spot > 0 ? margin.marginBalance * opts.spot : null
+}
+
+function snapshot(mode: MarginMode, legs: MarginLeg[], spot: number, equity: number, now: number): MarginSnapshot {
+  const m = marginFor(mode, legs, spot, now)
+  const utilization = equity > 0 ? m.initialMargin / equity : m.initialMargin > 0 ? 1 : 0
+  return {
+    initialMargin: m.initialMargin,
+    maintenanceMargin: m.maintenanceMargin,
+    available: equity - m.initialMargin,
+    utilization,
+    zone: utilizationZone(utilization),
+    greeks: bookGreeks(legs, spot, now),
+  }
+}
+
+/** Margin and greeks of the current book before and after adding the candidate legs. */
+export function simulateMarginWhatIf(params: {
+  current: MarginLeg[]
+  candidate: MarginLeg[]
+  spot: number
+  /** Account equity in USD, the denominator of IM utilization. */
+  equity: number
+  mode: MarginMode
+  now?: number
+}): MarginWhatIf {
+  const now = params.now ?? Date.now()
+  const before = snapshot(params.mode, params.current, params.spot, params.equity, now)
+  const after = snapshot(params.mode, [...params.current, ...params.candidate], params.spot, params.equity, now)
+  return {
+    before,
+    after,
+    delta: {
+      initialMargin: after.initialMargin - before.initialMargin,
+      maintenanceMargin: after.maintenanceMargin - before.maintenanceMargin,
+      available: after.available - before.available,
+      utilization: after.utilization - before.utilization,
+      delta: after.greeks.delta - before.greeks.delta,
+      gamma: after.greeks.gamma - before.greeks.gamma,
+      vega: after.greeks.vega - before.greeks.vega,
+      theta: after.greeks.theta - before.greeks.theta,
+    },
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import type { Leg, Position } from '@/utils'
+import {
+  dayWindow, explainMove, portfolioExplain, programExplains, recentDays, structureExplain, sumExplains,
+} from '../attribution'
+import type { MarkSnapshot } from '../markSnapshotsRepo'
+
+const CALL = 'BTC-25DEC26-100000-C'
+const PUT = 'BTC-25DEC26-90000-P'
+
+const snap = (instrument: string, ts: string, mark: number, indexPrice: number, iv: number): MarkSnapshot => ({
+  key: `deribit:${instrument}`, exchange: 'deribit', instrument, ts, mark,
+  bid: null, ask: null, iv, indexPrice, multiplier: 1,
+  greeks: { delta: 0.5, gamma: 0.00002, theta: -40, vega: 120, rho: null },
+})
+
+const leg = (key: string, strike: number, optionType: 'C' | 'P', qty: number, over: Partial<Leg> = {}): Leg => ({
+  key, strike, optionType, realizedPnl: 0, netPremium: 0, qtyNet: qty, trades: [],
+  openLots: [{ qty: Math.abs(qty), price: 0.05, sign: qty < 0 ? -1 : 1 }],
+  ...over,
+})
+
+const position = (over: Partial<Position> = {}): Position => ({
+  id: 'p1', underlying: 'BTC', expiryISO: '2026-12-25', dte: 67, legsCount: 2, type: 'Multi-leg',
+  realizedPnl: 0, netPremium: 0, status: 'OPEN', greeks: {}, exchange: 'deribit', programName: 'Core',
+  legs: [leg('c', 100_000, 'C', 2), leg('p', 90_000, 'P', -1)],
+  ...over,
+})
+
+const DAY = '2026-10-18'
+const WINDOW = dayWindow(DAY, Date.parse('2026-10-19T12:00:00Z'))
+
+describe('explainMove', () => {
+  it('splits a USD value change into greek terms and a residual', () => {
+    const e = explainMove({
+      exposure: 2, greeks: { delta: 0.5, gamma: 0.00002, vega: 120, theta: -40 },
+      spot0: 100_000, spot1: 101_000, iv0: 0.5, iv1: 0.52, value0: 5_000, value1: 5_700, days: 1,
+    })
+    expect(e.delta).toBeCloseTo(1_000, 9)
+    expect(e.gamma).toBeCloseTo(20, 9)
+    expect(e.vega).toBeCloseTo(480, 9)
+    expect(e.theta).toBeCloseTo(-80, 9)
+    expect(e.total).toBeCloseTo(1_400, 9)
+    expect(e.residual).toBeCloseTo(-20, 9)
+  })
+  it('leaves the vol move to the residual without both IVs', () => {
+    const e = explainMove({
+      exposure: 1, greeks: { vega: 100 }, spot0: 1, spot1: 1, iv0: null, iv1: 0.6, value0: 10, value1: 12, days: 0,
+    })
+    expect(e.vega).toBe(0)
+    expect(e.residual).toBe(2)
+  })
+})
+
+describe('windows', () => {
+  it('cuts today off at now', () => {
+    expect(dayWindow('2026-10-19', Date.parse('2026-10-19T12:00:00Z'))).toEqual({
+      from: Date.parse('2026-10-19T00:00:00Z'), to: Date.parse('2026-10-19T12:00:00Z'),
+    })
+    expect(WINDOW.to - WINDOW.from).toBe(86_400_000)
+    expect(recentDays(3, Date.parse('2026-10-19T12:00:00Z'))).toEqual(['2026-10-19', '2026-10-18', '2026-10-17'])
+  })
+})
+
+describe('structureExplain', () => {
+  const snapshots = [
+    snap(CALL, '2026-10-17T20:00:00Z', 0.05, 100_000, 0.5),
+    snap(PUT, '2026-10-17T20:00:00Z', 0.02, 100_000, 0.55),
+    snap(CALL, '2026-10-18T12:00:00Z', 0.055, 101_000, 0.51),
+    snap(CALL, '2026-10-18T20:00:00Z', 0.057, 102_000, 0.52),
+    snap(PUT, '2026-10-18T20:00:00Z', 0.015, 102_000, 0.54),
+    snap(CALL, '2026-10-19T08:00:00Z', 0.08, 105_000, 0.6),
+  ]
+
+  it('explains each leg from the last mark before the day to the last mark in it', () => {
+    const e = structureExplain(position(), snapshots, WINDOW)
+    expect(e.missing).toBe(0)
+    const call = e.legs.find((l) => l.key === `deribit:${CALL}`)!
+    // Inverse marks in USD: 0.057·102k − 0.05·100k = 814 per contract, 2 contracts.
+    expect(call.total).toBeCloseTo(2 * 814, 6)
+    expect(call.delta).toBeCloseTo(2 * 0.5 * 2_000, 6)
+    expect(call.vega).toBeCloseTo(2 * 120 * 2, 6)
+    expect(call.theta).toBeCloseTo(2 * -40, 6)
+    const put = e.legs.find((l) => l.key === `deribit:${PUT}`)!
+    expect(put.total).toBeCloseTo(-(0.015 * 102_000 - 0.02 * 100_000), 6)
+    expect(put.vega).toBeCloseTo(-120 * -1, 6)
+  })
+
+  it('rolls legs up so the terms always sum to the total', () => {
+    const e = structureExplain(position(), snapshots, WINDOW)
+    expect(e.total).toBeCloseTo(e.legs[0].total + e.legs[1].total, 9)
+    expect(e.delta + e.gamma + e.vega + e.theta + e.residual).toBeCloseTo(e.total, 9)
+  })
+
+  it('counts legs without marks on both sides as missing and skips flat legs', () => {
+    const p = position({
+      legs: [
+        leg('c', 100_000, 'C', 2),
+        leg('p', 90_000, 'P', -1),
+        leg('x', 80_000, 'P', 1),
+        leg('flat', 110_000, 'C', 0, { openLots: [] }),
+      ],
+    })
+    const e = structureExplain(p, snapshots, WINDOW)
+    expect(e.legs).toHaveLength(2)
+    expect(e.missing).toBe(1)
+  })
+
+  it('uses the quantity held at the start of the day', () => {
+    const trade = (amount: number, timestamp: string) => ({ instrument: CALL, side: 'buy', action: 'open', amount, price: 0.05, timestamp })
+    const p = position({
+      legs: [leg('c', 100_000, 'C', 3, {
+        openLots: [{ qty: 3, price: 0.05, sign: 1 }],
+        trades: [trade(1, '2026-10-10T00:00:00Z'), trade(2, '2026-10-18T10:00:00Z')],
+      })],
+    })
+    const e = structureExplain(p, snapshots, WINDOW)
+    expect(e.total).toBeCloseTo(814, 6)
+  })
+})
+
+describe('rollups', () => {
+  const snapshots = [
+    snap(CALL, '2026-10-17T20:00:00Z', 0.05, 100_000, 0.5),
+    snap(CALL, '2026-10-18T20:00:00Z', 0.057, 102_000, 0.52),
+  ]
+  const a = position({ id: 'a', legs: [leg('c', 100_000, 'C', 1)] })
+  const b = position({ id: 'b', legs: [leg('c', 100_000, 'C', -1)], programName: 'Hedge' })
+  const c = position({ id: 'c', legs: [leg('c', 100_000, 'C', 2)] })
+
+  it('groups structures by program', () => {
+    const programs = programExplains([a, b, c].map((p) => structureExplain(p, snapshots, WINDOW)))
+    expect(programs.map((p) => [p.programName, p.structures])).toEqual([['Core', 2], ['Hedge', 1]])
+    expect(programs[0].total).toBeCloseTo(3 * 814, 6)
+    expect(programs[1].total).toBeCloseTo(-814, 6)
+  })
+
+  it('totals the client book across programs', () => {
+    const book = portfolioExplain([a, b, c], snapshots, WINDOW)
+    expect(book.total.total).toBeCloseTo(2 * 814, 6)
+    expect(book.total).toEqual(sumExplains(book.programs))
+    expect(book.missing).toBe(0)
+  })
+})
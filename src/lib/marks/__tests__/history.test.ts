@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import type { Leg, Position, TxnRow } from '@/utils'
+import { historyMarkKeys, legAsOf, portfolioHistory, structureHistory } from '../history'
+import type { MarkSnapshot } from '../markSnapshotsRepo'
+
+const trade = (side: 'buy' | 'sell', action: 'open' | 'close', amount: number, price: number, timestamp: string): TxnRow => ({
+  instrument: 'BTC-25DEC26-100000-C', side, action, amount, price, timestamp,
+})
+
+const leg = (over: Partial<Leg> = {}): Leg => ({
+  key: 'a', strike: 100_000, optionType: 'C', realizedPnl: 0.03, netPremium: -0.1, qtyNet: 1,
+  openLots: [{ qty: 1, price: 0.05, sign: 1 }],
+  trades: [
+    trade('buy', 'open', 2, 0.05, '2026-10-01T00:00:00Z'),
+    trade('sell', 'close', 1, 0.08, '2026-10-10T00:00:00Z'),
+  ],
+  ...over,
+})
+
+const position = (over: Partial<Position> = {}): Position => ({
+  id: 'p1', underlying: 'BTC', expiryISO: '2026-12-25', dte: 67, legsCount: 1, type: 'Single',
+  realizedPnl: 0.03, netPremium: -0.1, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  legs: [leg()],
+  ...over,
+})
+
+const snap = (instrument: string, ts: string, mark: number, delta: number): MarkSnapshot => ({
+  key: `deribit:${instrument}`, exchange: 'deribit', instrument, ts, mark,
+  bid: null, ask: null, iv: 0.5, indexPrice: 100_000, multiplier: 1,
+  greeks: { delta, gamma: 0.00001, theta: -10, vega: 50, rho: null },
+})
+
+describe('legAsOf', () => {
+  it('replays only the trades executed by then', () => {
+    const before = legAsOf(leg(), Date.parse('2026-10-05T00:00:00Z'))
+    expect(before.qtyNet).toBe(2)
+    expect(before.realizedPnl).toBe(0)
+    const after = legAsOf(leg(), Date.parse('2026-10-15T00:00:00Z'))
+    expect(after.qtyNet).toBe(1)
+    expect(after.realizedPnl).toBeCloseTo(0.03, 12)
+  })
+  it('keeps legs without trade timestamps as they stand', () => {
+    const l = leg({ trades: [] })
+    expect(legAsOf(l, 0)).toBe(l)
+  })
+})
+
+describe('structureHistory', () => {
+  const snapshots = [
+    snap('BTC-25DEC26-100000-C', '2026-09-30T00:00:00Z', 0.04, 0.45),
+    snap('BTC-25DEC26-100000-C', '2026-10-05T00:00:00Z', 0.06, 0.5),
+    snap('BTC-25DEC26-90000-C', '2026-10-06T00:00:00Z', 0.2, 0.9),
+    snap('BTC-25DEC26-100000-C', '2026-10-15T00:00:00Z', 0.07, 0.6),
+  ]
+
+  it('values the position held at each snapshot from the first trade on', () => {
+    const h = structureHistory(position(), snapshots)
+    expect(h.map((pt) => new Date(pt.t).toISOString().slice(0, 10))).toEqual(['2026-10-05', '2026-10-15'])
+    expect(h[0].realized).toBe(0)
+    expect(h[0].unrealized).toBeCloseTo(0.02, 12)
+    expect(h[0].delta).toBeCloseTo(1, 12)
+    expect(h[1].realized).toBeCloseTo(0.03, 12)
+    expect(h[1].unrealized).toBeCloseTo(0.02, 12)
+    expect(h[1].pnl).toBeCloseTo(0.05, 12)
+    expect(h[1].delta).toBeCloseTo(0.6, 12)
+  })
+
+  it('lists the mark keys of expired legs too', () => {
+    expect(historyMarkKeys([position({ expiryISO: '2020-01-03' })])).toEqual(['deribit:BTC-3JAN20-100000-C'])
+  })
+})
+
+describe('portfolioHistory', () => {
+  it('sums structures on shared timestamps, carrying each forward and zeroing greeks after expiry', () => {
+    const short = position({
+      id: 'p2', expiryISO: '2026-10-12',
+      legs: [leg({ trades: [trade('sell', 'open', 1, 0.02, '2026-10-02T00:00:00Z')], openLots: [{ qty: 1, price: 0.02, sign: -1 }], qtyNet: -1 })],
+    })
+    const h = portfolioHistory([position(), short], [
+      snap('BTC-25DEC26-100000-C', '2026-10-05T00:00:00Z', 0.06, 0.5),
+      snap('BTC-12OCT26-100000-C', '2026-10-06T00:00:00Z', 0.01, 0.3),
+      snap('BTC-12OCT26-100000-C', '2026-10-13T00:00:00Z', 0, 0.3),
+    ])
+    expect(h).toHaveLength(3)
+    // 10-06: long leg carried forward (+0.02, Δ 1) plus the short at 0.01 (+0.01, Δ −0.3).
+    expect(h[1].pnl).toBeCloseTo(0.03, 12)
+    expect(h[1].delta).toBeCloseTo(0.7, 12)
+    // 10-13: short expired worthless; its PnL stays, its greeks drop out.
+    expect(h[2].pnl).toBeCloseTo(0.04, 12)
+    expect(h[2].delta).toBeCloseTo(1, 12)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchMarkSnapshots, mapMarkSnapshotRow, saveMarkSnapshots, snapshotRowsFromMarks } from '../markSnapshotsRepo'
+
+function mockClient(over: { pages?: unknown[][]; selectError?: { message: string } | null; insertError?: { message: string } | null }) {
+  const pages = [...(over.pages ?? [[]])]
+  const q = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
+    gte: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    range: vi.fn().mockImplementation(async () => ({ data: pages.shift() ?? [], error: over.selectError ?? null })),
+    insert: vi.fn().mockResolvedValue({ error: over.insertError ?? null }),
+  }
+  const from = vi.fn().mockReturnValue(q)
+  return { client: { from } as unknown as SupabaseClient, from, q }
+}
+
+const TS = '2026-10-19T08:00:00.000Z'
+const row = (instrument: string, ts: string, mark: number | null = 0.05) => ({
+  exchange: 'deribit', instrument, ts, mark, bid: 0.049, ask: 0.051, iv: 0.55,
+  delta: 0.5, gamma: 0.00002, theta: -12, vega: 80, rho: null, index_price: 100_000, multiplier: 1,
+})
+
+describe('snapshotRowsFromMarks', () => {
+  it('flattens marks into rows and skips entries without a price or a venue prefix', () => {
+    const rows = snapshotRowsFromMarks({
+      'deribit:BTC-27DEC26-100000-C': {
+        price: 0.05, multiplier: 1, iv: 0.55, indexPrice: 100_000, bid: 0.049, ask: 0.051,
+        greeks: { delta: 0.5, gamma: 0.00002, theta: -12, vega: 80 },
+      },
+      'deribit:BTC-27DEC26-90000-P': { price: null, multiplier: 1 },
+      'BTC-27DEC26-80000-P': { price: 0.01, multiplier: 1 },
+    }, TS, 'refresh')
+    expect(rows).toEqual([{
+      exchange: 'deribit', instrument: 'BTC-27DEC26-100000-C', ts: TS, source: 'refresh',
+      mark: 0.05, bid: 0.049, ask: 0.051, iv: 0.55, index_price: 100_000, multiplier: 1,
+      delta: 0.5, gamma: 0.00002, theta: -12, vega: 80, rho: null,
+    }])
+  })
+})
+
+describe('mapMarkSnapshotRow', () => {
+  it('maps a row back to a keyed snapshot', () => {
+    expect(mapMarkSnapshotRow(row('BTC-27DEC26-100000-C', TS))).toEqual({
+      key: 'deribit:BTC-27DEC26-100000-C', exchange: 'deribit', instrument: 'BTC-27DEC26-100000-C', ts: TS,
+      mark: 0.05, bid: 0.049, ask: 0.051, iv: 0.55, indexPrice: 100_000, multiplier: 1,
+      greeks: { delta: 0.5, gamma: 0.00002, theta: -12, vega: 80, rho: null },
+    })
+  })
+  it('returns null without a mark or identifying fields', () => {
+    expect(mapMarkSnapshotRow(row('X', TS, null))).toBeNull()
+    expect(mapMarkSnapshotRow({ ...row('X', TS), instrument: 7 })).toBeNull()
+    expect(mapMarkSnapshotRow(null)).toBeNull()
+  })
+})
+
+describe('saveMarkSnapshots', () => {
+  const marks = { 'deribit:A': { price: 0.05, multiplier: 1 } }
+  it('inserts one row per priced mark', async () => {
+    const { client, from, q } = mockClient({})
+    expect(await saveMarkSnapshots(client, marks, { ts: TS, source: 'schedule' })).toEqual({ ok: true, saved: 1 })
+    expect(from).toHaveBeenCalledWith('mark_snapshots')
+    expect(q.insert.mock.calls[0][0]).toEqual([expect.objectContaining({ exchange: 'deribit', instrument: 'A', source: 'schedule', ts: TS })])
+  })
+  it('skips the insert when nothing is priced', async () => {
+    const { client, q } = mockClient({})
+    expect(await saveMarkSnapshots(client, {}, { source: 'refresh' })).toEqual({ ok: true, saved: 0 })
+    expect(q.insert).not.toHaveBeenCalled()
+  })
+  it('returns an error result on insert failure', async () => {
+    const { client } = mockClient({ insertError: { message: 'denied' } })
+    expect(await saveMarkSnapshots(client, marks, { source: 'refresh' })).toEqual({ ok: false, error: 'denied' })
+  })
+})
+
+describe('fetchMarkSnapshots', () => {
+  it('queries per venue, pages through full responses and returns snapshots oldest first', async () => {
+    const full = Array.from({ length: 1000 }, (_, i) => row('A', new Date(Date.parse(TS) + (i + 1) * 60_000).toISOString()))
+    const { client, q } = mockClient({ pages: [full, [row('B', TS)]] })
+    const r = await fetchMarkSnapshots(client, ['deribit:A', 'deribit:B', 'deribit:A'], { since: '2026-10-01T00:00:00Z' })
+    expect(q.eq).toHaveBeenCalledWith('exchange', 'deribit')
+    expect(q.in).toHaveBeenCalledWith('instrument', ['A', 'B'])
+    expect(q.gte).toHaveBeenCalledWith('ts', '2026-10-01T00:00:00Z')
+    expect(q.range.mock.calls).toEqual([[0, 999], [1000, 1999]])
+    if (!r.ok) throw new Error(r.error)
+    expect(r.snapshots).toHaveLength(1001)
+    expect(r.snapshots[0].key).toBe('deribit:B')
+  })
+  it('returns an error result on query failure', async () => {
+    const { client } = mockClient({ selectError: { message: 'boom' } })
+    expect(await fetchMarkSnapshots(client, ['deribit:A'])).toEqual({ ok: false, error: 'boom' })
+  })
+})
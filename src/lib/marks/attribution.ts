@@ -0,0 +1,191 @@
+// Greek-based PnL explain. A leg's PnL over a window is split into the moves its
+// start-of-window greeks predict from the end-of-window spot, IV and elapsed time:
+//   delta = Δ·dS, gamma = ½·Γ·dS², vega = V·dσ (vol points), theta = Θ·dt (days)
+// and whatever the greeks miss (higher orders, cross terms, stale marks) is the residual.
+// Greeks follow the venue ticker conventions, so everything is measured in USD; inverse
+// marks are converted at the index price of each snapshot.
+
+import { settlementFor } from '@/lib/pricing'
+import {
+  getLegMarkRef, legGreeks, legNetQty, markMultiplier,
+  type Leg, type LegMarkRef, type Position,
+} from '@/utils'
+import { legAsOf, legExpiryTime } from './history'
+import { snapshotMark, type MarkSnapshot } from './markSnapshotsRepo'
+
+export type PnlExplain = {
+  delta: number
+  gamma: number
+  vega: number
+  theta: number
+  residual: number
+  /** Actual USD PnL of the position held at the start of the window. */
+  total: number
+}
+
+export type LegExplain = PnlExplain & { key: string; leg: Leg }
+
+export type StructureExplain = PnlExplain & {
+  id: string
+  programName: string | null
+  legs: LegExplain[]
+  /** Legs held at the start of the window that lack the marks to explain them. */
+  missing: number
+}
+
+export type ProgramExplain = PnlExplain & { programName: string; structures: number }
+
+export type PortfolioExplain = {
+  structures: StructureExplain[]
+  programs: ProgramExplain[]
+  total: PnlExplain
+  missing: number
+}
+
+export type ExplainWindow = { from: number; to: number }
+
+const DAY_MS = 86_400_000
+
+export const ZERO_EXPLAIN: PnlExplain = { delta: 0, gamma: 0, vega: 0, theta: 0, residual: 0, total: 0 }
+
+/** The UTC day `day` (YYYY-MM-DD), cut off at `now` while it is still running. */
+export function dayWindow(day: string, now = Date.now()): ExplainWindow {
+  const from = Date.parse(`${day}T00:00:00Z`)
+  return { from, to: Math.min(from + DAY_MS, now) }
+}
+
+/** The last `n` UTC days (YYYY-MM-DD), today first. */
+export function recentDays(n: number, now = Date.now()): string[] {
+  return Array.from({ length: n }, (_, i) => new Date(now - i * DAY_MS).toISOString().slice(0, 10))
+}
+
+/**
+ * Split a USD value change into greek terms. `exposure` is the signed contract count
+ * times the contract multiplier; greeks are per contract. Without both IVs the vega
+ * term is left to the residual.
+ */
+export function explainMove(input: {
+  exposure: number
+  greeks: { delta?: number | null; gamma?: number | null; vega?: number | null; theta?: number | null }
+  spot0: number
+  spot1: number
+  iv0?: number | null
+  iv1?: number | null
+  value0: number
+  value1: number
+  days: number
+}): PnlExplain {
+  const { exposure: q, greeks: g } = input
+  const dS = input.spot1 - input.spot0
+  const dVol = input.iv0 != null && input.iv1 != null ? (input.iv1 - input.iv0) * 100 : 0
+  const delta = q * (g.delta ?? 0) * dS
+  const gamma = q * 0.5 * (g.gamma ?? 0) * dS * dS
+  const vega = q * (g.vega ?? 0) * dVol
+  const theta = q * (g.theta ?? 0) * input.days
+  const total = q * (input.value1 - input.value0)
+  return { delta, gamma, vega, theta, residual: total - delta - gamma - vega - theta, total }
+}
+
+export function sumExplains(items: PnlExplain[]): PnlExplain {
+  const out = { ...ZERO_EXPLAIN }
+  for (const x of items) {
+    out.delta += x.delta; out.gamma += x.gamma; out.vega += x.vega
+    out.theta += x.theta; out.residual += x.residual; out.total += x.total
+  }
+  return out
+}
+
+/** Latest snapshot at or before the window start, else the first one inside the window. */
+function startSnapshot(series: MarkSnapshot[], w: ExplainWindow): MarkSnapshot | null {
+  let at: MarkSnapshot | null = null
+  for (const s of series) {
+    const t = Date.parse(s.ts)
+    if (t <= w.from) at = s
+    else return at ?? (t <= w.to ? s : null)
+  }
+  return at
+}
+
+function endSnapshot(series: MarkSnapshot[], w: ExplainWindow): MarkSnapshot | null {
+  let at: MarkSnapshot | null = null
+  for (const s of series) {
+    if (Date.parse(s.ts) > w.to) break
+    at = s
+  }
+  return at
+}
+
+const usdValue = (s: MarkSnapshot, inverse: boolean) =>
+  s.mark == null ? null : inverse ? (s.indexPrice != null ? s.mark * s.indexPrice : null) : s.mark
+
+type LegResult = { status: 'flat' } | { status: 'missing' } | { status: 'ok'; explain: LegExplain }
+
+function explainLeg(p: Position, leg: Leg, ref: LegMarkRef, series: MarkSnapshot[], w: ExplainWindow): LegResult {
+  if (legExpiryTime(p, leg) <= w.from) return { status: 'flat' }
+  const start = startSnapshot(series, w)
+  const t0 = start ? Math.max(Date.parse(start.ts), w.from) : w.from
+  const state = legAsOf(leg, t0)
+  const qty = legNetQty(state)
+  if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) return { status: 'flat' }
+
+  const end = endSnapshot(series, w)
+  if (!start || !end || Date.parse(end.ts) <= Date.parse(start.ts)) return { status: 'missing' }
+  const inverse = settlementFor(leg.exchange ?? p.exchange, p.underlying) === 'inverse'
+  const value0 = usdValue(start, inverse)
+  const value1 = usdValue(end, inverse)
+  if (value0 == null || value1 == null || start.indexPrice == null || end.indexPrice == null) return { status: 'missing' }
+
+  const info = snapshotMark(start)
+  const greeks = legGreeks(p, state, info, { now: Date.parse(start.ts) }) ?? {}
+  const multiplier = markMultiplier(ref, info)
+  const m = multiplier != null && Number.isFinite(multiplier) && multiplier > 0 ? multiplier : 1
+  const explain = explainMove({
+    exposure: qty * m, greeks,
+    spot0: start.indexPrice, spot1: end.indexPrice,
+    iv0: start.iv, iv1: end.iv,
+    value0, value1,
+    days: (Date.parse(end.ts) - Date.parse(start.ts)) / DAY_MS,
+  })
+  return { status: 'ok', explain: { ...explain, key: ref.key, leg } }
+}
+
+/**
+ * PnL explain of one structure over `window`, leg by leg, for the quantities held at the
+ * start of the window. Trades executed inside the window are not part of the explain.
+ */
+export function structureExplain(p: Position, snapshots: MarkSnapshot[], window: ExplainWindow): StructureExplain {
+  const legs: LegExplain[] = []
+  let missing = 0
+  for (const leg of p.legs) {
+    const ref = getLegMarkRef(p, leg, { includeExpired: true })
+    if (!ref) { missing++; continue }
+    const series = snapshots.filter((s) => s.key === ref.key).sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts))
+    const r = explainLeg(p, leg, ref, series, window)
+    if (r.status === 'ok') legs.push(r.explain)
+    else if (r.status === 'missing') missing++
+  }
+  return { ...sumExplains(legs), id: p.id, programName: p.programName ?? null, legs, missing }
+}
+
+/** Structure explains rolled up by program, largest absolute PnL first. */
+export function programExplains(structures: StructureExplain[]): ProgramExplain[] {
+  const groups = new Map<string, StructureExplain[]>()
+  for (const s of structures) {
+    const name = s.programName ?? 'Unassigned'
+    groups.set(name, [...(groups.get(name) ?? []), s])
+  }
+  return [...groups.entries()]
+    .map(([programName, list]) => ({ ...sumExplains(list), programName, structures: list.length }))
+    .sort((a, b) => Math.abs(b.total) - Math.abs(a.total))
+}
+
+/** Explain of a book of structures: per structure, per program and the client total. */
+export function portfolioExplain(positions: Position[], snapshots: MarkSnapshot[], window: ExplainWindow): PortfolioExplain {
+  const structures = positions.map((p) => structureExplain(p, snapshots, window))
+  return {
+    structures,
+    programs: programExplains(structures),
+    total: sumExplains(structures),
+    missing: structures.reduce((n, s) => n + s.missing, 0),
+  }
+}
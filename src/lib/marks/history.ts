@@ -0,0 +1,139 @@
+// PnL and greeks over time, rebuilt from stored mark snapshots. At each snapshot time a
+// structure's legs are replayed from the trades executed by then, and valued at the latest
+// stored mark of every leg (carried forward between refreshes).
+
+import { EXPIRY_HOUR_UTC } from '@/lib/pricing'
+import { realizeLegTrades } from '@/lib/positions/fetchSavedStructures'
+import {
+  getLegMarkRef, legGreekExposure, legGreeks, legUnrealizedPnL, markMultiplier,
+  type Leg, type LegMarkRef, type MarksMap, type Position,
+} from '@/utils'
+import { snapshotMark, type MarkSnapshot } from './markSnapshotsRepo'
+
+export type HistoryPoint = {
+  t: number
+  /** Realized + unrealized PnL in the legs' premium currency. */
+  pnl: number
+  realized: number
+  unrealized: number
+  delta: number
+  gamma: number
+  theta: number
+  vega: number
+}
+
+const tradeTime = (ts?: string) => Date.parse(ts ?? '')
+
+/**
+ * The leg as it stood at `t`: open lots, realized PnL and net quantity from the trades
+ * executed at or before `t`. Legs without trade timestamps are taken as they stand now.
+ */
+export function legAsOf(leg: Leg, t: number): Leg {
+  const trades = leg.trades ?? []
+  if (!trades.some((tr) => Number.isFinite(tradeTime(tr.timestamp)))) return leg
+  const upTo = trades.filter((tr) => {
+    const at = tradeTime(tr.timestamp)
+    return !Number.isFinite(at) || at <= t
+  })
+  return { ...realizeLegTrades({ ...leg, trades: upTo }), fees: leg.fees }
+}
+
+function firstTradeTime(p: Position): number | null {
+  let first: number | null = null
+  for (const leg of p.legs) {
+    for (const tr of leg.trades ?? []) {
+      const at = tradeTime(tr.timestamp)
+      if (Number.isFinite(at) && (first == null || at < first)) first = at
+    }
+  }
+  return first
+}
+
+/** Settlement time of a leg: its expiry date at the venues' 08:00 UTC expiry hour. */
+export function legExpiryTime(p: Position, leg: Leg): number {
+  const iso = (leg.expiry ?? p.expiryISO ?? '').slice(0, 10)
+  return Date.parse(`${iso}T${String(EXPIRY_HOUR_UTC).padStart(2, '0')}:00:00Z`)
+}
+
+/** Mark keys of every leg of the positions, expired legs included. */
+export function historyMarkKeys(positions: Position[]): string[] {
+  const keys = new Set<string>()
+  for (const p of positions) {
+    for (const leg of p.legs) {
+      const ref = getLegMarkRef(p, leg, { includeExpired: true })
+      if (ref) keys.add(ref.key)
+    }
+  }
+  return [...keys]
+}
+
+/** Snapshots grouped by timestamp, oldest first. */
+function byTime(snapshots: MarkSnapshot[], keys: Set<string>): Array<[number, MarkSnapshot[]]> {
+  const groups = new Map<number, MarkSnapshot[]>()
+  for (const s of snapshots) {
+    const t = Date.parse(s.ts)
+    if (!keys.has(s.key) || !Number.isFinite(t)) continue
+    groups.set(t, [...(groups.get(t) ?? []), s])
+  }
+  return [...groups.entries()].sort((a, b) => a[0] - b[0])
+}
+
+/**
+ * One point per snapshot time at which any of the structure's legs was marked, from the
+ * first trade on. Unrealized PnL needs a mark; greeks use the venue's stored greeks or the
+ * Black-76 model from the stored IV, and drop to zero once a leg has expired.
+ */
+export function structureHistory(p: Position, snapshots: MarkSnapshot[]): HistoryPoint[] {
+  const refs = new Map<Leg, LegMarkRef>()
+  for (const leg of p.legs) {
+    const ref = getLegMarkRef(p, leg, { includeExpired: true })
+    if (ref) refs.set(leg, ref)
+  }
+  if (refs.size === 0) return []
+
+  const opened = firstTradeTime(p)
+  const latest: MarksMap = {}
+  const out: HistoryPoint[] = []
+  for (const [t, group] of byTime(snapshots, new Set([...refs.values()].map((r) => r.key)))) {
+    for (const s of group) latest[s.key] = snapshotMark(s)
+    if (opened != null && t < opened) continue
+
+    const point: HistoryPoint = { t, pnl: 0, realized: 0, unrealized: 0, delta: 0, gamma: 0, theta: 0, vega: 0 }
+    for (const leg of p.legs) {
+      const state = legAsOf(leg, t)
+      point.realized += state.realizedPnl ?? 0
+      const ref = refs.get(leg)
+      const info = ref ? latest[ref.key] : undefined
+      if (!ref || !info) continue
+      const multiplier = markMultiplier(ref, info)
+      if (info.price != null) point.unrealized += legUnrealizedPnL(state, info.price, multiplier)
+      if (t >= legExpiryTime(p, leg)) continue
+      const g = legGreeks(p, state, info, { now: t }) || {}
+      point.delta += legGreekExposure(state, g.delta ?? undefined, multiplier)
+      point.gamma += legGreekExposure(state, g.gamma ?? undefined, multiplier)
+      point.theta += legGreekExposure(state, g.theta ?? undefined, multiplier)
+      point.vega += legGreekExposure(state, g.vega ?? undefined, multiplier)
+    }
+    point.pnl = point.realized + point.unrealized
+    out.push(point)
+  }
+  return out
+}
+
+/** Sum of the structures' histories on the union of their timestamps, each carried forward. */
+export function portfolioHistory(positions: Position[], snapshots: MarkSnapshot[]): HistoryPoint[] {
+  const series = positions.map((p) => structureHistory(p, snapshots)).filter((s) => s.length > 0)
+  const times = [...new Set(series.flatMap((s) => s.map((pt) => pt.t)))].sort((a, b) => a - b)
+  const cursor = series.map(() => -1)
+  return times.map((t) => {
+    const point: HistoryPoint = { t, pnl: 0, realized: 0, unrealized: 0, delta: 0, gamma: 0, theta: 0, vega: 0 }
+    series.forEach((s, i) => {
+      while (cursor[i] + 1 < s.length && s[cursor[i] + 1].t <= t) cursor[i]++
+      const at = s[cursor[i]]
+      if (!at) return
+      point.pnl += at.pnl; point.realized += at.realized; point.unrealized += at.unrealized
+      point.delta += at.delta; point.gamma += at.gamma; point.theta += at.theta; point.vega += at.vega
+    })
+    return point
+  })
+}
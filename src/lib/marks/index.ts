@@ -0,0 +1,4 @@
+export * from './markSnapshotsRepo';
+export * from './history';
+export * from './attribution';
+export * from './useMarkSnapshots';
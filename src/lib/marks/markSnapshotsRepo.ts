@@ -0,0 +1,125 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { MarksMap } from '@/utils'
+
+export type MarkSnapshotSource = 'refresh' | 'schedule'
+
+/** One stored mark: a `MarksMap` entry for `key` ("deribit:<instrument>") as of `ts`. */
+export type MarkSnapshot = {
+  key: string
+  exchange: string
+  instrument: string
+  ts: string
+  mark: number | null
+  bid: number | null
+  ask: number | null
+  iv: number | null
+  indexPrice: number | null
+  multiplier: number | null
+  greeks: { delta: number | null; gamma: number | null; theta: number | null; vega: number | null; rho: number | null }
+}
+
+export type SaveMarkSnapshotsResult = { ok: true; saved: number } | { ok: false; error: string }
+export type FetchMarkSnapshotsResult = { ok: true; snapshots: MarkSnapshot[] } | { ok: false; error: string }
+
+const GREEKS = ['delta', 'gamma', 'theta', 'vega', 'rho'] as const
+const SELECT = 'exchange, instrument, ts, mark, bid, ask, iv, delta, gamma, theta, vega, rho, index_price, multiplier'
+// PostgREST caps a response at 1000 rows by default; page through longer histories.
+const PAGE = 1000
+const IN_CHUNK = 100
+
+const num = (v: unknown): number | null => {
+  const n = typeof v === 'string' ? Number(v) : v
+  return typeof n === 'number' && Number.isFinite(n) ? n : null
+}
+
+function splitKey(key: string): { exchange: string; instrument: string } | null {
+  const i = key.indexOf(':')
+  if (i <= 0 || i === key.length - 1) return null
+  return { exchange: key.slice(0, i), instrument: key.slice(i + 1) }
+}
+
+// Rows to insert for a marks refresh. Entries without a mark price are not worth keeping.
+export function snapshotRowsFromMarks(marks: MarksMap, ts: string, source: MarkSnapshotSource) {
+  const rows: Array<Record<string, string | number | null>> = []
+  for (const [key, m] of Object.entries(marks)) {
+    const id = splitKey(key)
+    if (!id || num(m?.price) == null) continue
+    const row: Record<string, string | number | null> = {
+      exchange: id.exchange, instrument: id.instrument, ts, source,
+      mark: num(m.price), bid: num(m.bid), ask: num(m.ask), iv: num(m.iv),
+      index_price: num(m.indexPrice), multiplier: num(m.multiplier),
+    }
+    for (const g of GREEKS) row[g] = num(m.greeks?.[g])
+    rows.push(row)
+  }
+  return rows
+}
+
+// Validating map of an untyped row. Returns null without an instrument, timestamp or mark.
+export function mapMarkSnapshotRow(row: unknown): MarkSnapshot | null {
+  if (typeof row !== 'object' || row === null) return null
+  const o = row as Record<string, unknown>
+  if (typeof o.exchange !== 'string' || typeof o.instrument !== 'string' || typeof o.ts !== 'string') return null
+  const mark = num(o.mark)
+  if (mark == null) return null
+  return {
+    key: `${o.exchange}:${o.instrument}`,
+    exchange: o.exchange,
+    instrument: o.instrument,
+    ts: o.ts,
+    mark,
+    bid: num(o.bid),
+    ask: num(o.ask),
+    iv: num(o.iv),
+    indexPrice: num(o.index_price),
+    multiplier: num(o.multiplier),
+    greeks: { delta: num(o.delta), gamma: num(o.gamma), theta: num(o.theta), vega: num(o.vega), rho: num(o.rho) },
+  }
+}
+
+/** A stored snapshot back in `MarksMap` entry form, for the PnL / greeks helpers in utils. */
+export function snapshotMark(s: MarkSnapshot): MarksMap[string] {
+  return { price: s.mark, multiplier: s.multiplier, greeks: s.greeks, iv: s.iv, indexPrice: s.indexPrice, bid: s.bid, ask: s.ask }
+}
+
+export async function saveMarkSnapshots(
+  supabase: SupabaseClient,
+  marks: MarksMap,
+  opts: { ts?: string; source: MarkSnapshotSource },
+): Promise<SaveMarkSnapshotsResult> {
+  const rows = snapshotRowsFromMarks(marks, opts.ts ?? new Date().toISOString(), opts.source)
+  if (rows.length === 0) return { ok: true, saved: 0 }
+  const { error } = await supabase.from('mark_snapshots').insert(rows)
+  if (error) return { ok: false, error: error.message }
+  return { ok: true, saved: rows.length }
+}
+
+// Snapshots for the given mark keys, oldest first, optionally from `since` (ISO) onwards.
+export async function fetchMarkSnapshots(
+  supabase: SupabaseClient,
+  keys: string[],
+  opts: { since?: string } = {},
+): Promise<FetchMarkSnapshotsResult> {
+  const byExchange = new Map<string, string[]>()
+  for (const key of new Set(keys)) {
+    const id = splitKey(key)
+    if (id) byExchange.set(id.exchange, [...(byExchange.get(id.exchange) ?? []), id.instrument])
+  }
+
+  const snapshots: MarkSnapshot[] = []
+  for (const [exchange, instruments] of byExchange) {
+    for (let i = 0; i < instruments.length; i += IN_CHUNK) {
+      const chunk = instruments.slice(i, i + IN_CHUNK)
+      for (let from = 0; ; from += PAGE) {
+        let q = supabase.from('mark_snapshots').select(SELECT).eq('exchange', exchange).in('instrument', chunk)
+        if (opts.since) q = q.gte('ts', opts.since)
+        const { data, error } = await q.order('ts', { ascending: true }).range(from, from + PAGE - 1)
+        if (error) return { ok: false, error: error.message }
+        for (const s of (data ?? []).map(mapMarkSnapshotRow)) if (s) snapshots.push(s)
+        if ((data ?? []).length < PAGE) break
+      }
+    }
+  }
+  snapshots.sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts))
+  return { ok: true, snapshots }
+}
@@ -0,0 +1,34 @@
+import React from 'react'
+import { getSupabaseClient, hasSupabaseClient } from '@/lib/supabase'
+import { fetchMarkSnapshots, type MarkSnapshot } from './markSnapshotsRepo'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Stored mark snapshots for `keys` over the last `days` days. Reloads when the key set or
+ * `reloadKey` changes (pass the live marks to pick up each refresh's new snapshot). Stays
+ * null without a Supabase client.
+ */
+export function useMarkSnapshots(keys: string[], { days = 30, reloadKey }: { days?: number; reloadKey?: unknown } = {}) {
+  const [snapshots, setSnapshots] = React.useState<MarkSnapshot[] | null>(null)
+  const [loading, setLoading] = React.useState(false)
+  const keyList = [...new Set(keys)].sort().join('|')
+
+  React.useEffect(() => {
+    if (!hasSupabaseClient() || !keyList) { setSnapshots(null); return }
+    let ignore = false
+    setLoading(true)
+    const since = new Date(Date.now() - days * DAY_MS).toISOString()
+    fetchMarkSnapshots(getSupabaseClient(), keyList.split('|'), { since })
+      .then((r) => {
+        if (ignore) return
+        if (r.ok) setSnapshots(r.snapshots)
+        else console.error('[mark history] load failed', r.error)
+      })
+      .catch((e) => console.error('[mark history] load failed', e))
+      .finally(() => { if (!ignore) setLoading(false) })
+    return () => { ignore = true }
+  }, [keyList, days, reloadKey])
+
+  return { snapshots, loading }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import type { Position } from '@/utils'
+import { black76Price } from '@/lib/pricing'
+import {
+  expiryTime, payoffAt, payoffCurves, payoffStats, positionPayoffLegs, spotGrid, type PayoffLeg,
+} from '..'
+
+const NOW = Date.parse('2026-01-01T08:00:00Z')
+const FRONT = '2026-01-31'
+const BACK = '2026-03-02'
+
+const leg = (over: Partial<PayoffLeg>): PayoffLeg => ({
+  strike: 100_000, optionType: 'C', expiryISO: FRONT, settlement: 'linear', qty: 1, cost: 0, iv: 0.5, ...over,
+})
+
+describe('payoffStats', () => {
+  it('long linear call: loss capped at the premium, unlimited gain, breakeven at strike + premium', () => {
+    const legs = [leg({ cost: 4_000 })]
+    const stats = payoffStats(legs, { spot: 100_000 })
+    expect(stats.maxGain).toBeNull()
+    expect(stats.maxLoss).toBeCloseTo(-4_000, 6)
+    expect(stats.breakevens).toHaveLength(1)
+    expect(stats.breakevens[0]).toBeCloseTo(104_000, 6)
+  })
+
+  it('call spread: both sides bounded', () => {
+    const legs = [leg({ cost: 4_000 }), leg({ strike: 110_000, qty: -1, cost: -1_500 })]
+    const stats = payoffStats(legs, { spot: 100_000 })
+    expect(stats.maxLoss).toBeCloseTo(-2_500, 6)
+    expect(stats.maxGain).toBeCloseTo(7_500, 6)
+    expect(stats.breakevens[0]).toBeCloseTo(102_500, 6)
+  })
+
+  it('short inverse put: premium is the max gain and the coin loss is unbounded', () => {
+    const legs = [leg({ optionType: 'P', settlement: 'inverse', qty: -1, cost: -0.02 })]
+    const stats = payoffStats(legs, { spot: 100_000 })
+    expect(stats.maxGain).toBeCloseTo(0.02, 9)
+    expect(stats.maxLoss).toBeNull()
+    // Breakeven where (K - S) / S = premium.
+    expect(stats.breakevens[0]).toBeCloseTo(100_000 / 1.02, 0)
+  })
+
+  it('adds the base offset (realized PnL) to every value', () => {
+    const legs = [leg({ cost: 4_000 })]
+    expect(payoffStats(legs, { spot: 100_000, base: 1_000 }).maxLoss).toBeCloseTo(-3_000, 6)
+  })
+})
+
+describe('payoffCurves', () => {
+  it('values a calendar at the front expiry with the back leg still carrying time value', () => {
+    const legs = [leg({ qty: -1, cost: -3_000 }), leg({ expiryISO: BACK, cost: 5_500 })]
+    const curves = payoffCurves(legs, { spot: 100_000, now: NOW, grid: [90_000, 100_000, 110_000] })
+    expect(curves.map((c) => c.label)).toEqual(['T+0', 'T+10', 'T+20', 'Expiry'])
+    const expiry = curves[curves.length - 1]
+    expect(expiry.at).toBe(expiryTime(FRONT))
+    const backValue = black76Price({ forward: 100_000, strike: 100_000, years: 30 / 365, vol: 0.5, optionType: 'C' })
+    expect(expiry.points[1].pnl).toBeCloseTo(backValue - 5_500 + 3_000, 6)
+    expect(payoffAt(legs, 100_000, expiryTime(BACK))).toBeCloseTo(-2_500, 6)
+  })
+
+  it('drops intermediate dates that collapse onto T+0 or expiry', () => {
+    const legs = [leg({ expiryISO: '2026-01-02' })]
+    expect(payoffCurves(legs, { spot: 100_000, now: NOW }).map((c) => c.label)).toEqual(['T+0', 'Expiry'])
+  })
+})
+
+describe('spotGrid', () => {
+  it('includes the strikes and spot as grid points', () => {
+    const grid = spotGrid([leg({ strike: 95_500 }), leg({ strike: 104_250 })], 100_123, { points: 11 })
+    expect(grid).toEqual(expect.arrayContaining([95_500, 104_250, 100_123]))
+    expect(grid[0]).toBeCloseTo(95_500 * 0.5, 6)
+    expect(grid[grid.length - 1]).toBeCloseTo(104_250 * 1.5, 6)
+  })
+})
+
+describe('positionPayoffLegs', () => {
+  it('takes quantity and cost from the open lots and IV from the context', () => {
+    const p: Position = {
+      id: 'p1', underlying: 'BTC', expiryISO: '2099-01-30', dte: 1, legsCount: 2, type: 'Multi-leg', realizedPnl: 0,
+      netPremium: 0, status: 'OPEN', greeks: {}, exchange: 'deribit',
+      legs: [
+        {
+          key: 'a', strike: 100_000, optionType: 'C', realizedPnl: 0, netPremium: 0, qtyNet: 2, trades: [],
+          openLots: [{ qty: 1, price: 0.05, sign: 1 }, { qty: 1, price: 0.07, sign: 1 }],
+        },
+        { key: 'b', strike: 120_000, optionType: 'C', realizedPnl: 0, netPremium: 0, qtyNet: 0, trades: [], openLots: [] },
+      ],
+    }
+    const { legs, skipped } = positionPayoffLegs(p, undefined, { spot: 100_000, vol: 0.6 })
+    expect(skipped).toBe(0)
+    expect(legs).toHaveLength(1)
+    expect(legs[0]).toMatchObject({ strike: 100_000, expiryISO: '2099-01-30', settlement: 'inverse', qty: 2, iv: 0.6 })
+    expect(legs[0].cost).toBeCloseTo(0.12, 12)
+  })
+})
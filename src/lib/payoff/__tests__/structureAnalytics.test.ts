@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { analyticsMismatches, analyzeStructure, type EntryLeg } from '..'
+
+const EXPIRY = '2026-12-25'
+
+const leg = (over: Partial<EntryLeg>): EntryLeg => ({
+  side: 'buy', option_type: 'call', expiry: EXPIRY, strike: 100_000, qty: 1, price: 0, ...over,
+})
+
+describe('analyzeStructure', () => {
+  it('iron condor: credit is the max gain, wing width minus credit the max loss', () => {
+    const legs = [
+      leg({ side: 'buy', option_type: 'put', strike: 80_000, price: 500 }),
+      leg({ side: 'sell', option_type: 'put', strike: 90_000, price: 1_500 }),
+      leg({ side: 'sell', option_type: 'call', strike: 110_000, price: 1_500 }),
+      leg({ side: 'buy', option_type: 'call', strike: 120_000, price: 500 }),
+    ]
+    const a = analyzeStructure(legs, { settlement: 'linear' })!
+    expect(a.maxGain).toBeCloseTo(2_000, 6)
+    expect(a.maxLoss).toBeCloseTo(8_000, 6)
+    expect(a.riskDefined).toBe(true)
+    expect(a.breakevens).toHaveLength(2)
+    expect(a.breakevens[0]).toBeCloseTo(88_000, 6)
+    expect(a.breakevens[1]).toBeCloseTo(112_000, 6)
+  })
+
+  it('naked short call is not risk defined', () => {
+    const a = analyzeStructure([leg({ side: 'sell', qty: 2, price: 3_000 })], { settlement: 'linear' })!
+    expect(a.maxGain).toBeCloseTo(6_000, 6)
+    expect(a.maxLoss).toBeNull()
+    expect(a.riskDefined).toBe(false)
+  })
+
+  it('scales by the multiplier and keeps inverse premiums in coin', () => {
+    const a = analyzeStructure([leg({ option_type: 'put', qty: 3, price: 0.05 })], {
+      settlement: 'inverse',
+      multiplier: 0.1,
+    })!
+    expect(a.maxLoss).toBeCloseTo(0.015, 9)
+    // An inverse put's coin payoff grows without bound as spot approaches zero.
+    expect(a.maxGain).toBeNull()
+    expect(a.riskDefined).toBe(true)
+  })
+
+  it('returns null when no leg is complete', () => {
+    expect(analyzeStructure([{ side: 'buy', strike: 100_000 }], { settlement: 'linear' })).toBeNull()
+  })
+})
+
+describe('analyticsMismatches', () => {
+  const computed = { maxGain: 2_000, maxLoss: 8_000, breakevens: [], riskDefined: true }
+
+  it('accepts matching figures within tolerance and either max loss sign', () => {
+    expect(analyticsMismatches(computed, { max_gain: 2_005, max_loss: -8_000, risk_defined: true })).toEqual([])
+    expect(analyticsMismatches(computed, {})).toEqual([])
+  })
+
+  it('reports each disagreeing field', () => {
+    const warnings = analyticsMismatches(computed, { max_gain: 3_000, max_loss: 5_000, risk_defined: false })
+    expect(warnings).toHaveLength(3)
+    expect(warnings[0]).toContain('Max gain')
+    expect(warnings[1]).toContain('Max loss')
+    expect(warnings[2]).toContain('not risk defined')
+  })
+
+  it('flags a finite entry against an unlimited computed figure', () => {
+    const naked = { maxGain: 6_000, maxLoss: null, breakevens: [], riskDefined: false }
+    expect(analyticsMismatches(naked, { max_loss: 10_000 })).toEqual([
+      expect.stringContaining('unlimited'),
+    ])
+  })
+})
@@ -0,0 +1,3 @@
+export * from './payoff';
+export * from './positionLegs';
+export * from './structureAnalytics';
@@ -0,0 +1,166 @@
+// Structure payoff: PnL across a spot range at expiry and at earlier valuation dates.
+//
+// Legs are valued with Black-76 at their own IV (held constant) until their expiry and at
+// intrinsic afterwards, so a multi-expiry structure (calendar, diagonal) valued at the
+// front expiry prices the back legs with their remaining time. PnL is in the premium
+// currency of the legs: coin for inverse contracts, USD for linear ones.
+
+import { EXPIRY_HOUR_UTC, black76Price, type Settlement } from '@/lib/pricing'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const YEAR_MS = 365 * DAY_MS
+
+export type PayoffLeg = {
+  strike: number
+  optionType: string
+  expiryISO: string
+  settlement: Settlement
+  /** Signed underlying units: contracts × multiplier, positive long. */
+  qty: number
+  /** Premium paid for the open quantity in the premium currency; negative when collected. */
+  cost: number
+  /** Volatility as a decimal fraction. */
+  iv: number
+}
+
+export type PayoffPoint = { spot: number; pnl: number }
+
+export type PayoffCurve = {
+  label: string
+  /** Valuation time (epoch ms). */
+  at: number
+  /** True for the curve valued at the front expiry. */
+  expiry: boolean
+  points: PayoffPoint[]
+}
+
+export type PayoffStats = {
+  breakevens: number[]
+  /** Highest PnL at the front expiry; null when unbounded. */
+  maxGain: number | null
+  /** Lowest PnL at the front expiry (negative for a loss); null when unbounded. */
+  maxLoss: number | null
+}
+
+export function expiryTime(expiryISO: string): number {
+  return Date.parse(`${expiryISO.slice(0, 10)}T${String(EXPIRY_HOUR_UTC).padStart(2, '0')}:00:00Z`)
+}
+
+/** Value of one underlying unit of the leg in its premium currency at `spot` and time `at`. */
+export function legValueAt(leg: PayoffLeg, spot: number, at: number): number {
+  const years = Math.max(0, (expiryTime(leg.expiryISO) - at) / YEAR_MS)
+  const usd = black76Price({ forward: spot, strike: leg.strike, years, vol: leg.iv, optionType: leg.optionType })
+  return leg.settlement === 'inverse' ? usd / spot : usd
+}
+
+/** Total PnL of the legs at `spot` and time `at`, offset by `base` (e.g. realized PnL). */
+export function payoffAt(legs: PayoffLeg[], spot: number, at: number, base = 0): number {
+  let pnl = base
+  for (const leg of legs) pnl += leg.qty * legValueAt(leg, spot, at) - leg.cost
+  return pnl
+}
+
+/** Earliest leg expiry (epoch ms), or null without legs. */
+export function frontExpiry(legs: PayoffLeg[]): number | null {
+  const times = legs.map((l) => expiryTime(l.expiryISO)).filter(Number.isFinite)
+  return times.length ? Math.min(...times) : null
+}
+
+/**
+ * Spot grid spanning the strikes and `spot`, widened by `width` on each side, with the
+ * strikes and `spot` themselves included so expiry kinks fall on grid points.
+ */
+export function spotGrid(legs: PayoffLeg[], spot: number, opts: { points?: number; width?: number } = {}): number[] {
+  const points = opts.points ?? 161
+  const width = opts.width ?? 0.5
+  const anchors = [spot, ...legs.map((l) => l.strike)].filter((x) => x > 0)
+  if (anchors.length === 0) return []
+  const lo = Math.min(...anchors) * (1 - width)
+  const hi = Math.max(...anchors) * (1 + width)
+  const grid = new Set(anchors)
+  for (let i = 0; i < points; i++) grid.add(lo + ((hi - lo) * i) / (points - 1))
+  return [...grid].filter((x) => x > 0).sort((a, b) => a - b)
+}
+
+/**
+ * Payoff curves from `now` to the front expiry: T+0, `steps` evenly spaced intermediate
+ * dates (whole days) and the expiry itself. Intermediate dates that collapse onto another
+ * curve are dropped.
+ */
+export function payoffCurves(
+  legs: PayoffLeg[],
+  opts: { spot: number; now?: number; base?: number; steps?: number; grid?: number[] },
+): PayoffCurve[] {
+  const now = opts.now ?? Date.now()
+  const front = frontExpiry(legs)
+  if (front == null || !(opts.spot > 0)) return []
+  const grid = opts.grid ?? spotGrid(legs, opts.spot)
+  const curve = (label: string, at: number, expiry: boolean): PayoffCurve => ({
+    label, at, expiry, points: grid.map((s) => ({ spot: s, pnl: payoffAt(legs, s, at, opts.base) })),
+  })
+
+  const days = Math.floor((front - now) / DAY_MS)
+  const out: PayoffCurve[] = []
+  if (front > now) out.push(curve('T+0', now, false))
+  const steps = opts.steps ?? 2
+  const seen = new Set<number>([0, days])
+  for (let i = 1; i <= steps; i++) {
+    const n = Math.round((days * i) / (steps + 1))
+    if (seen.has(n)) continue
+    seen.add(n)
+    out.push(curve(`T+${n}`, now + n * DAY_MS, false))
+  }
+  out.push(curve('Expiry', front, true))
+  return out
+}
+
+// Probes at successive decades beyond the strikes: a tail whose increments shrink by ~10×
+// per decade converges (inverse calls approach a coin amount as 1/S), one whose increments
+// hold or grow is unbounded.
+const TAIL_DECADES = [1e3, 1e4, 1e5]
+
+function tail(legs: PayoffLeg[], at: number, base: number, scale: (f: number) => number) {
+  const [a, b, c] = TAIL_DECADES.map((f) => payoffAt(legs, scale(f), at, base))
+  const d1 = b - a
+  const d2 = c - b
+  const tol = 1e-9 * (1 + Math.abs(c))
+  const unbounded = Math.abs(d2) > tol && Math.abs(d2) >= 0.5 * Math.abs(d1)
+  // For a 1/S tail the remaining increments sum to d2 / 9.
+  return { value: c + d2 / 9, unbounded, up: d2 > 0 }
+}
+
+/**
+ * Breakevens and max gain/loss of the curve valued at the front expiry. Breakevens are
+ * interpolated between grid points; the extremes include both tails, and a tail that keeps
+ * growing (a naked call on a linear contract, a naked put on an inverse one) is unbounded.
+ */
+export function payoffStats(legs: PayoffLeg[], opts: { spot: number; base?: number; grid?: number[] }): PayoffStats {
+  const front = frontExpiry(legs)
+  if (front == null) return { breakevens: [], maxGain: null, maxLoss: null }
+  const base = opts.base ?? 0
+  const grid = opts.grid ?? spotGrid(legs, opts.spot)
+  const pnl = grid.map((s) => payoffAt(legs, s, front, base))
+
+  const breakevens: number[] = []
+  for (let i = 0; i < grid.length; i++) {
+    if (pnl[i] === 0) breakevens.push(grid[i])
+    else if (i > 0 && pnl[i - 1] !== 0 && Math.sign(pnl[i - 1]) !== Math.sign(pnl[i])) {
+      breakevens.push(grid[i - 1] + ((grid[i] - grid[i - 1]) * -pnl[i - 1]) / (pnl[i] - pnl[i - 1]))
+    }
+  }
+
+  const strikes = legs.map((l) => l.strike)
+  const maxK = Math.max(opts.spot, ...strikes)
+  const minK = Math.min(opts.spot, ...strikes)
+  const upper = tail(legs, front, base, (f) => maxK * f)
+  const lower = tail(legs, front, base, (f) => minK / f)
+  const values = [...pnl, upper.value, lower.value]
+
+  const gainUnbounded = (upper.unbounded && upper.up) || (lower.unbounded && lower.up)
+  const lossUnbounded = (upper.unbounded && !upper.up) || (lower.unbounded && !lower.up)
+  return {
+    breakevens,
+    maxGain: gainUnbounded ? null : Math.max(...values),
+    maxLoss: lossUnbounded ? null : Math.min(...values),
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  getLegMarkRef, legModelInputs, legNetQty, markMultiplier,
+  type MarksMap, type Position, type PricingContext,
+} from '@/utils'
+import type { PayoffLeg } from './payoff'
+
+/** Underlying index price from the first leg mark that carries one. */
+export function positionSpot(p: Position, marks: MarksMap | undefined): number | null {
+  for (const leg of p.legs) {
+    const ref = getLegMarkRef(p, leg)
+    const spot = ref ? marks?.[ref.key]?.indexPrice : null
+    if (spot != null && spot > 0) return spot
+  }
+  return null
+}
+
+/**
+ * Open legs of a structure as payoff legs. Quantity and cost come from the open lots
+ * (so the expiry curve matches the unrealized PnL at the mark), the IV from the leg's
+ * mark or the context volatility. Legs that cannot be priced are counted in `skipped`.
+ */
+export function positionPayoffLegs(
+  p: Position,
+  marks: MarksMap | undefined,
+  ctx: PricingContext,
+): { legs: PayoffLeg[]; skipped: number } {
+  const legs: PayoffLeg[] = []
+  let skipped = 0
+  for (const leg of p.legs) {
+    const qty = legNetQty(leg)
+    if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) continue
+    const ref = getLegMarkRef(p, leg)
+    const info = ref ? marks?.[ref.key] : undefined
+    const inputs = legModelInputs(p, leg, info, ctx)
+    if (!inputs) { skipped++; continue }
+    const m = (ref ? markMultiplier(ref, info) || ref.defaultMultiplier : null) ?? 1
+    const cost = (leg.openLots || []).reduce((sum, lot) => sum + lot.sign * lot.qty * lot.price, 0)
+    legs.push({
+      strike: inputs.strike,
+      optionType: inputs.optionType,
+      expiryISO: inputs.expiryISO,
+      settlement: inputs.settlement,
+      qty: qty * m,
+      cost: cost * m,
+      iv: inputs.iv,
+    })
+  }
+  return { legs, skipped }
+}
@@ -0,0 +1,119 @@
+// Entry analytics for a structure: max gain, max loss, breakevens and whether the risk is
+// defined, derived from the legs and the premium paid or collected at entry. Figures are
+// in the same units as `net_fill`: premium currency × quantity × multiplier.
+
+import type { Leg } from '@/lib/import/types'
+import type { Settlement } from '@/lib/pricing'
+import { payoffStats, type PayoffLeg } from './payoff'
+
+const DEFAULT_VOL = 0.5
+
+/** Relative tolerance before an entered figure counts as disagreeing with the computed one. */
+const MISMATCH_TOLERANCE = 0.01
+
+export type EntryLeg = Pick<Leg, 'side' | 'option_type' | 'expiry' | 'strike' | 'qty' | 'price'>
+
+export type StructureAnalytics = {
+  /** Highest PnL at the front expiry; null when unbounded. */
+  maxGain: number | null
+  /** Largest loss at the front expiry as a positive amount; null when unbounded. */
+  maxLoss: number | null
+  breakevens: number[]
+  /** True when the loss is bounded. */
+  riskDefined: boolean
+}
+
+export type StructureAnalyticsOptions = {
+  settlement: Settlement
+  multiplier?: number | null
+  /** Anchors the spot grid; defaults to the mean strike. */
+  spot?: number | null
+  /** Volatility for legs expiring after the front expiry. */
+  vol?: number
+}
+
+function isComplete(leg: Partial<EntryLeg>): leg is EntryLeg {
+  return (
+    (leg.side === 'buy' || leg.side === 'sell') &&
+    (leg.option_type === 'call' || leg.option_type === 'put') &&
+    typeof leg.expiry === 'string' && leg.expiry.length >= 10 &&
+    Number.isFinite(leg.strike) && (leg.strike as number) > 0 &&
+    Number.isFinite(leg.qty) && leg.qty !== 0 &&
+    Number.isFinite(leg.price)
+  )
+}
+
+/**
+ * Analytics of the payoff at the front expiry for legs entered at their fill prices.
+ * Legs expiring later (calendars, diagonals) are valued with their remaining time at
+ * `vol`. Returns null when no leg is complete enough to price.
+ */
+export function analyzeStructure(
+  legs: Array<Partial<EntryLeg>>,
+  opts: StructureAnalyticsOptions,
+): StructureAnalytics | null {
+  const multiplier = opts.multiplier && opts.multiplier > 0 ? opts.multiplier : 1
+  const payoffLegs: PayoffLeg[] = legs.filter(isComplete).map((leg) => {
+    const qty = (leg.side === 'buy' ? 1 : -1) * Math.abs(leg.qty) * multiplier
+    return {
+      strike: leg.strike,
+      optionType: leg.option_type,
+      expiryISO: leg.expiry,
+      settlement: opts.settlement,
+      qty,
+      cost: qty * leg.price,
+      iv: opts.vol ?? DEFAULT_VOL,
+    }
+  })
+  if (payoffLegs.length === 0) return null
+
+  const spot = opts.spot && opts.spot > 0
+    ? opts.spot
+    : payoffLegs.reduce((sum, l) => sum + l.strike, 0) / payoffLegs.length
+  const stats = payoffStats(payoffLegs, { spot })
+  // `0 -` rather than unary minus so a zero-loss structure reports 0, not -0.
+  const maxLoss = stats.maxLoss == null ? null : 0 - stats.maxLoss
+  return {
+    maxGain: stats.maxGain,
+    maxLoss,
+    breakevens: stats.breakevens,
+    riskDefined: maxLoss != null,
+  }
+}
+
+function differs(entered: number, computed: number): boolean {
+  const scale = Math.max(Math.abs(entered), Math.abs(computed))
+  return Math.abs(entered - computed) > MISMATCH_TOLERANCE * scale + 1e-9
+}
+
+/**
+ * Human-readable disagreements between user-entered figures and the computed analytics.
+ * Blank entries are not compared; max loss is compared by magnitude so either sign
+ * convention is accepted.
+ */
+export function analyticsMismatches(
+  computed: StructureAnalytics,
+  entered: { max_gain?: number | null; max_loss?: number | null; risk_defined?: boolean | null },
+): string[] {
+  const out: string[] = []
+  const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 6 })
+
+  if (entered.max_gain != null && Number.isFinite(entered.max_gain)) {
+    if (computed.maxGain == null) out.push(`Max gain entered as ${fmt(entered.max_gain)}, but the computed max gain is unlimited.`)
+    else if (differs(entered.max_gain, computed.maxGain)) {
+      out.push(`Max gain entered as ${fmt(entered.max_gain)}, computed ${fmt(computed.maxGain)}.`)
+    }
+  }
+  if (entered.max_loss != null && Number.isFinite(entered.max_loss)) {
+    if (computed.maxLoss == null) out.push(`Max loss entered as ${fmt(entered.max_loss)}, but the computed max loss is unlimited.`)
+    else if (differs(Math.abs(entered.max_loss), Math.abs(computed.maxLoss))) {
+      out.push(`Max loss entered as ${fmt(entered.max_loss)}, computed ${fmt(computed.maxLoss)}.`)
+    }
+  }
+  if (entered.risk_defined != null && entered.risk_defined !== computed.riskDefined) {
+    out.push(computed.riskDefined
+      ? 'Marked as not risk defined, but the computed max loss is bounded.'
+      : 'Marked as risk defined, but the computed max loss is unlimited.')
+  }
+  return out
+}
@@ -10,6 +10,7 @@ const readMigration = (name: string) => readFileSync(
 const accountSecurity = readMigration('20260812090000_account_identity_rls_hardening.sql')
 const hubMapping = readMigration('20260812091000_portfolio_data_hub_mapping.sql')
 const reportingCurrency = readMigration('20260812092000_reporting_currency_configuration.sql')
+const linkedAccounts = readMigration('20261019170000_client_linked_hub_accounts.sql')
 
 describe('account identity and RLS migration', () => {
   it('uses only trusted app_metadata and removes unknown permissive policies', () => {
@@ -69,6 +70,18 @@ describe('Portfolio Data Hub mapping migration', () => {
   })
 })
 
+describe('linked Hub accounts migration', () => {
+  it('keeps each Hub account routed to one client and scopes reads to the account', () => {
+    expect(linkedAccounts).toContain('create table if not exists public.client_hub_accounts')
+    expect(linkedAccounts).toContain('references public.clients(client_id) on delete restrict')
+    expect(linkedAccounts).toContain('create unique index if not exists client_hub_accounts_hub_account_id_unique')
+    expect(linkedAccounts).toContain('create trigger client_hub_accounts_single_owner')
+    expect(linkedAccounts).toContain('create trigger clients_single_hub_account_owner')
+    expect(linkedAccounts).toContain('using (client_id = helpers.current_client_id())')
+    expect(linkedAccounts).toContain('with check (helpers.is_admin())')
+  })
+})
+
 describe('reporting currency configuration migration', () => {
   it('adds canonical currency fields without changing the Hub mapping', () => {
     expect(reportingCurrency).toContain('add column if not exists reporting_currency text')
@@ -337,6 +337,84 @@ describe('mixed-age provenance', () => {
   })
 })
 
+describe('connected Hub accounts', () => {
+  const linkedAccountId = '22222222-2222-4222-8222-222222222222'
+
+  it('returns the latest summary of the mapped and every linked account in the overview', async () => {
+    const linkedSummary = { ...structuredClone(summaryFixture), account_id: linkedAccountId }
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = String(input)
+      if (url.endsWith('/auth/v1/user')) return response({ id: authUserId })
+      if (url.includes('/rest/v1/clients?')) {
+        expect(new URL(url).searchParams.get('select')).toContain('client_hub_accounts(hub_account_id,hub_account_label)')
+        return response([profile({ client_hub_accounts: [{ hub_account_id: linkedAccountId }, { hub_account_id: hubAccountId }] })])
+      }
+      if (url.includes(`/accounts/${linkedAccountId}/summaries/latest`)) return response(linkedSummary)
+      return response(url.includes('summaries') ? summaryFixture : positionsFixture)
+    })
+    const result = await handlePortfolioDataHubRequest(request('/api/portfolio-data-hub/overview'), 'overview', { env, fetch: fetchMock })
+    expect(result.status).toBe(200)
+    const { data } = await result.json()
+    expect(data.summary.accountId).toBe(hubAccountId)
+    expect(data.accountSummaries.map((s: { accountId: string }) => s.accountId)).toEqual([hubAccountId, linkedAccountId])
+    expect(data.unavailableAccounts).toEqual([])
+    expect(fetchMock.mock.calls.filter(([input]) => String(input).includes('summaries/latest'))).toHaveLength(2)
+  })
+
+  it('fails closed on a malformed linked account', async () => {
+    const fetchMock = gatewayFetch(summaryFixture, profile({ client_hub_accounts: [{ hub_account_id: 'not-a-uuid' }] }))
+    const result = await handlePortfolioDataHubRequest(request('/api/portfolio-data-hub/overview'), 'overview', { env, fetch: fetchMock })
+    expect(result.status).toBe(502)
+    expect(await result.json()).toMatchObject({ error: { code: 'SUPABASE_UNAVAILABLE' } })
+  })
+
+  it('drops a linked summary reported for a different account and keeps the mapped account', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = String(input)
+      if (url.endsWith('/auth/v1/user')) return response({ id: authUserId })
+      if (url.includes('/rest/v1/clients?')) {
+        return response([profile({ client_hub_accounts: [{ hub_account_id: linkedAccountId, hub_account_label: 'Deribit sub-account' }] })])
+      }
+      return response(url.includes('summaries') ? summaryFixture : positionsFixture)
+    })
+    const result = await handlePortfolioDataHubRequest(request('/api/portfolio-data-hub/overview'), 'overview', { env, fetch: fetchMock })
+    expect(result.status).toBe(200)
+    const { data } = await result.json()
+    expect(data.accountSummaries.map((s: { accountId: string }) => s.accountId)).toEqual([hubAccountId])
+    expect(data.positions.items.length).toBeGreaterThan(0)
+    expect(data.unavailableAccounts).toEqual([{ label: 'Deribit sub-account', code: 'HUB_INVALID_RESPONSE' }])
+    expect(JSON.stringify(data)).not.toContain(linkedAccountId)
+  })
+
+  it('reports an unavailable linked account without failing the overview', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = String(input)
+      if (url.endsWith('/auth/v1/user')) return response({ id: authUserId })
+      if (url.includes('/rest/v1/clients?')) return response([profile({ client_hub_accounts: [{ hub_account_id: linkedAccountId }] })])
+      if (url.includes(`/accounts/${linkedAccountId}/`)) return response({ error: 'down' }, 503)
+      return response(url.includes('summaries') ? summaryFixture : positionsFixture)
+    })
+    const result = await handlePortfolioDataHubRequest(request('/api/portfolio-data-hub/overview'), 'overview', { env, fetch: fetchMock })
+    expect(result.status).toBe(200)
+    const { data } = await result.json()
+    expect(data.summary.accountId).toBe(hubAccountId)
+    expect(data.unavailableAccounts).toEqual([{ label: null, code: 'HUB_UNAVAILABLE' }])
+  })
+
+  it('still fails when the mapped account is unavailable', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = String(input)
+      if (url.endsWith('/auth/v1/user')) return response({ id: authUserId })
+      if (url.includes('/rest/v1/clients?')) return response([profile({ client_hub_accounts: [{ hub_account_id: linkedAccountId }] })])
+      if (url.includes(`/accounts/${hubAccountId}/summaries`)) return response({ error: 'down' }, 503)
+      return response(url.includes('summaries') ? { ...structuredClone(summaryFixture), account_id: linkedAccountId } : positionsFixture)
+    })
+    const result = await handlePortfolioDataHubRequest(request('/api/portfolio-data-hub/overview'), 'overview', { env, fetch: fetchMock })
+    expect(result.status).toBe(502)
+    expect(await result.json()).toMatchObject({ error: { code: 'HUB_UNAVAILABLE' } })
+  })
+})
+
 describe('admin reporting-currency discovery', () => {
   it('rejects a normal client before any clients or Hub data is read', async () => {
     const fetchMock = vi.fn<typeof fetch>(async (input) => {
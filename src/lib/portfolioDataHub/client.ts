@@ -9,6 +9,10 @@ import type {
 /** The intentionally small, browser-safe contract exposed by the portal routes. */
 export type PortfolioHubOverview = {
   summary: HubSummary
+  /** Latest summary of every Hub account connected to the client, `summary` first. */
+  accountSummaries: HubSummary[]
+  /** Linked Hub accounts whose summary could not be read, so `accountSummaries` omits them. */
+  unavailableAccounts: Array<{ label: string | null; code: string }>
   positions: HubLatestPositionPage & { pageToken: string }
   reportingCurrency: string | null
   reportingCurrencySource: 'client' | 'admin' | null
@@ -48,10 +48,29 @@ export interface HubRequestContext {
   clientName: string
   hubAccountId: string
   hubAccountLabel: string | null
+  /** Further Hub accounts linked to the client (`client_hub_accounts`), aggregated by the overview. */
+  linkedHubAccounts: LinkedHubAccount[]
   reportingCurrency: string | null
   reportingCurrencySource: 'client' | 'admin' | null
 }
 
+export interface LinkedHubAccount {
+  hubAccountId: string
+  label: string | null
+}
+
+/** A linked account left out of the overview; browser-safe, so it carries no Hub account ID. */
+export interface UnavailableHubAccount {
+  label: string | null
+  code: HubRouteErrorCode
+}
+
+export interface HubAccountSummaries {
+  /** The mapped account's summary first, then every linked account that answered. */
+  summaries: HubSummary[]
+  unavailable: UnavailableHubAccount[]
+}
+
 /** Browser-safe data for the admin currency selector. It deliberately omits Hub routing IDs. */
 export interface AdminReportingCurrencyOptions {
   currencies: string[]
@@ -88,6 +107,7 @@ type PortalClientRow = {
   hub_account_label: string | null
   reporting_currency: string | null
   reporting_currency_source: string | null
+  client_hub_accounts: Array<{ hub_account_id: string | null; hub_account_label: string | null }> | null
 }
 
 type SupabaseAuthUser = {
@@ -354,11 +374,29 @@ export function createPortfolioDataHubGateway(dependencies: GatewayDependencies
     return profileBody as Partial<PortalClientRow>[]
   }
 
+  function linkedHubAccounts(row: Partial<PortalClientRow>): LinkedHubAccount[] {
+    const links = row.client_hub_accounts ?? []
+    if (!Array.isArray(links)) {
+      throw new HubRouteError(502, 'SUPABASE_UNAVAILABLE', 'The portal client mapping is invalid')
+    }
+    const accounts = new Map<string, LinkedHubAccount>()
+    for (const link of links) {
+      const id = link?.hub_account_id
+      if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+        throw new HubRouteError(502, 'SUPABASE_UNAVAILABLE', 'The portal client mapping is invalid')
+      }
+      const label = typeof link.hub_account_label === 'string' ? link.hub_account_label : null
+      if (id !== row.hub_account_id && !accounts.has(id)) accounts.set(id, { hubAccountId: id, label })
+    }
+    return [...accounts.values()]
+  }
+
   async function resolveContext(req: Request): Promise<HubRequestContext> {
     const { user, headers } = await authenticate(req)
 
     const query = new URLSearchParams({
-      select: 'client_id,client_name,hub_account_id,hub_account_label,reporting_currency,reporting_currency_source',
+      // Linked accounts are embedded through their client_id foreign key, under the same RLS scope.
+      select: 'client_id,client_name,hub_account_id,hub_account_label,reporting_currency,reporting_currency_source,client_hub_accounts(hub_account_id,hub_account_label)',
       limit: '2',
     })
     const rows = await readClientRows(headers, query)
@@ -378,6 +416,7 @@ export function createPortfolioDataHubGateway(dependencies: GatewayDependencies
       clientName: row.client_name,
       hubAccountId: row.hub_account_id,
       hubAccountLabel: row.hub_account_label ?? null,
+      linkedHubAccounts: linkedHubAccounts(row),
       reportingCurrency: row.reporting_currency ?? null,
       reportingCurrencySource: reportingCurrencySource(row.reporting_currency_source),
     }
@@ -415,6 +454,7 @@ export function createPortfolioDataHubGateway(dependencies: GatewayDependencies
       clientName: typeof row.client_name === 'string' ? row.client_name : '',
       hubAccountId: row.hub_account_id,
       hubAccountLabel: typeof row.hub_account_label === 'string' ? row.hub_account_label : null,
+      linkedHubAccounts: [],
       reportingCurrency: typeof row.reporting_currency === 'string' ? row.reporting_currency : null,
       reportingCurrencySource: reportingCurrencySource(row.reporting_currency_source),
     }
@@ -492,6 +532,26 @@ export function createPortfolioDataHubGateway(dependencies: GatewayDependencies
     return fetchHub(context, accountPath(context, 'summaries/latest'), null, parseHubSummary)
   }
 
+  /**
+   * Latest summary of every connected account. The mapped account's summary is required; a
+   * linked account that is unavailable or answers for another account is reported instead of
+   * failing the overview.
+   */
+  async function accountSummaries(context: HubRequestContext): Promise<HubAccountSummaries> {
+    const [mapped, ...linked] = await Promise.allSettled([
+      summary(context),
+      ...context.linkedHubAccounts.map(({ hubAccountId }) => summary({ ...context, hubAccountId })),
+    ])
+    if (mapped.status === 'rejected') throw mapped.reason
+    const result: HubAccountSummaries = { summaries: [mapped.value], unavailable: [] }
+    linked.forEach((settled, i) => {
+      if (settled.status === 'fulfilled') { result.summaries.push(settled.value); return }
+      const code = settled.reason instanceof HubRouteError ? settled.reason.code : 'HUB_UNAVAILABLE'
+      result.unavailable.push({ label: context.linkedHubAccounts[i].label, code })
+    })
+    return result
+  }
+
   async function positions(context: HubRequestContext, requestUrl: URL): Promise<HubPositionRoutePage> {
     const search = new URLSearchParams({ limit: String(safeLimit(requestUrl.searchParams.get('limit'), 200)) })
     const cursor = safeOptional(requestUrl.searchParams.get('cursor'), 'cursor')
@@ -545,7 +605,7 @@ export function createPortfolioDataHubGateway(dependencies: GatewayDependencies
     return fetchHub(context, accountPath(context, 'ledger-events'), search, parseHubLedgerEventPage)
   }
 
-  return { resolveContext, summary, positions, latestPositions, ledger, adminReportingCurrencies }
+  return { resolveContext, summary, accountSummaries, positions, latestPositions, ledger, adminReportingCurrencies }
 }
 
 export async function handlePortfolioDataHubRequest(
@@ -565,13 +625,16 @@ export async function handlePortfolioDataHubRequest(
     if (dataset === 'summary') return json({ data: await gateway.summary(context) })
     if (dataset === 'positions') return json({ data: await gateway.positions(context, requestUrl) })
     if (dataset === 'ledger') return json({ data: await gateway.ledger(context, requestUrl) })
-    const [summary, positions] = await Promise.all([
-      gateway.summary(context),
+    const [accounts, positions] = await Promise.all([
+      gateway.accountSummaries(context),
       gateway.latestPositions(context, requestUrl),
     ])
+    const [summary] = accounts.summaries
     return json({
       data: {
         summary,
+        accountSummaries: accounts.summaries,
+        unavailableAccounts: accounts.unavailable,
         positions,
         alignment: compareDatasetAlignment(summary, positions),
         // Configuration is intentionally returned without any privileged mapping IDs.
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { LOT_METHODS, matchAndRealize, type Leg, type Lot, type LotMethod, type TxnRow } from '@/utils'
+import { realizeLegTrades } from '../fetchSavedStructures'
+
+const METHODS = LOT_METHODS.map((m) => m.value)
+
+let seq = 0
+const trade = (side: 'buy' | 'sell', amount: number, price: number, action?: 'open' | 'close'): TxnRow => ({
+  instrument: 'BTC-25DEC26-100000-C', side, action, amount, price,
+  timestamp: new Date(Date.UTC(2026, 9, 1) + seq++ * 60_000).toISOString(),
+})
+
+const leg = (trades: TxnRow[]): Leg => ({
+  key: 'c', strike: 100_000, optionType: 'C', openLots: [], realizedPnl: 0, netPremium: 0, qtyNet: 0, trades,
+})
+
+const realized = (trades: TxnRow[], method: LotMethod, assumeExpired = false) =>
+  realizeLegTrades(leg(trades), { method, assumeExpired })
+
+describe('matchAndRealize', () => {
+  const inventory = (): Lot[] => [
+    { qty: 1, price: 0.05, sign: 1 },
+    { qty: 1, price: 0.09, sign: 1 },
+    { qty: 1, price: 0.07, sign: 1 },
+  ]
+
+  it('picks the lot to close by method', () => {
+    const sell: Lot = { qty: 1, price: 0.1, sign: -1 }
+    expect(matchAndRealize(inventory(), sell, 'fifo').realized).toBeCloseTo(0.05, 12)
+    expect(matchAndRealize(inventory(), sell, 'lifo').realized).toBeCloseTo(0.03, 12)
+    expect(matchAndRealize(inventory(), sell, 'hifo').realized).toBeCloseTo(0.01, 12)
+  })
+
+  it('closes the lowest-priced short lot first under HIFO', () => {
+    const shorts: Lot[] = [{ qty: 1, price: 0.08, sign: -1 }, { qty: 1, price: 0.04, sign: -1 }]
+    const { realized: pnl } = matchAndRealize(shorts, { qty: 1, price: 0.03, sign: 1 }, 'hifo')
+    expect(pnl).toBeCloseTo(0.01, 12)
+    expect(shorts).toEqual([{ qty: 1, price: 0.08, sign: -1 }])
+  })
+})
+
+describe('realizeLegTrades by lot method', () => {
+  const partial = [
+    trade('buy', 1, 0.05, 'open'),
+    trade('buy', 1, 0.09, 'open'),
+    trade('buy', 2, 0.07, 'open'),
+    trade('sell', 2, 0.1, 'close'),
+  ]
+
+  it('realizes partial closes differently per method', () => {
+    expect(realized(partial, 'fifo').realizedPnl).toBeCloseTo(0.05 + 0.01, 12)
+    expect(realized(partial, 'lifo').realizedPnl).toBeCloseTo(0.06, 12)
+    expect(realized(partial, 'hifo').realizedPnl).toBeCloseTo(0.01 + 0.03, 12)
+    // Average cost 0.07 on 4 contracts, 2 sold at 0.10.
+    expect(realized(partial, 'average').realizedPnl).toBeCloseTo(0.06, 12)
+    expect(realized(partial, 'average').openLots).toEqual([{ qty: 2, price: 0.07, sign: 1 }])
+    expect(realized(partial, 'hifo').openLots).toEqual([{ qty: 1, price: 0.05, sign: 1 }, { qty: 1, price: 0.07, sign: 1 }])
+  })
+
+  it('keeps FIFO as the default', () => {
+    expect(realizeLegTrades(leg(partial)).realizedPnl).toBe(realized(partial, 'fifo').realizedPnl)
+  })
+
+  const flatSequences: Record<string, TxnRow[]> = {
+    'long, scaled out': [
+      trade('buy', 1, 0.05, 'open'),
+      trade('buy', 2, 0.09, 'open'),
+      trade('sell', 1, 0.06, 'close'),
+      trade('buy', 1, 0.02, 'open'),
+      trade('sell', 3, 0.11, 'close'),
+    ],
+    'short, bought back': [
+      trade('sell', 2, 0.08, 'open'),
+      trade('sell', 1, 0.12, 'open'),
+      trade('buy', 2, 0.03, 'close'),
+      trade('buy', 1, 0.2, 'close'),
+    ],
+    'reversal through zero': [
+      trade('buy', 2, 0.05),
+      trade('buy', 1, 0.08),
+      trade('sell', 5, 0.1),
+      trade('buy', 2, 0.04),
+    ],
+  }
+
+  for (const [name, trades] of Object.entries(flatSequences)) {
+    it(`agrees on total PnL once the leg is flat (${name})`, () => {
+      const results = METHODS.map((m) => realized(trades, m))
+      for (const r of results) {
+        expect(r.qtyNet).toBeCloseTo(0, 12)
+        expect(r.openLots).toEqual([])
+        expect(r.realizedPnl).toBeCloseTo(results[0].realizedPnl, 12)
+      }
+    })
+  }
+
+  it('agrees once expired lots are settled', () => {
+    const results = METHODS.map((m) => realized(partial, m, true))
+    // Cash flows: −0.05 −0.09 −0.14 +0.20; the remaining lots expire worthless.
+    for (const r of results) expect(r.realizedPnl).toBeCloseTo(-0.08, 12)
+  })
+})
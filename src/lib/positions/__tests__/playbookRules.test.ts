@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { getLegMarkRef, type Leg, type MarksMap, type Position } from '@/utils'
+import {
+  evaluatePlaybookRules,
+  formatPlaybookRules,
+  normalizePlaybookRules,
+  parsePlaybookRules,
+  statusWithSignals,
+  type PlaybookRule,
+} from '../playbookRules'
+
+const expiry = new Date(Date.now() + 25 * 86_400_000).toISOString().slice(0, 10)
+
+const leg = (key: string, strike: number, sign: 1 | -1, price: number): Leg => ({
+  key, strike, optionType: 'P', expiry, exchange: 'deribit',
+  openLots: [{ qty: 1, price, sign }], realizedPnl: 0, netPremium: -sign * price, qtyNet: sign, trades: [],
+})
+
+// Short put spread for a 0.015 BTC credit.
+const position = (status: Position['status'] = 'OPEN'): Position => ({
+  id: 'p1', underlying: 'BTC', expiryISO: expiry, dte: 25, legsCount: 2, type: 'Multi-leg',
+  legs: [leg('short', 90_000, -1, 0.02), leg('long', 85_000, 1, 0.005)],
+  realizedPnl: 0, netPremium: 0.015, status, greeks: {}, exchange: 'deribit',
+})
+
+function marksFor(p: Position, prices: { short?: number; long?: number; shortDelta?: number }): MarksMap {
+  const marks: MarksMap = {}
+  for (const l of p.legs) {
+    const ref = getLegMarkRef(p, l)!
+    const price = prices[l.key as 'short' | 'long']
+    if (price == null) continue
+    marks[ref.key] = {
+      price, multiplier: 1,
+      greeks: l.key === 'short' && prices.shortDelta != null ? { delta: prices.shortDelta } : undefined,
+    }
+  }
+  return marks
+}
+
+const rule = (kind: PlaybookRule['kind'], value: number): PlaybookRule => ({ kind, value })
+
+describe('parsePlaybookRules', () => {
+  it('reads the rule phrases and formats them back', () => {
+    const text = [
+      'take profit at 50% of max gain',
+      'Stop at 2x credit',
+      '',
+      '# time',
+      'close at 21 DTE',
+      'close if short strike delta > 30',
+    ].join('\n')
+    const parsed = parsePlaybookRules(text)
+    expect(parsed).toEqual({
+      ok: true,
+      rules: [rule('profit', 50), rule('stop', 2), rule('dte', 21), rule('short_delta', 0.3)],
+    })
+    if (!parsed.ok) return
+    expect(parsePlaybookRules(formatPlaybookRules(parsed.rules))).toEqual(parsed)
+  })
+
+  it('reports the first line it cannot read', () => {
+    expect(parsePlaybookRules('close at 21 DTE\nroll when it feels right')).toEqual({
+      ok: false,
+      error: 'Line 2: could not read "roll when it feels right".',
+    })
+  })
+
+  it('drops malformed stored rules', () => {
+    expect(normalizePlaybookRules([rule('dte', 21), { kind: 'dte', value: -1 }, { kind: 'vibes', value: 1 }, null]))
+      .toEqual([rule('dte', 21)])
+    expect(normalizePlaybookRules('nope')).toEqual([])
+  })
+})
+
+describe('evaluatePlaybookRules', () => {
+  it('takes profit against the credit when no payoff can be built', () => {
+    const p = position()
+    // Open PnL 0.012 − 0.003 = 0.009, 60% of the 0.015 credit.
+    const [signal] = evaluatePlaybookRules(p, [rule('profit', 50)], marksFor(p, { short: 0.008, long: 0.002 }))
+    expect(signal).toMatchObject({ severity: 'ALERT', lane: 'profit', action: 'Take profit' })
+    expect(signal.detail).toBe('60% of max gain captured (target 50%)')
+  })
+
+  it('flags a stop as it approaches and once it is hit', () => {
+    const p = position()
+    // Loss of 0.02, 1.33× the credit.
+    const marks = marksFor(p, { short: 0.045, long: 0.01 })
+    expect(evaluatePlaybookRules(p, [rule('stop', 2)], marks)).toEqual([])
+    expect(evaluatePlaybookRules(p, [rule('stop', 1.5)], marks)[0]).toMatchObject({ severity: 'ATTENTION', lane: 'loss' })
+    expect(evaluatePlaybookRules(p, [rule('stop', 1)], marks)[0]).toMatchObject({ severity: 'ALERT', lane: 'loss' })
+  })
+
+  it('skips PnL rules unless every open leg is marked', () => {
+    const p = position()
+    expect(evaluatePlaybookRules(p, [rule('profit', 10), rule('stop', 0.1)], marksFor(p, { short: 0.001 }))).toEqual([])
+  })
+
+  it('checks DTE and short strike delta, most severe first', () => {
+    const p = position()
+    const signals = evaluatePlaybookRules(
+      p,
+      [rule('dte', 21), rule('short_delta', 0.3)],
+      marksFor(p, { short: 0.03, long: 0.01, shortDelta: -0.35 }),
+    )
+    expect(signals.map((s) => [s.rule.kind, s.severity, s.lane])).toEqual([
+      ['short_delta', 'ALERT', 'loss'],
+      ['dte', 'ATTENTION', 'time'],
+    ])
+  })
+
+  it('gives closed structures no signals', () => {
+    const p = position('CLOSED')
+    expect(evaluatePlaybookRules(p, [rule('dte', 60)], {})).toEqual([])
+  })
+})
+
+describe('statusWithSignals', () => {
+  it('raises open statuses to the most severe signal', () => {
+    const p = position()
+    const signals = evaluatePlaybookRules(p, [rule('dte', 21), rule('dte', 30)], {})
+    expect(statusWithSignals('OPEN', signals)).toBe('ALERT')
+    expect(statusWithSignals('ATTENTION', signals.slice(1))).toBe('ATTENTION')
+    expect(statusWithSignals('OPEN', [])).toBe('OPEN')
+    expect(statusWithSignals('CLOSED', signals)).toBe('CLOSED')
+  })
+})
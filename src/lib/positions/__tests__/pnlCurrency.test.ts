@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { getLegMarkRef, premiumCurrencyFor, type Leg, type MarksMap, type Position, type TxnRow } from '@/utils'
+import { realizeLegTrades } from '../fetchSavedStructures'
+import { positionPnl, positionRealizedUsd } from '../pnlCurrency'
+
+const expiry = '2026-12-25'
+
+const trade = (side: 'buy' | 'sell', action: 'open' | 'close', price: number, indexPrice?: number, day = '01'): TxnRow => ({
+  instrument: 'BTC-25DEC26-90000-P', side, action, amount: 1, price, indexPrice,
+  timestamp: `2026-10-${day}T10:00:00Z`, expiry, strike: 90_000, optionType: 'P', exchange: 'deribit', underlying: 'BTC',
+})
+
+const leg = (key: string, strike: number, trades: TxnRow[], premiumCurrency = 'BTC'): Leg =>
+  realizeLegTrades({
+    key, strike, optionType: 'P', expiry, exchange: 'deribit', premiumCurrency,
+    openLots: [], realizedPnl: 0, netPremium: 0, qtyNet: 0, trades,
+  })
+
+describe('realizeLegTrades in USD', () => {
+  it('converts coin realizations at the closing fill index', () => {
+    const closed = leg('1-90000-P', 90_000, [trade('sell', 'open', 0.02, 90_000), trade('buy', 'close', 0.005, 80_000, '10')])
+    expect(closed.realizedPnl).toBeCloseTo(0.015)
+    expect(closed.realizedUsd).toBeCloseTo(1_200)
+  })
+
+  it('has no USD value when a closing fill lacks the index', () => {
+    const closed = leg('1-90000-P', 90_000, [trade('sell', 'open', 0.02, 90_000), trade('buy', 'close', 0.005, undefined, '10')])
+    expect(closed.realizedPnl).toBeCloseTo(0.015)
+    expect(closed.realizedUsd).toBeNull()
+  })
+
+  it('keeps USD premiums as they are', () => {
+    const closed = leg('1-90000-P', 90_000, [trade('sell', 'open', 600), trade('buy', 'close', 200, undefined, '10')], 'USD')
+    expect(closed.realizedUsd).toBe(400)
+  })
+})
+
+describe('positionPnl', () => {
+  // A put closed for 0.015 BTC with the index at 80k, and a put still open with the index now at 100k.
+  const legs = [
+    leg('1-90000-P', 90_000, [trade('sell', 'open', 0.02, 90_000), trade('buy', 'close', 0.005, 80_000, '10')]),
+    leg('2-85000-P', 85_000, [{ ...trade('buy', 'open', 0.01, 90_000), instrument: 'BTC-25DEC26-85000-P', strike: 85_000 }]),
+  ]
+  const p: Position = {
+    id: 'p1', underlying: 'BTC', expiryISO: expiry, dte: 67, legsCount: 2, type: 'Multi-leg', legs,
+    realizedPnl: legs.reduce((sum, l) => sum + l.realizedPnl, 0), netPremium: 0.01, status: 'OPEN', greeks: {},
+    exchange: 'deribit', source: 'supabase',
+  }
+  const marks: MarksMap = { [getLegMarkRef(p, legs[1])!.key]: { price: 0.012, multiplier: 1, indexPrice: 100_000 } }
+
+  it('reports coin PnL in the premium currency', () => {
+    const pnl = positionPnl(p, marks, 'coin')
+    expect(pnl.currency).toBe('BTC')
+    expect(pnl.realized).toBeCloseTo(0.015)
+    expect(pnl.unrealized).toBeCloseTo(0.002)
+    expect(pnl.total).toBeCloseTo(0.017)
+  })
+
+  it('converts to USD and separates coin appreciation from option PnL', () => {
+    const pnl = positionPnl(p, marks, 'usd')
+    expect(pnl.currency).toBe('USD')
+    expect(pnl.realized).toBeCloseTo(1_200)
+    expect(pnl.unrealized).toBeCloseTo(200)
+    expect(pnl.total).toBeCloseTo(1_400)
+    // 0.015 BTC realized at 80k is worth 1,500 at 100k.
+    expect(pnl.coinAppreciation).toBeCloseTo(300)
+    expect(positionPnl(p, undefined, 'usd')).toMatchObject({ realized: positionRealizedUsd(p), total: null, coinAppreciation: null })
+  })
+
+  it('leaves linear structures in USD with no coin appreciation', () => {
+    expect(premiumCurrencyFor('deribit', 'BTC_USDC')).toBe('USD')
+    const linear: Position = { ...p, underlying: 'BTC_USDC', legs: legs.map((l) => ({ ...l, premiumCurrency: 'USD' })) }
+    const pnl = positionPnl(linear, {}, 'usd')
+    expect(pnl).toMatchObject({ currency: 'USD', realized: linear.realizedPnl, unrealized: 0, coinAppreciation: 0 })
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getLegMarkRef, type Leg, type MarksMap, type Position, type TxnRow } from '@/utils'
+import type { ChainInstrument } from '@/lib/venues/deribit'
+import { createStructure } from '../createStructure'
+import { syncLinkedStructures } from '../syncLinkedStructures'
+import {
+  planRoll,
+  rollChain,
+  rollChainPnl,
+  rollPreview,
+  rollStructure,
+  rollTargetRef,
+  rollTradeRows,
+} from '../rollStructure'
+
+vi.mock('../createStructure', () => ({ createStructure: vi.fn() }))
+vi.mock('../syncLinkedStructures', () => ({ syncLinkedStructures: vi.fn() }))
+
+const isoIn = (days: number) => new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10)
+const expiry = isoIn(10)
+const nextExpiry = isoIn(38)
+
+const leg = (key: string, strike: number, sign: 1 | -1, price: number): Leg => ({
+  key, strike, optionType: 'P', expiry, exchange: 'deribit',
+  openLots: [{ qty: 1, price, sign }], realizedPnl: 0, netPremium: -sign * price, qtyNet: sign, trades: [],
+})
+
+// Short 90k / long 85k put spread.
+const position = (overrides: Partial<Position> = {}): Position => ({
+  id: 'p1', structureId: 'S-1', underlying: 'BTC', expiryISO: expiry, dte: 10, legsCount: 2, type: 'Multi-leg',
+  legs: [leg('short', 90_000, -1, 0.02), leg('long', 85_000, 1, 0.005)],
+  realizedPnl: 0, netPremium: 0.015, status: 'OPEN', greeks: {}, exchange: 'deribit',
+  ...overrides,
+})
+
+const chain: ChainInstrument[] = [80_000, 84_000, 86_000, 88_000, 92_000, 95_000].map((strike) => ({
+  instrument_name: `BTC-X-${strike}-P`, strike, option_type: 'put',
+}))
+
+describe('planRoll', () => {
+  it('keeps the width around the moved anchor and snaps to listed strikes', () => {
+    const p = position()
+    expect(planRoll(p, { expiry: nextExpiry, mode: 'width', chain }).map((l) => [l.fromStrike, l.toStrike]))
+      .toEqual([[90_000, 88_000], [85_000, 84_000]])
+    const moved = planRoll(p, { expiry: nextExpiry, mode: 'width', chain, anchorStrike: 88_000 })
+    expect(moved.map((l) => [l.qty, l.toStrike, l.toExpiry])).toEqual([[-1, 88_000, nextExpiry], [1, 84_000, nextExpiry]])
+  })
+
+  it('takes custom strikes and falls back to the current strike', () => {
+    const legs = planRoll(position(), { expiry: nextExpiry, mode: 'custom', chain, strikes: [95_000] })
+    expect(legs.map((l) => l.toStrike)).toEqual([95_000, 84_000])
+  })
+
+  it('matches the current delta from the marks', () => {
+    const p = position()
+    const marks: MarksMap = {}
+    for (const l of p.legs) marks[getLegMarkRef(p, l)!.key] = { price: 0.01, multiplier: 1, iv: 50, indexPrice: 100_000 }
+    const legs = planRoll(p, { expiry: nextExpiry, mode: 'delta', chain, marks })
+    // A longer-dated out-of-the-money put at the same delta sits further out of the money.
+    expect(legs[0].toStrike).toBeLessThan(90_000)
+    expect(legs[1].toStrike).toBeLessThan(85_000)
+  })
+})
+
+describe('rollPreview', () => {
+  it('nets the closing and opening cash and builds the trades', () => {
+    const p = position()
+    const legs = planRoll(p, { expiry: nextExpiry, mode: 'width', chain, anchorStrike: 88_000 })
+    const marks: MarksMap = {
+      [getLegMarkRef(p, p.legs[0])!.key]: { price: 0.01, multiplier: 1 },
+      [getLegMarkRef(p, p.legs[1])!.key]: { price: 0.002, multiplier: 1 },
+      [rollTargetRef(p, legs[0])!.key]: { price: 0.03, multiplier: 1 },
+    }
+    expect(rollPreview(p, legs, marks).net).toBeNull()
+    expect(rollTradeRows(p, rollPreview(p, legs, marks))).toBeNull()
+
+    marks[rollTargetRef(p, legs[1])!.key] = { price: 0.012, multiplier: 1 }
+    const preview = rollPreview(p, legs, marks)
+    // Buy back the short (-0.01), sell the long (+0.002), sell the new short (+0.03), buy the new long (-0.012).
+    expect(preview.closeCash).toBeCloseTo(-0.008)
+    expect(preview.openCash).toBeCloseTo(0.018)
+    expect(preview.net).toBeCloseTo(0.01)
+
+    const rows = rollTradeRows(p, preview, '2026-10-19T10:00:00Z')!
+    expect(rows.closeRows.map((r) => [r.side, r.action, r.strike, r.price])).toEqual([
+      ['buy', 'close', 90_000, 0.01],
+      ['sell', 'close', 85_000, 0.002],
+    ])
+    expect(rows.openRows.map((r) => [r.side, r.action, r.strike, r.expiry])).toEqual([
+      ['sell', 'open', 88_000, nextExpiry],
+      ['buy', 'open', 84_000, nextExpiry],
+    ])
+  })
+})
+
+describe('rollChain', () => {
+  it('orders the campaign from the first structure and sums its PnL', () => {
+    const first = position({ id: 'a', realizedPnl: 0.004, status: 'CLOSED' })
+    const second = position({ id: 'b', rolledFromId: 'a', realizedPnl: -0.001, status: 'CLOSED' })
+    const third = position({ id: 'c', rolledFromId: 'b', realizedPnl: 0 })
+    const other = position({ id: 'x' })
+    const chainOf = rollChain([third, other, first, second], 'b')
+    expect(chainOf.map((p) => p.id)).toEqual(['a', 'b', 'c'])
+    expect(rollChainPnl(chainOf)).toBeCloseTo(0.003)
+    expect(rollChain([other], 'missing')).toEqual([])
+  })
+})
+
+describe('rollStructure', () => {
+  const rows = { closeRows: [{ timestamp: '2026-10-19T10:00:00Z' }] as TxnRow[], openRows: [{}] as TxnRow[] }
+
+  beforeEach(() => {
+    vi.mocked(createStructure).mockReset()
+    vi.mocked(syncLinkedStructures).mockReset()
+  })
+
+  it('books the closer, closes the old structure and opens the successor', async () => {
+    vi.mocked(createStructure)
+      .mockResolvedValueOnce({ ok: true, positionId: 'closer' } as never)
+      .mockResolvedValueOnce({ ok: true, positionId: 'next' } as never)
+    vi.mocked(syncLinkedStructures).mockResolvedValue({ ok: true } as never)
+
+    const res = await rollStructure({} as never, { position: position(), ...rows })
+    expect(res).toEqual({ ok: true, positionId: 'next', closingPositionId: 'closer' })
+    expect(vi.mocked(createStructure).mock.calls[0][1]).toMatchObject({ lifecycle: 'close', closeTargetStructureId: 'p1' })
+    expect(vi.mocked(syncLinkedStructures).mock.calls[0][1]).toMatchObject({
+      sourceId: 'closer', linkedIds: ['p1'], closedAt: '2026-10-19T10:00:00Z',
+    })
+    expect(vi.mocked(createStructure).mock.calls[1][1]).toMatchObject({ rolledFromStructureId: 'p1' })
+  })
+
+  it('reports a successor that failed after the close', async () => {
+    vi.mocked(createStructure)
+      .mockResolvedValueOnce({ ok: true, positionId: 'closer' } as never)
+      .mockResolvedValueOnce({ ok: false, error: 'denied' } as never)
+    vi.mocked(syncLinkedStructures).mockResolvedValue({ ok: true } as never)
+
+    const res = await rollStructure({} as never, { position: position(), ...rows })
+    expect(res).toEqual({ ok: false, error: 'Closed S-1 but failed to open the successor: denied' })
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Leg, Position, TxnRow } from '@/utils'
+import { dbGetDeliveryPrices } from '@/lib/venues/deribit'
+import deliveryFixture from '../__fixtures__/deribit-delivery-prices.json'
+import { createStructure } from '../createStructure'
+import { syncLinkedStructures } from '../syncLinkedStructures'
+import { realizeLegTrades } from '../fetchSavedStructures'
+import {
+  deliveryPriceKey,
+  fetchDeliveryPrices,
+  intrinsicSettlementPrice,
+  planExpirySettlement,
+  settleExpiredStructure,
+  type DeliveryPrices,
+} from '../settleExpiries'
+
+vi.mock('../createStructure', () => ({ createStructure: vi.fn() }))
+vi.mock('../syncLinkedStructures', () => ({ syncLinkedStructures: vi.fn() }))
+
+const expiry = '2026-09-25'
+const afterExpiry = Date.parse('2026-09-25T09:00:00Z')
+
+const open = (strike: number, side: 'buy' | 'sell', price: number): TxnRow => ({
+  instrument: `BTC-25SEP26-${strike}-P`, side, action: 'open', amount: 1, price,
+  timestamp: '2026-09-01T10:00:00Z', expiry, strike, optionType: 'P', exchange: 'deribit',
+})
+
+const leg = (key: string, strike: number, side: 'buy' | 'sell', price: number): Leg => ({
+  key, strike, optionType: 'P', expiry, exchange: 'deribit',
+  openLots: [], realizedPnl: 0, netPremium: 0, qtyNet: side === 'buy' ? 1 : -1, trades: [open(strike, side, price)],
+})
+
+// Short 90k / long 85k put spread for a 0.015 BTC credit, expired with the index at 88k.
+const position = (overrides: Partial<Position> = {}): Position => ({
+  id: 'p1', structureId: 'S-1', underlying: 'BTC', expiryISO: expiry, dte: 0, legsCount: 2, type: 'Multi-leg',
+  legs: [leg('1-90000-P', 90_000, 'sell', 0.02), leg('2-85000-P', 85_000, 'buy', 0.005)],
+  realizedPnl: 0, netPremium: 0.015, status: 'CLOSED', greeks: {}, exchange: 'deribit', source: 'supabase',
+  ...overrides,
+})
+
+const pricesFrom = (fixture: typeof deliveryFixture): DeliveryPrices =>
+  Object.fromEntries(fixture.result.data.map((row) => [deliveryPriceKey('BTC', row.date), row.delivery_price]))
+
+describe('intrinsicSettlementPrice', () => {
+  it('settles inverse options in coin and linear options in USD', () => {
+    expect(intrinsicSettlementPrice('P', 90_000, 88_000, 'inverse')).toBeCloseTo(2_000 / 88_000)
+    expect(intrinsicSettlementPrice('C', 90_000, 88_000, 'inverse')).toBe(0)
+    expect(intrinsicSettlementPrice('C', 3_000, 3_250, 'linear')).toBe(250)
+  })
+})
+
+describe('dbGetDeliveryPrices', () => {
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('keys the delivery prices by date', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(deliveryFixture)))
+    vi.stubGlobal('fetch', fetchMock)
+    const prices = await dbGetDeliveryPrices('BTC')
+    expect(prices['2026-09-25']).toBe(88_000)
+    expect(Object.keys(prices)).toHaveLength(4)
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toContain('index_name=btc_usd')
+  })
+
+  it('fetches once per venue and underlying for expired structures only', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(deliveryFixture)))
+    vi.stubGlobal('fetch', fetchMock)
+    const live = position({ id: 'live', expiryISO: '2026-12-25' })
+    const prices = await fetchDeliveryPrices([position(), position({ id: 'p2' }), live], afterExpiry)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(prices).toEqual(pricesFrom(deliveryFixture))
+  })
+})
+
+describe('planExpirySettlement', () => {
+  const prices = pricesFrom(deliveryFixture)
+
+  it('books closing fills at intrinsic value and realizes the settlement', () => {
+    const p = position()
+    const plan = planExpirySettlement(p, prices, afterExpiry)!
+    expect(plan.settledAt).toBe('2026-09-25T08:00:00.000Z')
+    expect(plan.rows.map((r) => [r.instrument, r.side, r.action, r.amount])).toEqual([
+      ['BTC-25SEP26-90000-P', 'buy', 'close', 1],
+      ['BTC-25SEP26-85000-P', 'sell', 'close', 1],
+    ])
+    expect(plan.rows[0].price).toBeCloseTo(2_000 / 88_000)
+    expect(plan.rows[1].price).toBe(0)
+
+    // Merged back into the legs, the fills realize credit minus the settlement value.
+    const realized = p.legs.reduce(
+      (sum, l, i) => sum + realizeLegTrades({ ...l, trades: [...l.trades, plan.rows[i]] }).realizedPnl,
+      0,
+    )
+    expect(realized).toBeCloseTo(0.015 - 2_000 / 88_000)
+  })
+
+  it('waits for the settlement time and the delivery price', () => {
+    expect(planExpirySettlement(position(), prices, Date.parse('2026-09-25T07:59:00Z'))).toBeNull()
+    expect(planExpirySettlement(position(), {}, afterExpiry)).toBeNull()
+    expect(planExpirySettlement(position({ closedAt: '2026-09-20T10:00:00Z' }), prices, afterExpiry)).toBeNull()
+    const calendar = position()
+    calendar.legs[1] = { ...calendar.legs[1], expiry: '2026-12-25' }
+    expect(planExpirySettlement(calendar, prices, afterExpiry)).toBeNull()
+  })
+})
+
+// Columns PostgREST accepts per table; writes naming anything else fail as they would live.
+const COLUMNS: Record<string, string[]> = {
+  deliveries: ['position_id', 'client_id', 'client_name', 'trade_id', 'delivered_at', 'delivery_type', 'delivery_price', 'notes'],
+}
+
+function strictClient(opts: { failInsert?: string } = {}) {
+  const inserted: Record<string, unknown>[] = []
+  const deleted: string[] = []
+  const unknownColumns = (table: string, row: Record<string, unknown>) =>
+    Object.keys(row).filter((key) => !(COLUMNS[table] ?? []).includes(key))
+  const from = (table: string) => {
+    const result = { error: null as { message: string } | null }
+    const builder: Record<string, unknown> = {
+      insert: (rows: Record<string, unknown>[]) => {
+        const unknown = rows.flatMap((row) => unknownColumns(table, row))
+        if (unknown.length) return Promise.resolve({ error: { message: `column "${unknown[0]}" of "${table}" does not exist` } })
+        if (opts.failInsert === table) return Promise.resolve({ error: { message: 'insert failed' } })
+        inserted.push(...rows)
+        return Promise.resolve({ error: null })
+      },
+      update: (row: Record<string, unknown>) => {
+        const unknown = unknownColumns(table, row)
+        if (unknown.length) result.error = { message: `column "${unknown[0]}" of "${table}" does not exist` }
+        return builder
+      },
+      delete: () => { deleted.push(table); return builder },
+      eq: () => builder,
+      then: (resolve: (v: unknown) => void) => resolve(result),
+    }
+    return builder
+  }
+  return { client: { from } as never, inserted, deleted }
+}
+
+describe('settleExpiredStructure', () => {
+  beforeEach(() => {
+    vi.mocked(createStructure).mockReset()
+    vi.mocked(syncLinkedStructures).mockReset()
+    vi.mocked(createStructure).mockResolvedValue({ ok: true, positionId: 'closer', inserted: 2 })
+    vi.mocked(syncLinkedStructures).mockResolvedValue({ ok: true })
+  })
+
+  it('books the closer, records the deliveries and closes the structure', async () => {
+    const { client, inserted } = strictClient()
+    const plan = planExpirySettlement(position({ clientName: 'Acme' }), pricesFrom(deliveryFixture), afterExpiry)!
+    const res = await settleExpiredStructure(client, plan)
+    expect(res).toEqual({ ok: true, closingPositionId: 'closer' })
+    expect(vi.mocked(createStructure).mock.calls[0][1]).toMatchObject({ lifecycle: 'close', closeTargetStructureId: 'p1' })
+    expect(vi.mocked(syncLinkedStructures).mock.calls[0][1]).toMatchObject({
+      sourceId: 'closer', linkedIds: ['p1'], closedAt: '2026-09-25T08:00:00.000Z',
+    })
+    expect(inserted).toEqual([
+      expect.objectContaining({ position_id: 'closer', client_name: 'Acme', trade_id: 'settlement-p1-1-90000-P', delivery_price: 88_000 }),
+      expect.objectContaining({ position_id: 'closer', trade_id: 'settlement-p1-2-85000-P', delivered_at: '2026-09-25T08:00:00.000Z' }),
+    ])
+  })
+
+  it("books an admin's settlement under the expired structure's client", async () => {
+    const { client, inserted } = strictClient()
+    const plan = planExpirySettlement(position({ clientName: 'Beta' }), pricesFrom(deliveryFixture), afterExpiry)!
+    await settleExpiredStructure(client, plan, { isAdmin: true, createdBy: 'admin-1' })
+    const scope = { clientName: 'Beta', isAdmin: true }
+    expect(vi.mocked(createStructure).mock.calls[0][1]).toMatchObject({ clientScope: scope, createdBy: 'admin-1' })
+    expect(vi.mocked(syncLinkedStructures).mock.calls[0][1]).toMatchObject({ clientScope: scope })
+    expect(inserted.every((row) => row.client_name === 'Beta')).toBe(true)
+  })
+
+  it('removes the closer and leaves the structure open when the deliveries fail', async () => {
+    const { client, deleted } = strictClient({ failInsert: 'deliveries' })
+    const plan = planExpirySettlement(position(), pricesFrom(deliveryFixture), afterExpiry)!
+    const res = await settleExpiredStructure(client, plan)
+    expect(res.ok).toBe(false)
+    expect(deleted).toEqual(['fills', 'legs', 'positions'])
+    expect(syncLinkedStructures).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { classifyStatus, DEFAULT_STATUS_THRESHOLDS, getLegMarkRef, type Leg, type Position } from '@/utils'
+import {
+  classifyLiveStatus,
+  describeStatusThresholds,
+  normalizeStatusThresholds,
+  resolveStatusThresholds,
+} from '../statusThresholds'
+
+const stored = {
+  alert_dte: 1,
+  attention_dte: 2,
+  alert_loss: null,
+  alert_pnl_pct: 'a lot',
+  by_strategy: {
+    ic: { alert_dte: 21, attention_dte: 28, profit_target_pct: 50 },
+  },
+}
+
+describe('resolveStatusThresholds', () => {
+  it('layers strategy overrides over the playbook over the defaults', () => {
+    const config = normalizeStatusThresholds(stored)
+    expect(resolveStatusThresholds(config, 'VS')).toEqual({
+      ...DEFAULT_STATUS_THRESHOLDS, alertDte: 1, attentionDte: 2, alertLoss: null,
+    })
+    expect(resolveStatusThresholds(config, 'IC')).toEqual({
+      ...DEFAULT_STATUS_THRESHOLDS, alertDte: 21, attentionDte: 28, alertLoss: null, profitTargetPct: 50,
+    })
+    expect(resolveStatusThresholds(undefined, 'IC')).toBe(DEFAULT_STATUS_THRESHOLDS)
+  })
+
+  it('ignores malformed configuration', () => {
+    expect(normalizeStatusThresholds(null)).toEqual({ base: {}, byStrategy: {} })
+    expect(normalizeStatusThresholds({ alert_dte: null, by_strategy: [] })).toEqual({ base: {}, byStrategy: {} })
+  })
+})
+
+describe('classifyStatus', () => {
+  it('keeps the default thresholds', () => {
+    expect(classifyStatus(7, null, 0)).toBe('ALERT')
+    expect(classifyStatus(30, -10, 0)).toBe('ALERT')
+    expect(classifyStatus(30, null, -100)).toBe('ALERT')
+    expect(classifyStatus(14, 5, 0)).toBe('ATTENTION')
+    expect(classifyStatus(30, -1, 0)).toBe('ATTENTION')
+    expect(classifyStatus(30, 5, 0)).toBe('OPEN')
+  })
+
+  it('applies per-playbook thresholds', () => {
+    const weekend = resolveStatusThresholds(normalizeStatusThresholds(stored), 'VS')
+    expect(classifyStatus(1, null, -500, weekend)).toBe('ALERT')
+    expect(classifyStatus(2, null, -500, weekend)).toBe('ATTENTION')
+    expect(classifyStatus(3, null, -500, weekend)).toBe('OPEN')
+
+    const condor = resolveStatusThresholds(normalizeStatusThresholds(stored), 'IC')
+    expect(classifyStatus(25, 5, 0, condor)).toBe('ATTENTION')
+    expect(classifyStatus(45, 41, 0, condor)).toBe('ATTENTION')
+    expect(classifyStatus(45, 50, 0, condor)).toBe('ALERT')
+    expect(classifyStatus(45, 30, 0, condor)).toBe('OPEN')
+  })
+
+  it('describes the thresholds', () => {
+    expect(describeStatusThresholds(DEFAULT_STATUS_THRESHOLDS)).toBe(
+      'Alert: ≤7 DTE, PnL ≤-10%, realized loss ≥100. Attention: ≤14 DTE, PnL <0%.',
+    )
+  })
+})
+
+describe('classifyLiveStatus', () => {
+  // A short put sold for 0.02 with 45 days left, under the playbook's IC thresholds.
+  const leg: Leg = {
+    key: '1-80000-P', strike: 80_000, optionType: 'P', expiry: '2099-12-25', exchange: 'deribit',
+    openLots: [{ sign: -1, qty: 1, price: 0.02 }], realizedPnl: 0, netPremium: 0.02, qtyNet: -1,
+    trades: [{
+      instrument: 'BTC-25DEC99-80000-P', side: 'sell', action: 'open', amount: 1, price: 0.02,
+      timestamp: '2099-11-10T10:00:00Z', expiry: '2099-12-25', strike: 80_000, optionType: 'P', exchange: 'deribit',
+    }],
+  }
+  const p: Position = {
+    id: 'p1', underlying: 'BTC', expiryISO: '2099-12-25', dte: 45, legsCount: 1, type: 'Single', legs: [leg],
+    realizedPnl: 0, netPremium: 0.02, status: 'OPEN', greeks: {}, exchange: 'deribit', strategyCode: 'IC',
+  }
+  const config = normalizeStatusThresholds(stored)
+  const marksAt = (price: number) => ({ [getLegMarkRef(p, leg)!.key]: { price, multiplier: 1 } })
+
+  it('classifies at the live PnL % under the strategy thresholds', () => {
+    expect(classifyLiveStatus(p, undefined, config)).toBe('OPEN')
+    expect(classifyLiveStatus(p, marksAt(0.012), config)).toBe('ATTENTION')
+    expect(classifyLiveStatus(p, marksAt(0.01), config)).toBe('ALERT')
+    expect(classifyLiveStatus(p, marksAt(0.01), undefined)).toBe('OPEN')
+    expect(classifyLiveStatus({ ...p, status: 'CLOSED' }, marksAt(0.01), config)).toBe('CLOSED')
+  })
+})
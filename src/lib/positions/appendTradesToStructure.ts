@@ -3,6 +3,7 @@ import type { TxnRow, Exchange } from '@/utils'
 import type { SupabaseClientScope } from './clientScope'
 import { cleanupUnprocessedImports } from './cleanupUnprocessedImports'
 import { type NormalizedTrade, normalizeTradeRow } from './normalizeTradeRow'
+import { VENUE_ADAPTERS, isExchange } from '@/lib/venues/registry'
 
 export type AppendTradesToStructureParams = {
   structureId: string;
@@ -29,11 +30,10 @@ export async function appendTradesToStructure(
   }
 
   const rawExchange = rows[0]?.exchange
-  const VALID_EXCHANGES = ['deribit', 'coincall', 'cme'] as const
-  if (!rawExchange || !VALID_EXCHANGES.includes(rawExchange as Exchange)) {
-    return { ok: false, error: `Invalid or missing exchange: "${rawExchange}". Expected one of: ${VALID_EXCHANGES.join(', ')}` }
+  if (!isExchange(rawExchange)) {
+    return { ok: false, error: `Invalid or missing exchange: "${rawExchange}". Expected one of: ${VENUE_ADAPTERS.map((v) => v.id).join(', ')}` }
   }
-  const exchange = rawExchange as Exchange
+  const exchange = rawExchange
 
   const normalizedRows: NormalizedTrade[] = []
   for (const row of rows) {
@@ -106,6 +106,7 @@ export async function appendTradesToStructure(
     trade_id: row.tradeId,
     order_id: row.orderId,
     fees: row.fee,
+    index_price: row.indexPrice,
     notes: row.notes,
   }))
 
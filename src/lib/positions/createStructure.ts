@@ -4,6 +4,9 @@ import type { OptionsStructure, Construction, ExecutionRoute } from '@/lib/impor
 import type { SupabaseClientScope } from './clientScope'
 import { cleanupUnprocessedImports } from './cleanupUnprocessedImports'
 import { type NormalizedTrade, normalizeTradeRow } from './normalizeTradeRow'
+import { VENUE_ADAPTERS, isExchange } from '@/lib/venues/registry'
+import { settlementFor } from '@/lib/pricing'
+import { analyzeStructure } from '@/lib/payoff'
 
 export type CreateStructureParams = {
   rows: TxnRow[]
@@ -17,6 +20,11 @@ export type CreateStructureParams = {
   construction?: Construction
   executionRoute?: ExecutionRoute
   notes?: string
+  /** 'close' books the rows as a closing structure of `closeTargetStructureId`. */
+  lifecycle?: 'open' | 'close'
+  closeTargetStructureId?: string
+  /** The structure this one was rolled from (roll chain link). */
+  rolledFromStructureId?: string
 }
 
 export type CreateStructureResult =
@@ -33,11 +41,10 @@ export async function createStructure(
   }
 
   const rawExchange = params.exchange ?? rows[0]?.exchange
-  const VALID_EXCHANGES = ['deribit', 'coincall', 'cme'] as const
-  if (!rawExchange || !VALID_EXCHANGES.includes(rawExchange as Exchange)) {
-    return { ok: false, error: `Invalid or missing exchange: "${rawExchange}". Expected one of: ${VALID_EXCHANGES.join(', ')}` }
+  if (!isExchange(rawExchange)) {
+    return { ok: false, error: `Invalid or missing exchange: "${rawExchange}". Expected one of: ${VENUE_ADAPTERS.map((v) => v.id).join(', ')}` }
   }
-  const exchange = rawExchange as Exchange
+  const exchange = rawExchange
 
   const normalizedRows: NormalizedTrade[] = []
   for (const row of rows) {
@@ -63,6 +70,18 @@ export async function createStructure(
     return acc + sign * Math.abs(r.qty) * r.price
   }, 0)
 
+  const analytics = analyzeStructure(
+    normalizedRows.map((r) => ({
+      side: r.side,
+      option_type: r.optionType,
+      expiry: r.expiry,
+      strike: r.strike,
+      qty: r.qty,
+      price: r.price,
+    })),
+    { settlement: settlementFor(exchange, underlying) },
+  )
+
   const { error: positionError } = await client.from('positions').insert({
     position_id: positionId,
     underlier: underlying,
@@ -72,14 +91,20 @@ export async function createStructure(
     client_name: clientName,
     options_structure: optionsStructure,
     construction,
-    risk_defined: isMultiLeg,
+    risk_defined: analytics?.riskDefined ?? isMultiLeg,
+    max_gain: analytics?.maxGain ?? null,
+    max_loss: analytics?.maxLoss ?? null,
     execution_route: executionRoute,
     net_fill: netFill,
     provider: exchange,
-    lifecycle: 'open',
+    lifecycle: params.lifecycle ?? 'open',
     entry_ts: entryTs,
     archived: false,
     notes: params.notes ?? null,
+    ...(params.closeTargetStructureId
+      ? { close_target_structure_id: params.closeTargetStructureId, linked_structure_ids: [params.closeTargetStructureId] }
+      : {}),
+    ...(params.rolledFromStructureId ? { rolled_from_position_id: params.rolledFromStructureId } : {}),
   })
 
   if (positionError) {
@@ -109,6 +134,7 @@ export async function createStructure(
     trade_id: row.tradeId,
     order_id: row.orderId,
     fees: row.fee,
+    index_price: row.indexPrice,
     notes: row.notes,
   }))
 
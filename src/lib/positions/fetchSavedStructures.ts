@@ -1,7 +1,12 @@
 import type { SupabaseClient } from "../supabase";
-import type { Position, TxnRow, Exchange, Leg } from "@/utils";
-import { daysTo, daysSince, fifoMatchAndRealize, legNetQty } from "@/utils";
+import type { Position, TxnRow, Exchange, Leg, LotMethod } from "@/utils";
+import { addOpenLot, calculatePnlPct, classifyStatus, daysTo, daysSince, isLotMethod, legNetQty, LOT_METHODS, matchAndRealize, premiumCurrencyFor } from "@/utils";
 import type { SupabaseClientScope } from "./clientScope";
+import {
+  normalizeStatusThresholds,
+  resolveStatusThresholds,
+  type PlaybookStatusThresholds,
+} from "./statusThresholds";
 
 type RawLeg = {
   leg_seq: number | null;
@@ -23,6 +28,10 @@ type RawFill = {
   order_id?: string | null;
   trade_id?: string | null;
   fees: number | string | null;
+  liquidity_role?: string | null;
+  execution_mode?: string | null;
+  provider?: string | null;
+  index_price?: number | string | null;
 };
 
 type RawPosition = {
@@ -63,6 +72,7 @@ type RawPosition = {
   pricing_currency?: string | null;
   notes?: string | null;
   close_target_structure_id?: string | null;
+  rolled_from_position_id?: string | null;
   linked_structure_ids?: string[] | null;
   legs?: RawLeg[] | null;
   fills?: RawFill[] | null;
@@ -237,8 +247,12 @@ function mapLeg(
       price: fillPrice,
       fee: parseNumeric(fill.fees) ?? null,
       timestamp: fill.ts ?? position.entry_ts ?? undefined,
+      indexPrice: parseNumeric(fill.index_price) ?? undefined,
       trade_id: fill.trade_id ?? position.trade_id ?? undefined,
       order_id: fill.order_id ?? position.order_id ?? undefined,
+      liquidityRole: fill.liquidity_role === "maker" || fill.liquidity_role === "taker" ? fill.liquidity_role : undefined,
+      executionMode: fill.execution_mode ?? undefined,
+      provider: fill.provider ?? position.provider ?? undefined,
       info: undefined,
       underlying: instrumentUnderlier,
       expiry: expiryISO ?? undefined,
@@ -260,6 +274,7 @@ function mapLeg(
     trades,
     exchange,
     expiry: expiryISO ?? undefined,
+    premiumCurrency: premiumCurrencyFor(exchange, instrumentUnderlier),
   };
 }
 
@@ -365,10 +380,38 @@ function openingWindowNetPremium(trades: TxnRow[]) {
   return { netPremium, basisQty };
 }
 
-function realizeLegTrades(leg: Leg, options: { assumeExpired?: boolean } = {}): Leg {
+function legPremiumCurrency(leg: Leg): string {
+  return leg.premiumCurrency ?? premiumCurrencyFor(leg.exchange, leg.trades?.[0]?.underlying ?? "");
+}
+
+/** USD per unit of the leg's premium currency: 1 for USD premiums, else the quantity-weighted index of its fills. */
+function legUsdRate(leg: Leg): number | null {
+  if (legPremiumCurrency(leg) === "USD") return 1;
+  let qty = 0;
+  let weighted = 0;
+  for (const trade of leg.trades ?? []) {
+    const index = parseNumeric(trade.indexPrice);
+    const amount = Math.abs(parseNumeric(trade.amount) ?? 0);
+    if (index == null || index <= 0 || amount === 0) continue;
+    qty += amount;
+    weighted += index * amount;
+  }
+  return qty > 0 ? weighted / qty : null;
+}
+
+/**
+ * Replay a leg's trades in time order into open lots, realized PnL and net quantity.
+ * Lots are matched FIFO unless `method` says otherwise; `assumeExpired` settles any
+ * remaining lots at zero. Coin-premium realizations are also converted to USD at the
+ * closing fill's index price (`realizedUsd`).
+ */
+export function realizeLegTrades(leg: Leg, options: { assumeExpired?: boolean; method?: LotMethod } = {}): Leg {
+  const method = options.method ?? "fifo";
   const inventory: typeof leg.openLots = [];
   let realizedPnl = 0;
+  let realizedUsd: number | null = 0;
   let qtyNet = 0;
+  const isUsdPremium = legPremiumCurrency(leg) === "USD";
 
   const trades = sortTrades(leg.trades ?? []);
   const openingSign = deriveOpeningSign(trades);
@@ -398,11 +441,13 @@ function realizeLegTrades(leg: Leg, options: { assumeExpired?: boolean } = {}):
     const isClosingTrade = trade.action === "close" || (inventory.length > 0 && inventory[0].sign !== sign);
 
     if (isClosingTrade) {
-      const { realized, remainder } = fifoMatchAndRealize(inventory, lot);
+      const { realized, remainder } = matchAndRealize(inventory, lot, method);
       realizedPnl += realized;
+      const usdRate = isUsdPremium ? 1 : parseNumeric(trade.indexPrice);
+      if (realizedUsd != null && realized !== 0) realizedUsd = usdRate != null && usdRate > 0 ? realizedUsd + realized * usdRate : null;
       if (remainder) inventory.push(remainder);
     } else {
-      inventory.push(lot);
+      addOpenLot(inventory, lot, method);
     }
   }
 
@@ -416,15 +461,20 @@ function realizeLegTrades(leg: Leg, options: { assumeExpired?: boolean } = {}):
       realizedPnl += lot.sign === -1 ? lot.price * lot.qty : -lot.price * lot.qty;
     }
     inventory.length = 0;
+    // Settling at zero without a fill leaves no index price to convert at.
+    if (!isUsdPremium) realizedUsd = null;
   }
 
   const realizedBounded =
     initialNetPremium > 0 && realizedPnl > initialNetPremium ? initialNetPremium : realizedPnl;
+  if (isUsdPremium) realizedUsd = realizedBounded;
+  else if (realizedUsd != null && realizedBounded !== realizedPnl) realizedUsd *= realizedBounded / realizedPnl;
 
   return {
     ...leg,
     openLots: inventory,
     realizedPnl: realizedBounded,
+    realizedUsd,
     netPremium: initialNetPremium,
     netPremiumBasisQty: initialPremiumQty,
     qtyNet,
@@ -443,16 +493,22 @@ function applyFeesToLegs(
   const legFees = legs.map((_, idx) => explicitLegFees[idx] ?? tradeLegFees[idx] ?? 0);
   const totalLegFees = legFees.reduce((sum, legFee) => sum + legFee, 0);
 
-  if (totalLegFees > 0) {
-    return legs.map((leg, idx) => ({
+  const withFee = (leg: Leg, fee: number): Leg => {
+    const usdRate = fee === 0 ? 1 : legUsdRate(leg);
+    return {
       ...leg,
-      fees: legFees[idx],
-      realizedPnl: leg.realizedPnl - legFees[idx],
-    }));
+      fees: fee,
+      realizedPnl: leg.realizedPnl - fee,
+      realizedUsd: leg.realizedUsd != null && usdRate != null ? leg.realizedUsd - fee * usdRate : null,
+    };
+  };
+
+  if (totalLegFees > 0) {
+    return legs.map((leg, idx) => withFee(leg, legFees[idx]));
   }
 
   const feeShare = (feesTotal ?? 0) / Math.max(1, legs.length);
-  return legs.map((leg) => ({ ...leg, fees: feeShare, realizedPnl: leg.realizedPnl - feeShare }));
+  return legs.map((leg) => withFee(leg, feeShare));
 }
 
 function normalizeClosedAt(rawClosedAt: string | null | undefined): string | null {
@@ -472,10 +528,19 @@ function normalizeLifecycle(raw: string | null | undefined): "open" | "close" |
   return null;
 }
 
+type StatusThresholdConfig = Map<string, PlaybookStatusThresholds>;
+
+type LotMethodConfig = {
+  byProgram: Map<string, LotMethod>;
+  byClient: Map<string, LotMethod>;
+};
+
 function mapPosition(
   raw: RawPosition,
   programNames: Map<string, string>,
   closingPositions: RawPosition[] = [],
+  lotMethods?: LotMethodConfig,
+  statusThresholdsByProgram?: StatusThresholdConfig,
 ): Position {
   const underlier = (raw.underlier ?? "").toUpperCase();
   const exchange = inferExchange(raw);
@@ -556,9 +621,39 @@ function mapPosition(
 
   const netPremium = Math.abs(rawPremium);
 
+  const maxLoss = parseNumeric(raw.max_loss);
+
+  const realizedPnl = legsWithFees.reduce(
+    (sum, leg) => sum + (Number.isFinite(leg.realizedPnl) ? leg.realizedPnl : 0),
+    0,
+  );
+  // Fees are charged the same under every method, so only the matching is replayed.
+  const feesApplied = legsWithFees.reduce((sum, leg) => sum + (leg.fees ?? 0), 0);
+  const realizedPnlByMethod = Object.fromEntries(
+    LOT_METHODS.map(({ value: method }) => [
+      method,
+      method === "fifo"
+        ? realizedPnl
+        : initialLegs.reduce(
+          (sum, leg) => sum + realizeLegTrades(leg, { assumeExpired: baseClosed, method }).realizedPnl,
+          0,
+        ) - feesApplied,
+    ]),
+  ) as Record<LotMethod, number>;
+  const lotMethod =
+    (raw.program_id ? lotMethods?.byProgram.get(raw.program_id) : undefined) ??
+    (raw.client_name ? lotMethods?.byClient.get(raw.client_name) : undefined) ??
+    "fifo";
+
   const netQtyIsZero = legsWithFees.every((leg) => Math.abs(legNetQty(leg)) <= 1e-10);
   const isClosed = baseClosed || netQtyIsZero;
-  const status: Position["status"] = isClosed ? "CLOSED" : "OPEN";
+  const statusThresholds = resolveStatusThresholds(
+    raw.program_id ? statusThresholdsByProgram?.get(raw.program_id) : undefined,
+    raw.strategy_code,
+  );
+  // PnL % on realized PnL here; the dashboard reclassifies at the live marks (`classifyLiveStatus`).
+  const pnlPct = calculatePnlPct(realizedPnl, legsWithFees, netPremium);
+  const status: Position["status"] = isClosed ? "CLOSED" : classifyStatus(dte, pnlPct, realizedPnl, statusThresholds);
 
   return {
     id: raw.position_id,
@@ -571,13 +666,13 @@ function mapPosition(
     openSinceDays,
     strategy: raw.strategy_name_at_entry || raw.strategy_name || raw.strategy_code || undefined,
     strategyCode: raw.strategy_code ?? undefined,
-    realizedPnl: legsWithFees.reduce(
-      (sum, leg) => sum + (Number.isFinite(leg.realizedPnl) ? leg.realizedPnl : 0),
-      0,
-    ),
+    realizedPnl,
+    realizedPnlByMethod,
+    lotMethod,
     netPremium,
-    pnlPct: null,
+    pnlPct,
     status,
+    statusThresholds,
     greeks: {
       delta: netDelta,
       gamma: null,
@@ -593,6 +688,11 @@ function mapPosition(
     exchange,
     source: "supabase",
     closedAt,
+    rolledFromId: raw.rolled_from_position_id ?? null,
+    openedAt: raw.entry_ts ?? null,
+    markAtEntry: parseNumeric(raw.mark_at_entry),
+    provider: raw.provider ?? null,
+    maxLoss: maxLoss != null ? Math.abs(maxLoss) : null,
     archived: Boolean(raw.archived),
     archivedAt: raw.archived_at ?? null,
     archivedBy: raw.archived_by ?? null,
@@ -654,6 +754,7 @@ export async function fetchSavedStructures(
        notes,
        closed_at,
        close_target_structure_id,
+       rolled_from_position_id,
        linked_structure_ids,
        client_name,
        archived,
@@ -677,7 +778,11 @@ export async function fetchSavedStructures(
          side,
          order_id,
          trade_id,
-         fees
+         fees,
+         liquidity_role,
+         execution_mode,
+         provider,
+         index_price
        )`
     )
     .eq("archived", false)
@@ -706,12 +811,13 @@ export async function fetchSavedStructures(
   }
 
   const programNameMap = new Map<string, string>();
+  const lotMethods: LotMethodConfig = { byProgram: new Map(), byClient: new Map() };
   const programIds = Array.from(new Set(rows.map((row) => row.program_id).filter((id): id is string => Boolean(id))));
 
   if (programIds.length > 0) {
     const { data: programRows, error: programError } = await client
       .from("programs")
-      .select("program_id, program_name")
+      .select("program_id, program_name, lot_method")
       .in("program_id", programIds);
 
     if (programError) {
@@ -724,6 +830,49 @@ export async function fetchSavedStructures(
       if (programId && programName) {
         programNameMap.set(programId, programName);
       }
+      if (programId && isLotMethod(row?.lot_method)) {
+        lotMethods.byProgram.set(programId, row.lot_method);
+      }
+    }
+  }
+
+  const statusThresholds: StatusThresholdConfig = new Map();
+
+  if (programIds.length > 0) {
+    // Thresholds are optional playbook configuration; without them structures use the defaults.
+    const { data: playbookRows, error: playbookError } = await client
+      .from("program_playbooks")
+      .select("program_id, status_thresholds")
+      .in("program_id", programIds);
+
+    if (playbookError) {
+      console.warn("[fetchSavedStructures] Could not load playbook status thresholds:", playbookError.message);
+    }
+
+    for (const row of playbookRows ?? []) {
+      if (typeof row?.program_id === "string") {
+        statusThresholds.set(row.program_id, normalizeStatusThresholds(row.status_thresholds));
+      }
+    }
+  }
+
+  const clientNames = Array.from(new Set(rows.map((row) => row.client_name).filter((name): name is string => Boolean(name))));
+
+  if (clientNames.length > 0) {
+    // The client's reporting method is optional configuration; without it structures fall back to FIFO.
+    const { data: clientRows, error: clientError } = await client
+      .from("clients")
+      .select("client_name, lot_method")
+      .in("client_name", clientNames);
+
+    if (clientError) {
+      console.warn("[fetchSavedStructures] Could not load client lot methods:", clientError.message);
+    }
+
+    for (const row of clientRows ?? []) {
+      if (typeof row?.client_name === "string" && isLotMethod(row?.lot_method)) {
+        lotMethods.byClient.set(row.client_name, row.lot_method);
+      }
     }
   }
 
@@ -756,6 +905,6 @@ export async function fetchSavedStructures(
       }
       return true;
     })
-    .map((raw) => mapPosition(raw, programNameMap, closersByTarget.get(raw.position_id) ?? []));
+    .map((raw) => mapPosition(raw, programNameMap, closersByTarget.get(raw.position_id) ?? [], lotMethods, statusThresholds));
   return { ok: true, positions };
 }
@@ -84,6 +84,7 @@ type FillRow = {
   rfq_id: string | null;
   deal_id: string | null;
   fees: number | null;
+  index_price: number | string | null;
   notes: string | null;
 };
 
@@ -206,7 +207,7 @@ export async function fetchStructurePayload(
   const { data: fillsRows, error: fillsError } = await client
     .from('fills')
     .select(
-      'ts, qty, price, open_close, leg_seq, side, liquidity_role, execution_mode, provider, venue_id, order_id, trade_id, rfq_id, deal_id, fees, notes',
+      'ts, qty, price, open_close, leg_seq, side, liquidity_role, execution_mode, provider, venue_id, order_id, trade_id, rfq_id, deal_id, fees, index_price, notes',
     )
     .eq('position_id', positionId)
     .order('ts');
@@ -302,6 +303,7 @@ export async function fetchStructurePayload(
       rfq_id: row.rfq_id ?? undefined,
       deal_id: row.deal_id ?? undefined,
       fees: row.fees ?? undefined,
+      index_price: coalesceNumber(row.index_price),
       notes: row.notes ?? undefined,
     } satisfies NonNullable<ImportPayload['fills']>[number];
   });
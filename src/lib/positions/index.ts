@@ -58,8 +58,60 @@ export {
 } from "./filterDuplicateRows";
 export {
   fetchProgramPlaybooks,
+  saveProgramPlaybookRules,
   type FetchProgramPlaybooksResult,
+  type SaveProgramPlaybookRulesResult,
   type ProgramPlaybook,
   type ProgramLink,
   type PlaybookSignal,
 } from "./programPlaybooks";
+export {
+  evaluatePlaybookRules,
+  formatPlaybookRules,
+  parsePlaybookRules,
+  statusWithSignals,
+  type PlaybookRule,
+  type RuleSignal,
+} from "./playbookRules";
+export {
+  classifyLiveStatus,
+  describeStatusThresholds,
+  normalizeStatusThresholds,
+  resolveStatusThresholds,
+  type PlaybookStatusThresholds,
+} from "./statusThresholds";
+export {
+  ROLL_STRIKE_MODES,
+  planRoll,
+  rollChain,
+  rollChainPnl,
+  rollPreview,
+  rollStructure,
+  rollTargetRef,
+  rollTradeRows,
+  type RollLeg,
+  type RollPreview,
+  type RollStrikeMode,
+  type RollStructureParams,
+  type RollStructureResult,
+} from "./rollStructure";
+export {
+  deliveryPriceKey,
+  fetchDeliveryPrices,
+  intrinsicSettlementPrice,
+  planExpirySettlement,
+  settleExpiredStructure,
+  settleExpiredStructures,
+  type DeliveryPrices,
+  type ExpirySettlement,
+  type SettleExpiriesResult,
+} from "./settleExpiries";
+export {
+  PNL_CURRENCIES,
+  isPnlCurrency,
+  positionPnl,
+  positionPremiumCurrency,
+  positionRealizedUsd,
+  type PnlCurrency,
+  type PositionPnl,
+} from "./pnlCurrency";
@@ -14,6 +14,8 @@ export type NormalizedTrade = {
   tradeId: string | null
   orderId: string | null
   fee: number | null
+  /** Underlying index at fill time (USD), when the venue export carries it. */
+  indexPrice: number | null
   notes: string | null
 }
 
@@ -125,6 +127,7 @@ export function normalizeTradeRow(row: TxnRow, exchange: Exchange): NormalizeRes
   const tradeId = extractIdentifier(row, 'trade')
   const orderId = extractIdentifier(row, 'order')
   const fee = toNumeric(row.fee)
+  const indexPrice = toNumeric(row.indexPrice)
   const notes = sanitizeText(row.info)
 
   return {
@@ -141,6 +144,7 @@ export function normalizeTradeRow(row: TxnRow, exchange: Exchange): NormalizeRes
       tradeId,
       orderId,
       fee: fee ?? null,
+      indexPrice: indexPrice != null && indexPrice > 0 ? indexPrice : null,
       notes,
     },
   }
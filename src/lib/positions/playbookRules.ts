@@ -0,0 +1,229 @@
+// Structured playbook rules evaluated against open structures with live marks. A rule is
+// stored as `{ kind, value }` in `program_playbooks.rules` and edited as one phrase per line:
+//
+//   take profit at 50% of max gain      { kind: 'profit', value: 50 }
+//   stop at 2× credit                   { kind: 'stop', value: 2 }
+//   close at 21 DTE                     { kind: 'dte', value: 21 }
+//   close if short strike delta > 0.30  { kind: 'short_delta', value: 0.3 }
+//
+// A triggered rule is an ALERT signal (act now); a rule close to triggering is ATTENTION.
+
+import { payoffStats, positionPayoffLegs, positionSpot } from '@/lib/payoff'
+import {
+  daysTo, getLegMarkRef, legGreeks, legNetQty, markMultiplier,
+  type MarksMap, type Position, type PricingContext,
+} from '@/utils'
+
+export type PlaybookRuleKind = 'profit' | 'stop' | 'dte' | 'short_delta'
+
+export type PlaybookRule = {
+  kind: PlaybookRuleKind
+  /** Percent of max gain, multiple of the entry premium, days to expiry or absolute delta. */
+  value: number
+}
+
+/** Kanban lane a signal points to. */
+export type RuleSignalLane = 'profit' | 'loss' | 'time'
+
+export type RuleSignal = {
+  rule: PlaybookRule
+  severity: 'ALERT' | 'ATTENTION'
+  lane: RuleSignalLane
+  /** What to do, e.g. "Take profit". */
+  action: string
+  /** Where the structure stands against the rule. */
+  detail: string
+}
+
+export type ParsePlaybookRulesResult =
+  | { ok: true; rules: PlaybookRule[] }
+  | { ok: false; error: string }
+
+// A rule within this share of its threshold (or within NEAR_DTE_DAYS of a DTE rule) is flagged.
+export const NEAR_FRACTION = 0.8
+export const NEAR_DTE_DAYS = 7
+
+const KINDS: PlaybookRuleKind[] = ['profit', 'stop', 'dte', 'short_delta']
+
+const NUMBER = '(\\d+(?:\\.\\d+)?|\\.\\d+)'
+const PATTERNS: { kind: PlaybookRuleKind; re: RegExp }[] = [
+  { kind: 'short_delta', re: new RegExp(`delta\\s*(?:>=?|≥|above|over)\\s*${NUMBER}`, 'i') },
+  { kind: 'profit', re: new RegExp(`profit\\D*?${NUMBER}\\s*%`, 'i') },
+  { kind: 'stop', re: new RegExp(`stop\\D*?${NUMBER}\\s*(?:x|×)`, 'i') },
+  { kind: 'dte', re: new RegExp(`${NUMBER}\\s*dte\\b|\\bdte\\s*(?:<=?|≤|at)?\\s*${NUMBER}`, 'i') },
+]
+
+function validRule(kind: PlaybookRuleKind, value: number): boolean {
+  if (!Number.isFinite(value)) return false
+  if (kind === 'dte') return value >= 0 && Number.isInteger(value)
+  if (kind === 'short_delta') return value > 0 && value < 1
+  return value > 0
+}
+
+/** Read one rule phrase; null when it matches no rule. */
+export function parsePlaybookRule(text: string): PlaybookRule | null {
+  for (const { kind, re } of PATTERNS) {
+    const match = re.exec(text)
+    if (!match) continue
+    let value = Number(match[1] ?? match[2])
+    // "delta > 30" means 0.30
+    if (kind === 'short_delta' && value >= 1) value /= 100
+    return validRule(kind, value) ? { kind, value } : null
+  }
+  return null
+}
+
+/** Read rules written one per line; blank lines and lines starting with `#` are skipped. */
+export function parsePlaybookRules(text: string): ParsePlaybookRulesResult {
+  const rules: PlaybookRule[] = []
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line || line.startsWith('#')) continue
+    const rule = parsePlaybookRule(line)
+    if (!rule) return { ok: false, error: `Line ${i + 1}: could not read "${line}".` }
+    rules.push(rule)
+  }
+  return { ok: true, rules }
+}
+
+export function formatPlaybookRule(rule: PlaybookRule): string {
+  switch (rule.kind) {
+    case 'profit': return `take profit at ${rule.value}% of max gain`
+    case 'stop': return `stop at ${rule.value}× credit`
+    case 'dte': return `close at ${rule.value} DTE`
+    case 'short_delta': return `close if short strike delta > ${rule.value.toFixed(2)}`
+  }
+}
+
+export function formatPlaybookRules(rules: PlaybookRule[]): string {
+  return rules.map(formatPlaybookRule).join('\n')
+}
+
+/** Rules from a `program_playbooks.rules` jsonb value; malformed entries are dropped. */
+export function normalizePlaybookRules(raw: unknown): PlaybookRule[] {
+  if (!Array.isArray(raw)) return []
+  const rules: PlaybookRule[] = []
+  for (const item of raw) {
+    const kind = (item as { kind?: unknown })?.kind as PlaybookRuleKind
+    const value = Number((item as { value?: unknown })?.value)
+    if (KINDS.includes(kind) && validRule(kind, value)) rules.push({ kind, value })
+  }
+  return rules
+}
+
+type OpenLegState = {
+  /** Unrealized PnL of the open legs at the marks; null unless every open leg has a mark. */
+  pnl: number | null
+  /** Premium of the open lots in premium currency; negative when collected. */
+  cost: number
+  minDte: number | null
+  shortDeltas: number[]
+}
+
+function openLegState(p: Position, marks: MarksMap, ctx?: PricingContext): OpenLegState {
+  let pnl: number | null = 0
+  let cost = 0
+  let minDte: number | null = null
+  const shortDeltas: number[] = []
+  for (const leg of p.legs) {
+    const qty = legNetQty(leg)
+    if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) continue
+    const ref = getLegMarkRef(p, leg)
+    const info = ref ? marks[ref.key] : undefined
+    const m = (ref ? markMultiplier(ref, info) || ref.defaultMultiplier : null) ?? 1
+    const legCost = (leg.openLots || []).reduce((sum, lot) => sum + lot.sign * lot.qty * lot.price, 0) * m
+    cost += legCost
+    if (pnl != null) pnl = info?.price != null ? pnl + qty * info.price * m - legCost : null
+
+    const expiry = leg.expiry ?? p.expiryISO
+    if (expiry) {
+      const dte = daysTo(expiry)
+      if (Number.isFinite(dte)) minDte = minDte == null ? dte : Math.min(minDte, dte)
+    }
+    if (qty < 0) {
+      const delta = legGreeks(p, leg, info, ctx)?.delta
+      if (delta != null && Number.isFinite(delta)) shortDeltas.push(Math.abs(delta))
+    }
+  }
+  return { pnl, cost, minDte, shortDeltas }
+}
+
+/** Max gain of the open legs at the front expiry: the payoff maximum, else the credit collected. */
+function maxGainOf(p: Position, marks: MarksMap, cost: number, ctx?: PricingContext): number | null {
+  const spot = positionSpot(p, marks)
+  if (spot != null) {
+    const { legs, skipped } = positionPayoffLegs(p, marks, ctx ?? {})
+    const { maxGain } = skipped === 0 && legs.length > 0 ? payoffStats(legs, { spot }) : { maxGain: null }
+    if (maxGain != null && maxGain > 0) return maxGain
+  }
+  return cost < 0 ? -cost : null
+}
+
+function severityOf(progress: number): RuleSignal['severity'] | null {
+  if (progress >= 1) return 'ALERT'
+  if (progress >= NEAR_FRACTION) return 'ATTENTION'
+  return null
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(0)}%`
+
+/**
+ * Signals of the rules for an open structure, most severe first. Profit and stop rules
+ * need a mark on every open leg; the stop basis is the entry premium (credit collected or
+ * debit paid) of the open lots. Closed structures get no signals.
+ */
+export function evaluatePlaybookRules(
+  p: Position,
+  rules: PlaybookRule[],
+  marks: MarksMap,
+  ctx?: PricingContext,
+): RuleSignal[] {
+  if (p.status === 'CLOSED' || rules.length === 0) return []
+  const state = openLegState(p, marks, ctx)
+  const signals: RuleSignal[] = []
+
+  for (const rule of rules) {
+    if (rule.kind === 'profit') {
+      const maxGain = state.pnl != null ? maxGainOf(p, marks, state.cost, ctx) : null
+      if (state.pnl == null || maxGain == null) continue
+      const captured = state.pnl / maxGain
+      const severity = severityOf(captured / (rule.value / 100))
+      if (severity) {
+        signals.push({ rule, severity, lane: 'profit', action: 'Take profit', detail: `${pct(captured)} of max gain captured (target ${rule.value}%)` })
+      }
+    } else if (rule.kind === 'stop') {
+      const basis = Math.abs(state.cost)
+      if (state.pnl == null || !(basis > 0)) continue
+      const lossMultiple = -state.pnl / basis
+      const severity = severityOf(lossMultiple / rule.value)
+      if (severity) {
+        signals.push({ rule, severity, lane: 'loss', action: 'Stop out', detail: `Loss is ${lossMultiple.toFixed(2)}× entry premium (stop ${rule.value}×)` })
+      }
+    } else if (rule.kind === 'dte') {
+      if (state.minDte == null) continue
+      const severity = state.minDte <= rule.value ? 'ALERT' : state.minDte <= rule.value + NEAR_DTE_DAYS ? 'ATTENTION' : null
+      if (severity) {
+        signals.push({ rule, severity, lane: 'time', action: 'Close on time', detail: `${state.minDte} DTE (close at ${rule.value})` })
+      }
+    } else if (state.shortDeltas.length > 0) {
+      const delta = Math.max(...state.shortDeltas)
+      const severity = delta > rule.value ? 'ALERT' : delta >= rule.value * NEAR_FRACTION ? 'ATTENTION' : null
+      if (severity) {
+        signals.push({ rule, severity, lane: 'loss', action: 'Defend short strike', detail: `Short delta ${delta.toFixed(2)} (limit ${rule.value.toFixed(2)})` })
+      }
+    }
+  }
+  return signals.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'ALERT' ? -1 : 1))
+}
+
+const STATUS_RANK: Record<Position['status'], number> = { OPEN: 0, ATTENTION: 1, ALERT: 2, CLOSED: -1 }
+
+/** Raise an open structure's status to its most severe signal; closed structures are unchanged. */
+export function statusWithSignals(status: Position['status'], signals: RuleSignal[] | undefined): Position['status'] {
+  if (status === 'CLOSED' || !signals?.length) return status
+  return signals.reduce<Position['status']>(
+    (current, s) => (STATUS_RANK[s.severity] > STATUS_RANK[current] ? s.severity : current),
+    status,
+  )
+}
@@ -0,0 +1,101 @@
+// PnL in a structure's premium currency or in USD. Inverse (coin-settled) options pay premiums
+// and PnL in the coin: in USD, realized PnL is converted at the index at each closing fill and
+// unrealized PnL at the current index. What the realized coin has since gained or lost against
+// USD is coin appreciation, reported apart from the option PnL.
+
+import { positionSpot } from '@/lib/payoff'
+import {
+  getLegMarkRef,
+  legUnrealizedPnL,
+  markMultiplier,
+  premiumCurrencyFor,
+  type MarksMap,
+  type Position,
+} from '@/utils'
+
+export const PNL_CURRENCIES = [
+  { value: 'coin', label: 'Coin' },
+  { value: 'usd', label: 'USD' },
+] as const
+
+export type PnlCurrency = (typeof PNL_CURRENCIES)[number]['value']
+
+export const isPnlCurrency = (value: unknown): value is PnlCurrency =>
+  PNL_CURRENCIES.some((c) => c.value === value)
+
+export type PositionPnl = {
+  /** Currency of the amounts: the premium currency in coin view, else USD. */
+  currency: string
+  realized: number | null
+  /** Null without marks. */
+  unrealized: number | null
+  /** Option PnL: realized plus unrealized; null without marks. */
+  total: number | null
+  /**
+   * USD gain on the realized coin since it was realized (realized coin at the current index
+   * less its USD value at the fills). Zero for USD-premium structures; null without an index.
+   */
+  coinAppreciation: number | null
+}
+
+/** Currency a structure pays premiums in, from its legs or its venue and underlying. */
+export function positionPremiumCurrency(p: Position): string {
+  return p.legs.find((l) => l.premiumCurrency)?.premiumCurrency ?? premiumCurrencyFor(p.exchange, p.underlying)
+}
+
+/** Realized PnL in USD at the fill-time index, or null when a realizing fill has no index price. */
+export function positionRealizedUsd(p: Position): number | null {
+  if (positionPremiumCurrency(p) === 'USD') return p.realizedPnl
+  let sum = 0
+  for (const leg of p.legs) {
+    if (leg.realizedUsd != null) sum += leg.realizedUsd
+    else if (Math.abs(leg.realizedPnl) > 1e-12) return null
+  }
+  return sum
+}
+
+/**
+ * Unrealized PnL at the marks (legs without one count zero, as in `positionUnrealizedPnL`),
+ * converted to USD at each leg's current index for coin premiums. Null when a coin leg has
+ * no index to convert at.
+ */
+function positionUnrealized(p: Position, marks: MarksMap, usd: boolean): number | null {
+  const spot = positionSpot(p, marks)
+  let sum = 0
+  for (const leg of p.legs) {
+    const ref = getLegMarkRef(p, leg)
+    const info = ref ? marks[ref.key] : undefined
+    if (!ref || info?.price == null) continue
+    const pnl = legUnrealizedPnL(leg, info.price, markMultiplier(ref, info))
+    if (!usd || pnl === 0) {
+      sum += pnl
+      continue
+    }
+    const index = info.indexPrice != null && info.indexPrice > 0 ? info.indexPrice : spot
+    if (index == null) return null
+    sum += pnl * index
+  }
+  return sum
+}
+
+/** A structure's realized, unrealized and total option PnL in coin or USD, plus coin appreciation. */
+export function positionPnl(p: Position, marks: MarksMap | undefined, view: PnlCurrency): PositionPnl {
+  const premiumCurrency = positionPremiumCurrency(p)
+  const isCoin = premiumCurrency !== 'USD'
+  const usd = view === 'usd' && isCoin
+  const realizedUsd = positionRealizedUsd(p)
+  const spot = positionSpot(p, marks)
+
+  const realized = usd ? realizedUsd : p.realizedPnl
+  const unrealized = marks ? positionUnrealized(p, marks, usd) : null
+  const total = realized != null && unrealized != null ? realized + unrealized : null
+  const coinAppreciation = !isCoin ? 0 : realizedUsd != null && spot != null ? p.realizedPnl * spot - realizedUsd : null
+
+  return {
+    currency: usd ? 'USD' : premiumCurrency,
+    realized,
+    unrealized,
+    total,
+    coinAppreciation,
+  }
+}
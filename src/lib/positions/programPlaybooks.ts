@@ -1,4 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizePlaybookRules, type PlaybookRule } from "./playbookRules";
+import { normalizeStatusThresholds, type PlaybookStatusThresholds } from "./statusThresholds";
 
 export type PlaybookSignal = {
   id: string;
@@ -26,6 +28,10 @@ export type ProgramPlaybook = {
   otherNotes?: string | null;
   sizingLimits?: unknown;
   marketSignals?: unknown;
+  /** Structured profit, stop and time rules evaluated against open structures. */
+  rules: PlaybookRule[];
+  /** Status thresholds for the program's structures, with per-strategy-code overrides. */
+  statusThresholds: PlaybookStatusThresholds;
   signals: PlaybookSignal[];
   links: ProgramLink[];
 };
@@ -34,6 +40,8 @@ export type FetchProgramPlaybooksResult =
   | { ok: true; playbooks: ProgramPlaybook[] }
   | { ok: false; error: string };
 
+export type SaveProgramPlaybookRulesResult = { ok: true } | { ok: false; error: string };
+
 export async function fetchProgramPlaybooks(
   client: SupabaseClient,
   programIds?: string[],
@@ -41,7 +49,7 @@ export async function fetchProgramPlaybooks(
   let playbooksQuery = client
     .from("program_playbooks")
     .select(
-      "playbook_id, program_id, profit_rule, stop_rule, time_rule, other_notes, sizing_limits, market_signals",
+      "playbook_id, program_id, profit_rule, stop_rule, time_rule, other_notes, sizing_limits, market_signals, rules, status_thresholds",
     )
     .order("created_at", { ascending: true });
 
@@ -111,6 +119,8 @@ export async function fetchProgramPlaybooks(
         otherNotes: typeof row.other_notes === "string" ? row.other_notes : null,
         sizingLimits: row.sizing_limits,
         marketSignals: row.market_signals,
+        rules: normalizePlaybookRules(row.rules),
+        statusThresholds: normalizeStatusThresholds(row.status_thresholds),
         signals: [],
         links: linksByProgram.get(programId) ?? [],
       } as ProgramPlaybook;
@@ -119,3 +129,31 @@ export async function fetchProgramPlaybooks(
 
   return { ok: true, playbooks };
 }
+
+export async function saveProgramPlaybookRules(
+  client: SupabaseClient,
+  playbookId: string,
+  rules: PlaybookRule[],
+): Promise<SaveProgramPlaybookRulesResult> {
+  const id = playbookId.trim();
+  if (!id) {
+    return { ok: false, error: "Missing playbook identifier." };
+  }
+
+  const { error, data } = await client
+    .from("program_playbooks")
+    .update({ rules, updated_at: new Date().toISOString() })
+    .eq("playbook_id", id)
+    .select("playbook_id")
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, error: error.message };
+  }
+
+  if (!data) {
+    return { ok: false, error: `Playbook ${id} does not exist.` };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,324 @@
+// Rolling a structure: close its open legs and open the same legs at a later expiry (and
+// possibly other strikes) in one action. The closing trades are booked as a closing
+// structure targeting the old one (`close_target_structure_id`), the new structure records
+// its predecessor in `rolled_from_position_id`, and following those links gives the roll
+// chain of a campaign.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { modelLegGreeks } from '@/lib/pricing'
+import { venueAdapter } from '@/lib/venues/registry'
+import type { ChainInstrument } from '@/lib/venues/deribit'
+import {
+  getLegMarkRef, legGreeks, legModelInputs, legNetQty, markMultiplier, positionUnrealizedPnL,
+  type Leg, type LegMarkRef, type MarksMap, type Position, type PricingContext, type TxnRow,
+} from '@/utils'
+import type { SupabaseClientScope } from './clientScope'
+import { createStructure } from './createStructure'
+import { syncLinkedStructures } from './syncLinkedStructures'
+
+export type RollStrikeMode = 'delta' | 'width' | 'custom'
+
+export const ROLL_STRIKE_MODES: { value: RollStrikeMode; label: string }[] = [
+  { value: 'delta', label: 'Same delta' },
+  { value: 'width', label: 'Same width' },
+  { value: 'custom', label: 'Custom' },
+]
+
+export type RollLeg = {
+  optionType: 'C' | 'P'
+  /** Contracts held, positive long; the successor holds the same. */
+  qty: number
+  fromStrike: number
+  fromExpiry: string
+  toStrike: number
+  toExpiry: string
+}
+
+export type RollPlanOptions = {
+  expiry: string
+  mode: RollStrikeMode
+  /** Listed options of the target expiry. */
+  chain: ChainInstrument[]
+  marks?: MarksMap
+  ctx?: PricingContext
+  /** Same width: where the anchor leg (the first short leg, else the first leg) moves to. */
+  anchorStrike?: number
+  /** Custom: target strike per open leg, in `openRollLegs` order. */
+  strikes?: (number | null | undefined)[]
+}
+
+export type RollPreviewLeg = RollLeg & {
+  closePrice: number | null
+  openPrice: number | null
+  multiplier: number
+}
+
+export type RollPreview = {
+  legs: RollPreviewLeg[]
+  /** Cash from closing the open legs in premium currency; null when a leg has no mark. */
+  closeCash: number | null
+  /** Cash from opening the successor; negative when paid. */
+  openCash: number | null
+  /** Net roll cash: positive for a credit, negative for a debit. */
+  net: number | null
+}
+
+export type RollStructureParams = {
+  position: Position
+  closeRows: TxnRow[]
+  openRows: TxnRow[]
+  clientScope?: SupabaseClientScope
+  createdBy?: string
+}
+
+export type RollStructureResult =
+  | { ok: true; positionId: string; closingPositionId: string }
+  | { ok: false; error: string }
+
+const toOptionType = (t: string): 'C' | 'P' => (t.toUpperCase().startsWith('P') ? 'P' : 'C')
+
+/** Open legs of the structure as roll legs, keeping their strikes and expiry. */
+export function openRollLegs(p: Position, expiry: string): RollLeg[] {
+  const out: RollLeg[] = []
+  for (const leg of p.legs) {
+    const qty = legNetQty(leg)
+    if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) continue
+    out.push({
+      optionType: toOptionType(leg.optionType),
+      qty,
+      fromStrike: leg.strike,
+      fromExpiry: leg.expiry ?? p.expiryISO,
+      toStrike: leg.strike,
+      toExpiry: expiry,
+    })
+  }
+  return out
+}
+
+function listedStrikes(chain: ChainInstrument[], optionType: 'C' | 'P'): number[] {
+  const kind = optionType === 'P' ? 'put' : 'call'
+  return [...new Set(chain.filter((c) => c.option_type === kind).map((c) => c.strike))].sort((a, b) => a - b)
+}
+
+function nearest(strikes: number[], target: number): number {
+  if (strikes.length === 0) return target
+  return strikes.reduce((best, k) => (Math.abs(k - target) < Math.abs(best - target) ? k : best), strikes[0])
+}
+
+function legFor(p: Position, leg: RollLeg, at: 'from' | 'to'): Leg {
+  const original = p.legs.find((l) => l.strike === leg.fromStrike && toOptionType(l.optionType) === leg.optionType)
+  return {
+    key: `${leg.optionType}${at === 'from' ? leg.fromStrike : leg.toStrike}`,
+    strike: at === 'from' ? leg.fromStrike : leg.toStrike,
+    optionType: leg.optionType,
+    expiry: at === 'from' ? leg.fromExpiry : leg.toExpiry,
+    exchange: original?.exchange ?? p.exchange,
+    openLots: [],
+    realizedPnl: 0,
+    netPremium: 0,
+    qtyNet: leg.qty,
+    trades: [],
+  }
+}
+
+/** Mark reference of the successor leg. */
+export function rollTargetRef(p: Position, leg: RollLeg): LegMarkRef | null {
+  return getLegMarkRef(p, legFor(p, leg, 'to'))
+}
+
+function sameDeltaStrike(p: Position, leg: RollLeg, strikes: number[], opts: RollPlanOptions): number {
+  const current = legFor(p, leg, 'from')
+  const ref = getLegMarkRef(p, current)
+  const info = ref ? opts.marks?.[ref.key] : undefined
+  const delta = legGreeks(p, current, info, opts.ctx)?.delta
+  const inputs = legModelInputs(p, current, info, opts.ctx)
+  if (delta == null || !Number.isFinite(delta) || !inputs) return nearest(strikes, leg.fromStrike)
+
+  let best = nearest(strikes, leg.fromStrike)
+  let bestGap = Infinity
+  for (const strike of strikes) {
+    const iv = opts.ctx?.volAt?.(p.underlying, strike, leg.toExpiry, opts.ctx.now) ?? inputs.iv
+    const g = modelLegGreeks({ ...inputs, strike, expiryISO: leg.toExpiry, iv })
+    if (!g) continue
+    const gap = Math.abs(g.delta - delta)
+    if (gap < bestGap) { best = strike; bestGap = gap }
+  }
+  return best
+}
+
+/**
+ * The successor legs of a roll to `opts.expiry`. Same delta picks, per leg, the listed
+ * strike whose model delta is closest to the leg's current delta; same width moves every
+ * strike by the anchor's shift; custom takes the given strikes. Strikes snap to the chain.
+ */
+export function planRoll(p: Position, opts: RollPlanOptions): RollLeg[] {
+  const legs = openRollLegs(p, opts.expiry)
+  if (opts.mode === 'delta') {
+    return legs.map((leg) => ({ ...leg, toStrike: sameDeltaStrike(p, leg, listedStrikes(opts.chain, leg.optionType), opts) }))
+  }
+  if (opts.mode === 'width') {
+    const anchor = legs.find((leg) => leg.qty < 0) ?? legs[0]
+    const shift = anchor && opts.anchorStrike != null ? opts.anchorStrike - anchor.fromStrike : 0
+    return legs.map((leg) => ({ ...leg, toStrike: nearest(listedStrikes(opts.chain, leg.optionType), leg.fromStrike + shift) }))
+  }
+  return legs.map((leg, i) => ({
+    ...leg,
+    toStrike: nearest(listedStrikes(opts.chain, leg.optionType), opts.strikes?.[i] ?? leg.fromStrike),
+  }))
+}
+
+/**
+ * Close and open prices of the roll at the marks, and the net roll cash. Selling receives
+ * the premium, buying pays it; both sides use the successor's contract multiplier.
+ */
+export function rollPreview(p: Position, legs: RollLeg[], marks: MarksMap): RollPreview {
+  let closeCash: number | null = 0
+  let openCash: number | null = 0
+  const out: RollPreviewLeg[] = legs.map((leg) => {
+    const fromRef = getLegMarkRef(p, legFor(p, leg, 'from'))
+    const toRef = rollTargetRef(p, leg)
+    const fromInfo = fromRef ? marks[fromRef.key] : undefined
+    const toInfo = toRef ? marks[toRef.key] : undefined
+    const closePrice = fromInfo?.price ?? null
+    const openPrice = toInfo?.price ?? null
+    const multiplier = (toRef ? markMultiplier(toRef, toInfo) || toRef.defaultMultiplier : null) ?? 1
+    closeCash = closeCash != null && closePrice != null ? closeCash + leg.qty * closePrice * multiplier : null
+    openCash = openCash != null && openPrice != null ? openCash - leg.qty * openPrice * multiplier : null
+    return { ...leg, closePrice, openPrice, multiplier }
+  })
+  return {
+    legs: out,
+    closeCash,
+    openCash,
+    net: closeCash != null && openCash != null ? closeCash + openCash : null,
+  }
+}
+
+/** Closing and opening trades of a previewed roll; null while a price is missing. */
+export function rollTradeRows(
+  p: Position,
+  preview: RollPreview,
+  timestamp: string = new Date().toISOString(),
+): { closeRows: TxnRow[]; openRows: TxnRow[] } | null {
+  const adapter = venueAdapter(p.exchange)
+  if (!adapter || !p.exchange) return null
+  const closeRows: TxnRow[] = []
+  const openRows: TxnRow[] = []
+  for (const leg of preview.legs) {
+    if (leg.closePrice == null || leg.openPrice == null) return null
+    const common = { underlying: p.underlying, optionType: leg.optionType, exchange: p.exchange, timestamp, amount: Math.abs(leg.qty) }
+    closeRows.push({
+      ...common,
+      instrument: adapter.toSymbol(p.underlying, leg.fromExpiry, leg.fromStrike, leg.optionType) ?? '',
+      side: leg.qty > 0 ? 'sell' : 'buy',
+      action: 'close',
+      price: leg.closePrice,
+      expiry: leg.fromExpiry,
+      strike: leg.fromStrike,
+    })
+    openRows.push({
+      ...common,
+      instrument: adapter.toSymbol(p.underlying, leg.toExpiry, leg.toStrike, leg.optionType) ?? '',
+      side: leg.qty > 0 ? 'buy' : 'sell',
+      action: 'open',
+      price: leg.openPrice,
+      expiry: leg.toExpiry,
+      strike: leg.toStrike,
+    })
+  }
+  return { closeRows, openRows }
+}
+
+/**
+ * Book a roll: a closing structure for the old legs (linked to the old structure, which
+ * gets its `closed_at`), then the successor structure linked back to the old one.
+ */
+export async function rollStructure(
+  client: SupabaseClient,
+  params: RollStructureParams,
+): Promise<RollStructureResult> {
+  const p = params.position
+  if (params.closeRows.length === 0 || params.openRows.length === 0) {
+    return { ok: false, error: 'Nothing to roll: the structure has no open legs.' }
+  }
+
+  const shared = {
+    exchange: p.exchange,
+    clientScope: params.clientScope,
+    createdBy: params.createdBy,
+    programId: p.programId,
+    strategyName: p.strategy,
+    structureType: p.strategyCode,
+  }
+
+  const closing = await createStructure(client, {
+    ...shared,
+    rows: params.closeRows,
+    lifecycle: 'close',
+    closeTargetStructureId: p.id,
+    notes: 'Roll: close',
+  })
+  if (!closing.ok) return { ok: false, error: `Failed to close ${p.structureId ?? p.id}: ${closing.error}` }
+
+  // Link the closer both ways and stamp the old structure's closed_at, as a closing import does.
+  const closedAt = params.closeRows[0].timestamp ?? new Date().toISOString()
+  const linked = await syncLinkedStructures(client, {
+    sourceId: closing.positionId,
+    linkedIds: [p.id],
+    closedAt,
+    clientScope: params.clientScope,
+  })
+  if (!linked.ok) return { ok: false, error: linked.error }
+
+  const successor = await createStructure(client, {
+    ...shared,
+    rows: params.openRows,
+    rolledFromStructureId: p.id,
+    notes: `Rolled from ${p.structureId ?? p.id}`,
+  })
+  if (!successor.ok) {
+    return { ok: false, error: `Closed ${p.structureId ?? p.id} but failed to open the successor: ${successor.error}` }
+  }
+
+  return { ok: true, positionId: successor.positionId, closingPositionId: closing.positionId }
+}
+
+/** Every structure of the roll campaign containing `id`, from the first to the latest roll. */
+export function rollChain(positions: Position[], id: string): Position[] {
+  const byId = new Map(positions.map((p) => [p.id, p]))
+  let root = byId.get(id)
+  if (!root) return []
+  const seen = new Set<string>([root.id])
+  while (root.rolledFromId && byId.has(root.rolledFromId) && !seen.has(root.rolledFromId)) {
+    root = byId.get(root.rolledFromId)!
+    seen.add(root.id)
+  }
+
+  const successors = new Map<string, Position[]>()
+  for (const p of positions) {
+    if (!p.rolledFromId) continue
+    const list = successors.get(p.rolledFromId) ?? []
+    list.push(p)
+    successors.set(p.rolledFromId, list)
+  }
+
+  const chain: Position[] = []
+  const visited = new Set<string>()
+  const queue = [root]
+  while (queue.length > 0) {
+    const p = queue.shift()!
+    if (visited.has(p.id)) continue
+    visited.add(p.id)
+    chain.push(p)
+    queue.push(...(successors.get(p.id) ?? []))
+  }
+  return chain
+}
+
+/** Cumulative PnL of a roll chain: realized PnL of every roll plus the open structures at the marks. */
+export function rollChainPnl(chain: Position[], marks?: MarksMap): number {
+  return chain.reduce(
+    (sum, p) => sum + p.realizedPnl + (p.status !== 'CLOSED' && marks ? positionUnrealizedPnL(p, marks) : 0),
+    0,
+  )
+}
@@ -0,0 +1,212 @@
+// Expiry settlement: once every open leg of a structure has expired, book the venue's
+// delivery price as a synthetic closing fill at intrinsic value. The fills form a closing
+// structure targeting the expired one (as a manual close or a roll does), each fill gets a
+// `deliveries` row, and the expired structure gets its `closed_at` at the settlement time.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { settlementFor, type Settlement } from '@/lib/pricing'
+import { venueAdapter } from '@/lib/venues/registry'
+import { legNetQty, type Leg, type Position, type TxnRow } from '@/utils'
+import type { SupabaseClientScope } from './clientScope'
+import { createStructure } from './createStructure'
+import { syncLinkedStructures } from './syncLinkedStructures'
+
+/** Index delivery prices in USD, keyed by `deliveryPriceKey(underlying, date)`. */
+export type DeliveryPrices = Record<string, number>
+
+export type ExpirySettlementLeg = {
+  leg: Leg
+  /** Contracts held at expiry, positive long. */
+  qty: number
+  expiry: string
+  deliveryPrice: number
+  /** Settlement value per contract in the premium currency (coin for inverse options). */
+  price: number
+}
+
+export type ExpirySettlement = {
+  position: Position
+  legs: ExpirySettlementLeg[]
+  /** Closing trades at the settlement prices, one per leg. */
+  rows: TxnRow[]
+  /** Settlement time of the last expiry; becomes the structure's `closed_at`. */
+  settledAt: string
+}
+
+export type SettleExpiryParams = {
+  isAdmin?: boolean
+  createdBy?: string
+}
+
+export type SettleExpiryResult =
+  | { ok: true; closingPositionId: string }
+  | { ok: false; error: string }
+
+export type SettleExpiriesResult = {
+  settled: string[]
+  errors: string[]
+}
+
+// Deribit options expire at 08:00 UTC on the expiry date.
+const SETTLEMENT_TIME_UTC = 'T08:00:00.000Z'
+
+export const deliveryPriceKey = (underlying: string, date: string) => `${underlying.toUpperCase()}:${date}`
+
+export const settlementTimestamp = (expiry: string) => `${expiry}${SETTLEMENT_TIME_UTC}`
+
+/** Intrinsic value of one option at the delivery price, in the premium currency. */
+export function intrinsicSettlementPrice(
+  optionType: string,
+  strike: number,
+  deliveryPrice: number,
+  settlement: Settlement,
+): number {
+  const isPut = optionType.toUpperCase().startsWith('P')
+  const intrinsic = Math.max(isPut ? strike - deliveryPrice : deliveryPrice - strike, 0)
+  return settlement === 'inverse' ? intrinsic / deliveryPrice : intrinsic
+}
+
+/**
+ * The settlement of a structure whose open legs have all expired by `now`, or null when it
+ * is closed already, still has a live leg, or lacks a delivery price for an expiry.
+ */
+export function planExpirySettlement(
+  p: Position,
+  deliveryPrices: DeliveryPrices,
+  now: number = Date.now(),
+): ExpirySettlement | null {
+  if (p.closedAt || p.archived || p.source !== 'supabase') return null
+  const adapter = venueAdapter(p.exchange)
+  if (!adapter) return null
+  const settlement = settlementFor(p.exchange, p.underlying)
+
+  const legs: ExpirySettlementLeg[] = []
+  for (const leg of p.legs) {
+    const qty = legNetQty(leg)
+    if (!Number.isFinite(qty) || Math.abs(qty) < 1e-10) continue
+    const expiry = leg.expiry ?? p.expiryISO
+    if (Date.parse(settlementTimestamp(expiry)) > now) return null
+    const deliveryPrice = deliveryPrices[deliveryPriceKey(p.underlying, expiry)]
+    if (!(deliveryPrice > 0)) return null
+    legs.push({ leg, qty, expiry, deliveryPrice, price: intrinsicSettlementPrice(leg.optionType, leg.strike, deliveryPrice, settlement) })
+  }
+  if (legs.length === 0) return null
+
+  const lastExpiry = legs.map((l) => l.expiry).sort()[legs.length - 1]
+  const settledAt = settlementTimestamp(lastExpiry)
+  const rows: TxnRow[] = legs.map(({ leg, qty, expiry, deliveryPrice, price }) => ({
+    instrument: adapter.toSymbol(p.underlying, expiry, leg.strike, leg.optionType) ?? '',
+    side: qty > 0 ? 'sell' : 'buy',
+    action: 'close',
+    amount: Math.abs(qty),
+    price,
+    indexPrice: deliveryPrice,
+    timestamp: settlementTimestamp(expiry),
+    trade_id: `settlement-${p.id}-${leg.key}`,
+    info: `Expiry settlement at ${deliveryPrice}`,
+    underlying: p.underlying,
+    expiry,
+    strike: leg.strike,
+    optionType: leg.optionType,
+    exchange: p.exchange,
+  }))
+  return { position: p, legs, rows, settledAt }
+}
+
+/** Delivery prices for the expired, unsettled structures, fetched once per venue and underlying. */
+export async function fetchDeliveryPrices(positions: Position[], now: number = Date.now()): Promise<DeliveryPrices> {
+  const wanted = new Map<string, { exchange: Position['exchange']; underlying: string }>()
+  for (const p of positions) {
+    if (p.closedAt || p.archived || p.source !== 'supabase') continue
+    if (Date.parse(settlementTimestamp(p.expiryISO)) > now) continue
+    wanted.set(`${p.exchange}:${p.underlying}`, { exchange: p.exchange, underlying: p.underlying })
+  }
+
+  const prices: DeliveryPrices = {}
+  for (const { exchange, underlying } of wanted.values()) {
+    const byDate = await venueAdapter(exchange)?.fetchDeliveryPrices?.(underlying).catch((): Record<string, number> => ({}))
+    for (const [date, price] of Object.entries(byDate ?? {})) prices[deliveryPriceKey(underlying, date)] = price
+  }
+  return prices
+}
+
+/**
+ * Book one settlement: the closing structure, a `deliveries` row per settlement fill, then the
+ * expired structure's `closed_at`. The structure reads as closed from then on (its legs net to
+ * zero against the closer), so the deliveries go in before the link; if they fail the closer is
+ * removed again and the settlement is retried on the next pass.
+ */
+export async function settleExpiredStructure(
+  client: SupabaseClient,
+  plan: ExpirySettlement,
+  params: SettleExpiryParams = {},
+): Promise<SettleExpiryResult> {
+  const p = plan.position
+  const label = p.structureId ?? p.id
+  // Book under the expired structure's own account: an admin pass settles every client's books.
+  const clientScope: SupabaseClientScope = { clientName: p.clientName ?? null, isAdmin: params.isAdmin }
+
+  const closing = await createStructure(client, {
+    rows: plan.rows,
+    exchange: p.exchange,
+    clientScope,
+    createdBy: params.createdBy,
+    programId: p.programId,
+    strategyName: p.strategy,
+    structureType: p.strategyCode,
+    lifecycle: 'close',
+    closeTargetStructureId: p.id,
+    notes: 'Expiry settlement',
+  })
+  if (!closing.ok) return { ok: false, error: `Failed to settle ${label}: ${closing.error}` }
+
+  const deliveries = plan.rows.map((row, i) => ({
+    position_id: closing.positionId,
+    client_name: clientScope.clientName,
+    trade_id: row.trade_id,
+    delivered_at: row.timestamp,
+    delivery_type: 'settlement',
+    delivery_price: plan.legs[i].deliveryPrice,
+    notes: row.info ?? null,
+  }))
+  const { error: deliveriesError } = await client.from('deliveries').insert(deliveries)
+  if (deliveriesError) {
+    await removeClosingStructure(client, closing.positionId)
+    return { ok: false, error: `Failed to record deliveries for ${label}: ${deliveriesError.message}` }
+  }
+
+  const linked = await syncLinkedStructures(client, {
+    sourceId: closing.positionId,
+    linkedIds: [p.id],
+    closedAt: plan.settledAt,
+    clientScope,
+  })
+  if (!linked.ok) return { ok: false, error: `Settled ${label} but failed to set closed_at: ${linked.error}` }
+
+  return { ok: true, closingPositionId: closing.positionId }
+}
+
+async function removeClosingStructure(client: SupabaseClient, positionId: string) {
+  for (const table of ['fills', 'legs', 'positions']) {
+    const { error } = await client.from(table).delete().eq('position_id', positionId)
+    if (error) console.error(`[settleExpiries] Cleanup of ${table} failed for closing structure`, positionId, error.message)
+  }
+}
+
+/** Settle every structure in `positions` whose legs have all expired and whose delivery prices are known. */
+export async function settleExpiredStructures(
+  client: SupabaseClient,
+  positions: Position[],
+  deliveryPrices: DeliveryPrices,
+  params: SettleExpiryParams & { now?: number } = {},
+): Promise<SettleExpiriesResult> {
+  const result: SettleExpiriesResult = { settled: [], errors: [] }
+  for (const p of positions) {
+    const plan = planExpirySettlement(p, deliveryPrices, params.now)
+    if (!plan) continue
+    const settled = await settleExpiredStructure(client, plan, params)
+    if (settled.ok) result.settled.push(p.id)
+    else result.errors.push(settled.error)
+  }
+  return result
+}
@@ -0,0 +1,103 @@
+// Status thresholds per program playbook and strategy code, stored in
+// `program_playbooks.status_thresholds` as snake_case overrides of the defaults:
+//
+//   { "alert_dte": 2, "attention_dte": 4, "by_strategy": { "IC": { "alert_dte": 21, "profit_target_pct": 50 } } }
+//
+// A strategy code's overrides win over the playbook's, which win over DEFAULT_STATUS_THRESHOLDS.
+
+import {
+  DEFAULT_STATUS_THRESHOLDS,
+  calculatePnlPct,
+  classifyStatus,
+  positionUnrealizedPnL,
+  type MarksMap,
+  type Position,
+  type StatusThresholds,
+} from '@/utils'
+
+export type StatusThresholdOverrides = Partial<StatusThresholds>
+
+export type PlaybookStatusThresholds = {
+  base: StatusThresholdOverrides
+  /** Overrides by strategy code (e.g. IC, VS), matched case-insensitively. */
+  byStrategy: Record<string, StatusThresholdOverrides>
+}
+
+const COLUMNS: Record<keyof StatusThresholds, string> = {
+  alertDte: 'alert_dte',
+  attentionDte: 'attention_dte',
+  alertPnlPct: 'alert_pnl_pct',
+  attentionPnlPct: 'attention_pnl_pct',
+  alertLoss: 'alert_loss',
+  profitTargetPct: 'profit_target_pct',
+  profitTargetNear: 'profit_target_near',
+}
+
+// Limits that may be switched off with an explicit null.
+const NULLABLE = new Set<keyof StatusThresholds>(['alertLoss', 'profitTargetPct'])
+
+function normalizeOverrides(raw: unknown): StatusThresholdOverrides {
+  if (typeof raw !== 'object' || raw === null) return {}
+  const row = raw as Record<string, unknown>
+  const out: Record<string, number | null> = {}
+  for (const [field, column] of Object.entries(COLUMNS) as [keyof StatusThresholds, string][]) {
+    if (!(column in row)) continue
+    const value = row[column]
+    if (value === null && NULLABLE.has(field)) out[field] = null
+    else if (typeof value === 'number' && Number.isFinite(value)) out[field] = value
+  }
+  return out as StatusThresholdOverrides
+}
+
+/** Thresholds from a `program_playbooks.status_thresholds` jsonb value; unknown or malformed keys are dropped. */
+export function normalizeStatusThresholds(raw: unknown): PlaybookStatusThresholds {
+  const byStrategy: Record<string, StatusThresholdOverrides> = {}
+  const strategies = (raw as { by_strategy?: unknown } | null)?.by_strategy
+  if (typeof strategies === 'object' && strategies !== null) {
+    for (const [code, overrides] of Object.entries(strategies)) {
+      const key = code.trim().toUpperCase()
+      if (key) byStrategy[key] = normalizeOverrides(overrides)
+    }
+  }
+  return { base: normalizeOverrides(raw), byStrategy }
+}
+
+/** Thresholds for a structure of `strategyCode` under the playbook's configuration. */
+export function resolveStatusThresholds(
+  config: PlaybookStatusThresholds | null | undefined,
+  strategyCode?: string | null,
+): StatusThresholds {
+  if (!config) return DEFAULT_STATUS_THRESHOLDS
+  const code = strategyCode?.trim().toUpperCase()
+  return {
+    ...DEFAULT_STATUS_THRESHOLDS,
+    ...config.base,
+    ...(code ? config.byStrategy[code] : undefined),
+  }
+}
+
+/**
+ * Status of a structure at the live marks: PnL % includes the unrealized PnL, and the
+ * thresholds are the program playbook's for the structure's strategy code. Closed
+ * structures stay closed.
+ */
+export function classifyLiveStatus(
+  p: Position,
+  marks: MarksMap | undefined,
+  config: PlaybookStatusThresholds | null | undefined,
+): Position['status'] {
+  if (p.status === 'CLOSED') return p.status
+  const pnl = p.realizedPnl + (marks ? positionUnrealizedPnL(p, marks) : 0)
+  const pnlPct = calculatePnlPct(pnl, p.legs, p.netPremium)
+  return classifyStatus(p.dte, pnlPct, p.realizedPnl, resolveStatusThresholds(config, p.strategyCode))
+}
+
+/** One-line summary of the thresholds, e.g. for a status badge tooltip. */
+export function describeStatusThresholds(t: StatusThresholds): string {
+  const alert = [`≤${t.alertDte} DTE`, `PnL ≤${t.alertPnlPct}%`]
+  if (t.alertLoss != null) alert.push(`realized loss ≥${t.alertLoss}`)
+  if (t.profitTargetPct != null) alert.push(`PnL ≥${t.profitTargetPct}% target`)
+  const attention = [`≤${t.attentionDte} DTE`, `PnL <${t.attentionPnlPct}%`]
+  if (t.profitTargetPct != null) attention.push(`PnL ≥${+(t.profitTargetPct * t.profitTargetNear).toFixed(2)}%`)
+  return `Alert: ${alert.join(', ')}. Attention: ${attention.join(', ')}.`
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { normCdf, black76Greeks, black76Price, impliedVol, yearsToExpiry } from '../black76'
+import { modelLegGreeks, impliedVolFromMark, settlementFor } from '../legGreeks'
+
+const ATM = { forward: 100_000, strike: 100_000, years: 30 / 365, vol: 0.5 }
+
+describe('normCdf', () => {
+  it('matches reference values', () => {
+    expect(normCdf(0)).toBeCloseTo(0.5, 7)
+    expect(normCdf(1.96)).toBeCloseTo(0.9750021, 6)
+    expect(normCdf(-1)).toBeCloseTo(0.1586553, 6)
+  })
+})
+
+describe('black76Greeks', () => {
+  it('satisfies put-call parity with zero rates', () => {
+    const call = black76Price({ ...ATM, strike: 95_000, optionType: 'C' })
+    const put = black76Price({ ...ATM, strike: 95_000, optionType: 'P' })
+    expect(call - put).toBeCloseTo(100_000 - 95_000, 6)
+  })
+
+  it('prices an ATM call near the 0.4·σ·√T·F approximation', () => {
+    const { price, delta, gamma, vega, theta } = black76Greeks({ ...ATM, optionType: 'C' })
+    expect(price / (0.4 * 0.5 * Math.sqrt(30 / 365) * 100_000)).toBeCloseTo(1, 1)
+    expect(delta).toBeGreaterThan(0.5)
+    expect(delta).toBeLessThan(0.56)
+    expect(gamma).toBeGreaterThan(0)
+    expect(vega).toBeGreaterThan(0)
+    expect(theta).toBeLessThan(0)
+  })
+
+  it('reports vega per vol point and theta per day', () => {
+    const base = black76Greeks({ ...ATM, optionType: 'C' })
+    const bumped = black76Price({ ...ATM, vol: 0.51, optionType: 'C' })
+    expect(bumped - base.price).toBeCloseTo(base.vega, 0)
+    const tomorrow = black76Price({ ...ATM, years: 29 / 365, optionType: 'C' })
+    expect(tomorrow - base.price).toBeCloseTo(base.theta, -1)
+  })
+
+  it('returns intrinsic value at expiry', () => {
+    const g = black76Greeks({ ...ATM, strike: 90_000, years: 0, optionType: 'C' })
+    expect(g.price).toBe(10_000)
+    expect(g.delta).toBe(1)
+    expect(g.gamma).toBe(0)
+  })
+})
+
+describe('impliedVol', () => {
+  it('round-trips a model price for calls and puts', () => {
+    for (const optionType of ['C', 'P']) {
+      for (const strike of [70_000, 100_000, 130_000]) {
+        const price = black76Price({ ...ATM, strike, vol: 0.72, optionType })
+        expect(impliedVol({ ...ATM, strike, optionType, price })).toBeCloseTo(0.72, 6)
+      }
+    }
+  })
+
+  it('rejects prices outside the no-arbitrage bounds', () => {
+    expect(impliedVol({ ...ATM, strike: 90_000, optionType: 'C', price: 9_000 })).toBeNull()
+    expect(impliedVol({ ...ATM, optionType: 'C', price: 100_000 })).toBeNull()
+    expect(impliedVol({ ...ATM, years: 0, optionType: 'C', price: 1 })).toBeNull()
+  })
+})
+
+describe('yearsToExpiry', () => {
+  it('measures to 08:00 UTC on the expiry date and floors at zero', () => {
+    const now = Date.parse('2025-12-26T08:00:00Z')
+    expect(yearsToExpiry('2025-12-27', now)).toBeCloseTo(1 / 365, 10)
+    expect(yearsToExpiry('2025-12-25', now)).toBe(0)
+  })
+})
+
+describe('modelLegGreeks', () => {
+  const now = Date.parse('2025-11-27T08:00:00Z')
+  const leg = { spot: 100_000, strike: 110_000, expiryISO: '2025-12-27', optionType: 'C', now }
+
+  it('quotes inverse prices in coin and solves IV from a coin mark', () => {
+    const fromIv = modelLegGreeks({ ...leg, settlement: 'inverse', iv: 0.6 })!
+    expect(fromIv.price).toBeLessThan(0.1)
+    const solved = impliedVolFromMark({ ...leg, settlement: 'inverse', markPrice: fromIv.price })
+    expect(solved).toBeCloseTo(0.6, 6)
+    const fromMark = modelLegGreeks({ ...leg, settlement: 'inverse', markPrice: fromIv.price })!
+    expect(fromMark.delta).toBeCloseTo(fromIv.delta, 6)
+  })
+
+  it('quotes linear prices in USD', () => {
+    const inverse = modelLegGreeks({ ...leg, settlement: 'inverse', iv: 0.6 })!
+    const linear = modelLegGreeks({ ...leg, settlement: 'linear', iv: 0.6 })!
+    expect(linear.price).toBeCloseTo(inverse.price * leg.spot, 6)
+    expect(linear.gamma).toBeCloseTo(inverse.gamma, 12)
+  })
+
+  it('returns null without an IV or a usable mark', () => {
+    expect(modelLegGreeks({ ...leg, settlement: 'linear' })).toBeNull()
+    expect(modelLegGreeks({ ...leg, settlement: 'linear', markPrice: 0 })).toBeNull()
+  })
+})
+
+describe('settlementFor', () => {
+  it('treats Deribit coin options as inverse and everything else as linear', () => {
+    expect(settlementFor('deribit', 'BTC')).toBe('inverse')
+    expect(settlementFor('deribit', 'BTC_USDC')).toBe('linear')
+    expect(settlementFor('coincall', 'BTC')).toBe('linear')
+  })
+})
@@ -0,0 +1,132 @@
+// Black-76 pricing and greeks for European crypto options.
+//
+// Prices and greeks are USD-denominated and follow the Deribit ticker conventions so
+// model values can stand in for venue greeks: delta per 1 underlying, gamma per 1 USD
+// move, vega per 1 vol point, theta per calendar day, rho per 1% rate move.
+// Volatilities are decimal fractions (0.55 = 55%).
+
+export type OptionGreeks = {
+  price: number
+  delta: number
+  gamma: number
+  vega: number
+  theta: number
+  rho: number
+}
+
+export type Black76Input = {
+  forward: number
+  strike: number
+  /** Time to expiry in years (ACT/365). */
+  years: number
+  vol: number
+  optionType: string
+  /** Continuously compounded discount rate; crypto venues quote with 0. */
+  rate?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_VOL = 1e-4
+const MAX_VOL = 10
+
+/** Deribit (and Coincall) options expire at 08:00 UTC on the expiry date. */
+export const EXPIRY_HOUR_UTC = 8
+
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI)
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26 via erf, |error| < 1.5e-7). */
+export function normCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * z)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-z * z)
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf)
+}
+
+function isPut(optionType: string): boolean {
+  return (optionType || '').toUpperCase().startsWith('P')
+}
+
+/** Year fraction from `now` to the 08:00 UTC expiry of `expiryISO` ("YYYY-MM-DD"); never negative. */
+export function yearsToExpiry(expiryISO: string, now: number = Date.now()): number {
+  const expiry = Date.parse(`${expiryISO.slice(0, 10)}T${String(EXPIRY_HOUR_UTC).padStart(2, '0')}:00:00Z`)
+  if (!Number.isFinite(expiry)) return 0
+  return Math.max(0, (expiry - now) / (365 * DAY_MS))
+}
+
+function intrinsic(forward: number, strike: number, optionType: string): number {
+  return isPut(optionType) ? Math.max(strike - forward, 0) : Math.max(forward - strike, 0)
+}
+
+export function black76Greeks(input: Black76Input): OptionGreeks {
+  const { forward: F, strike: K, years: T, vol, optionType } = input
+  const r = input.rate ?? 0
+  const df = Math.exp(-r * T)
+  const put = isPut(optionType)
+
+  // At (or past) expiry, or with no vol, the option is worth its discounted intrinsic value.
+  if (!(T > 0) || !(vol > 0) || !(F > 0) || !(K > 0)) {
+    const price = df * intrinsic(F, K, optionType)
+    const itm = put ? F < K : F > K
+    return { price, delta: itm ? (put ? -df : df) : 0, gamma: 0, vega: 0, theta: 0, rho: 0 }
+  }
+
+  const sqrtT = Math.sqrt(T)
+  const d1 = (Math.log(F / K) + 0.5 * vol * vol * T) / (vol * sqrtT)
+  const d2 = d1 - vol * sqrtT
+  const pdf = normPdf(d1)
+
+  const price = put
+    ? df * (K * normCdf(-d2) - F * normCdf(-d1))
+    : df * (F * normCdf(d1) - K * normCdf(d2))
+  const delta = put ? -df * normCdf(-d1) : df * normCdf(d1)
+  const gamma = (df * pdf) / (F * vol * sqrtT)
+  const vega = (df * F * pdf * sqrtT) / 100
+  const thetaYear = -(df * F * pdf * vol) / (2 * sqrtT) + r * price
+  const rho = (-T * price) / 100
+
+  return { price, delta, gamma, vega, theta: thetaYear / 365, rho }
+}
+
+export function black76Price(input: Black76Input): number {
+  return black76Greeks(input).price
+}
+
+/**
+ * Solve the Black-76 volatility that reproduces a USD option price. Returns null when the
+ * price sits outside the no-arbitrage bounds or the option has already expired.
+ */
+export function impliedVol(
+  params: Omit<Black76Input, 'vol'> & { price: number },
+): number | null {
+  const { price, forward: F, strike: K, years: T, optionType } = params
+  const r = params.rate ?? 0
+  if (!(T > 0) || !(F > 0) || !(K > 0) || !Number.isFinite(price)) return null
+
+  const df = Math.exp(-r * T)
+  const lower = df * intrinsic(F, K, optionType)
+  const upper = df * (isPut(optionType) ? K : F)
+  if (price <= lower || price >= upper) return null
+
+  const at = (vol: number) => black76Greeks({ ...params, vol }).price
+
+  // Newton from a Brenner–Subrahmanyam seed, falling back to bisection when a step
+  // leaves the bracket or vega vanishes deep in/out of the money.
+  let lo = MIN_VOL
+  let hi = MAX_VOL
+  let vol = Math.min(Math.max(Math.sqrt((2 * Math.PI) / T) * (price / (df * F)), 0.05), 3)
+  for (let i = 0; i < 100; i++) {
+    const g = black76Greeks({ ...params, vol })
+    const diff = g.price - price
+    if (Math.abs(diff) < 1e-10 * Math.max(1, price)) return vol
+    if (diff > 0) hi = vol
+    else lo = vol
+    const vegaRaw = g.vega * 100
+    const next = vegaRaw > 1e-12 ? vol - diff / vegaRaw : NaN
+    vol = next > lo && next < hi ? next : 0.5 * (lo + hi)
+    if (hi - lo < 1e-12) break
+  }
+  return Math.abs(at(vol) - price) < 1e-6 * Math.max(1, price) ? vol : null
+}
@@ -0,0 +1,2 @@
+export * from './black76';
+export * from './legGreeks';
@@ -0,0 +1,77 @@
+import { black76Greeks, impliedVol, yearsToExpiry, type OptionGreeks } from './black76'
+
+/**
+ * How a contract quotes its premium. Inverse options (Deribit BTC/ETH) quote in the
+ * underlying coin; linear options (Coincall, Deribit USDC, CME) quote in USD.
+ */
+export type Settlement = 'inverse' | 'linear'
+
+export function settlementFor(exchange: string | null | undefined, underlying?: string | null): Settlement {
+  const u = (underlying ?? '').toUpperCase()
+  if (exchange === 'deribit' && !u.includes('USDC')) return 'inverse'
+  return 'linear'
+}
+
+export type LegPricingInput = {
+  spot: number
+  strike: number
+  expiryISO: string
+  optionType: string
+  settlement: Settlement
+  /** Volatility as a decimal fraction; solved from `markPrice` when omitted. */
+  iv?: number | null
+  /** Venue mark in the premium currency (coin for inverse, USD for linear). */
+  markPrice?: number | null
+  now?: number
+}
+
+export type ModelLegGreeks = OptionGreeks & {
+  /** Model price in the premium currency of the contract. */
+  price: number
+  iv: number
+}
+
+/** Convert a premium-currency price to USD for the Black-76 solver. */
+function toUsd(price: number, spot: number, settlement: Settlement): number {
+  return settlement === 'inverse' ? price * spot : price
+}
+
+/** Solve the implied vol of a venue mark quoted in the contract's premium currency. */
+export function impliedVolFromMark(
+  input: Omit<LegPricingInput, 'iv' | 'markPrice'> & { markPrice: number },
+): number | null {
+  const years = yearsToExpiry(input.expiryISO, input.now)
+  return impliedVol({
+    price: toUsd(input.markPrice, input.spot, input.settlement),
+    forward: input.spot,
+    strike: input.strike,
+    years,
+    optionType: input.optionType,
+  })
+}
+
+/**
+ * Per-contract model greeks for one leg. Uses the given IV, or solves it from the mark;
+ * returns null when neither is usable. Greeks are in the venue ticker conventions
+ * (USD-based), the price in the contract's premium currency.
+ */
+export function modelLegGreeks(input: LegPricingInput): ModelLegGreeks | null {
+  if (!(input.spot > 0) || !(input.strike > 0)) return null
+  const iv =
+    input.iv != null && input.iv > 0
+      ? input.iv
+      : input.markPrice != null && Number.isFinite(input.markPrice)
+      ? impliedVolFromMark({ ...input, markPrice: input.markPrice })
+      : null
+  if (iv == null) return null
+
+  const g = black76Greeks({
+    forward: input.spot,
+    strike: input.strike,
+    years: yearsToExpiry(input.expiryISO, input.now),
+    vol: iv,
+    optionType: input.optionType,
+  })
+  const price = input.settlement === 'inverse' ? g.price / input.spot : g.price
+  return { ...g, price, iv }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { dbGetDeliveryPrices, dbGetInstruments, dbGetInstrumentsByExpiry, deribitOptionBook } from '../deribit'
+
+const expiry = Date.UTC(2025, 11, 27, 8)
+const usdcInstruments = {
+  result: [
+    { instrument_name: 'SOL_USDC-27DEC25-150-C', expiration_timestamp: expiry, strike: 150, option_type: 'call' },
+    { instrument_name: 'SOL_USDC-27DEC25-140-P', expiration_timestamp: expiry, strike: 140, option_type: 'put' },
+    { instrument_name: 'XRP_USDC-27DEC25-0d625-P', expiration_timestamp: expiry, strike: 0.625, option_type: 'put' },
+    { instrument_name: 'BTC_USDC-26DEC25-90000-C', expiration_timestamp: Date.UTC(2025, 11, 26, 8), strike: 90_000, option_type: 'call' },
+  ],
+}
+
+const stubFetch = (body: unknown) => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body)))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+const requestedUrl = (fetchMock: ReturnType<typeof stubFetch>) => String((fetchMock.mock.calls[0] as unknown[])[0])
+
+describe('deribitOptionBook', () => {
+  it('maps inverse coins, USDC books and coins without an inverse book', () => {
+    expect(deribitOptionBook('btc')).toEqual({ currency: 'BTC', prefix: 'BTC', indexName: 'btc_usd' })
+    expect(deribitOptionBook('ETH_USDC')).toEqual({ currency: 'USDC', prefix: 'ETH_USDC', indexName: 'eth_usdc' })
+    expect(deribitOptionBook('SOL')).toEqual({ currency: 'USDC', prefix: 'SOL_USDC', indexName: 'sol_usdc' })
+  })
+})
+
+describe('Deribit chain loading', () => {
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('loads a USDC-linear book from the USDC listing', async () => {
+    const fetchMock = stubFetch(usdcInstruments)
+    const chain = await dbGetInstrumentsByExpiry('2025-12-27', 'SOL_USDC')
+    expect(requestedUrl(fetchMock)).toContain('currency=USDC')
+    expect(chain).toEqual([
+      { instrument_name: 'SOL_USDC-27DEC25-140-P', strike: 140, option_type: 'put' },
+      { instrument_name: 'SOL_USDC-27DEC25-150-C', strike: 150, option_type: 'call' },
+    ])
+    expect((await dbGetInstrumentsByExpiry('2025-12-27', 'XRP_USDC')).map((i) => i.strike)).toEqual([0.625])
+  })
+
+  it('lists only the book expiries', async () => {
+    stubFetch(usdcInstruments)
+    expect(await dbGetInstruments('BTC_USDC')).toEqual(['2025-12-26'])
+  })
+
+  it('reads linear delivery prices from the USDC index', async () => {
+    const fetchMock = stubFetch({ result: { data: [{ date: '2025-12-27', delivery_price: 2.41 }] } })
+    expect(await dbGetDeliveryPrices('XRP_USDC')).toEqual({ '2025-12-27': 2.41 })
+    expect(requestedUrl(fetchMock)).toContain('index_name=xrp_usdc')
+  })
+})
@@ -0,0 +1,148 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { WebSocket, WebSocketServer } from 'ws'
+import type { AddressInfo } from 'node:net'
+import type { MarksMap } from '@/utils'
+import { createDeribitMarkStream, type DeribitMarkStream, type SocketCtor } from '../deribitStream'
+
+const Socket = WebSocket as unknown as SocketCtor
+
+type Rpc = { id: number; method: string; params: Record<string, any> }
+
+/** Local stand-in for Deribit's JSON-RPC socket that records every request. */
+function mockDeribit() {
+  const server = new WebSocketServer({ port: 0 })
+  const requests: Rpc[] = []
+  server.on('connection', (ws) => {
+    ws.on('message', (raw) => {
+      const msg = JSON.parse(String(raw)) as Rpc
+      requests.push(msg)
+      ws.send(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: msg.params.channels ?? 'ok' }))
+    })
+  })
+  const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`
+  const broadcast = (msg: unknown) => server.clients.forEach((c) => c.send(JSON.stringify(msg)))
+  const ticker = (instrument_name: string, mark_price: number) => broadcast({
+    jsonrpc: '2.0',
+    method: 'subscription',
+    params: { channel: `ticker.${instrument_name}.100ms`, data: { instrument_name, mark_price, mark_iv: 55, index_price: 100_000 } },
+  })
+  const channels = (method: string) => requests.filter((r) => r.method === method).flatMap((r) => r.params.channels as string[])
+  return {
+    server, url, requests, broadcast, ticker, channels,
+    dropClients: () => server.clients.forEach((c) => c.terminate()),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+const waitFor = (fn: () => void) => vi.waitFor(fn, { timeout: 2000, interval: 5 })
+
+describe('createDeribitMarkStream', () => {
+  let stream: DeribitMarkStream | null = null
+  let mock: ReturnType<typeof mockDeribit> | null = null
+
+  afterEach(async () => {
+    stream?.close()
+    stream = null
+    await mock?.close()
+    mock = null
+  })
+
+  it('subscribes to a 100ms ticker channel per instrument and batches notifications into marks', async () => {
+    mock = mockDeribit()
+    const received: MarksMap[] = []
+    stream = createDeribitMarkStream({ url: mock.url, WebSocketImpl: Socket, onMarks: (m) => received.push(m), flushMs: 20 })
+    stream.setInstruments(['BTC-27DEC25-50000-C', 'BTC-27DEC25-60000-C'])
+
+    await waitFor(() => expect(mock!.channels('public/subscribe')).toHaveLength(2))
+    expect(stream.status()).toBe('live')
+    expect(mock.channels('public/subscribe')).toEqual(['ticker.BTC-27DEC25-50000-C.100ms', 'ticker.BTC-27DEC25-60000-C.100ms'])
+    expect(mock.requests.find((r) => r.method === 'public/set_heartbeat')?.params).toEqual({ interval: 30 })
+
+    mock.ticker('BTC-27DEC25-50000-C', 0.04)
+    mock.ticker('BTC-27DEC25-50000-C', 0.05)
+    mock.ticker('BTC-27DEC25-60000-C', 0.01)
+    await waitFor(() => expect(received).toHaveLength(1))
+    expect(received[0]).toEqual({
+      'deribit:BTC-27DEC25-50000-C': { price: 0.05, multiplier: 1, greeks: undefined, iv: 0.55, indexPrice: 100_000 },
+      'deribit:BTC-27DEC25-60000-C': { price: 0.01, multiplier: 1, greeks: undefined, iv: 0.55, indexPrice: 100_000 },
+    })
+  })
+
+  it('answers heartbeat test requests', async () => {
+    mock = mockDeribit()
+    stream = createDeribitMarkStream({ url: mock.url, WebSocketImpl: Socket, onMarks: () => {} })
+    stream.setInstruments(['BTC-27DEC25-50000-C'])
+    await waitFor(() => expect(stream!.status()).toBe('live'))
+
+    mock.broadcast({ jsonrpc: '2.0', method: 'heartbeat', params: { type: 'test_request' } })
+    await waitFor(() => expect(mock!.requests.some((r) => r.method === 'public/test')).toBe(true))
+  })
+
+  it('ignores malformed notifications', async () => {
+    mock = mockDeribit()
+    const received: MarksMap[] = []
+    stream = createDeribitMarkStream({ url: mock.url, WebSocketImpl: Socket, onMarks: (m) => received.push(m), flushMs: 20 })
+    stream.setInstruments(['BTC-27DEC25-50000-C'])
+    await waitFor(() => expect(stream!.status()).toBe('live'))
+
+    mock.server.clients.forEach((c) => c.send('not json'))
+    mock.broadcast(null)
+    mock.broadcast({ method: 'subscription', params: 'ticker' })
+    mock.broadcast({ method: 'subscription', params: { channel: 42, data: { instrument_name: 'BTC-27DEC25-50000-C', mark_price: 0.04 } } })
+    mock.broadcast({ method: 'subscription', params: { channel: 'ticker.BTC-27DEC25-50000-C.100ms', data: { mark_price: 0.04 } } })
+    mock.broadcast({ method: 'subscription', params: { channel: 'ticker.BTC-27DEC25-50000-C.100ms', data: { instrument_name: 'BTC-27DEC25-50000-C', mark_price: '0.04' } } })
+    mock.ticker('BTC-27DEC25-50000-C', 0.05)
+    await waitFor(() => expect(received).toHaveLength(1))
+    expect(received[0]).toEqual({
+      'deribit:BTC-27DEC25-50000-C': { price: 0.05, multiplier: 1, greeks: undefined, iv: 0.55, indexPrice: 100_000 },
+    })
+  })
+
+  it('diffs subscriptions when the instrument set changes', async () => {
+    mock = mockDeribit()
+    stream = createDeribitMarkStream({ url: mock.url, WebSocketImpl: Socket, onMarks: () => {} })
+    stream.setInstruments(['A', 'B'])
+    await waitFor(() => expect(mock!.channels('public/subscribe')).toHaveLength(2))
+
+    stream.setInstruments(['B', 'C'])
+    await waitFor(() => expect(mock!.channels('public/unsubscribe')).toEqual(['ticker.A.100ms']))
+    await waitFor(() => expect(mock!.channels('public/subscribe')).toContain('ticker.C.100ms'))
+    expect(mock.channels('public/subscribe')).toHaveLength(3)
+  })
+
+  it('polls REST while disconnected and resubscribes after reconnecting', async () => {
+    mock = mockDeribit()
+    const statuses: string[] = []
+    const restFetch = vi.fn(async (instruments: string[]) => ({ [`deribit:${instruments[0]}`]: { price: 0.02, multiplier: 1 } }))
+    const received: MarksMap[] = []
+    stream = createDeribitMarkStream({
+      url: mock.url, WebSocketImpl: Socket, restFetch, onMarks: (m) => received.push(m),
+      onStatus: (s) => statuses.push(s), backoffMs: { initial: 50, max: 200 }, restIntervalMs: 1000,
+    })
+    stream.setInstruments(['BTC-27DEC25-50000-C'])
+    await waitFor(() => expect(mock!.channels('public/subscribe')).toHaveLength(1))
+
+    mock.dropClients()
+    await waitFor(() => expect(restFetch).toHaveBeenCalledWith(['BTC-27DEC25-50000-C']))
+    await waitFor(() => expect(received).toContainEqual({ 'deribit:BTC-27DEC25-50000-C': { price: 0.02, multiplier: 1 } }))
+
+    await waitFor(() => expect(mock!.channels('public/subscribe')).toHaveLength(2))
+    expect(stream.status()).toBe('live')
+    expect(statuses).toEqual(['connecting', 'live', 'fallback', 'reconnecting', 'live'])
+  })
+
+  it('falls back to REST polling when no WebSocket is available', async () => {
+    const restFetch = vi.fn(async () => ({}))
+    stream = createDeribitMarkStream({ WebSocketImpl: null, restFetch, onMarks: () => {}, restIntervalMs: 20 })
+    stream.setInstruments(['A'])
+    expect(stream.status()).toBe('fallback')
+    await waitFor(() => expect(restFetch.mock.calls.length).toBeGreaterThanOrEqual(2))
+
+    stream.setInstruments([])
+    expect(stream.status()).toBe('idle')
+    const calls = restFetch.mock.calls.length
+    await new Promise((r) => setTimeout(r, 60))
+    expect(restFetch).toHaveBeenCalledTimes(calls)
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { LegMarkRef } from '@/utils'
+
+vi.mock('../deribit', () => ({ dbGetBest: vi.fn() }))
+vi.mock('../coincall', () => ({ ccGetBest: vi.fn() }))
+
+import { dbGetBest } from '../deribit'
+import { ccGetBest } from '../coincall'
+import { fetchLiveMarks } from '../fetchLiveMarks'
+
+const ref = (exchange: LegMarkRef['exchange'], symbol: string): LegMarkRef => ({
+  key: `${exchange}:${symbol}`, symbol, exchange, defaultMultiplier: 1,
+})
+
+describe('fetchLiveMarks', () => {
+  beforeEach(() => {
+    vi.mocked(dbGetBest).mockReset()
+    vi.mocked(ccGetBest).mockReset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('dispatches each ref to its venue and merges the results into one map', async () => {
+    vi.mocked(dbGetBest).mockResolvedValue({ price: 0.05, multiplier: 1, iv: 0.5 })
+    vi.mocked(ccGetBest).mockResolvedValue({ price: 3100, multiplier: 0.01, greeks: { delta: 0.4 } })
+
+    const marks = await fetchLiveMarks([
+      ref('deribit', 'BTC-27DEC25-50000-C'),
+      ref('coincall', 'BTCUSD-27DEC25-60000-C'),
+      ref('deribit', 'BTC-27DEC25-50000-C'),
+    ])
+
+    expect(dbGetBest).toHaveBeenCalledTimes(1)
+    expect(dbGetBest).toHaveBeenCalledWith('BTC-27DEC25-50000-C')
+    expect(ccGetBest).toHaveBeenCalledWith('BTCUSD-27DEC25-60000-C')
+    expect(marks).toEqual({
+      'deribit:BTC-27DEC25-50000-C': { price: 0.05, multiplier: 1, iv: 0.5 },
+      'coincall:BTCUSD-27DEC25-60000-C': { price: 3100, multiplier: 0.01, greeks: { delta: 0.4 } },
+    })
+  })
+
+  it('shares one progress callback and error count across venues', async () => {
+    vi.mocked(dbGetBest).mockResolvedValue({ price: 0.05, multiplier: 1 })
+    vi.mocked(ccGetBest).mockRejectedValue(new Error('down'))
+    const progress: Array<[number, number, number]> = []
+
+    const marks = await fetchLiveMarks(
+      [ref('deribit', 'A'), ref('coincall', 'B'), ref('coincall', 'C'), ref('cme', 'BTCZ5 C50000')],
+      (done, total, errors) => progress.push([done, total, errors]),
+    )
+
+    expect(Object.keys(marks)).toEqual(['deribit:A'])
+    expect(progress[0]).toEqual([0, 3, 0])
+    expect(progress[progress.length - 1]).toEqual([3, 3, 2])
+  })
+
+  it('returns an empty map without reporting progress when nothing is fetchable', async () => {
+    const onProgress = vi.fn()
+    expect(await fetchLiveMarks([ref('cme', 'BTCZ5 C50000')], onProgress)).toEqual({})
+    expect(onProgress).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { getLegMarkRef, markMultiplier, type Leg, type Position } from '@/utils'
+import { VENUE_ADAPTERS, isExchange, venueAdapter } from '../registry'
+import { applyCsvPreset } from '../csvPreset'
+
+const leg: Leg = { key: 'l1', strike: 100_000, optionType: 'C', openLots: [], realizedPnl: 0, netPremium: 0, qtyNet: 1, trades: [] }
+const position = (exchange: Position['exchange']): Position => ({
+  id: 'p1', underlying: 'BTC', expiryISO: '2099-12-25', dte: 1, legsCount: 1, type: 'Single', realizedPnl: 0,
+  netPremium: 0, status: 'OPEN', greeks: {}, exchange, legs: [leg],
+})
+
+describe('venue registry', () => {
+  it('registers each venue once', () => {
+    const ids = VENUE_ADAPTERS.map((v) => v.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(ids).toEqual(['deribit', 'coincall', 'cme'])
+    expect(isExchange('coincall')).toBe(true)
+    expect(isExchange('okx')).toBe(false)
+    expect(venueAdapter('okx')).toBeUndefined()
+  })
+
+  it.each(VENUE_ADAPTERS.map((v) => [v.id, v] as const))('%s round-trips symbols through its parser', (_id, adapter) => {
+    // The last Friday of December 2028, so CME lists it as a monthly.
+    const symbol = adapter.toSymbol('BTC', '2028-12-29', 100_000, 'P')
+    expect(symbol).not.toBeNull()
+    expect(adapter.parseSymbol(symbol!)).toEqual({ underlying: 'BTC', expiryISO: '2028-12-29', strike: 100_000, optionType: 'P' })
+  })
+
+  it('builds mark refs only for venues with a mark source', () => {
+    expect(getLegMarkRef(position('deribit'), leg)).toEqual({
+      key: 'deribit:BTC-25DEC99-100000-C', symbol: 'BTC-25DEC99-100000-C', exchange: 'deribit', defaultMultiplier: 1,
+    })
+    expect(getLegMarkRef(position('coincall'), leg)?.key).toBe('coincall:BTCUSD-25DEC99-100000-C')
+    expect(getLegMarkRef(position('cme'), leg)).toBeNull()
+  })
+
+  it('reads contract multipliers from the venue', () => {
+    const cc = getLegMarkRef(position('coincall'), leg)!
+    expect(markMultiplier(cc, { price: 10, multiplier: 0.01 })).toBe(0.01)
+    expect(markMultiplier(cc, { price: 10, multiplier: null })).toBeNull()
+    const db = getLegMarkRef(position('deribit'), leg)!
+    expect(markMultiplier(db, { price: 0.1, multiplier: 7 })).toBe(1)
+    expect(venueAdapter('cme').contractMultiplier('BTCZ5 C50000')).toBe(5)
+    expect(venueAdapter('cme').contractMultiplier('MBTZ5 C50000')).toBe(0.1)
+  })
+})
+
+describe('deribit USDC-linear symbols', () => {
+  const deribit = venueAdapter('deribit')
+
+  it('parses linear names with `d` decimal strikes', () => {
+    expect(deribit.parseSymbol('BTC_USDC-27DEC25-50000-C')).toEqual({
+      underlying: 'BTC_USDC', expiryISO: '2025-12-27', strike: 50_000, optionType: 'C',
+    })
+    expect(deribit.parseSymbol('XRP_USDC-27DEC25-0d625-P')).toEqual({
+      underlying: 'XRP_USDC', expiryISO: '2025-12-27', strike: 0.625, optionType: 'P',
+    })
+    expect(deribit.parseSymbol('SOL_USDC-7NOV25-172d5-C')?.strike).toBe(172.5)
+    expect(deribit.parseSymbol('BTC_USDT-27DEC25-50000-C')).toBeNull()
+    expect(deribit.parseSymbol('BTC-27XYZ25-50000-C')).toBeNull()
+  })
+
+  it('round-trips linear names and sizes them in coin', () => {
+    for (const symbol of ['SOL_USDC-27DEC25-150-C', 'XRP_USDC-27DEC25-2d4-P', 'ETH_USDC-27DEC25-3500-P']) {
+      const parsed = deribit.parseSymbol(symbol)!
+      expect(deribit.toSymbol(parsed.underlying, parsed.expiryISO, parsed.strike, parsed.optionType)).toBe(symbol)
+      expect(deribit.contractMultiplier(symbol)).toBe(1)
+    }
+  })
+})
+
+describe('applyCsvPreset', () => {
+  it('prefers the venue column names and keeps guesses for the rest', () => {
+    const headers = ['Time', 'Symbol', 'Direction', 'Qty', 'Avg Price', 'Notes']
+    const mapped = applyCsvPreset(headers, venueAdapter('coincall').csvPreset, { side: 'Direction', info: 'Notes', price: 'Notes' })
+    expect(mapped).toMatchObject({
+      instrument: 'Symbol', side: 'Direction', amount: 'Qty', price: 'Avg Price', timestamp: 'Time', info: 'Notes',
+    })
+    expect(mapped.fee).toBeUndefined()
+  })
+})
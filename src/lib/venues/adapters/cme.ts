@@ -0,0 +1,21 @@
+import { cmeContractMultiplier, parseCmeInstrument, toCmeSymbol } from '../../../utils';
+import type { VenueAdapter } from '../types';
+
+// No public mark or chain source: CME legs are imported from broker statements only.
+export const cmeAdapter: VenueAdapter = {
+  id: 'cme',
+  label: 'CME',
+  toSymbol: (underlying, expiryISO, strike, optionType) => toCmeSymbol(underlying, expiryISO, strike, optionType),
+  parseSymbol: (symbol) => parseCmeInstrument(symbol),
+  contractMultiplier: (symbol) => cmeContractMultiplier(symbol),
+  csvPreset: {
+    instrument: ['Contract', 'Symbol'],
+    side: ['Buy/Sell', 'B/S'],
+    amount: ['Quantity', 'Qty'],
+    price: ['Trade Price', 'Price'],
+    fee: ['Commission', 'Fees'],
+    timestamp: ['Trade Date', 'Date'],
+    trade_id: ['Trade ID', 'Exec ID'],
+    order_id: ['Order ID'],
+  },
+};
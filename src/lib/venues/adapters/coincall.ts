@@ -0,0 +1,23 @@
+import { parseCoincallInstrument, toCoincallSymbol } from '../../../utils';
+import { ccGetBest } from '../coincall';
+import type { VenueAdapter } from '../types';
+
+export const coincallAdapter: VenueAdapter = {
+  id: 'coincall',
+  label: 'Coincall',
+  toSymbol: (underlying, expiryISO, strike, optionType) => toCoincallSymbol(underlying, expiryISO, strike, optionType),
+  parseSymbol: (symbol) => parseCoincallInstrument(symbol),
+  fetchMark: (symbol) => ccGetBest(symbol),
+  // Coincall sizes contracts per instrument and reports it with the price.
+  contractMultiplier: (_symbol, mark) => mark?.multiplier ?? null,
+  csvPreset: {
+    instrument: ['Symbol'],
+    side: ['Direction'],
+    amount: ['Qty', 'Quantity'],
+    price: ['Avg Price', 'Price'],
+    fee: ['Fee'],
+    timestamp: ['Time', 'Trade Time'],
+    trade_id: ['Trade ID'],
+    order_id: ['Order ID'],
+  },
+};
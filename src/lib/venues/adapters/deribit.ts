@@ -0,0 +1,30 @@
+import { parseInstrument, toDeribitInstrument } from '../../../utils';
+import { dbGetBest, dbGetDeliveryPrices, dbGetInstruments, dbGetInstrumentsByExpiry } from '../deribit';
+import type { VenueAdapter } from '../types';
+
+export const deribitAdapter: VenueAdapter = {
+  id: 'deribit',
+  label: 'Deribit',
+  toSymbol: (underlying, expiryISO, strike, optionType) => toDeribitInstrument(underlying, expiryISO, strike, optionType),
+  parseSymbol: (symbol) => parseInstrument(symbol),
+  fetchMark: (symbol) => dbGetBest(symbol),
+  listExpiries: (currency) => dbGetInstruments(currency),
+  listChain: (expiryISO, currency) => dbGetInstrumentsByExpiry(expiryISO, currency),
+  fetchDeliveryPrices: (currency) => dbGetDeliveryPrices(currency),
+  // Deribit sizes option trades in the base coin for inverse and USDC-linear books alike
+  // (`amount` 0.1 = 0.1 BTC, 500 = 500 XRP), and prices per coin, so one unit is one coin.
+  contractMultiplier: () => 1,
+  csvPreset: {
+    instrument: ['Instrument'],
+    side: ['Side'],
+    amount: ['Amount'],
+    price: ['Price'],
+    fee: ['Fee Charged', 'Fee'],
+    index_price: ['Index Price'],
+    timestamp: ['Date'],
+    trade_id: ['Trade ID'],
+    order_id: ['Order ID'],
+    info: ['Info'],
+    type: ['Type'],
+  },
+};
@@ -0,0 +1,24 @@
+import type { CsvPreset } from './types';
+
+/**
+ * Overlay a venue's CSV preset on a guessed column mapping: each field the preset names is
+ * mapped to the first header that matches one of its names (case-insensitive), and fields
+ * without a match keep their guess.
+ */
+export function applyCsvPreset(
+  headers: string[],
+  preset: CsvPreset,
+  guessed: Record<string, string>,
+): Record<string, string> {
+  const byName = new Map<string, string>();
+  for (const h of headers) {
+    const k = h.trim().toLowerCase();
+    if (!byName.has(k)) byName.set(k, h);
+  }
+  const out = { ...guessed };
+  for (const [field, names] of Object.entries(preset)) {
+    const hit = names?.map((n) => byName.get(n.toLowerCase())).find(Boolean);
+    if (hit) out[field] = hit;
+  }
+  return out;
+}
@@ -44,17 +44,59 @@ export async function dbGetTicker(instrument: string): Promise<DeribitTickerResu
   return result ?? null;
 }
 
+/** Option books the desk trades: inverse BTC and ETH, and the USDC-linear books. */
+export const DERIBIT_OPTION_CURRENCIES = ['BTC', 'ETH', 'BTC_USDC', 'ETH_USDC', 'SOL_USDC', 'XRP_USDC'] as const;
+
+const INVERSE_OPTION_COINS = new Set(['BTC', 'ETH']);
+
+export type DeribitOptionBook = {
+  /** `currency` parameter of the public instrument endpoints. */
+  currency: string;
+  /** Instrument name prefix, e.g. `BTC` or `SOL_USDC`. */
+  prefix: string;
+  /** USD index the book settles against, e.g. `btc_usd` or `sol_usdc`. */
+  indexName: string;
+};
+
+/**
+ * Where an option book lives. Inverse books list under their coin; USDC-linear books all list
+ * under `USDC` and are told apart by the `<COIN>_USDC` name prefix. Coins without an inverse
+ * book (SOL, XRP) resolve to their USDC book.
+ */
+export function deribitOptionBook(currency: string): DeribitOptionBook {
+  const upper = (currency || 'BTC').trim().toUpperCase();
+  const coin = upper.replace(/_USDC$/, '');
+  if (upper === coin && INVERSE_OPTION_COINS.has(coin)) {
+    return { currency: coin, prefix: coin, indexName: `${coin.toLowerCase()}_usd` };
+  }
+  return { currency: 'USDC', prefix: `${coin}_USDC`, indexName: `${coin.toLowerCase()}_usdc` };
+}
+
+type DeribitInstrument = {
+  instrument_name?: string;
+  expiration_timestamp?: number;
+  strike?: number;
+  option_type?: string;
+};
+
+/** Live option instruments of one book; the USDC listing is narrowed to the book's prefix. */
+async function dbGetOptionInstruments(currency: string): Promise<DeribitInstrument[]> {
+  const book = deribitOptionBook(currency);
+  const url = `${BASE}/public/get_instruments?currency=${encodeURIComponent(book.currency)}&kind=option&expired=false`;
+  const res = await fetch(url);
+  if (!res.ok) return [];
+  const json = await res.json();
+  const instruments: DeribitInstrument[] = json?.result ?? [];
+  return instruments.filter((inst) => inst.instrument_name?.startsWith(`${book.prefix}-`));
+}
+
 /**
  * Fetch all non-expired option instruments for a currency and return
  * deduplicated, sorted expiry dates as ISO strings ("YYYY-MM-DD").
  */
 export async function dbGetInstruments(currency = 'BTC'): Promise<string[]> {
   try {
-    const url = `${BASE}/public/get_instruments?currency=${encodeURIComponent(currency)}&kind=option&expired=false`;
-    const res = await fetch(url);
-    if (!res.ok) return [];
-    const json = await res.json();
-    const instruments: Array<{ expiration_timestamp?: number }> = json?.result ?? [];
+    const instruments = await dbGetOptionInstruments(currency);
     const seen = new Set<string>();
     const expiries: string[] = [];
     for (const inst of instruments) {
@@ -78,7 +120,8 @@ export type ChainInstrument = {
 };
 
 /**
- * Fetch all option instruments for a specific expiry date (ISO "YYYY-MM-DD").
+ * Fetch all option instruments for a specific expiry date (ISO "YYYY-MM-DD") of one book
+ * (`BTC`, `ETH`, or a USDC-linear book such as `SOL_USDC`, see `deribitOptionBook`).
  * Returns sorted by strike ascending.
  */
 export async function dbGetInstrumentsByExpiry(
@@ -86,17 +129,7 @@ export async function dbGetInstrumentsByExpiry(
   currency = 'BTC',
 ): Promise<ChainInstrument[]> {
   try {
-    const url = `${BASE}/public/get_instruments?currency=${encodeURIComponent(currency)}&kind=option&expired=false`;
-    const res = await fetch(url);
-    if (!res.ok) return [];
-    const json = await res.json();
-    const instruments: Array<{
-      instrument_name?: string;
-      expiration_timestamp?: number;
-      strike?: number;
-      option_type?: string;
-    }> = json?.result ?? [];
-
+    const instruments = await dbGetOptionInstruments(currency);
     const result: ChainInstrument[] = [];
     for (const inst of instruments) {
       if (!inst.expiration_timestamp || !inst.instrument_name || inst.strike == null) continue;
@@ -111,24 +144,97 @@ export async function dbGetInstrumentsByExpiry(
   }
 }
 
+export type DeribitBookSummary = {
+  instrument_name: string;
+  mark_price?: number | null;
+  /** Mark IV in vol points. */
+  mark_iv?: number | null;
+  /** Price of the future the option is quoted against (the expiry's forward). */
+  underlying_price?: number | null;
+  estimated_delivery_price?: number | null;
+  bid_price?: number | null;
+  ask_price?: number | null;
+};
+
 /**
- * High-level helper: best available price + greeks.
- * Price preference: mark_price -> mid(bid/ask) -> last_price.
- * Multiplier: treat as 1 for Deribit options.
+ * One-call snapshot of every listed option for a currency (`public/get_book_summary_by_currency`),
+ * with mark IVs and forwards. Returns [] on any failure.
+ */
+export async function dbGetBookSummary(currency = 'BTC'): Promise<DeribitBookSummary[]> {
+  try {
+    const book = deribitOptionBook(currency);
+    const url = `${BASE}/public/get_book_summary_by_currency?currency=${encodeURIComponent(book.currency)}&kind=option`;
+    const res = await fetch(url);
+    if (!res.ok) return [];
+    const json = await res.json();
+    const result = json?.result ?? json;
+    if (!Array.isArray(result)) return [];
+    return (result as DeribitBookSummary[]).filter((row) => row.instrument_name?.startsWith(`${book.prefix}-`));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Recent expiry delivery prices of a currency's USD index (`public/get_delivery_prices`),
+ * keyed by delivery date ("YYYY-MM-DD"). Returns {} on any failure.
  */
-export async function dbGetBest(instrument: string): Promise<{
+export async function dbGetDeliveryPrices(currency = 'BTC', count = 60): Promise<Record<string, number>> {
+  try {
+    const { indexName } = deribitOptionBook(currency);
+    const url = `${BASE}/public/get_delivery_prices?index_name=${encodeURIComponent(indexName)}&count=${count}`;
+    const res = await fetch(url);
+    if (!res.ok) return {};
+    const json = await res.json();
+    const rows: Array<{ date?: string; delivery_price?: number }> = (json?.result ?? json)?.data ?? [];
+    const prices: Record<string, number> = {};
+    for (const row of rows) {
+      if (!row.date || typeof row.delivery_price !== 'number' || !(row.delivery_price > 0)) continue;
+      prices[row.date] = row.delivery_price;
+    }
+    return prices;
+  } catch {
+    return {};
+  }
+}
+
+export type DeribitMark = {
   price: number | null;
   multiplier: number | null;
   greeks?: DeribitGreeks;
-}> {
-  const t = await dbGetTicker(instrument);
-  if (!t) return { price: null, multiplier: 1 };
+  iv?: number | null;
+  indexPrice?: number | null;
+  bid?: number | null;
+  ask?: number | null;
+};
 
+/**
+ * Best available price + greeks from a ticker payload (REST result or WebSocket notification).
+ * Price preference: mark_price -> mid(bid/ask) -> last_price.
+ * Multiplier: treat as 1 for Deribit options.
+ * IV is converted from Deribit's vol points to a decimal fraction.
+ */
+export function deribitTickerMark(t: DeribitTickerResult): DeribitMark {
   let price = t.mark_price ?? null;
   if (price == null && t.best_bid_price != null && t.best_ask_price != null) {
     price = (t.best_bid_price + t.best_ask_price) / 2;
   }
   if (price == null) price = t.last_price ?? null;
 
-  return { price, multiplier: 1, greeks: t.greeks };
+  return {
+    price,
+    multiplier: 1,
+    greeks: t.greeks,
+    iv: t.mark_iv != null ? t.mark_iv / 100 : null,
+    indexPrice: t.index_price ?? null,
+    bid: t.best_bid_price,
+    ask: t.best_ask_price,
+  };
+}
+
+/** High-level helper: fetch the ticker and reduce it to a mark (see `deribitTickerMark`). */
+export async function dbGetBest(instrument: string): Promise<DeribitMark> {
+  const t = await dbGetTicker(instrument);
+  if (!t) return { price: null, multiplier: 1 };
+  return deribitTickerMark(t);
 }
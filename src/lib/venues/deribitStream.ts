@@ -0,0 +1,253 @@
+// src/lib/venues/deribitStream.ts
+// Subscription-based Deribit marks: one JSON-RPC WebSocket with a `ticker.{instrument}.100ms`
+// channel per leg. Updates are buffered and handed to the caller at most once per flush
+// interval. While the socket is down the stream reconnects with exponential backoff and
+// polls the REST ticker route in the meantime, so marks keep flowing either way.
+
+import type { MarksMap } from '../../utils';
+import { deribitTickerMark, type DeribitTickerResult } from './deribit';
+import { fetchLiveMarks } from './fetchLiveMarks';
+
+export const DERIBIT_WS_URL = 'wss://www.deribit.com/ws/api/v2';
+
+export type MarkStreamStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'fallback' | 'closed';
+
+/** The part of the browser WebSocket API the stream relies on. */
+export type SocketLike = {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((ev: unknown) => void) | null;
+  onmessage: ((ev: { data: unknown }) => void) | null;
+  onclose: ((ev: unknown) => void) | null;
+  onerror: ((ev: unknown) => void) | null;
+};
+
+export type SocketCtor = new (url: string) => SocketLike;
+
+export type DeribitMarkStreamOptions = {
+  onMarks: (marks: MarksMap) => void;
+  onStatus?: (status: MarkStreamStatus) => void;
+  url?: string;
+  /** Defaults to the global WebSocket; null forces the REST fallback. */
+  WebSocketImpl?: SocketCtor | null;
+  /** REST path used while the socket is unavailable. Defaults to `fetchLiveMarks`. */
+  restFetch?: (instruments: string[]) => Promise<MarksMap>;
+  flushMs?: number;
+  restIntervalMs?: number;
+  backoffMs?: { initial: number; max: number };
+  /** Server heartbeat interval in seconds; Deribit closes idle sockets that miss it. */
+  heartbeatSec?: number;
+};
+
+export type DeribitMarkStream = {
+  /** Replace the subscribed instrument set; an empty set disconnects. */
+  setInstruments(instruments: string[]): void;
+  status(): MarkStreamStatus;
+  close(): void;
+};
+
+const OPEN = 1;
+
+const channelFor = (instrument: string) => `ticker.${instrument}.100ms`;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+const TICKER_NUMBER_FIELDS = ['index_price', 'mark_price', 'mark_iv', 'best_bid_price', 'best_ask_price', 'last_price'] as const;
+
+/** A ticker payload with an instrument name and numeric (or absent) price fields. */
+function isTickerResult(value: unknown): value is DeribitTickerResult {
+  if (!isRecord(value) || typeof value.instrument_name !== 'string' || !value.instrument_name) return false;
+  if (value.greeks != null && !isRecord(value.greeks)) return false;
+  return TICKER_NUMBER_FIELDS.every((k) => value[k] == null || typeof value[k] === 'number');
+}
+
+function restMarks(instruments: string[]): Promise<MarksMap> {
+  return fetchLiveMarks(
+    instruments.map((symbol) => ({ key: `deribit:${symbol}`, symbol, exchange: 'deribit', defaultMultiplier: 1 })),
+  );
+}
+
+export function createDeribitMarkStream(opts: DeribitMarkStreamOptions): DeribitMarkStream {
+  const url = opts.url ?? DERIBIT_WS_URL;
+  const Impl = opts.WebSocketImpl === undefined
+    ? ((globalThis as { WebSocket?: SocketCtor }).WebSocket ?? null)
+    : opts.WebSocketImpl;
+  const restFetch = opts.restFetch ?? restMarks;
+  const flushMs = opts.flushMs ?? 1000;
+  const restIntervalMs = opts.restIntervalMs ?? 30_000;
+  const backoff = opts.backoffMs ?? { initial: 1000, max: 30_000 };
+  const heartbeatSec = opts.heartbeatSec ?? 30;
+
+  let wanted = new Set<string>();
+  let subscribed = new Set<string>();
+  let socket: SocketLike | null = null;
+  let current: MarkStreamStatus = 'idle';
+  let attempt = 0;
+  let nextId = 1;
+  let closed = false;
+  let pending: MarksMap = {};
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let restTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setStatus = (s: MarkStreamStatus) => {
+    if (s === current) return;
+    current = s;
+    opts.onStatus?.(s);
+  };
+
+  const send = (method: string, params: Record<string, unknown>) => {
+    if (socket?.readyState !== OPEN) return;
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }));
+  };
+
+  const subscribe = (instruments: string[]) => {
+    if (instruments.length === 0) return;
+    send('public/subscribe', { channels: instruments.map(channelFor) });
+    instruments.forEach((i) => subscribed.add(i));
+  };
+
+  const unsubscribe = (instruments: string[]) => {
+    if (instruments.length === 0) return;
+    send('public/unsubscribe', { channels: instruments.map(channelFor) });
+    instruments.forEach((i) => subscribed.delete(i));
+  };
+
+  const emit = (marks: MarksMap) => {
+    if (!closed && Object.keys(marks).length) opts.onMarks(marks);
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      const batch = pending;
+      pending = {};
+      emit(batch);
+    }, flushMs);
+  };
+
+  const pollRest = () => {
+    const instruments = [...wanted];
+    if (instruments.length === 0) return;
+    restFetch(instruments)
+      .then((marks) => { if (current !== 'live') emit(marks); })
+      .catch((e) => console.error('[deribitStream] REST fallback failed', e));
+  };
+
+  const startFallback = () => {
+    setStatus('fallback');
+    if (restTimer) return;
+    pollRest();
+    restTimer = setInterval(pollRest, restIntervalMs);
+  };
+
+  const stopFallback = () => {
+    if (restTimer) clearInterval(restTimer);
+    restTimer = null;
+  };
+
+  const handleMessage = (raw: unknown) => {
+    let msg: unknown;
+    try { msg = JSON.parse(String(raw)); } catch { return; }
+    if (!isRecord(msg)) return;
+    const params = isRecord(msg.params) ? msg.params : null;
+    if (msg.method === 'heartbeat') {
+      if (params?.type === 'test_request') send('public/test', {});
+      return;
+    }
+    if (msg.method !== 'subscription' || !params) return;
+    const { channel, data } = params;
+    if (typeof channel !== 'string' || !channel.startsWith('ticker.') || !isTickerResult(data)) return;
+    pending[`deribit:${data.instrument_name}`] = deribitTickerMark(data);
+    scheduleFlush();
+  };
+
+  const teardownSocket = () => {
+    const s = socket;
+    socket = null;
+    subscribed = new Set();
+    if (!s) return;
+    s.onopen = s.onmessage = s.onclose = s.onerror = null;
+    try { s.close(); } catch { /* already closed */ }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer || wanted.size === 0) return;
+    const delay = Math.min(backoff.max, backoff.initial * 2 ** attempt);
+    attempt++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const onDisconnect = () => {
+    teardownSocket();
+    if (closed || wanted.size === 0) return;
+    startFallback();
+    scheduleReconnect();
+  };
+
+  function connect() {
+    if (closed || socket || wanted.size === 0) return;
+    if (!Impl) { startFallback(); return; }
+    setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    let s: SocketLike;
+    try {
+      s = new Impl(url);
+    } catch (e) {
+      console.error('[deribitStream] socket unavailable', e);
+      onDisconnect();
+      return;
+    }
+    socket = s;
+    s.onopen = () => {
+      attempt = 0;
+      stopFallback();
+      setStatus('live');
+      send('public/set_heartbeat', { interval: heartbeatSec });
+      subscribe([...wanted]);
+    };
+    s.onmessage = (ev) => handleMessage(ev.data);
+    s.onclose = () => { if (socket === s) onDisconnect(); };
+    s.onerror = () => { /* a close event follows */ };
+  }
+
+  return {
+    setInstruments(instruments) {
+      if (closed) return;
+      wanted = new Set(instruments);
+      if (wanted.size === 0) {
+        teardownSocket();
+        stopFallback();
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+        attempt = 0;
+        setStatus('idle');
+        return;
+      }
+      if (socket?.readyState === OPEN) {
+        unsubscribe([...subscribed].filter((i) => !wanted.has(i)));
+        subscribe([...wanted].filter((i) => !subscribed.has(i)));
+        return;
+      }
+      if (restTimer) pollRest();
+      if (!socket && !reconnectTimer) connect();
+    },
+    status: () => current,
+    close() {
+      if (closed) return;
+      closed = true;
+      teardownSocket();
+      stopFallback();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (flushTimer) clearTimeout(flushTimer);
+      reconnectTimer = flushTimer = null;
+      setStatus('closed');
+    },
+  };
+}
@@ -1,17 +1,30 @@
-import type { MarksMap } from '../../utils'
-import { dbGetBest } from './deribit'
+import type { LegMarkRef, MarksMap } from '../../utils'
+import { venueAdapter } from './registry'
+import type { VenueMark } from './types'
 
 type ProgressCallback = (done: number, total: number, errors: number) => void
 
+type MarkFetcher = (symbol: string) => Promise<VenueMark>
+
+const BATCH = 5
+
 /**
- * Fetch live marks from Deribit for a list of unique instrument symbols.
- * Returns a MarksMap keyed by "deribit:<instrument>".
+ * Fetch live marks for a list of leg mark refs across venues. Refs are de-duplicated by
+ * key and dispatched to the venue adapter's `fetchMark`; refs for venues without one are skipped.
+ * Progress and the error count cover every venue, and results land in one MarksMap
+ * keyed by `ref.key` ("deribit:<instrument>", "coincall:<symbol>").
  */
-export async function fetchDeribitMarks(
-  instruments: string[],
+export async function fetchLiveMarks(
+  refs: LegMarkRef[],
   onProgress?: ProgressCallback,
 ): Promise<MarksMap> {
-  const total = instruments.length
+  const unique = new Map<string, LegMarkRef & { fetch: MarkFetcher }>()
+  for (const ref of refs) {
+    const fetch = venueAdapter(ref.exchange)?.fetchMark
+    if (fetch && !unique.has(ref.key)) unique.set(ref.key, { ...ref, fetch })
+  }
+  const queue = [...unique.values()]
+  const total = queue.length
   if (total === 0) return {}
 
   onProgress?.(0, total, 0)
@@ -19,27 +32,23 @@ export async function fetchDeribitMarks(
   const results: MarksMap = {}
   let done = 0
   let errors = 0
-  const BATCH = 5
 
   for (let i = 0; i < total; i += BATCH) {
-    const batch = instruments.slice(i, i + BATCH)
+    const batch = queue.slice(i, i + BATCH)
     const settled = await Promise.allSettled(
-      batch.map(async (inst) => {
-        const res = await dbGetBest(inst)
-        return { inst, res }
-      }),
+      batch.map(async (ref) => ({ ref, res: await ref.fetch(ref.symbol) })),
     )
 
-    for (const outcome of settled) {
+    settled.forEach((outcome, j) => {
       if (outcome.status === 'fulfilled') {
-        const { inst, res } = outcome.value
-        results[`deribit:${inst}`] = res
+        const { ref, res } = outcome.value
+        results[ref.key] = res
       } else {
         errors++
-        console.error('[fetchDeribitMarks] failed', outcome.reason)
+        console.error(`[fetchLiveMarks] ${batch[j].exchange} ${batch[j].symbol} failed`, outcome.reason)
       }
       done++
-    }
+    })
 
     onProgress?.(done, total, errors)
   }
@@ -0,0 +1,20 @@
+import type { Exchange } from '../../utils';
+import { coincallAdapter } from './adapters/coincall';
+import { cmeAdapter } from './adapters/cme';
+import { deribitAdapter } from './adapters/deribit';
+import type { VenueAdapter } from './types';
+
+// Registration order is the order venues appear in pickers.
+export const VENUE_ADAPTERS: readonly VenueAdapter[] = [deribitAdapter, coincallAdapter, cmeAdapter];
+
+const BY_ID = new Map<string, VenueAdapter>(VENUE_ADAPTERS.map((a) => [a.id, a]));
+
+export function venueAdapter(id: Exchange): VenueAdapter;
+export function venueAdapter(id: string | null | undefined): VenueAdapter | undefined;
+export function venueAdapter(id: string | null | undefined): VenueAdapter | undefined {
+  return id ? BY_ID.get(id) : undefined;
+}
+
+export function isExchange(id: string | null | undefined): id is Exchange {
+  return !!id && BY_ID.has(id);
+}
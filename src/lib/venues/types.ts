@@ -0,0 +1,36 @@
+// src/lib/venues/types.ts
+// The contract every venue implements. Adding an exchange means writing one adapter
+// module under ./adapters, adding its id to `Exchange` and registering it in ./registry.
+
+import type { EXPECTED_FIELDS, Exchange, MarksMap, ParsedInstrument } from '../../utils';
+import type { ChainInstrument } from './deribit';
+
+export type VenueMark = MarksMap[string];
+
+export type CsvFieldKey = typeof EXPECTED_FIELDS[number]['key'];
+
+/** Column headers the venue's own CSV exports use for each import field, matched case-insensitively. */
+export type CsvPreset = Partial<Record<CsvFieldKey, string[]>>;
+
+export interface VenueAdapter {
+  id: Exchange;
+  label: string;
+  /** Venue symbol for an option leg, or null when the venue does not list it. */
+  toSymbol(underlying: string, expiryISO: string, strike: number, optionType: string): string | null;
+  /** Inverse of `toSymbol`; null for anything that is not an option symbol. */
+  parseSymbol(symbol: string): ParsedInstrument | null;
+  /** Best available mark for one symbol. Venues without a public mark source omit it. */
+  fetchMark?: (symbol: string) => Promise<VenueMark>;
+  /** Listed expiries (ISO dates) for an underlying currency. */
+  listExpiries?: (currency: string) => Promise<string[]>;
+  /** Listed options for one expiry, sorted by strike. */
+  listChain?: (expiryISO: string, currency: string) => Promise<ChainInstrument[]>;
+  /** Recent expiry settlement (delivery) prices of the underlying's index, keyed by ISO date. */
+  fetchDeliveryPrices?: (currency: string) => Promise<Record<string, number>>;
+  /**
+   * Underlying units per contract for a symbol. Venues that size contracts per instrument
+   * read it from the mark; null means the size is unknown.
+   */
+  contractMultiplier(symbol: string, mark?: VenueMark | null): number | null;
+  csvPreset: CsvPreset;
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { MarksMap } from '../../utils';
+import { createDeribitMarkStream, type DeribitMarkStream, type MarkStreamStatus } from './deribitStream';
+
+/**
+ * Keep a Deribit mark stream subscribed to `instruments` while `enabled`, handing each
+ * batch of updates to `onMarks`. Returns the stream's connection status.
+ */
+export function useDeribitMarkStream(
+  instruments: string[],
+  { enabled, onMarks }: { enabled: boolean; onMarks: (marks: MarksMap) => void },
+): MarkStreamStatus {
+  const [status, setStatus] = React.useState<MarkStreamStatus>('idle');
+  const streamRef = React.useRef<DeribitMarkStream | null>(null);
+  const onMarksRef = React.useRef(onMarks);
+  onMarksRef.current = onMarks;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const stream = createDeribitMarkStream({
+      onMarks: (marks) => onMarksRef.current(marks),
+      onStatus: setStatus,
+    });
+    streamRef.current = stream;
+    return () => {
+      stream.close();
+      streamRef.current = null;
+      setStatus('idle');
+    };
+  }, [enabled]);
+
+  const key = [...new Set(instruments)].sort().join('|');
+  React.useEffect(() => {
+    streamRef.current?.setInstruments(key ? key.split('|') : []);
+  }, [enabled, key]);
+
+  return status;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { legModelInputs, type Position } from '@/utils'
+import {
+  bookSummaryQuotes, buildVolSurface, fitSvi, surfaceVol, surfaceVolAt, sviTotalVariance, sviVol,
+  type SviParams, type VolQuote,
+} from '..'
+
+const NOW = Date.parse('2026-01-01T08:00:00Z')
+const NEAR = '2026-01-31' // 30 days
+const FAR = '2026-04-01' // 90 days
+
+const smileQuotes = (expiryISO: string, params: SviParams, years: number, forward = 100_000): VolQuote[] =>
+  [0.7, 0.8, 0.9, 0.95, 1, 1.05, 1.1, 1.2, 1.4].flatMap((m) => {
+    const k = Math.log(m)
+    const iv = sviVol(params, k, years)
+    return (['call', 'put'] as const).map((optionType) => ({ expiryISO, strike: forward * m, optionType, iv, forward }))
+  })
+
+describe('fitSvi', () => {
+  it('recovers a skewed smile', () => {
+    const truth: SviParams = { a: 0.01, b: 0.08, rho: -0.4, m: 0.02, sigma: 0.15 }
+    const points = [-0.5, -0.35, -0.2, -0.1, 0, 0.1, 0.2, 0.35, 0.5].map((k) => ({ k, w: sviTotalVariance(truth, k) }))
+    const { params, rmse } = fitSvi(points)
+    expect(rmse).toBeLessThan(2e-4)
+    for (const k of [-0.4, 0, 0.4]) {
+      expect(sviTotalVariance(params, k)).toBeCloseTo(sviTotalVariance(truth, k), 3)
+    }
+    expect(params.b).toBeGreaterThanOrEqual(0)
+    expect(Math.abs(params.rho)).toBeLessThan(1)
+  })
+
+  it('falls back to a flat slice with too few points', () => {
+    const { params } = fitSvi([{ k: 0, w: 0.02 }, { k: 0.1, w: 0.04 }])
+    expect(params.b).toBe(0)
+    expect(sviTotalVariance(params, 0.5)).toBeCloseTo(0.03, 12)
+  })
+})
+
+describe('buildVolSurface', () => {
+  const flat = (iv: number, years: number): SviParams => ({ a: iv * iv * years, b: 0, rho: 0, m: 0, sigma: 0.1 })
+
+  it('fits one slice per live expiry, sorted by tenor, skipping settled ones', () => {
+    const surface = buildVolSurface(
+      [
+        ...smileQuotes(FAR, flat(0.7, 90 / 365), 90 / 365),
+        ...smileQuotes(NEAR, flat(0.5, 30 / 365), 30 / 365),
+        ...smileQuotes('2025-12-26', flat(0.4, 1), 1),
+      ],
+      { underlying: 'btc', spot: 100_000, now: NOW },
+    )
+    expect(surface.underlying).toBe('BTC')
+    expect(surface.slices.map((s) => s.expiryISO)).toEqual([NEAR, FAR])
+    expect(surface.slices[0].atmIv).toBeCloseTo(0.5, 3)
+    expect(surface.slices[1].atmIv).toBeCloseTo(0.7, 3)
+  })
+
+  it('uses the out-of-the-money side of each strike', () => {
+    const quotes: VolQuote[] = [80_000, 90_000, 110_000, 120_000].flatMap((strike) => [
+      { expiryISO: NEAR, strike, optionType: 'call' as const, iv: strike > 100_000 ? 0.5 : 0.9, forward: 100_000 },
+      { expiryISO: NEAR, strike, optionType: 'put' as const, iv: strike < 100_000 ? 0.6 : 0.9, forward: 100_000 },
+    ])
+    const [slice] = buildVolSurface(quotes, { underlying: 'BTC', spot: 100_000, now: NOW }).slices
+    expect(slice.quotes.map((q) => q.iv)).toEqual([0.6, 0.6, 0.5, 0.5])
+  })
+
+  it('interpolates total variance between expiries and holds vol flat outside them', () => {
+    const surface = buildVolSurface(
+      [...smileQuotes(NEAR, flat(0.5, 30 / 365), 30 / 365), ...smileQuotes(FAR, flat(0.7, 90 / 365), 90 / 365)],
+      { underlying: 'BTC', spot: 100_000, now: NOW },
+    )
+    // 60 days: w = (0.25·30 + 0.49·90) / 2 / 365 → iv = √((0.25·30 + 0.49·90) / 2 / 60)
+    const expected = Math.sqrt((0.25 * 30 + 0.49 * 90) / 2 / 60)
+    expect(surfaceVol(surface, 100_000, '2026-03-02', NOW)).toBeCloseTo(expected, 3)
+    expect(surfaceVol(surface, 100_000, '2026-01-10', NOW)).toBeCloseTo(0.5, 3)
+    expect(surfaceVol(surface, 100_000, '2026-12-25', NOW)).toBeCloseTo(0.7, 3)
+    expect(surfaceVol(surface, 100_000, '2025-12-01', NOW)).toBeNull()
+  })
+})
+
+describe('pricing off the surface', () => {
+  const surface = buildVolSurface(
+    smileQuotes(NEAR, { a: 0.02, b: 0.05, rho: -0.3, m: 0, sigma: 0.1 }, 30 / 365),
+    { underlying: 'BTC', spot: 100_000, now: NOW },
+  )
+  const volAt = surfaceVolAt({ BTC: surface })
+
+  it('looks surfaces up by underlying', () => {
+    expect(volAt('btc', 85_000, NEAR, NOW)).toBeCloseTo(surfaceVol(surface, 85_000, NEAR, NOW)!, 12)
+    expect(volAt('ETH', 3_000, NEAR, NOW)).toBeNull()
+  })
+
+  it('feeds legModelInputs for legs without a mark', () => {
+    const p = {
+      id: 'p', underlying: 'BTC', expiryISO: NEAR, exchange: 'deribit',
+      legs: [{ key: 'a', strike: 85_000, optionType: 'P', qtyNet: 1, openLots: [], trades: [] }],
+    } as unknown as Position
+    const inputs = legModelInputs(p, p.legs[0], undefined, { spot: 100_000, vol: 0.9, volAt, now: NOW })
+    expect(inputs?.iv).toBeCloseTo(surfaceVol(surface, 85_000, NEAR, NOW)!, 12)
+    expect(inputs?.iv).not.toBeCloseTo(0.9, 2)
+  })
+})
+
+describe('bookSummaryQuotes', () => {
+  it('converts Deribit book summary rows to decimal IV quotes', () => {
+    expect(bookSummaryQuotes([
+      { instrument_name: 'BTC-27MAR26-90000-P', mark_iv: 55.5, underlying_price: 101_000 },
+      { instrument_name: 'BTC-27MAR26-110000-C', mark_iv: 0 },
+      { instrument_name: 'BTC-PERPETUAL', mark_iv: 50 },
+    ])).toEqual([
+      { expiryISO: '2026-03-27', strike: 90_000, optionType: 'put', iv: 0.555, forward: 101_000 },
+    ])
+  })
+})
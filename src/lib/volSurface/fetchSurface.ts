@@ -0,0 +1,33 @@
+import { dbGetBookSummary, type DeribitBookSummary } from '@/lib/venues/deribit'
+import { parseInstrument } from '@/utils'
+import { buildVolSurface, type VolQuote, type VolSurface } from './surface'
+
+/** Option mark IVs from a Deribit book summary, one quote per instrument with a positive IV. */
+export function bookSummaryQuotes(rows: DeribitBookSummary[]): VolQuote[] {
+  const quotes: VolQuote[] = []
+  for (const row of rows) {
+    const parsed = parseInstrument(row.instrument_name)
+    if (!parsed || row.mark_iv == null || !(row.mark_iv > 0)) continue
+    quotes.push({
+      expiryISO: parsed.expiryISO,
+      strike: parsed.strike,
+      optionType: parsed.optionType === 'P' ? 'put' : 'call',
+      iv: row.mark_iv / 100,
+      forward: row.underlying_price ?? null,
+    })
+  }
+  return quotes
+}
+
+/**
+ * Fetch mark IVs across every listed Deribit expiry for `currency` and fit the surface.
+ * Null when the venue returns nothing usable.
+ */
+export async function fetchVolSurface(currency = 'BTC', now?: number): Promise<VolSurface | null> {
+  const rows = await dbGetBookSummary(currency)
+  const quotes = bookSummaryQuotes(rows)
+  const spot = rows.find((r) => r.estimated_delivery_price != null && r.estimated_delivery_price > 0)?.estimated_delivery_price
+    ?? quotes.find((q) => q.forward != null && q.forward > 0)?.forward
+  if (!spot || quotes.length === 0) return null
+  return buildVolSurface(quotes, { underlying: currency, spot, now })
+}
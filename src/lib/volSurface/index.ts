@@ -0,0 +1,3 @@
+export * from './svi';
+export * from './surface';
+export * from './fetchSurface';
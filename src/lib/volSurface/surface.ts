@@ -0,0 +1,184 @@
+// Volatility surface: one fitted SVI smile per expiry, interpolated linearly in total
+// variance between expiries at constant log-moneyness and held at constant vol beyond
+// the first and last expiry. Quotes are the out-of-the-money side of each strike.
+
+import { EXPIRY_HOUR_UTC } from '@/lib/pricing'
+import { fitSvi, sviTotalVariance, sviVol, type SviParams } from './svi'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const YEAR_MS = 365 * DAY_MS
+
+export type VolQuote = {
+  expiryISO: string
+  strike: number
+  optionType: 'call' | 'put'
+  /** Mark IV as a decimal fraction. */
+  iv: number
+  /** Forward (underlying future) price for the expiry, when the venue reports one. */
+  forward?: number | null
+}
+
+export type SmileQuote = { strike: number; k: number; iv: number }
+
+export type SmileSlice = {
+  expiryISO: string
+  years: number
+  forward: number
+  params: SviParams
+  /** Fit error in vol points (decimal), root-mean-square over the quotes. */
+  rmse: number
+  quotes: SmileQuote[]
+  atmIv: number
+}
+
+export type VolSurface = {
+  underlying: string
+  spot: number
+  asOf: number
+  slices: SmileSlice[]
+}
+
+export function yearsTo(expiryISO: string, now: number): number {
+  const t = Date.parse(`${expiryISO.slice(0, 10)}T${String(EXPIRY_HOUR_UTC).padStart(2, '0')}:00:00Z`)
+  return (t - now) / YEAR_MS
+}
+
+function median(xs: number[]): number | null {
+  if (xs.length === 0) return null
+  const s = [...xs].sort((a, b) => a - b)
+  const mid = s.length >> 1
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2
+}
+
+/** One IV per strike from the out-of-the-money side, falling back to whichever side quotes. */
+function otmQuotes(quotes: VolQuote[], forward: number): SmileQuote[] {
+  const byStrike = new Map<number, { call?: number; put?: number }>()
+  for (const q of quotes) {
+    const entry = byStrike.get(q.strike) ?? {}
+    entry[q.optionType] = q.iv
+    byStrike.set(q.strike, entry)
+  }
+  const out: SmileQuote[] = []
+  for (const [strike, { call, put }] of byStrike) {
+    const iv = strike >= forward ? call ?? put : put ?? call
+    if (iv != null) out.push({ strike, k: Math.log(strike / forward), iv })
+  }
+  return out.sort((a, b) => a.strike - b.strike)
+}
+
+/**
+ * Fit a surface from mark IVs across expiries. Expiries that have already settled or
+ * carry fewer than `minQuotes` usable strikes are left out.
+ */
+export function buildVolSurface(
+  quotes: VolQuote[],
+  opts: { underlying: string; spot: number; now?: number; minQuotes?: number },
+): VolSurface {
+  const now = opts.now ?? Date.now()
+  const minQuotes = opts.minQuotes ?? 3
+  const byExpiry = new Map<string, VolQuote[]>()
+  for (const q of quotes) {
+    if (!(q.iv > 0) || !(q.strike > 0) || !Number.isFinite(q.iv)) continue
+    const key = q.expiryISO.slice(0, 10)
+    byExpiry.set(key, [...(byExpiry.get(key) ?? []), q])
+  }
+
+  const slices: SmileSlice[] = []
+  for (const [expiryISO, qs] of byExpiry) {
+    const years = yearsTo(expiryISO, now)
+    if (!(years > 0)) continue
+    const forward = median(qs.map((q) => q.forward ?? NaN).filter((f) => f > 0)) ?? opts.spot
+    const smile = otmQuotes(qs, forward)
+    if (smile.length < minQuotes) continue
+    const { params } = fitSvi(smile.map((q) => ({ k: q.k, w: q.iv * q.iv * years })))
+    const sse = smile.reduce((s, q) => s + (sviVol(params, q.k, years) - q.iv) ** 2, 0)
+    slices.push({
+      expiryISO,
+      years,
+      forward,
+      params,
+      rmse: Math.sqrt(sse / smile.length),
+      quotes: smile,
+      atmIv: sviVol(params, 0, years),
+    })
+  }
+  slices.sort((a, b) => a.years - b.years)
+  return { underlying: opts.underlying.toUpperCase(), spot: opts.spot, asOf: now, slices }
+}
+
+/** Fitted IV of a slice at `strike`. */
+export function sliceVol(slice: SmileSlice, strike: number): number {
+  return sviVol(slice.params, Math.log(strike / slice.forward), slice.years)
+}
+
+/**
+ * IV (decimal) for any strike and expiry from the surface: total variance is linear in
+ * time between the neighbouring slices at the same log-moneyness, and vol is held flat
+ * before the first and after the last slice. Null for an empty surface or a past expiry.
+ */
+export function surfaceVol(surface: VolSurface, strike: number, expiryISO: string, now?: number): number | null {
+  const at = now ?? surface.asOf
+  const years = yearsTo(expiryISO, at)
+  const live = surface.slices
+    .map((s) => ({ s, years: yearsTo(s.expiryISO, at) }))
+    .filter((x) => x.years > 0)
+  if (live.length === 0 || !(years > 0) || !(strike > 0)) return null
+
+  // Flat vol outside the fitted range: scale the nearest slice's variance to `years`.
+  const flat = ({ s, years: ty }: (typeof live)[number]) =>
+    Math.sqrt(Math.max(0, sviTotalVariance(s.params, Math.log(strike / s.forward))) / ty)
+  const first = live[0]
+  const last = live[live.length - 1]
+  if (years <= first.years) return flat(first)
+  if (years >= last.years) return flat(last)
+
+  const i = live.findIndex((x) => x.years >= years)
+  const lo = live[i - 1]
+  const hi = live[i]
+  const f = (years - lo.years) / (hi.years - lo.years)
+  const forward = lo.s.forward + f * (hi.s.forward - lo.s.forward)
+  const k = Math.log(strike / forward)
+  const w = (1 - f) * sviTotalVariance(lo.s.params, k) + f * sviTotalVariance(hi.s.params, k)
+  return Math.sqrt(Math.max(0, w) / years)
+}
+
+/** Fitted smile of a slice across `points` strikes spanning its quoted range (± `pad` in log-moneyness). */
+export function smileCurve(slice: SmileSlice, opts: { points?: number; pad?: number } = {}): SmileQuote[] {
+  const points = opts.points ?? 60
+  const pad = opts.pad ?? 0.05
+  const ks = slice.quotes.map((q) => q.k)
+  const lo = Math.min(...ks, 0) - pad
+  const hi = Math.max(...ks, 0) + pad
+  return Array.from({ length: points }, (_, i) => {
+    const k = lo + ((hi - lo) * i) / (points - 1)
+    return { strike: slice.forward * Math.exp(k), k, iv: sviVol(slice.params, k, slice.years) }
+  })
+}
+
+export type TermPoint = { expiryISO: string; days: number; atmIv: number }
+
+export function termStructure(surface: VolSurface): TermPoint[] {
+  return surface.slices.map((s) => ({ expiryISO: s.expiryISO, days: s.years * 365, atmIv: s.atmIv }))
+}
+
+export type SurfaceGridRow = { expiryISO: string; days: number; ivs: number[] }
+
+/** IV by tenor (rows, one per slice) and moneyness K/F (columns). */
+export function surfaceGrid(surface: VolSurface, moneyness: number[]): SurfaceGridRow[] {
+  return surface.slices.map((s) => ({
+    expiryISO: s.expiryISO,
+    days: s.years * 365,
+    ivs: moneyness.map((mny) => sviVol(s.params, Math.log(mny), s.years)),
+  }))
+}
+
+/**
+ * Adapter for `PricingContext.volAt`: looks up the surface for a position's underlying,
+ * so off-chain strikes price off the fitted smile instead of a flat fallback vol.
+ */
+export function surfaceVolAt(surfaces: Record<string, VolSurface | undefined>) {
+  return (underlying: string, strike: number, expiryISO: string, now?: number): number | null => {
+    const surface = surfaces[(underlying || '').toUpperCase()]
+    return surface ? surfaceVol(surface, strike, expiryISO, now) : null
+  }
+}
@@ -0,0 +1,104 @@
+// Raw SVI smile (Gatheral): total implied variance as a function of log-moneyness,
+//   w(k) = a + b·(ρ·(k − m) + √((k − m)² + σ²)),   k = ln(K / F),  w = iv² · T.
+//
+// Fitted with the quasi-explicit method: for fixed (m, σ) the model is linear in
+// (a, b·ρ, b), so those come from a 3×3 least-squares solve and only (m, σ) are searched,
+// on a grid that is refined around the best cell.
+
+export type SviParams = { a: number; b: number; rho: number; m: number; sigma: number }
+
+export type SviPoint = { k: number; w: number }
+
+export type SviFit = { params: SviParams; /** Root-mean-square error in total variance. */ rmse: number }
+
+const MAX_RHO = 0.999
+const GRID = 15
+const REFINEMENTS = 3
+
+export function sviTotalVariance(p: SviParams, k: number): number {
+  const x = k - p.m
+  return p.a + p.b * (p.rho * x + Math.sqrt(x * x + p.sigma * p.sigma))
+}
+
+/** Implied vol (decimal) at log-moneyness `k` for a slice `years` to expiry. */
+export function sviVol(p: SviParams, k: number, years: number): number {
+  if (!(years > 0)) return NaN
+  return Math.sqrt(Math.max(0, sviTotalVariance(p, k)) / years)
+}
+
+function solve3(m: number[][], v: number[]): number[] | null {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g)
+  if (Math.abs(det) < 1e-18) return null
+  const inv = [
+    [e * i - f * h, c * h - b * i, b * f - c * e],
+    [f * g - d * i, a * i - c * g, c * d - a * f],
+    [d * h - e * g, b * g - a * h, a * e - b * d],
+  ]
+  return inv.map((row) => (row[0] * v[0] + row[1] * v[1] + row[2] * v[2]) / det)
+}
+
+/** Best (a, b, ρ) for fixed (m, σ), projected onto the no-negative-variance constraints. */
+function fitInner(points: SviPoint[], m: number, sigma: number): SviFit {
+  const feats = points.map(({ k }) => [1, k - m, Math.sqrt((k - m) ** 2 + sigma * sigma)])
+  const ata = [0, 1, 2].map((r) => [0, 1, 2].map((c) => feats.reduce((s, f) => s + f[r] * f[c], 0)))
+  const atw = [0, 1, 2].map((r) => feats.reduce((s, f, j) => s + f[r] * points[j].w, 0))
+  const x = solve3(ata, atw)
+
+  let b = Math.max(0, x?.[2] ?? 0)
+  let rho = b > 0 ? Math.max(-MAX_RHO, Math.min(MAX_RHO, (x?.[1] ?? 0) / b)) : 0
+  if (!Number.isFinite(rho)) { rho = 0; b = 0 }
+  // With b and ρ fixed, the least-squares level is the mean residual; keep the minimum
+  // variance a + b·σ·√(1 − ρ²) non-negative.
+  const shape = (k: number) => b * (rho * (k - m) + Math.sqrt((k - m) ** 2 + sigma * sigma))
+  const mean = points.reduce((s, p) => s + p.w - shape(p.k), 0) / points.length
+  const a = Math.max(mean, -b * sigma * Math.sqrt(1 - rho * rho))
+
+  const params = { a, b, rho, m, sigma }
+  const sse = points.reduce((s, p) => s + (sviTotalVariance(params, p.k) - p.w) ** 2, 0)
+  return { params, rmse: Math.sqrt(sse / points.length) }
+}
+
+function linspace(lo: number, hi: number, n: number): number[] {
+  return Array.from({ length: n }, (_, i) => lo + ((hi - lo) * i) / (n - 1))
+}
+
+/**
+ * Fit a raw SVI slice to (log-moneyness, total variance) points. With fewer than three
+ * points the slice is flat at their mean variance.
+ */
+export function fitSvi(points: SviPoint[]): SviFit {
+  const pts = points.filter((p) => Number.isFinite(p.k) && Number.isFinite(p.w) && p.w >= 0)
+  if (pts.length === 0) return { params: { a: 0, b: 0, rho: 0, m: 0, sigma: 0.1 }, rmse: 0 }
+  if (pts.length < 3) {
+    const a = pts.reduce((s, p) => s + p.w, 0) / pts.length
+    const params = { a, b: 0, rho: 0, m: 0, sigma: 0.1 }
+    return { params, rmse: Math.sqrt(pts.reduce((s, p) => s + (p.w - a) ** 2, 0) / pts.length) }
+  }
+
+  const ks = pts.map((p) => p.k)
+  const span = Math.max(Math.max(...ks) - Math.min(...ks), 0.05)
+  let mLo = Math.min(...ks) - 0.5 * span
+  let mHi = Math.max(...ks) + 0.5 * span
+  let sLo = Math.log(0.005)
+  let sHi = Math.log(Math.max(1, 2 * span))
+
+  let best: SviFit | null = null
+  for (let round = 0; round <= REFINEMENTS; round++) {
+    for (const m of linspace(mLo, mHi, GRID)) {
+      for (const ls of linspace(sLo, sHi, GRID)) {
+        const fit = fitInner(pts, m, Math.exp(ls))
+        if (!best || fit.rmse < best.rmse) best = fit
+      }
+    }
+    const mStep = (mHi - mLo) / (GRID - 1)
+    const sStep = (sHi - sLo) / (GRID - 1)
+    const bm = best!.params.m
+    const bs = Math.log(best!.params.sigma)
+    mLo = bm - 2 * mStep
+    mHi = bm + 2 * mStep
+    sLo = bs - 2 * sStep
+    sHi = bs + 2 * sStep
+  }
+  return best!
+}
@@ -1,14 +1,23 @@
 import React from 'react'
+import { impliedVolFromMark, modelLegGreeks, settlementFor, type Settlement } from './lib/pricing'
+import { venueAdapter } from './lib/venues/registry'
 
 export type MarksMap = Record<string, {
   price: number | null
   multiplier: number | null
   greeks?: Record<string, number | null | undefined>
+  /** Mark implied volatility as a decimal fraction (0.55 = 55%), when the venue reports one. */
+  iv?: number | null
+  /** Underlying index price at the time of the mark. */
+  indexPrice?: number | null
+  /** Best bid / ask at the time of the mark, when the venue reports a book. */
+  bid?: number | null
+  ask?: number | null
 }>
 
 export type Side = 'buy' | 'sell' | string;
 export type Action = 'open' | 'close' | string;
-// Exchange-aware instrument parsing
+// Venues with an adapter in src/lib/venues/registry (naming, parsing, marks, chains, CSV presets)
 export type Exchange = 'deribit' | 'coincall' | 'cme';
 
 export interface TxnRow {
@@ -19,8 +28,14 @@ export interface TxnRow {
   price: number;
   fee?: number;
   timestamp?: string;
+  /** Underlying index price at fill time, in USD; converts inverse (coin) premiums to USD. */
+  indexPrice?: number;
   trade_id?: string;
   order_id?: string;
+  /** Fill liquidity role and execution mode (CLOB, RFQ, Block) when the venue reports them. */
+  liquidityRole?: 'maker' | 'taker';
+  executionMode?: string;
+  provider?: string;
   info?: string;
   underlying?: string;
   expiry?: string;
@@ -37,6 +52,21 @@ export interface TxnRow {
 
 export interface Lot { qty: number; price: number; sign: 1 | -1; }
 
+// Lot-matching method for realized PnL. FIFO is the operational method; the others are
+// for tax and client reporting and can be selected per program or client.
+export type LotMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export const LOT_METHODS: { value: LotMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'lifo', label: 'LIFO' },
+  { value: 'hifo', label: 'HIFO' },
+  { value: 'average', label: 'Avg cost' },
+];
+
+export function isLotMethod(value: unknown): value is LotMethod {
+  return LOT_METHODS.some((m) => m.value === value);
+}
+
 export interface Leg {
   key: string;
   strike: number;
@@ -50,6 +80,13 @@ export interface Leg {
   trades: TxnRow[];
   exchange?: Exchange;
   expiry?: string;
+  /** Currency premiums and PnL are paid in: the coin for inverse options, USD for linear ones. */
+  premiumCurrency?: string;
+  /**
+   * Realized PnL in USD, each realization converted at the index at its fill time; null
+   * when a realizing fill has no index price.
+   */
+  realizedUsd?: number | null;
 }
 
 export interface Position {
@@ -75,6 +112,25 @@ export interface Position {
   exchange?: Exchange;
   source?: 'local' | 'supabase';
   closedAt?: string | null;
+  /** Entry timestamp of the structure (positions.entry_ts). */
+  openedAt?: string | null;
+  /** Max loss at entry as a positive amount in premium currency (positions.max_loss); null when unbounded or unknown. */
+  maxLoss?: number | null;
+  /**
+   * Mark of the structure at entry as imported (positions.mark_at_entry), for the whole entry
+   * in `net_fill` units: side-signed price × quantity, before the contract multiplier.
+   */
+  markAtEntry?: number | null;
+  /** Liquidity provider or broker of the entry (positions.provider). */
+  provider?: string | null;
+  /** Reporting lot-matching method configured for the program, else the client; FIFO when unset. */
+  lotMethod?: LotMethod;
+  /** Realized PnL (net of fees) under every lot-matching method; `realizedPnl` is the FIFO figure. */
+  realizedPnlByMethod?: Record<LotMethod, number>;
+  /** The structure this one was rolled from (positions.rolled_from_position_id). */
+  rolledFromId?: string | null;
+  /** Status thresholds resolved from the program playbook and strategy code; defaults when unset. */
+  statusThresholds?: StatusThresholds;
   expiries?: string[];
   archived?: boolean;
   archivedAt?: string | null;
@@ -158,6 +214,7 @@ export const EXPECTED_FIELDS = [
   { key: "trade_id", label: "Trade ID (optional)" },
   { key: "order_id", label: "Order ID (optional)" },
   { key: "info", label: "Info (optional)" },
+  { key: "index_price", label: "Index price (optional, USD at fill time)" },
   { key: "type", label: "Type (optional, e.g. trade, delivery)" },
 ] as const;
 
@@ -186,36 +243,161 @@ export function formatInstrumentLabel(
 }
 
 export function parseInstrumentByExchange(exchange: Exchange, instr: string) {
-  switch (exchange) {
-    case 'deribit':
-      return parseInstrument(instr);
-    case 'coincall':
-      // TODO: add Coincall parser
-      return parseInstrument(instr);
-    case 'cme':
-      // TODO: add CME parser
-      return parseInstrument(instr);
-    default:
-      return parseInstrument(instr);
-  }
+  const adapter = venueAdapter(exchange);
+  return adapter ? adapter.parseSymbol(instr) : parseInstrument(instr);
 }
 
+/**
+ * Parse a Deribit option name: inverse (`BTC-27DEC25-50000-C`) or USDC-linear
+ * (`SOL_USDC-27DEC25-150-C`, `XRP_USDC-27DEC25-0d625-P`, where `d` is the strike's decimal
+ * point). Linear names keep the `_USDC` suffix in `underlying`, which marks them linear.
+ */
 export function parseInstrument(instr: string) {
-  const m = instr?.match(/^([A-Z]+)-(\d{1,2})([A-Z]{3})(\d{2})-(\d+)-(C|P)$/i);
+  const m = instr?.trim().match(/^([A-Z]+(?:_USDC)?)-(\d{1,2})([A-Z]{3})(\d{2})-(\d+(?:d\d+)?)-(C|P)$/i);
   if (!m) return null;
   const [, underlying, dd, monText, yy, strike, opt] = m;
   const month = MONTHS_MAP[monText.toUpperCase()];
+  if (month === undefined) return null;
   const year = 2000 + Number(yy);
   const day = Number(dd);
   const expiry = new Date(Date.UTC(year, month, day));
   return {
     underlying: underlying.toUpperCase(),
     expiryISO: expiry.toISOString().slice(0, 10),
+    strike: Number(strike.toLowerCase().replace('d', '.')),
+    optionType: opt.toUpperCase(),
+  };
+}
+
+export type ParsedInstrument = NonNullable<ReturnType<typeof parseInstrument>>;
+
+/** Parse a Coincall option symbol (`BTCUSD-27DEC25-50000-C`), the inverse of `toCoincallSymbol`. */
+export function parseCoincallInstrument(instr: string): ParsedInstrument | null {
+  const m = instr?.trim().match(/^([A-Z]+)-(\d{1,2})([A-Z]{3})(\d{2})-(\d+(?:\.\d+)?)-(C|P)$/i);
+  if (!m) return null;
+  const [, index, dd, monText, yy, strike, opt] = m;
+  const month = MONTHS_MAP[monText.toUpperCase()];
+  if (month === undefined) return null;
+  const expiry = new Date(Date.UTC(2000 + Number(yy), month, Number(dd)));
+  const base = index.toUpperCase().replace(/USD[TC]?$/, '');
+  return {
+    underlying: base || index.toUpperCase(),
+    expiryISO: expiry.toISOString().slice(0, 10),
     strike: Number(strike),
     optionType: opt.toUpperCase(),
   };
 }
 
+// CME futures month codes, January..December.
+const CME_MONTH_CODES = 'FGHJKMNQUVXZ';
+
+type CmeCycle = 'monthly' | 'friday' | 'wednesday';
+
+/**
+ * CME Globex option roots for the crypto products. Monthlies expire on the last Friday of
+ * the contract month; weekly roots carry a trailing week number (1-5) and expire on that
+ * Friday or Wednesday of the month. `strikeScale` converts the symbol's strike digits to
+ * USD (ether products quote strikes in cents).
+ */
+const CME_OPTION_ROOTS: Record<string, { underlying: string; cycle: CmeCycle; micro: boolean; strikeScale: number; multiplier: number }> = {
+  BTC: { underlying: 'BTC', cycle: 'monthly', micro: false, strikeScale: 1, multiplier: 5 },
+  BV: { underlying: 'BTC', cycle: 'friday', micro: false, strikeScale: 1, multiplier: 5 },
+  BW: { underlying: 'BTC', cycle: 'wednesday', micro: false, strikeScale: 1, multiplier: 5 },
+  MBT: { underlying: 'BTC', cycle: 'monthly', micro: true, strikeScale: 1, multiplier: 0.1 },
+  WM: { underlying: 'BTC', cycle: 'friday', micro: true, strikeScale: 1, multiplier: 0.1 },
+  WB: { underlying: 'BTC', cycle: 'wednesday', micro: true, strikeScale: 1, multiplier: 0.1 },
+  ETH: { underlying: 'ETH', cycle: 'monthly', micro: false, strikeScale: 0.01, multiplier: 50 },
+  VE: { underlying: 'ETH', cycle: 'friday', micro: false, strikeScale: 0.01, multiplier: 50 },
+  WE: { underlying: 'ETH', cycle: 'wednesday', micro: false, strikeScale: 0.01, multiplier: 50 },
+  MET: { underlying: 'ETH', cycle: 'monthly', micro: true, strikeScale: 0.01, multiplier: 0.1 },
+  MW: { underlying: 'ETH', cycle: 'friday', micro: true, strikeScale: 0.01, multiplier: 0.1 },
+  MV: { underlying: 'ETH', cycle: 'wednesday', micro: true, strikeScale: 0.01, multiplier: 0.1 },
+};
+
+const CME_OPTION_SYMBOL = new RegExp(
+  `^(${Object.keys(CME_OPTION_ROOTS).sort((a, b) => b.length - a.length).join('|')})([1-5])?([${CME_MONTH_CODES}])(\\d{1,2})\\s*(C|P)\\s*(\\d+(?:\\.\\d+)?)$`,
+  'i',
+);
+
+const FRIDAY = 5;
+const WEDNESDAY = 3;
+
+/** Day of month of the `n`th `weekday` (0 = Sunday) in a month, or null when it does not exist. */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): number | null {
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return day <= daysInMonth ? day : null;
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): number {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  return lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7);
+}
+
+/**
+ * Parse a CME Globex crypto option symbol such as `BTCZ5 C50000` (monthly), `BV2Z5 P95000`
+ * (second-Friday weekly) or `WE1F6 C250000` (first-Wednesday ether weekly). Single-digit
+ * years are read as 202x; two-digit years are accepted too.
+ */
+export function parseCmeInstrument(instr: string): ParsedInstrument | null {
+  const m = instr?.trim().match(CME_OPTION_SYMBOL);
+  if (!m) return null;
+  const [, rootRaw, weekRaw, monthCode, yearRaw, opt, strikeRaw] = m;
+  const root = CME_OPTION_ROOTS[rootRaw.toUpperCase()];
+  if (!root) return null;
+  const weekly = root.cycle !== 'monthly';
+  if (weekly !== (weekRaw !== undefined)) return null;
+
+  const month = CME_MONTH_CODES.indexOf(monthCode.toUpperCase());
+  const year = yearRaw.length === 1 ? 2020 + Number(yearRaw) : 2000 + Number(yearRaw);
+  const day = root.cycle === 'monthly'
+    ? lastWeekdayOfMonth(year, month, FRIDAY)
+    : nthWeekdayOfMonth(year, month, root.cycle === 'friday' ? FRIDAY : WEDNESDAY, Number(weekRaw));
+  if (day === null) return null;
+
+  return {
+    underlying: root.underlying,
+    expiryISO: new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10),
+    strike: Math.round(Number(strikeRaw) * root.strikeScale * 100) / 100,
+    optionType: opt.toUpperCase(),
+  };
+}
+
+/** Underlying units per contract for a CME option symbol (5 BTC, 50 ETH, 0.1 for micros), or null. */
+export function cmeContractMultiplier(instr: string): number | null {
+  const m = instr?.trim().match(CME_OPTION_SYMBOL);
+  return m ? CME_OPTION_ROOTS[m[1].toUpperCase()]?.multiplier ?? null : null;
+}
+
+/**
+ * Build the CME Globex option symbol for an expiry and strike, the inverse of
+ * `parseCmeInstrument`. The root is picked from the expiry weekday: the last Friday of the
+ * month is the monthly, other Fridays and Wednesdays are weeklies. Returns null for
+ * underlyings or expiries CME does not list.
+ */
+export function toCmeSymbol(
+  underlying: string, expiryISO: string, strike: number, optionType: string, opts: { micro?: boolean } = {},
+): string | null {
+  const u = (underlying || '').toUpperCase().trim();
+  const [y, mo, d] = (expiryISO || '').split('-').map(Number);
+  if (!y || !mo || !d) return null;
+  const month = mo - 1;
+  const weekday = new Date(Date.UTC(y, month, d)).getUTCDay();
+  const cycle: CmeCycle | null = weekday === FRIDAY
+    ? (d === lastWeekdayOfMonth(y, month, FRIDAY) ? 'monthly' : 'friday')
+    : weekday === WEDNESDAY ? 'wednesday' : null;
+  if (!cycle) return null;
+  const entry = Object.entries(CME_OPTION_ROOTS)
+    .find(([, r]) => r.underlying === u && r.cycle === cycle && r.micro === !!opts.micro);
+  if (!entry) return null;
+  const [root, spec] = entry;
+  const week = cycle === 'monthly' ? '' : String(Math.ceil(d / 7));
+  const k = (optionType || '').toUpperCase().startsWith('P') ? 'P' : 'C';
+  const strikeDigits = String(Math.round(+strike / spec.strikeScale));
+  return `${root}${week}${CME_MONTH_CODES[month]}${y % 10} ${k}${strikeDigits}`;
+}
+
 export function daysTo(dateISO: string) {
   const today = new Date();
   const target = new Date(dateISO + "T00:00:00Z");
@@ -304,14 +486,31 @@ export function normalizeSecond(ts?: string) {
   return s.length >= 19 ? s.slice(0, 19) : s;
 }
 
-export function fifoMatchAndRealize(inventory: Lot[], trade: Lot): { realized: number; remainder?: Lot } {
+// HIFO consumes the lot that realizes the least gain: the highest-priced long lot, or the
+// lowest-priced short lot.
+function nextLotIndex(inventory: Lot[], method: LotMethod): number {
+  if (method === 'lifo') return inventory.length - 1;
+  if (method !== 'hifo') return 0;
+  let best = 0;
+  for (let i = 1; i < inventory.length; i++) {
+    const better = inventory[i].sign === 1
+      ? inventory[i].price > inventory[best].price
+      : inventory[i].price < inventory[best].price;
+    if (better) best = i;
+  }
+  return best;
+}
+
+/** Match a closing trade against the inventory (mutated) under `method`. */
+export function matchAndRealize(inventory: Lot[], trade: Lot, method: LotMethod = 'fifo'): { realized: number; remainder?: Lot } {
   let realized = 0;
   if (inventory.length === 0 || (inventory[0]?.sign === trade.sign)) {
     return { realized: 0, remainder: trade };
   }
   let remainingQty = Math.abs(trade.qty);
   while (remainingQty > 0 && inventory.length > 0) {
-    const lot = inventory[0];
+    const idx = nextLotIndex(inventory, method);
+    const lot = inventory[idx];
     if (lot.sign === trade.sign) break;
     const closeQty = Math.min(Math.abs(lot.qty), remainingQty);
     if (lot.sign === 1 && trade.sign === -1) {
@@ -322,15 +521,78 @@ export function fifoMatchAndRealize(inventory: Lot[], trade: Lot): { realized: n
       lot.qty -= closeQty;
     }
     remainingQty -= closeQty;
-    if (Math.abs(lot.qty) <= 1e-9) inventory.shift();
+    if (Math.abs(lot.qty) <= 1e-9) inventory.splice(idx, 1);
   }
   const leftover = remainingQty > 0 ? { ...trade, qty: remainingQty } : undefined;
   return { realized, remainder: leftover };
 }
 
-export function classifyStatus(dte: number, pnlPct: number | null, realizedPnl: number) {
-  if (dte <= 7 || (pnlPct !== null && pnlPct <= -10) || realizedPnl <= -100) return "ALERT" as const;
-  if (dte <= 14 || (pnlPct !== null && pnlPct < 0)) return "ATTENTION" as const;
+export function fifoMatchAndRealize(inventory: Lot[], trade: Lot): { realized: number; remainder?: Lot } {
+  return matchAndRealize(inventory, trade, 'fifo');
+}
+
+/** Add an opening lot to the inventory (mutated); average cost keeps one lot at the weighted price. */
+export function addOpenLot(inventory: Lot[], lot: Lot, method: LotMethod = 'fifo'): void {
+  const held = inventory[0];
+  if (method !== 'average' || !held || held.sign !== lot.sign) {
+    inventory.push({ ...lot });
+    return;
+  }
+  const qty = held.qty + lot.qty;
+  held.price = qty > 0 ? (held.price * held.qty + lot.price * lot.qty) / qty : lot.price;
+  held.qty = qty;
+}
+
+/** Realized PnL of a position under `method`; null when it was not computed for that method. */
+export function realizedPnlUnder(p: Position, method: LotMethod): number | null {
+  if (method === 'fifo') return p.realizedPnl;
+  return p.realizedPnlByMethod?.[method] ?? null;
+}
+
+/** Limits that move an open structure to ATTENTION or ALERT; resolved per program playbook and strategy code. */
+export interface StatusThresholds {
+  /** ALERT at or below this many days to expiry, ATTENTION at or below `attentionDte`. */
+  alertDte: number;
+  attentionDte: number;
+  /** ALERT at or below this PnL %, ATTENTION below `attentionPnlPct`. */
+  alertPnlPct: number;
+  attentionPnlPct: number;
+  /** ALERT once realized PnL reaches this loss (positive amount, premium currency); null disables it. */
+  alertLoss: number | null;
+  /** ALERT at this PnL % profit target, ATTENTION from `profitTargetNear` × target; null disables it. */
+  profitTargetPct: number | null;
+  profitTargetNear: number;
+}
+
+export const DEFAULT_STATUS_THRESHOLDS: StatusThresholds = {
+  alertDte: 7,
+  attentionDte: 14,
+  alertPnlPct: -10,
+  attentionPnlPct: 0,
+  alertLoss: 100,
+  profitTargetPct: null,
+  profitTargetNear: 0.8,
+};
+
+export function classifyStatus(
+  dte: number,
+  pnlPct: number | null,
+  realizedPnl: number,
+  thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS,
+) {
+  const t = thresholds;
+  const target = t.profitTargetPct != null && t.profitTargetPct > 0 && pnlPct !== null ? t.profitTargetPct : null;
+  if (
+    dte <= t.alertDte ||
+    (pnlPct !== null && pnlPct <= t.alertPnlPct) ||
+    (t.alertLoss != null && realizedPnl <= -t.alertLoss) ||
+    (target !== null && (pnlPct as number) >= target)
+  ) return "ALERT" as const;
+  if (
+    dte <= t.attentionDte ||
+    (pnlPct !== null && pnlPct < t.attentionPnlPct) ||
+    (target !== null && (pnlPct as number) >= target * t.profitTargetNear)
+  ) return "ATTENTION" as const;
   return "OPEN" as const;
 }
 
@@ -352,6 +614,10 @@ export function devQuickTests() {
     console.assert(p3 === null, 'parseInstrument should return null for non-option');
     const px = parseInstrumentByExchange('deribit', 'BTC-27DEC25-50000-C');
     console.assert(!!px && px.underlying === 'BTC', 'parseInstrumentByExchange deribit passthrough');
+    const pc = parseInstrumentByExchange('coincall', 'BTCUSD-27DEC25-50000-C');
+    console.assert(!!pc && pc.underlying === 'BTC' && pc.expiryISO === '2025-12-27', 'parseInstrumentByExchange coincall');
+    const pm = parseInstrumentByExchange('cme', 'BTCZ5 C50000');
+    console.assert(!!pm && pm.expiryISO === '2025-12-26' && pm.strike === 50000, 'parseInstrumentByExchange cme monthly');
     const psd = parseInstrument('BTC-7JUN24-50000-C');
     console.assert(!!psd && psd.expiryISO === '2024-06-07', 'parseInstrument handles single digit day');
 
@@ -424,10 +690,10 @@ export function toCoincallSymbol(underlying: string, expiryISO: string, strike:
 export function toDeribitInstrument(
   underlying: string, expiryISO: string, strike: number, optionType: string
 ): string {
-  const u = (underlying || '').toUpperCase(); // e.g., BTC / ETH
+  const u = (underlying || '').toUpperCase(); // e.g., BTC / ETH / SOL_USDC
   const date = isoToDMMMYY(expiryISO);
   const k = (optionType || '').toUpperCase().startsWith('P') ? 'P' : 'C';
-  const strikeStr = String(+strike); // normalize 50000.00 -> "50000"
+  const strikeStr = String(+strike).replace('.', 'd'); // 50000.00 -> "50000", 0.625 -> "0d625"
   return `${u}-${date}-${strikeStr}-${k}`;
 }
 
@@ -438,8 +704,11 @@ export interface LegMarkRef {
   defaultMultiplier: number;
 }
 
-/** Build a stable cache key + symbol for fetching marks for a leg. */
-export function getLegMarkRef(position: Position, leg: Leg): LegMarkRef | null {
+/**
+ * Build a stable cache key + symbol for fetching marks for a leg. Expired legs get no ref
+ * unless `includeExpired` is set (reading stored mark history rather than fetching).
+ */
+export function getLegMarkRef(position: Position, leg: Leg, opts: { includeExpired?: boolean } = {}): LegMarkRef | null {
   const exchange = (leg.exchange ?? position.exchange) as Exchange | undefined;
   if (!exchange) return null;
 
@@ -448,19 +717,25 @@ export function getLegMarkRef(position: Position, leg: Leg): LegMarkRef | null {
 
   // Skip fetching marks for expired options; Deribit returns 400 for inactive instruments
   const dte = daysTo(expiryISO);
-  if (Number.isFinite(dte) && dte < 0) return null;
+  if (!opts.includeExpired && Number.isFinite(dte) && dte < 0) return null;
 
-  if (exchange === 'coincall') {
-    const symbol = toCoincallSymbol(position.underlying, expiryISO, leg.strike, leg.optionType);
-    return { key: `coincall:${symbol}`, symbol, exchange, defaultMultiplier: 1 };
-  }
+  // Venues without a mark source (CME) have nothing to fetch
+  const adapter = venueAdapter(exchange);
+  if (!adapter?.fetchMark) return null;
 
-  if (exchange === 'deribit') {
-    const symbol = toDeribitInstrument(position.underlying, expiryISO, leg.strike, leg.optionType);
-    return { key: `deribit:${symbol}`, symbol, exchange, defaultMultiplier: 1 };
-  }
+  const symbol = adapter.toSymbol(position.underlying, expiryISO, leg.strike, leg.optionType);
+  if (!symbol) return null;
+  return { key: `${exchange}:${symbol}`, symbol, exchange, defaultMultiplier: adapter.contractMultiplier(symbol) ?? 1 };
+}
 
-  return null;
+/**
+ * Contract multiplier for a leg's mark: the venue's per-instrument size where it reports one
+ * with the mark (Coincall), otherwise the ref's fixed default. May be null when a venue that
+ * reports sizes returned none.
+ */
+export function markMultiplier(ref: LegMarkRef, info?: MarksMap[string] | null): number | null | undefined {
+  const adapter = venueAdapter(ref.exchange);
+  return adapter ? adapter.contractMultiplier(ref.symbol, info) : ref.defaultMultiplier;
 }
 
 /** Unrealized PnL for a single leg given mark price.
@@ -498,7 +773,7 @@ export function positionUnrealizedPnL(
     const info = marks[ref.key];
     if (info?.price == null) continue;
 
-    const multiplier = ref.exchange === 'coincall' ? info.multiplier : ref.defaultMultiplier;
+    const multiplier = markMultiplier(ref, info);
     sum += legUnrealizedPnL(l, info.price, multiplier);
   }
   return sum;
@@ -521,12 +796,101 @@ export function legGreekExposure(
   return (perContractGreek as number) * legNetQty(leg) * m;
 }
 
-/** Sum greek across all legs in a position using the marks cache (by exchange). */
 type GreeksData = { delta?: number | null; gamma?: number | null; theta?: number | null; vega?: number | null; rho?: number | null };
+type MarkInfo = MarksMap[string];
+
+/** Fallback inputs for model greeks when a venue omits greeks or is offline. */
+export type PricingContext = {
+  /** Underlying index price, used when the mark carries none. */
+  spot?: number | null;
+  /** Index price per underlying, consulted before `spot` for books spanning several. */
+  spots?: Record<string, number>;
+  /** Volatility (decimal fraction) used when the mark has neither an IV nor a price. */
+  vol?: number | null;
+  /**
+   * Per-strike volatility (e.g. a fitted surface, see `surfaceVolAt`) consulted before
+   * `vol` for legs without a usable mark.
+   */
+  volAt?: (underlying: string, strike: number, expiryISO: string, now?: number) => number | null;
+  now?: number;
+};
+
+function positiveOrNull(v: number | null | undefined): number | null {
+  return v != null && Number.isFinite(v) && v > 0 ? v : null;
+}
 
+function hasVenueGreeks(greeks: GreeksData | undefined): boolean {
+  if (!greeks) return false;
+  return (['delta', 'gamma', 'theta', 'vega', 'rho'] as const).some((k) => Number.isFinite(greeks[k] as number));
+}
+
+/** Everything the Black-76 model needs to reprice one leg. */
+export type LegModelInputs = {
+  spot: number;
+  iv: number;
+  strike: number;
+  expiryISO: string;
+  optionType: string;
+  settlement: Settlement;
+  now?: number;
+};
+
+/**
+ * Resolve model inputs for a leg. IV preference: the mark IV, the IV implied by the mark
+ * price, the context surface (`volAt`), then the flat context volatility. Returns null
+ * when no spot or IV is available.
+ */
+export function legModelInputs(
+  p: Position,
+  leg: Leg,
+  info: MarkInfo | undefined,
+  ctx?: PricingContext
+): LegModelInputs | null {
+  const spot = info?.indexPrice ?? ctx?.spots?.[p.underlying.toUpperCase()] ?? ctx?.spot;
+  const expiryISO = leg.expiry ?? p.expiryISO;
+  if (spot == null || !(spot > 0) || !expiryISO) return null;
+
+  const base = {
+    spot,
+    strike: leg.strike,
+    expiryISO,
+    optionType: leg.optionType,
+    settlement: settlementFor(leg.exchange ?? p.exchange, p.underlying),
+    now: ctx?.now,
+  };
+  const iv =
+    (info?.iv != null && info.iv > 0 ? info.iv : null) ??
+    (info?.price != null ? impliedVolFromMark({ ...base, markPrice: info.price }) : null) ??
+    positiveOrNull(ctx?.volAt?.(p.underlying, leg.strike, expiryISO, ctx.now)) ??
+    (ctx?.vol != null && ctx.vol > 0 ? ctx.vol : null);
+  if (iv == null) return null;
+  return { ...base, iv };
+}
+
+/**
+ * Per-contract greeks for a leg: the venue's own greeks when present, otherwise Black-76
+ * greeks from the mark IV, the IV implied by the mark price, or the context volatility.
+ */
+export function legGreeks(
+  p: Position,
+  leg: Leg,
+  info: MarkInfo | undefined,
+  ctx?: PricingContext
+): GreeksData | null {
+  if (hasVenueGreeks(info?.greeks)) return info!.greeks as GreeksData;
+
+  const inputs = legModelInputs(p, leg, info, ctx);
+  const model = inputs ? modelLegGreeks(inputs) : null;
+  if (!model) return null;
+  const { delta, gamma, theta, vega, rho } = model;
+  return { delta, gamma, theta, vega, rho };
+}
+
+/** Sum greek across all legs in a position using the marks cache (by exchange). */
 export function positionGreeks(
   p: Position,
-  marks: Record<string, { price: number | null; multiplier: number | null; greeks?: GreeksData }>
+  marks: MarksMap,
+  ctx?: PricingContext
 ): { delta: number; gamma: number; theta: number; vega: number; rho: number } {
   let delta = 0, gamma = 0, theta = 0, vega = 0, rho = 0;
   for (const l of p.legs) {
@@ -534,8 +898,8 @@ export function positionGreeks(
     if (!ref) continue;
 
     const info = marks[ref.key];
-    const g = info?.greeks || {};
-    const multiplier = ref.exchange === 'coincall' ? info?.multiplier : ref.defaultMultiplier;
+    const g = legGreeks(p, l, info, ctx) || {};
+    const multiplier = markMultiplier(ref, info);
 
     delta += legGreekExposure(l, g.delta ?? undefined, multiplier);
     gamma += legGreekExposure(l, g.gamma ?? undefined, multiplier);
@@ -555,6 +919,11 @@ export function fmtGreek(n: number | null | undefined, digits = 4): string {
   return (n as number).toLocaleString(undefined, { maximumFractionDigits: digits });
 }
 
+/** Currency a venue pays option premiums in: the coin for inverse options, else USD. */
+export function premiumCurrencyFor(exchange: string | null | undefined, underlying: string): string {
+  return settlementFor(exchange, underlying) === 'inverse' ? underlying.toUpperCase() : 'USD';
+}
+
 export function fmtPremium(n: number, asset?: string, digits?: number) {
   const sign = n < 0 ? '-' : '';
   const abs = Math.abs(n);
@@ -0,0 +1,95 @@
+-- Append-only log of risk limit breaches and recoveries, written by the portal breach
+-- evaluator on each marks refresh. The newest row per breach_key gives the active set.
+-- Account-scoped from the start: client_id is assigned by assign_portal_state_client and
+-- RLS follows the hardened portal-state pattern.
+
+begin;
+
+create table if not exists public.risk_breach_events (
+  id          uuid primary key default gen_random_uuid(),
+  client_id   uuid references public.clients(client_id) on delete restrict,
+  client_name text not null,
+  created_by  uuid default auth.uid(),
+  breach_key  text not null,
+  kind        text not null check (kind in ('breach', 'recovery')),
+  value       double precision not null,
+  limit_desc  text,
+  detail      text not null,
+  ts          timestamptz not null default now()
+);
+
+create index if not exists risk_breach_events_account_ts_idx
+  on public.risk_breach_events (client_id, ts desc);
+create index if not exists risk_breach_events_client_key_ts_idx
+  on public.risk_breach_events (client_name, breach_key, ts desc);
+
+alter table public.risk_breach_events enable row level security;
+
+drop policy if exists "risk_breach_events account members read own" on public.risk_breach_events;
+create policy "risk_breach_events account members read own"
+  on public.risk_breach_events for select
+  using (client_id = helpers.current_client_id());
+
+drop policy if exists "risk_breach_events account members insert own" on public.risk_breach_events;
+create policy "risk_breach_events account members insert own"
+  on public.risk_breach_events for insert
+  with check (client_id = helpers.current_client_id());
+
+drop policy if exists "risk_breach_events admins read all" on public.risk_breach_events;
+create policy "risk_breach_events admins read all"
+  on public.risk_breach_events for select
+  using (helpers.is_admin());
+
+drop policy if exists "risk_breach_events admins insert" on public.risk_breach_events;
+create policy "risk_breach_events admins insert"
+  on public.risk_breach_events for insert
+  with check (helpers.is_admin());
+
+drop trigger if exists assign_portal_state_client on public.risk_breach_events;
+create trigger assign_portal_state_client
+  before insert or update on public.risk_breach_events
+  for each row execute function public.assign_portal_state_client();
+
+-- Keep the client_name snapshot in step with renames, like the other portal state tables.
+create or replace function public.cascade_client_name_snapshots()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_table text;
+begin
+  if new.client_name is not distinct from old.client_name then
+    return new;
+  end if;
+
+  foreach v_table in array array[
+    'appropriateness_assessments',
+    'strategy_selections',
+    'risk_limit_selections',
+    'exchange_key_events',
+    'activation_events',
+    'update_approvals',
+    'audit_events',
+    'position_interventions',
+    'risk_breach_events',
+    'transaction_logs',
+    'unprocessed_imports',
+    'positions'
+  ]
+  loop
+    continue when to_regclass(format('public.%I', v_table)) is null;
+    execute format(
+      'update public.%I set client_name = $1 where client_id = $2 and client_name is distinct from $1',
+      v_table
+    ) using new.client_name, new.client_id;
+  end loop;
+
+  return new;
+end;
+$$;
+
+revoke all on function public.cascade_client_name_snapshots() from public;
+
+commit;
@@ -0,0 +1,47 @@
+-- Append-only history of venue marks, one row per instrument per refresh. Written by the
+-- desk dashboard on every marks refresh and on its snapshot schedule; read back to chart
+-- structure PnL and greeks over time. Marks are public market data, so rows carry no
+-- client scope and any signed-in user may read them. Every account's history, PnL explain
+-- and daily snapshots are valued from these rows, so only admins (the desk) may append them;
+-- the service role bypasses RLS for scheduled jobs.
+
+begin;
+
+create table if not exists public.mark_snapshots (
+  id           bigint generated always as identity primary key,
+  exchange     text not null,
+  instrument   text not null,
+  ts           timestamptz not null default now(),
+  source       text not null default 'refresh' check (source in ('refresh', 'schedule')),
+  mark         double precision,
+  bid          double precision,
+  ask          double precision,
+  iv           double precision,
+  delta        double precision,
+  gamma        double precision,
+  theta        double precision,
+  vega         double precision,
+  rho          double precision,
+  index_price  double precision,
+  multiplier   double precision,
+  created_by   uuid default auth.uid(),
+  unique (exchange, instrument, ts)
+);
+
+create index if not exists mark_snapshots_instrument_ts_idx
+  on public.mark_snapshots (exchange, instrument, ts desc);
+
+alter table public.mark_snapshots enable row level security;
+
+drop policy if exists "mark_snapshots authenticated read" on public.mark_snapshots;
+create policy "mark_snapshots authenticated read"
+  on public.mark_snapshots for select
+  using (auth.role() = 'authenticated');
+
+drop policy if exists "mark_snapshots authenticated insert" on public.mark_snapshots;
+drop policy if exists "mark_snapshots admins insert" on public.mark_snapshots;
+create policy "mark_snapshots admins insert"
+  on public.mark_snapshots for insert
+  with check (helpers.is_admin());
+
+commit;
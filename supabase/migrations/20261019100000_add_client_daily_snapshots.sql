@@ -0,0 +1,102 @@
+-- Daily NAV, cumulative PnL and net greeks per client for the portal dashboard's equity,
+-- PnL and greek charts. Derived by the portal from stored marks (mark_snapshots), realized
+-- fills and, when connected, the Portfolio Data Hub summary equity. Append-only: a day is
+-- re-recorded when its derivation changes and the newest row per (client, day) wins.
+-- Account-scoped like the other portal state tables.
+
+begin;
+
+create table if not exists public.client_daily_snapshots (
+  id             uuid primary key default gen_random_uuid(),
+  client_id      uuid references public.clients(client_id) on delete restrict,
+  client_name    text not null,
+  created_by     uuid default auth.uid(),
+  day            date not null,
+  equity         double precision,
+  equity_source  text not null default 'positions' check (equity_source in ('hub', 'positions')),
+  pnl            double precision not null,
+  realized       double precision not null,
+  unrealized     double precision not null,
+  delta          double precision not null default 0,
+  gamma          double precision not null default 0,
+  theta          double precision not null default 0,
+  vega           double precision not null default 0,
+  ts             timestamptz not null default now()
+);
+
+create index if not exists client_daily_snapshots_account_day_idx
+  on public.client_daily_snapshots (client_id, day desc, ts desc);
+create index if not exists client_daily_snapshots_client_day_idx
+  on public.client_daily_snapshots (client_name, day desc, ts desc);
+
+alter table public.client_daily_snapshots enable row level security;
+
+drop policy if exists "client_daily_snapshots account members read own" on public.client_daily_snapshots;
+create policy "client_daily_snapshots account members read own"
+  on public.client_daily_snapshots for select
+  using (client_id = helpers.current_client_id());
+
+drop policy if exists "client_daily_snapshots account members insert own" on public.client_daily_snapshots;
+create policy "client_daily_snapshots account members insert own"
+  on public.client_daily_snapshots for insert
+  with check (client_id = helpers.current_client_id());
+
+drop policy if exists "client_daily_snapshots admins read all" on public.client_daily_snapshots;
+create policy "client_daily_snapshots admins read all"
+  on public.client_daily_snapshots for select
+  using (helpers.is_admin());
+
+drop policy if exists "client_daily_snapshots admins insert" on public.client_daily_snapshots;
+create policy "client_daily_snapshots admins insert"
+  on public.client_daily_snapshots for insert
+  with check (helpers.is_admin());
+
+drop trigger if exists assign_portal_state_client on public.client_daily_snapshots;
+create trigger assign_portal_state_client
+  before insert or update on public.client_daily_snapshots
+  for each row execute function public.assign_portal_state_client();
+
+-- Keep the client_name snapshot in step with renames, like the other portal state tables.
+create or replace function public.cascade_client_name_snapshots()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_table text;
+begin
+  if new.client_name is not distinct from old.client_name then
+    return new;
+  end if;
+
+  foreach v_table in array array[
+    'appropriateness_assessments',
+    'strategy_selections',
+    'risk_limit_selections',
+    'exchange_key_events',
+    'activation_events',
+    'update_approvals',
+    'audit_events',
+    'position_interventions',
+    'risk_breach_events',
+    'client_daily_snapshots',
+    'transaction_logs',
+    'unprocessed_imports',
+    'positions'
+  ]
+  loop
+    continue when to_regclass(format('public.%I', v_table)) is null;
+    execute format(
+      'update public.%I set client_name = $1 where client_id = $2 and client_name is distinct from $1',
+      v_table
+    ) using new.client_name, new.client_id;
+  end loop;
+
+  return new;
+end;
+$$;
+
+revoke all on function public.cascade_client_name_snapshots() from public;
+
+commit;
@@ -0,0 +1,42 @@
+-- Reporting lot-matching method for realized PnL, per program and per client.
+-- Operational PnL stays FIFO; the program setting wins over the client setting and
+-- unset means FIFO. Configuration only: the app replays fills under the method.
+
+begin;
+
+alter table public.programs
+  add column if not exists lot_method text;
+
+alter table public.clients
+  add column if not exists lot_method text;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'programs_lot_method_check'
+      and conrelid = 'public.programs'::regclass
+  ) then
+    alter table public.programs
+      add constraint programs_lot_method_check
+      check (lot_method is null or lot_method in ('fifo', 'lifo', 'hifo', 'average'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'clients_lot_method_check'
+      and conrelid = 'public.clients'::regclass
+  ) then
+    alter table public.clients
+      add constraint clients_lot_method_check
+      check (lot_method is null or lot_method in ('fifo', 'lifo', 'hifo', 'average'));
+  end if;
+end;
+$$;
+
+comment on column public.programs.lot_method is
+  'Reporting lot-matching method (fifo, lifo, hifo, average) for the program; overrides the client setting.';
+comment on column public.clients.lot_method is
+  'Reporting lot-matching method (fifo, lifo, hifo, average) for the client; null means FIFO.';
+
+commit;
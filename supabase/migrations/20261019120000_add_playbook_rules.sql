@@ -0,0 +1,33 @@
+-- Structured playbook rules alongside the free-text profit/stop/time rules. Each entry is
+-- { "kind": "profit" | "stop" | "dte" | "short_delta", "value": number }; the app evaluates
+-- them against open structures with live marks.
+
+begin;
+
+alter table public.program_playbooks
+  add column if not exists rules jsonb not null default '[]'::jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'program_playbooks_rules_is_array'
+      and conrelid = 'public.program_playbooks'::regclass
+  ) then
+    alter table public.program_playbooks
+      add constraint program_playbooks_rules_is_array
+      check (jsonb_typeof(rules) = 'array');
+  end if;
+end;
+$$;
+
+comment on column public.program_playbooks.rules is
+  'Structured rules: take profit at % of max gain, stop at multiple of entry premium, close at DTE, close if short delta above.';
+
+drop policy if exists "program_playbooks admin update" on public.program_playbooks;
+create policy "program_playbooks admin update"
+  on public.program_playbooks for update
+  using (helpers.is_admin())
+  with check (helpers.is_admin());
+
+commit;
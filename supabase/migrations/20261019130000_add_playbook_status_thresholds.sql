@@ -0,0 +1,29 @@
+-- Status thresholds per program playbook, with overrides per strategy code. Keys are
+-- optional overrides of the app defaults (alert at 7 DTE, PnL <= -10% or a realized
+-- loss of 100; attention at 14 DTE or negative PnL):
+--   alert_dte, attention_dte, alert_pnl_pct, attention_pnl_pct, alert_loss,
+--   profit_target_pct, profit_target_near, by_strategy: { "<strategy_code>": { ... } }
+
+begin;
+
+alter table public.program_playbooks
+  add column if not exists status_thresholds jsonb not null default '{}'::jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'program_playbooks_status_thresholds_is_object'
+      and conrelid = 'public.program_playbooks'::regclass
+  ) then
+    alter table public.program_playbooks
+      add constraint program_playbooks_status_thresholds_is_object
+      check (jsonb_typeof(status_thresholds) = 'object');
+  end if;
+end;
+$$;
+
+comment on column public.program_playbooks.status_thresholds is
+  'Status thresholds (DTE, PnL %, realized loss, profit target) for the program''s structures, with by_strategy overrides per strategy code.';
+
+commit;
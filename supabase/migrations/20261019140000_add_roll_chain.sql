@@ -0,0 +1,18 @@
+-- Roll chains: a structure opened by rolling another records its predecessor. The closing
+-- trades of the roll are a lifecycle = 'close' structure targeting the predecessor, as for
+-- any close; following rolled_from_position_id back gives the whole campaign.
+
+begin;
+
+alter table public.positions
+  add column if not exists rolled_from_position_id uuid
+    references public.positions(position_id) on delete set null;
+
+create index if not exists positions_rolled_from_position_id_idx
+  on public.positions(rolled_from_position_id)
+  where rolled_from_position_id is not null;
+
+comment on column public.positions.rolled_from_position_id is
+  'Structure this one was rolled from; links the structures of a roll campaign.';
+
+commit;
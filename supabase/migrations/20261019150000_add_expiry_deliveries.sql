@@ -0,0 +1,64 @@
+-- Expiry settlement records. When every open leg of a structure has expired, the desk
+-- dashboard books the venue delivery price as closing fills at intrinsic value (a closing
+-- structure targeting the expired one) and writes one row here per settlement fill.
+-- Rows are account-owned like the portal state in 20260812090000: members read their own
+-- account's settlements, admins read and book all of them, and the account comes from
+-- assign_portal_state_client rather than the supplied client_name.
+
+begin;
+
+create table if not exists public.deliveries (
+  delivery_id  uuid primary key default gen_random_uuid(),
+  trade_id     text not null,
+  delivered_at timestamptz not null,
+  delivery_type text,
+  notes        text
+);
+
+alter table public.deliveries
+  add column if not exists position_id uuid references public.positions(position_id) on delete cascade,
+  add column if not exists client_id uuid,
+  add column if not exists client_name text,
+  add column if not exists delivery_price numeric,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists created_by uuid default auth.uid();
+
+alter table public.deliveries drop constraint if exists deliveries_client_id_fkey;
+alter table public.deliveries
+  add constraint deliveries_client_id_fkey foreign key (client_id)
+  references public.clients(client_id) on delete restrict;
+
+create index if not exists deliveries_position_id_idx on public.deliveries (position_id);
+create index if not exists deliveries_account_created_at_idx on public.deliveries (client_id, created_at desc);
+
+comment on column public.deliveries.position_id is
+  'Closing structure holding the settlement fill (fills.trade_id = deliveries.trade_id).';
+comment on column public.deliveries.delivery_price is
+  'Venue index delivery price (USD) the fill was settled at.';
+
+alter table public.deliveries enable row level security;
+
+drop policy if exists "deliveries authenticated read" on public.deliveries;
+drop policy if exists "deliveries authenticated insert" on public.deliveries;
+drop policy if exists "deliveries account members read own" on public.deliveries;
+drop policy if exists "deliveries admins read all" on public.deliveries;
+drop policy if exists "deliveries admins insert" on public.deliveries;
+
+create policy "deliveries account members read own"
+  on public.deliveries for select
+  using (client_id = helpers.current_client_id());
+
+create policy "deliveries admins read all"
+  on public.deliveries for select
+  using (helpers.is_admin());
+
+create policy "deliveries admins insert"
+  on public.deliveries for insert
+  with check (helpers.is_admin());
+
+drop trigger if exists assign_portal_state_client on public.deliveries;
+create trigger assign_portal_state_client
+  before insert or update on public.deliveries
+  for each row execute function public.assign_portal_state_client();
+
+commit;
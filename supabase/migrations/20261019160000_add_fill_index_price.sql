@@ -0,0 +1,12 @@
+-- Underlying index price at fill time. Inverse (coin-settled) option premiums are converted
+-- to USD at this price when realizing PnL, so the USD view does not drift with the coin.
+
+begin;
+
+alter table public.fills
+  add column if not exists index_price numeric;
+
+comment on column public.fills.index_price is
+  'Underlying index (USD) at fill time; converts coin-denominated premiums and fees to USD.';
+
+commit;
@@ -0,0 +1,70 @@
+-- Further Portfolio Data Hub accounts for a portal client, beside the one mapped on
+-- clients.hub_account_id (typically one Hub account per venue). The portal gateway reads
+-- them with the caller's JWT, so members see only their own account's links; admins
+-- manage them. A Hub account routes to at most one client, whether as the mapped
+-- account or as a linked one.
+
+begin;
+
+create table if not exists public.client_hub_accounts (
+  id                uuid primary key default gen_random_uuid(),
+  client_id         uuid not null references public.clients(client_id) on delete restrict,
+  hub_account_id    uuid not null,
+  hub_account_label text,
+  mapped_at         timestamptz not null default now()
+);
+
+create unique index if not exists client_hub_accounts_hub_account_id_unique
+  on public.client_hub_accounts (hub_account_id);
+create index if not exists client_hub_accounts_client_idx
+  on public.client_hub_accounts (client_id, mapped_at);
+
+comment on table public.client_hub_accounts is
+  'Portfolio Data Hub accounts linked to a client in addition to clients.hub_account_id.';
+
+create or replace function public.enforce_single_hub_account_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_table_name = 'client_hub_accounts' then
+    if exists (select 1 from public.clients c where c.hub_account_id = new.hub_account_id) then
+      raise exception 'hub account is already mapped to a client' using errcode = '23505';
+    end if;
+  elsif new.hub_account_id is not null
+    and exists (select 1 from public.client_hub_accounts l where l.hub_account_id = new.hub_account_id) then
+    raise exception 'hub account is already linked to a client' using errcode = '23505';
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function public.enforce_single_hub_account_owner() from public;
+
+drop trigger if exists client_hub_accounts_single_owner on public.client_hub_accounts;
+create trigger client_hub_accounts_single_owner
+  before insert or update on public.client_hub_accounts
+  for each row execute function public.enforce_single_hub_account_owner();
+
+drop trigger if exists clients_single_hub_account_owner on public.clients;
+create trigger clients_single_hub_account_owner
+  before insert or update of hub_account_id on public.clients
+  for each row execute function public.enforce_single_hub_account_owner();
+
+alter table public.client_hub_accounts enable row level security;
+
+drop policy if exists "client hub accounts members read own" on public.client_hub_accounts;
+drop policy if exists "client hub accounts admins manage" on public.client_hub_accounts;
+
+create policy "client hub accounts members read own"
+  on public.client_hub_accounts for select
+  using (client_id = helpers.current_client_id());
+
+create policy "client hub accounts admins manage"
+  on public.client_hub_accounts for all
+  using (helpers.is_admin())
+  with check (helpers.is_admin());
+
+commit;